@@ -0,0 +1,3 @@
+ALTER TABLE "todo" ADD COLUMN "start_date" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "todo" ADD COLUMN "due_date" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_user_id_due_date_idx" ON "todo" USING btree ("user_id","due_date");
\ No newline at end of file
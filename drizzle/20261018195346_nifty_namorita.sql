@@ -0,0 +1,2 @@
+CREATE TYPE "public"."todo_priority" AS ENUM('none', 'low', 'medium', 'high', 'urgent');--> statement-breakpoint
+ALTER TABLE "todo" ADD COLUMN "priority" "todo_priority" DEFAULT 'none' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "todo" ADD COLUMN "rank" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_user_id_rank_idx" ON "todo" USING btree ("user_id","rank");--> statement-breakpoint
+-- Backfill manual order for existing todos: oldest first, spaced by the rank gap (1024)
+UPDATE "todo" SET "rank" = "ranked"."position" * 1024 FROM (SELECT "id", row_number() OVER (PARTITION BY "user_id" ORDER BY "created_at") AS "position" FROM "todo") AS "ranked" WHERE "todo"."id" = "ranked"."id";
@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "todo_checklist_item" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"rank" double precision DEFAULT 0 NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "todo_checklist_item" ADD CONSTRAINT "todo_checklist_item_todo_id_todo_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todo"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "todo_checklist_item" ADD CONSTRAINT "todo_checklist_item_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_checklist_item_todo_id_rank_idx" ON "todo_checklist_item" USING btree ("todo_id","rank");
\ No newline at end of file
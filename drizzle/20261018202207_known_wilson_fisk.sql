@@ -0,0 +1 @@
+ALTER TABLE "todo" ADD COLUMN "recurrence" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "todo" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_deleted_at_idx" ON "todo" USING btree ("deleted_at");
\ No newline at end of file
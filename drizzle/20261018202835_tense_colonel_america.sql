@@ -0,0 +1,2 @@
+ALTER TABLE "todo" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_search_vector_idx" ON "todo" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "todo_revision" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"field" varchar(50) NOT NULL,
+	"previous_value" jsonb,
+	"new_value" jsonb
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "todo_revision" ADD CONSTRAINT "todo_revision_todo_id_todo_id_fk" FOREIGN KEY ("todo_id") REFERENCES "public"."todo"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "todo_revision" ADD CONSTRAINT "todo_revision_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_revision_todo_id_created_at_idx" ON "todo_revision" USING btree ("todo_id","created_at");
\ No newline at end of file
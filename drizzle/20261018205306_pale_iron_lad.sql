@@ -0,0 +1,2 @@
+ALTER TABLE "todo" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
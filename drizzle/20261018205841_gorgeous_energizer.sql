@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "todo_change" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"todo_id" uuid NOT NULL,
+	"type" varchar(20) NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "todo_change" ADD CONSTRAINT "todo_change_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_change_user_id_id_idx" ON "todo_change" USING btree ("user_id","id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "todo_change_created_at_idx" ON "todo_change" USING btree ("created_at");
\ No newline at end of file
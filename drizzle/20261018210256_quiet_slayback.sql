@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "outbox_event" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_error" text,
+	"processed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_event_pending_idx" ON "outbox_event" USING btree ("next_attempt_at") WHERE "outbox_event"."processed_at" is null;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "scheduled_task" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"cron" varchar(100) NOT NULL,
+	"next_run_at" timestamp with time zone NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"last_finished_at" timestamp with time zone,
+	"last_duration_ms" integer,
+	"last_error" text,
+	"last_run_by" varchar(100),
+	CONSTRAINT "scheduled_task_name_unique" UNIQUE("name")
+);
@@ -0,0 +1,62 @@
+CREATE TABLE IF NOT EXISTS "webhook_delivery" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"endpoint_id" uuid NOT NULL,
+	"event_id" uuid,
+	"event_type" varchar(50) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_status_code" integer,
+	"last_error" text,
+	"delivered_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_delivery_attempt" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"delivery_id" uuid NOT NULL,
+	"status_code" integer,
+	"error" text,
+	"response_body" text,
+	"duration_ms" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_endpoint" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"url" varchar(2048) NOT NULL,
+	"description" varchar(200),
+	"secret" varchar(100) NOT NULL,
+	"event_types" jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"disabled_at" timestamp with time zone,
+	"disabled_reason" text
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_endpoint_id_webhook_endpoint_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."webhook_endpoint"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_delivery_attempt" ADD CONSTRAINT "webhook_delivery_attempt_delivery_id_webhook_delivery_id_fk" FOREIGN KEY ("delivery_id") REFERENCES "public"."webhook_delivery"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "webhook_delivery_endpoint_id_event_id_idx" ON "webhook_delivery" USING btree ("endpoint_id","event_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_delivery_endpoint_id_created_at_idx" ON "webhook_delivery" USING btree ("endpoint_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_delivery_attempt_delivery_id_idx" ON "webhook_delivery_attempt" USING btree ("delivery_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_endpoint_user_id_idx" ON "webhook_endpoint" USING btree ("user_id");
\ No newline at end of file
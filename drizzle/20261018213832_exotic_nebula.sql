@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "personal_access_token" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"expires_at" timestamp with time zone,
+	"last_used_at" timestamp with time zone
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "personal_access_token" ADD CONSTRAINT "personal_access_token_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "personal_access_token_token_hash_idx" ON "personal_access_token" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "personal_access_token_user_id_idx" ON "personal_access_token" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+-- Permissions and built-in roles the app needs to be administered; `pnpm db:seed` is optional
+INSERT INTO "permission" ("name") VALUES
+	('users:read'),
+	('users:write'),
+	('roles:read'),
+	('roles:write')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "role" ("name", "description") VALUES
+	('admin', 'Administrator with full system access'),
+	('user', 'Standard user with basic access')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "role_permission" ("role_id", "permission_id")
+SELECT "role"."id", "permission"."id"
+FROM "role"
+CROSS JOIN "permission"
+WHERE "role"."name" = 'admin'
+	AND "permission"."name" IN ('users:read', 'users:write', 'roles:read', 'roles:write')
+ON CONFLICT ("role_id", "permission_id") DO NOTHING;
@@ -0,0 +1,11 @@
+-- Grant the audit:read permission to admin
+INSERT INTO "permission" ("name") VALUES ('audit:read')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "role_permission" ("role_id", "permission_id")
+SELECT "role"."id", "permission"."id"
+FROM "role"
+CROSS JOIN "permission"
+WHERE "role"."name" = 'admin'
+	AND "permission"."name" = 'audit:read'
+ON CONFLICT ("role_id", "permission_id") DO NOTHING;
@@ -0,0 +1 @@
+ALTER TABLE "webhook_delivery_attempt" DROP COLUMN IF EXISTS "response_body";
\ No newline at end of file
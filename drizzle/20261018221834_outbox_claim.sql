@@ -0,0 +1,2 @@
+ALTER TABLE "outbox_event" ADD COLUMN "locked_by" varchar(100);--> statement-breakpoint
+ALTER TABLE "outbox_event" ADD COLUMN "locked_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Checkbox,
+  Code,
+  CopyButton,
+  Group,
+  Loader,
+  Modal,
+  Select,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconAlertCircle, IconCheck, IconCopy, IconPlus, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import dayjs from 'dayjs';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type AccessToken = RouterOutputs['personalAccessToken']['getAll']['accessTokens'][number];
+
+const EXPIRY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  'todos:read': 'Read todos, tags and projects',
+  'todos:write': 'Create, change and delete todos, tags and projects',
+  'profile:read': 'Read your profile and roles',
+  'profile:write': 'Update your profile',
+  'webhooks:read': 'Read webhook endpoints and deliveries',
+  'webhooks:write': 'Manage webhook endpoints',
+  admin: 'Use admin features your roles allow',
+};
+
+function formatTime(date: Date | null): string {
+  return date ? dayjs(date).format('MMM D, YYYY HH:mm') : 'never';
+}
+
+const showError = (message: string) => {
+  notifications.show({
+    title: 'Error',
+    message,
+    color: 'red',
+  });
+};
+
+/**
+ * Shows a new token once, right after it was created
+ */
+function TokenModal({ token, onClose }: { token: string | null; onClose: () => void }) {
+  return (
+    <Modal opened={token !== null} onClose={onClose} title="Access token">
+      <Stack gap="md">
+        <Text size="sm">
+          Copy this token now, it will not be shown again. Send it as an
+          {' '}<Code>Authorization: Bearer</Code> header to call the API as you.
+        </Text>
+        <Group gap="xs" wrap="nowrap">
+          <Code style={{ flex: 1, overflowWrap: 'anywhere' }}>{token}</Code>
+          <CopyButton value={token ?? ''}>
+            {({ copied, copy }) => (
+              <ActionIcon variant="subtle" color={copied ? 'green' : 'gray'} onClick={copy} aria-label="Copy token">
+                {copied ? <IconCheck size="1rem" /> : <IconCopy size="1rem" />}
+              </ActionIcon>
+            )}
+          </CopyButton>
+        </Group>
+        <Group justify="flex-end">
+          <Button onClick={onClose}>Done</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+function CreateTokenModal({
+  opened,
+  onClose,
+  onCreated,
+}: {
+  opened: boolean;
+  onClose: () => void;
+  onCreated: (token: string) => void;
+}) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState<string | null>('30');
+
+  const utils = api.useUtils();
+  const { data: availableScopes = [] } = api.personalAccessToken.getScopes.useQuery();
+
+  const createMutation = api.personalAccessToken.create.useMutation({
+    onSuccess: ({ token }) => {
+      setName('');
+      setScopes([]);
+      setExpiry('30');
+      void utils.personalAccessToken.getAll.invalidate();
+      onClose();
+      onCreated(token);
+    },
+    onError: (error) => showError(error.message || 'Failed to create access token'),
+  });
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      scopes: availableScopes.filter((scope) => scopes.includes(scope)),
+      expiresAt: expiry === 'never' ? null : dayjs().add(Number(expiry), 'day').toDate(),
+    });
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Create access token">
+      <Stack gap="md">
+        <TextInput
+          label="Name"
+          description="What the token is for"
+          placeholder="Backup script"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        <Checkbox.Group label="Scopes" value={scopes} onChange={setScopes} required>
+          <Stack gap="xs" mt="xs">
+            {availableScopes.map((scope) => (
+              <Checkbox key={scope} value={scope} label={scope} description={SCOPE_DESCRIPTIONS[scope]} />
+            ))}
+          </Stack>
+        </Checkbox.Group>
+        <Select
+          label="Expires after"
+          data={EXPIRY_OPTIONS}
+          value={expiry}
+          onChange={setExpiry}
+          allowDeselect={false}
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            loading={createMutation.isPending}
+            disabled={!name.trim() || scopes.length === 0 || !expiry}
+          >
+            Create token
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+/**
+ * Personal access tokens that let scripts call the API as the user
+ */
+export function AccessTokenSettings() {
+  const [createOpened, { open: openCreate, close: closeCreate }] = useDisclosure(false);
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.personalAccessToken.getAll.useQuery();
+  const accessTokens = data?.accessTokens ?? [];
+
+  const deleteMutation = api.personalAccessToken.delete.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      void utils.personalAccessToken.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to revoke access token'),
+  });
+
+  const handleDelete = (accessToken: AccessToken) => {
+    modals.openConfirmModal({
+      title: 'Revoke access token?',
+      children: (
+        <Text size="sm">
+          Anything using &quot;{accessToken.name}&quot; will no longer be able to call the API.
+        </Text>
+      ),
+      labels: { confirm: 'Revoke', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id: accessToken.id }),
+    });
+  };
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <div>
+          <Title order={3}>Access Tokens</Title>
+          <Text size="sm" c="dimmed">
+            Let scripts call the API as you, limited to the scopes you choose
+          </Text>
+        </div>
+        <Button variant="light" leftSection={<IconPlus size="1rem" />} onClick={openCreate}>
+          Create token
+        </Button>
+      </Group>
+
+      {isLoading ? (
+        <Group justify="center" py="md">
+          <Loader size="sm" />
+        </Group>
+      ) : error ? (
+        <Alert icon={<IconAlertCircle size="1rem" />} title="Error" color="red">
+          {error.message || 'Failed to load access tokens'}
+        </Alert>
+      ) : accessTokens.length === 0 ? (
+        <Text size="sm" c="dimmed">
+          No access tokens yet
+        </Text>
+      ) : (
+        <Table>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Name</Table.Th>
+              <Table.Th>Scopes</Table.Th>
+              <Table.Th>Expires</Table.Th>
+              <Table.Th>Last used</Table.Th>
+              <Table.Th />
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {accessTokens.map((accessToken) => {
+              const expired = accessToken.expiresAt !== null && accessToken.expiresAt <= new Date();
+              return (
+                <Table.Tr key={accessToken.id}>
+                  <Table.Td>
+                    <Text size="sm" fw={500}>
+                      {accessToken.name}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap={4}>
+                      {accessToken.scopes.map((scope) => (
+                        <Badge key={scope} size="sm" variant="light">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    {expired ? (
+                      <Badge size="sm" color="red" variant="light">
+                        Expired
+                      </Badge>
+                    ) : (
+                      <Text size="sm">{accessToken.expiresAt ? formatTime(accessToken.expiresAt) : 'Never'}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{formatTime(accessToken.lastUsedAt)}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Tooltip label="Revoke">
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        onClick={() => handleDelete(accessToken)}
+                        aria-label="Revoke token"
+                      >
+                        <IconTrash size="1rem" />
+                      </ActionIcon>
+                    </Tooltip>
+                  </Table.Td>
+                </Table.Tr>
+              );
+            })}
+          </Table.Tbody>
+        </Table>
+      )}
+
+      <CreateTokenModal opened={createOpened} onClose={closeCreate} onCreated={setRevealedToken} />
+      <TokenModal token={revealedToken} onClose={() => setRevealedToken(null)} />
+    </Stack>
+  );
+}
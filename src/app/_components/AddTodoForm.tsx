@@ -9,21 +9,38 @@ import {
   Stack,
   Group,
   Title,
+  Select,
+  MultiSelect,
 } from '@mantine/core';
-import { IconPlus, IconX } from '@tabler/icons-react';
+import { DatePickerInput } from '@mantine/dates';
+import { IconCalendar, IconPlus, IconTags, IconX } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import { api } from '~/trpc/react';
+import { toDueDate, toStartDate } from './todo-dates';
+import { prioritySelectData, type TodoPriority } from './todo-priority';
+import { toTagSelectData } from './todo-tags';
+import { RecurrenceInput } from './RecurrenceInput';
+import type { RecurrenceRule } from '~/lib/recurrence';
 
 interface AddTodoFormProps {
+  /** Project new todos are created in (null = Inbox) */
+  projectId?: string | null;
   onSuccess?: () => void;
 }
 
-export function AddTodoForm({ onSuccess }: AddTodoFormProps) {
+export function AddTodoForm({ projectId = null, onSuccess }: AddTodoFormProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<TodoPriority>('none');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
 
   const utils = api.useUtils();
+  const { data: tagsData } = api.tag.getAll.useQuery();
+  const tags = tagsData?.tags ?? [];
 
   const createMutation = api.todo.create.useMutation({
     onSuccess: () => {
@@ -34,6 +51,11 @@ export function AddTodoForm({ onSuccess }: AddTodoFormProps) {
       });
       setTitle('');
       setDescription('');
+      setPriority('none');
+      setStartDate(null);
+      setDueDate(null);
+      setTagIds([]);
+      setRecurrence(null);
       setIsExpanded(false);
       void utils.todo.getAll.invalidate();
       void utils.todo.getStats.invalidate();
@@ -61,12 +83,23 @@ export function AddTodoForm({ onSuccess }: AddTodoFormProps) {
     createMutation.mutate({
       title: title.trim(),
       description: description.trim() || undefined,
+      priority,
+      startDate: toStartDate(startDate),
+      dueDate: toDueDate(dueDate),
+      recurrence,
+      tagIds: tagIds.length > 0 ? tagIds : undefined,
+      projectId,
     });
   };
 
   const handleCancel = () => {
     setTitle('');
     setDescription('');
+    setPriority('none');
+    setStartDate(null);
+    setDueDate(null);
+    setTagIds([]);
+    setRecurrence(null);
     setIsExpanded(false);
   };
 
@@ -130,6 +163,49 @@ export function AddTodoForm({ onSuccess }: AddTodoFormProps) {
           maxRows={4}
           onKeyDown={handleKeyDown}
         />
+
+        <Group grow gap="sm">
+          <Select
+            label="Priority"
+            data={prioritySelectData}
+            value={priority}
+            onChange={(value) => setPriority((value as TodoPriority | null) ?? 'none')}
+            allowDeselect={false}
+          />
+          <DatePickerInput
+            label="Start date"
+            placeholder="Optional"
+            value={startDate}
+            onChange={setStartDate}
+            maxDate={dueDate ?? undefined}
+            leftSection={<IconCalendar size="1rem" />}
+            clearable
+          />
+          <DatePickerInput
+            label="Due date"
+            placeholder="Optional"
+            value={dueDate}
+            onChange={setDueDate}
+            minDate={startDate ?? undefined}
+            leftSection={<IconCalendar size="1rem" />}
+            clearable
+          />
+        </Group>
+
+        <RecurrenceInput value={recurrence} onChange={setRecurrence} />
+
+        {tags.length > 0 && (
+          <MultiSelect
+            label="Tags"
+            placeholder={tagIds.length === 0 ? 'Optional' : undefined}
+            data={toTagSelectData(tags)}
+            value={tagIds}
+            onChange={setTagIds}
+            leftSection={<IconTags size="1rem" />}
+            searchable
+            clearable
+          />
+        )}
         
         <Group justify="flex-end" gap="sm" mt="sm">
           <Button 
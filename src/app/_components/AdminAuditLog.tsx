@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TextInput,
+  Select,
+  Group,
+  Badge,
+  Text,
+  Button,
+  Stack,
+  Loader,
+  Center,
+  Alert,
+  Modal,
+  Code,
+  SimpleGrid,
+  Anchor,
+} from '@mantine/core';
+import { DatePickerInput, type DatesRangeValue } from '@mantine/dates';
+import { useDebouncedValue } from '@mantine/hooks';
+import { IconAlertCircle, IconSearch } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import Link from 'next/link';
+import type { AuditEntityType } from '~/server/infrastructure/db/schema';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type AuditEntry = RouterOutputs['audit']['getAll']['entries'][number];
+
+const FILTER_DEBOUNCE_MS = 300;
+
+const ENTITY_OPTIONS: { value: AuditEntityType; label: string }[] = [
+  { value: 'todo', label: 'Todo' },
+  { value: 'checklist_item', label: 'Checklist item' },
+  { value: 'user', label: 'User' },
+  { value: 'role', label: 'Role' },
+];
+
+/**
+ * Names of the fields an audit entry changed
+ */
+function getChangedFields(entry: AuditEntry): string[] {
+  const fields = new Set<string>();
+  for (const snapshot of [entry.before, entry.after]) {
+    if (snapshot) {
+      Object.keys(snapshot).forEach(field => fields.add(field));
+    }
+  }
+  return [...fields];
+}
+
+export function AdminAuditLog() {
+  const [entityType, setEntityType] = useState<AuditEntityType | null>(null);
+  const [action, setAction] = useState('');
+  const [dateRange, setDateRange] = useState<DatesRangeValue>([null, null]);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  const [debouncedAction] = useDebouncedValue(action.trim(), FILTER_DEBOUNCE_MS);
+
+  const [from, to] = dateRange;
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = api.audit.getAll.useInfiniteQuery(
+    {
+      entityType: entityType ?? undefined,
+      action: debouncedAction || undefined,
+      from: from ? dayjs(from).startOf('day').toDate() : undefined,
+      // The range end is inclusive in the picker, exclusive in the API
+      to: to ? dayjs(to).add(1, 'day').startOf('day').toDate() : undefined,
+    },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const entries = data?.pages.flatMap(page => page.entries) ?? [];
+  const hasFilters = entityType !== null || debouncedAction !== '' || from !== null;
+
+  return (
+    <Stack gap="md">
+      <Group gap="sm" align="flex-end">
+        <Select
+          label="Entity"
+          placeholder="All entities"
+          data={ENTITY_OPTIONS}
+          value={entityType}
+          onChange={(value) => setEntityType(value as AuditEntityType | null)}
+          clearable
+          w={180}
+        />
+        <TextInput
+          label="Action"
+          placeholder="e.g. todo.update"
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          leftSection={<IconSearch size="1rem" />}
+          w={220}
+        />
+        <DatePickerInput
+          type="range"
+          label="Date range"
+          placeholder="Any time"
+          value={dateRange}
+          onChange={setDateRange}
+          maxDate={new Date()}
+          clearable
+          w={260}
+        />
+      </Group>
+
+      {error ? (
+        <Alert icon={<IconAlertCircle size="1rem" />} title="Error loading audit log" color="red" variant="light">
+          {error.message || 'Failed to load the audit log. Please try again.'}
+        </Alert>
+      ) : isLoading ? (
+        <Center py="xl">
+          <Loader size="md" />
+        </Center>
+      ) : entries.length === 0 ? (
+        <Text c="dimmed" ta="center" py="xl">
+          {hasFilters ? 'No audit entries match your filters.' : 'No audit entries yet.'}
+        </Text>
+      ) : (
+        <Table.ScrollContainer minWidth={700}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>When</Table.Th>
+                <Table.Th>Actor</Table.Th>
+                <Table.Th>Action</Table.Th>
+                <Table.Th>Entity</Table.Th>
+                <Table.Th>Changed fields</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {entries.map((entry) => (
+                <Table.Tr key={entry.id} onClick={() => setSelectedEntry(entry)} style={{ cursor: 'pointer' }}>
+                  <Table.Td>
+                    <Text size="sm" c="dimmed">{dayjs(entry.createdAt).format('MMM D, YYYY HH:mm:ss')}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{entry.actor?.name ?? 'Unknown'}</Text>
+                    {entry.actor && (
+                      <Text size="xs" c="dimmed">{entry.actor.email}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Code>{entry.action}</Code>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge size="sm" variant="light">{entry.entityType}</Badge>
+                    {entry.entityId && (
+                      <Text size="xs" c="dimmed" truncate maw={160}>{entry.entityId}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs" c="dimmed" lineClamp={2}>
+                      {getChangedFields(entry).join(', ') || '—'}
+                    </Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      )}
+
+      {hasNextPage && (
+        <Center>
+          <Button variant="subtle" size="xs" onClick={() => void fetchNextPage()} loading={isFetchingNextPage}>
+            Load more
+          </Button>
+        </Center>
+      )}
+
+      <Modal
+        opened={selectedEntry !== null}
+        onClose={() => setSelectedEntry(null)}
+        title={selectedEntry ? <Code>{selectedEntry.action}</Code> : null}
+        size="xl"
+      >
+        {selectedEntry && (
+          <Stack gap="sm">
+            <Text size="sm">
+              {selectedEntry.actor
+                ? <Anchor component={Link} href={`/admin/users/${selectedEntry.actor.id}`} size="sm">{selectedEntry.actor.name}</Anchor>
+                : 'Unknown actor'}
+              {' · '}
+              {dayjs(selectedEntry.createdAt).format('MMM D, YYYY HH:mm:ss')}
+            </Text>
+            <Text size="xs" c="dimmed">
+              IP {selectedEntry.ipAddress ?? 'unknown'} · Request {selectedEntry.requestId ?? 'unknown'}
+            </Text>
+            {selectedEntry.userAgent && (
+              <Text size="xs" c="dimmed">{selectedEntry.userAgent}</Text>
+            )}
+            <SimpleGrid cols={{ base: 1, sm: 2 }}>
+              <div>
+                <Text size="sm" fw={500} mb={4}>Before</Text>
+                <Code block>{JSON.stringify(selectedEntry.before, null, 2)}</Code>
+              </div>
+              <div>
+                <Text size="sm" fw={500} mb={4}>After</Text>
+                <Code block>{JSON.stringify(selectedEntry.after, null, 2)}</Code>
+              </div>
+            </SimpleGrid>
+          </Stack>
+        )}
+      </Modal>
+    </Stack>
+  );
+}
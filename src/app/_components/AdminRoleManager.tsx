@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  Badge,
+  Group,
+  Button,
+  ActionIcon,
+  Modal,
+  Stack,
+  TextInput,
+  Textarea,
+  Checkbox,
+  Text,
+  Loader,
+  Center,
+  Alert,
+  SimpleGrid,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import { IconAlertCircle, IconPencil, IconPlus, IconTrash } from '@tabler/icons-react';
+import type { PermissionName } from '~/server/infrastructure/db/schema';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type AdminRole = RouterOutputs['role']['getAll']['roles'][number];
+
+interface RoleFormValues {
+  name: string;
+  description: string;
+  permissions: PermissionName[];
+}
+
+const EMPTY_FORM: RoleFormValues = { name: '', description: '', permissions: [] };
+
+export function AdminRoleManager() {
+  const [opened, { open, close }] = useDisclosure(false);
+  const [editingRole, setEditingRole] = useState<AdminRole | null>(null);
+  const [form, setForm] = useState<RoleFormValues>(EMPTY_FORM);
+
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.role.getAll.useQuery();
+  const roles = data?.roles ?? [];
+  const availablePermissions = data?.availablePermissions ?? [];
+
+  const invalidateRoles = () => {
+    void utils.role.getAll.invalidate();
+    void utils.role.getMyAccess.invalidate();
+    void utils.user.getAllUsers.invalidate();
+  };
+
+  const showError = (message: string) => {
+    notifications.show({
+      title: 'Error',
+      message,
+      color: 'red',
+    });
+  };
+
+  const showSuccess = (message: string) => {
+    notifications.show({
+      title: 'Success',
+      message,
+      color: 'green',
+    });
+  };
+
+  const createMutation = api.role.create.useMutation({
+    onSuccess: ({ message }) => {
+      showSuccess(message);
+      invalidateRoles();
+      close();
+    },
+    onError: (error) => showError(error.message || 'Failed to create role'),
+  });
+
+  const updateMutation = api.role.update.useMutation({
+    onSuccess: ({ message }) => {
+      showSuccess(message);
+      invalidateRoles();
+      close();
+    },
+    onError: (error) => showError(error.message || 'Failed to update role'),
+  });
+
+  const deleteMutation = api.role.delete.useMutation({
+    onSuccess: ({ message }) => {
+      showSuccess(message);
+      invalidateRoles();
+    },
+    onError: (error) => showError(error.message || 'Failed to delete role'),
+  });
+
+  const openCreate = () => {
+    setEditingRole(null);
+    setForm(EMPTY_FORM);
+    open();
+  };
+
+  const openEdit = (role: AdminRole) => {
+    setEditingRole(role);
+    setForm({
+      name: role.name,
+      description: role.description ?? '',
+      permissions: role.permissions.filter((p): p is PermissionName =>
+        availablePermissions.includes(p as PermissionName)
+      ),
+    });
+    open();
+  };
+
+  const handleDelete = (role: AdminRole) => {
+    modals.openConfirmModal({
+      title: `Delete the "${role.name}" role?`,
+      children: (
+        <Text size="sm">
+          Users with this role lose the permissions it grants. This cannot be undone.
+        </Text>
+      ),
+      labels: { confirm: 'Delete role', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id: role.id }),
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      showError('Role name is required');
+      return;
+    }
+
+    const description = form.description.trim() || null;
+    if (editingRole) {
+      updateMutation.mutate({
+        id: editingRole.id,
+        name: editingRole.builtIn ? undefined : form.name,
+        description,
+        // The admin role always keeps every permission
+        permissions: editingRole.name === 'admin' ? undefined : form.permissions,
+      });
+    } else {
+      createMutation.mutate({ name: form.name, description, permissions: form.permissions });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Center py="xl">
+        <Loader size="md" />
+      </Center>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="Error loading roles" color="red" variant="light">
+        {error.message || 'Failed to load roles. Please try again.'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="flex-end">
+        <Button size="xs" leftSection={<IconPlus size="1rem" />} onClick={openCreate}>
+          New role
+        </Button>
+      </Group>
+
+      <Table.ScrollContainer minWidth={600}>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Role</Table.Th>
+              <Table.Th>Permissions</Table.Th>
+              <Table.Th w={100} />
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {roles.map((role) => (
+              <Table.Tr key={role.id}>
+                <Table.Td>
+                  <Group gap="xs">
+                    <Text size="sm" fw={500}>{role.name}</Text>
+                    {role.builtIn && (
+                      <Badge size="xs" variant="outline" color="gray">Built-in</Badge>
+                    )}
+                  </Group>
+                  {role.description && (
+                    <Text size="xs" c="dimmed">{role.description}</Text>
+                  )}
+                </Table.Td>
+                <Table.Td>
+                  <Group gap={4}>
+                    {role.permissions.length > 0 ? (
+                      role.permissions.map((permission) => (
+                        <Badge key={permission} size="sm" variant="light">
+                          {permission}
+                        </Badge>
+                      ))
+                    ) : (
+                      <Text size="xs" c="dimmed">None</Text>
+                    )}
+                  </Group>
+                </Table.Td>
+                <Table.Td>
+                  <Group gap="xs" justify="flex-end" wrap="nowrap">
+                    <ActionIcon variant="subtle" onClick={() => openEdit(role)} aria-label={`Edit ${role.name}`}>
+                      <IconPencil size="1rem" />
+                    </ActionIcon>
+                    <ActionIcon
+                      variant="subtle"
+                      color="red"
+                      onClick={() => handleDelete(role)}
+                      disabled={role.builtIn || deleteMutation.isPending}
+                      aria-label={`Delete ${role.name}`}
+                    >
+                      <IconTrash size="1rem" />
+                    </ActionIcon>
+                  </Group>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      <Modal opened={opened} onClose={close} title={editingRole ? `Edit role "${editingRole.name}"` : 'New role'}>
+        <Stack gap="md">
+          <TextInput
+            label="Name"
+            placeholder="e.g. support"
+            description="Lowercase letters, digits, '-' and '_'"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            disabled={editingRole?.builtIn}
+            maxLength={50}
+            required
+          />
+          <Textarea
+            label="Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            maxLength={255}
+            autosize
+            minRows={2}
+          />
+          <Checkbox.Group
+            label="Permissions"
+            description={editingRole?.name === 'admin' ? 'The admin role always has every permission' : undefined}
+            value={editingRole?.name === 'admin' ? availablePermissions : form.permissions}
+            onChange={(value) => setForm({ ...form, permissions: value as PermissionName[] })}
+          >
+            <SimpleGrid cols={2} mt="xs">
+              {availablePermissions.map((permission) => (
+                <Checkbox
+                  key={permission}
+                  value={permission}
+                  label={permission}
+                  disabled={editingRole?.name === 'admin'}
+                />
+              ))}
+            </SimpleGrid>
+          </Checkbox.Group>
+          <Group justify="flex-end">
+            <Button variant="subtle" onClick={close}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} loading={createMutation.isPending || updateMutation.isPending}>
+              {editingRole ? 'Save' : 'Create role'}
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Stack>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { Table, Badge, Text, Stack, Loader, Center, Alert, Code, Tooltip } from '@mantine/core';
+import { IconAlertCircle } from '@tabler/icons-react';
+import dayjs from 'dayjs';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type ScheduledTask = RouterOutputs['schedule']['getAll'][number];
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+function formatTime(date: Date | null): string {
+  return date ? dayjs(date).format('MMM D, YYYY HH:mm:ss') : '—';
+}
+
+function LastRunStatus({ task }: { task: ScheduledTask }) {
+  if (!task.lastRunAt) {
+    return <Badge size="sm" variant="light" color="gray">Never run</Badge>;
+  }
+  if (!task.lastFinishedAt || task.lastFinishedAt < task.lastRunAt) {
+    return <Badge size="sm" variant="light" color="blue">Running</Badge>;
+  }
+  if (task.lastError) {
+    return (
+      <Tooltip label={task.lastError} multiline w={320}>
+        <Badge size="sm" variant="light" color="red">Failed</Badge>
+      </Tooltip>
+    );
+  }
+  return <Badge size="sm" variant="light" color="green">OK</Badge>;
+}
+
+export function AdminSchedules() {
+  const { data: tasks, isLoading, error } = api.schedule.getAll.useQuery(undefined, {
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  return (
+    <Stack gap="md">
+      <Text size="sm" c="dimmed">
+        Maintenance tasks run by the background workers. Cron times are in UTC.
+      </Text>
+
+      {error ? (
+        <Alert icon={<IconAlertCircle size="1rem" />} title="Error loading schedules" color="red" variant="light">
+          {error.message || 'Failed to load the scheduled tasks. Please try again.'}
+        </Alert>
+      ) : isLoading ? (
+        <Center py="xl">
+          <Loader size="md" />
+        </Center>
+      ) : !tasks?.length ? (
+        <Text c="dimmed" ta="center" py="xl">
+          No scheduled tasks yet. They are registered when a worker starts.
+        </Text>
+      ) : (
+        <Table.ScrollContainer minWidth={800}>
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Task</Table.Th>
+                <Table.Th>Schedule</Table.Th>
+                <Table.Th>Last run</Table.Th>
+                <Table.Th>Status</Table.Th>
+                <Table.Th>Next run</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {tasks.map((task) => (
+                <Table.Tr key={task.id}>
+                  <Table.Td>
+                    <Code>{task.name}</Code>
+                    {task.description && (
+                      <Text size="xs" c="dimmed">{task.description}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Code>{task.cron}</Code>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm" c="dimmed">{formatTime(task.lastRunAt)}</Text>
+                    {task.lastDurationMs !== null && (
+                      <Text size="xs" c="dimmed">
+                        {task.lastDurationMs} ms{task.lastRunBy ? ` · ${task.lastRunBy}` : ''}
+                      </Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <LastRunStatus task={task} />
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{formatTime(task.nextRunAt)}</Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { AppShell, Container, Group, Title, Button } from '@mantine/core';
+import { IconClock, IconHistory, IconShieldLock, IconUsers } from '@tabler/icons-react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { AppHeader } from './AppHeader';
+
+const ADMIN_SECTIONS = [
+  { href: '/admin', label: 'Users', icon: IconUsers },
+  { href: '/admin/roles', label: 'Roles', icon: IconShieldLock },
+  { href: '/admin/audit', label: 'Audit log', icon: IconHistory },
+  { href: '/admin/schedules', label: 'Schedules', icon: IconClock },
+];
+
+/**
+ * Page frame for the admin area with navigation between its sections
+ */
+export function AdminShell({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+
+  // User detail pages (/admin/users/...) belong to the Users section
+  const activeHref =
+    ADMIN_SECTIONS.find(({ href }) => href !== '/admin' && pathname.startsWith(href))?.href ?? '/admin';
+
+  return (
+    <AppShell header={{ height: 60 }}>
+      <AppHeader />
+      <AppShell.Main>
+        <Container size="lg" py="xl">
+          <Group justify="space-between" mb="lg">
+            <Title order={2}>Admin</Title>
+            <Group gap="xs">
+              {ADMIN_SECTIONS.map(({ href, label, icon: Icon }) => (
+                <Button
+                  key={href}
+                  component={Link}
+                  href={href}
+                  size="xs"
+                  variant={activeHref === href ? 'light' : 'subtle'}
+                  leftSection={<Icon size="1rem" />}
+                >
+                  {label}
+                </Button>
+              ))}
+            </Group>
+          </Group>
+          {children}
+        </Container>
+      </AppShell.Main>
+    </AppShell>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Paper,
+  Group,
+  Avatar,
+  Title,
+  Text,
+  Stack,
+  Checkbox,
+  Button,
+  Loader,
+  Center,
+  Alert,
+  Anchor,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconAlertCircle } from '@tabler/icons-react';
+import { api } from '~/trpc/react';
+import { formatTodoDate } from './todo-dates';
+
+interface AdminUserDetailProps {
+  userId: string;
+}
+
+export function AdminUserDetail({ userId }: AdminUserDetailProps) {
+  const utils = api.useUtils();
+  const { data: userData, isLoading: userLoading, error: userError } = api.user.getUserById.useQuery({ userId });
+  const { data: rolesData, isLoading: rolesLoading } = api.role.getAll.useQuery();
+
+  const user = userData?.user;
+  const roles = rolesData?.roles ?? [];
+  const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      setSelectedRoles(user.roles);
+    }
+  }, [user]);
+
+  const setRolesMutation = api.role.setUserRoles.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      void utils.user.getUserById.invalidate({ userId });
+      void utils.user.getAllUsers.invalidate();
+      void utils.role.getMyAccess.invalidate();
+    },
+    onError: (error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message || 'Failed to update roles',
+        color: 'red',
+      });
+    },
+  });
+
+  if (userLoading || rolesLoading) {
+    return (
+      <Center py="xl">
+        <Loader size="md" />
+      </Center>
+    );
+  }
+
+  if (userError || !user) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="User not available" color="red" variant="light">
+        {userError?.message ?? 'User not found'}
+      </Alert>
+    );
+  }
+
+  const isDirty =
+    selectedRoles.length !== user.roles.length || selectedRoles.some(role => !user.roles.includes(role));
+
+  return (
+    <Stack gap="lg">
+      <Paper withBorder p="lg" radius="md">
+        <Group gap="md">
+          <Avatar size="lg" color="blue" src={user.avatar}>
+            {user.name.charAt(0).toUpperCase()}
+          </Avatar>
+          <div>
+            <Title order={3}>{user.name}</Title>
+            <Text c="dimmed" size="sm">{user.email}</Text>
+            <Text c="dimmed" size="xs">Joined {formatTodoDate(user.createdAt)}</Text>
+          </div>
+        </Group>
+        {user.bio && (
+          <Text size="sm" mt="md">{user.bio}</Text>
+        )}
+        {user.website && (
+          <Anchor href={user.website} target="_blank" rel="noopener noreferrer" size="sm">
+            {user.website}
+          </Anchor>
+        )}
+      </Paper>
+
+      <Paper withBorder p="lg" radius="md">
+        <Title order={4} mb="sm">Roles</Title>
+        <Checkbox.Group value={selectedRoles} onChange={setSelectedRoles}>
+          <Stack gap="xs">
+            {roles.map((role) => (
+              <Checkbox
+                key={role.id}
+                value={role.name}
+                label={role.name}
+                description={
+                  role.permissions.length > 0
+                    ? `${role.description ? `${role.description} · ` : ''}${role.permissions.join(', ')}`
+                    : role.description ?? 'No permissions'
+                }
+              />
+            ))}
+          </Stack>
+        </Checkbox.Group>
+        <Group justify="flex-end" mt="md">
+          <Button
+            variant="subtle"
+            onClick={() => setSelectedRoles(user.roles)}
+            disabled={!isDirty || setRolesMutation.isPending}
+          >
+            Reset
+          </Button>
+          <Button
+            onClick={() => setRolesMutation.mutate({ userId, roleNames: selectedRoles })}
+            loading={setRolesMutation.isPending}
+            disabled={!isDirty}
+          >
+            Save roles
+          </Button>
+        </Group>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TextInput,
+  Group,
+  Badge,
+  Text,
+  Button,
+  Stack,
+  Loader,
+  Center,
+  Alert,
+  Anchor,
+} from '@mantine/core';
+import { useDebouncedValue } from '@mantine/hooks';
+import { IconAlertCircle, IconSearch } from '@tabler/icons-react';
+import Link from 'next/link';
+import { api } from '~/trpc/react';
+import { formatTodoDate } from './todo-dates';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function AdminUserTable() {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch] = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = api.user.getAllUsers.useInfiniteQuery(
+    { search: debouncedSearch || undefined },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const users = data?.pages.flatMap(page => page.users) ?? [];
+  const total = data?.pages[0]?.pagination.total ?? 0;
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <TextInput
+          placeholder="Search by name or email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          leftSection={<IconSearch size="1rem" />}
+          w={{ base: '100%', sm: 320 }}
+          aria-label="Search users"
+        />
+        <Text size="sm" c="dimmed">
+          {total === 1 ? '1 user' : `${total} users`}
+        </Text>
+      </Group>
+
+      {error ? (
+        <Alert icon={<IconAlertCircle size="1rem" />} title="Error loading users" color="red" variant="light">
+          {error.message || 'Failed to load users. Please try again.'}
+        </Alert>
+      ) : isLoading ? (
+        <Center py="xl">
+          <Loader size="md" />
+        </Center>
+      ) : users.length === 0 ? (
+        <Text c="dimmed" ta="center" py="xl">
+          {debouncedSearch ? 'No users match your search.' : 'No users yet.'}
+        </Text>
+      ) : (
+        <Table.ScrollContainer minWidth={600}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Name</Table.Th>
+                <Table.Th>Email</Table.Th>
+                <Table.Th>Roles</Table.Th>
+                <Table.Th>Joined</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {users.map((user) => (
+                <Table.Tr key={user.id}>
+                  <Table.Td>
+                    <Anchor component={Link} href={`/admin/users/${user.id}`} size="sm" fw={500}>
+                      {user.name}
+                    </Anchor>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{user.email}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap={4}>
+                      {user.roles.length > 0 ? (
+                        user.roles.map((role) => (
+                          <Badge key={role} size="sm" variant="light" color={role === 'admin' ? 'red' : 'blue'}>
+                            {role}
+                          </Badge>
+                        ))
+                      ) : (
+                        <Text size="xs" c="dimmed">None</Text>
+                      )}
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm" c="dimmed">{formatTodoDate(user.createdAt)}</Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      )}
+
+      {hasNextPage && (
+        <Center>
+          <Button variant="subtle" size="xs" onClick={() => void fetchNextPage()} loading={isFetchingNextPage}>
+            Load more
+          </Button>
+        </Center>
+      )}
+    </Stack>
+  );
+}
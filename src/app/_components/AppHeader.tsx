@@ -11,15 +11,19 @@ import {
   UnstyledButton,
   Loader
 } from '@mantine/core';
-import { IconChevronDown, IconLogout, IconUser, IconChecklist } from '@tabler/icons-react';
+import { IconChevronDown, IconLogout, IconUser, IconChecklist, IconShieldLock, IconWebhook, IconCalendarShare } from '@tabler/icons-react';
 import { useSession, signOut } from '~/lib/auth-client';
 import { notifications } from '@mantine/notifications';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { api } from '~/trpc/react';
+import { TodoSearch } from './TodoSearch';
 
 export function AppHeader() {
   const { data: session, isPending } = useSession();
   const router = useRouter();
+  const { data: access } = api.role.getMyAccess.useQuery(undefined, { enabled: !!session?.user });
+  const canAdminister = access?.permissions.includes('users:read') ?? false;
 
   const handleLogout = async () => {
     try {
@@ -51,6 +55,8 @@ export function AppHeader() {
           </Title>
         </Group>
 
+        {session?.user && <TodoSearch />}
+
         <Group>
           {isPending ? (
             <Loader size="sm" />
@@ -83,6 +89,29 @@ export function AppHeader() {
                 >
                   Profile
                 </Menu.Item>
+                <Menu.Item
+                  leftSection={<IconWebhook size="0.9rem" />}
+                  component={Link}
+                  href="/webhooks"
+                >
+                  Webhooks
+                </Menu.Item>
+                <Menu.Item
+                  leftSection={<IconCalendarShare size="0.9rem" />}
+                  component={Link}
+                  href="/calendar-feeds"
+                >
+                  Calendar feeds
+                </Menu.Item>
+                {canAdminister && (
+                  <Menu.Item
+                    leftSection={<IconShieldLock size="0.9rem" />}
+                    component={Link}
+                    href="/admin"
+                  >
+                    Admin
+                  </Menu.Item>
+                )}
                 <Menu.Divider />
                 <Menu.Item 
                   leftSection={<IconLogout size="0.9rem" />}
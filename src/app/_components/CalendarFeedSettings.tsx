@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Card,
+  Code,
+  CopyButton,
+  Group,
+  Loader,
+  Modal,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconAlertCircle, IconCheck, IconCopy, IconPlus, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import dayjs from 'dayjs';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type CalendarFeed = RouterOutputs['calendarFeed']['getAll']['feeds'][number];
+
+function formatTime(date: Date | null): string {
+  return date ? dayjs(date).format('MMM D, YYYY HH:mm') : 'never';
+}
+
+const showError = (message: string) => {
+  notifications.show({
+    title: 'Error',
+    message,
+    color: 'red',
+  });
+};
+
+function CopyableUrl({ label, url }: { label: string; url: string }) {
+  return (
+    <Stack gap={4}>
+      <Text size="sm" fw={500}>
+        {label}
+      </Text>
+      <Group gap="xs" wrap="nowrap">
+        <Code style={{ flex: 1, overflowWrap: 'anywhere' }}>{url}</Code>
+        <CopyButton value={url}>
+          {({ copied, copy }) => (
+            <ActionIcon variant="subtle" color={copied ? 'green' : 'gray'} onClick={copy} aria-label={`Copy ${label}`}>
+              {copied ? <IconCheck size="1rem" /> : <IconCopy size="1rem" />}
+            </ActionIcon>
+          )}
+        </CopyButton>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Shows a feed's URL once, right after it was created
+ */
+function FeedUrlModal({ path, onClose }: { path: string | null; onClose: () => void }) {
+  const url = path ? new URL(path, window.location.origin) : null;
+
+  return (
+    <Modal opened={url !== null} onClose={onClose} title="Calendar feed URL">
+      <Stack gap="md">
+        <Text size="sm">
+          Copy this URL now, it will not be shown again. Subscribe to it in your calendar app;
+          anyone with the URL can see your scheduled todos, so revoke the feed if it leaks.
+        </Text>
+        {url && (
+          <>
+            <CopyableUrl label="URL" url={url.href} />
+            <CopyableUrl label="webcal:// link (Apple Calendar, Outlook)" url={url.href.replace(/^https?:/, 'webcal:')} />
+          </>
+        )}
+        <Group justify="flex-end">
+          <Button onClick={onClose}>Done</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+function CreateFeedModal({
+  opened,
+  onClose,
+  onCreated,
+}: {
+  opened: boolean;
+  onClose: () => void;
+  onCreated: (path: string) => void;
+}) {
+  const [name, setName] = useState('');
+
+  const utils = api.useUtils();
+
+  const createMutation = api.calendarFeed.create.useMutation({
+    onSuccess: ({ path }) => {
+      setName('');
+      void utils.calendarFeed.getAll.invalidate();
+      onClose();
+      onCreated(path);
+    },
+    onError: (error) => showError(error.message || 'Failed to create calendar feed'),
+  });
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Add calendar feed">
+      <Stack gap="md">
+        <TextInput
+          label="Name"
+          description="Where you will use the feed, so you can tell feeds apart"
+          placeholder="Phone"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate({ name: name.trim() })}
+            loading={createMutation.isPending}
+            disabled={!name.trim()}
+          >
+            Create feed
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+/**
+ * Private iCalendar URLs that show the user's scheduled todos in calendar apps
+ */
+export function CalendarFeedSettings() {
+  const [createOpened, { open: openCreate, close: closeCreate }] = useDisclosure(false);
+  const [revealedPath, setRevealedPath] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.calendarFeed.getAll.useQuery();
+  const feeds = data?.feeds ?? [];
+
+  const deleteMutation = api.calendarFeed.delete.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      void utils.calendarFeed.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to revoke calendar feed'),
+  });
+
+  const handleDelete = (feed: CalendarFeed) => {
+    modals.openConfirmModal({
+      title: 'Revoke calendar feed?',
+      children: (
+        <Text size="sm">
+          Calendars subscribed to &quot;{feed.name}&quot; will stop receiving your todos.
+        </Text>
+      ),
+      labels: { confirm: 'Revoke', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id: feed.id }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader />
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="Error" color="red">
+        {error.message || 'Failed to load calendar feeds'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <div>
+          <Title order={2}>Calendar feeds</Title>
+          <Text size="sm" c="dimmed">
+            Subscribe to your todos with a start or due date from any calendar app
+          </Text>
+        </div>
+        <Button leftSection={<IconPlus size="1rem" />} onClick={openCreate}>
+          Add feed
+        </Button>
+      </Group>
+
+      {feeds.length === 0 ? (
+        <Card withBorder radius="md" padding="xl">
+          <Text ta="center" c="dimmed">
+            No calendar feeds yet
+          </Text>
+        </Card>
+      ) : (
+        feeds.map((feed) => (
+          <Card key={feed.id} shadow="sm" padding="md" radius="md" withBorder>
+            <Group justify="space-between" wrap="nowrap">
+              <Stack gap={4} style={{ flex: 1, minWidth: 0 }}>
+                <Text fw={500} truncate>
+                  {feed.name}
+                </Text>
+                <Text size="xs" c="dimmed">
+                  Created {formatTime(feed.createdAt)} · Last fetched {formatTime(feed.lastAccessedAt)}
+                </Text>
+              </Stack>
+              <Tooltip label="Revoke">
+                <ActionIcon
+                  variant="subtle"
+                  color="red"
+                  onClick={() => handleDelete(feed)}
+                  aria-label="Revoke feed"
+                >
+                  <IconTrash size="1rem" />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Card>
+        ))
+      )}
+
+      <CreateFeedModal opened={createOpened} onClose={closeCreate} onCreated={setRevealedPath} />
+      <FeedUrlModal path={revealedPath} onClose={() => setRevealedPath(null)} />
+    </Stack>
+  );
+}
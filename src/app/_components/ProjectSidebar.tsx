@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Paper,
+  NavLink,
+  Group,
+  Text,
+  ActionIcon,
+  Menu,
+  Modal,
+  Stack,
+  TextInput,
+  ColorInput,
+  Button,
+  ColorSwatch,
+  Divider,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconDots, IconEdit, IconInbox, IconListCheck, IconPlus, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import Link from 'next/link';
+import { api } from '~/trpc/react';
+import { COLOR_SWATCHES, DEFAULT_COLOR } from './color-swatches';
+import type { TodoProject } from './todo-projects';
+
+interface ProjectSidebarProps {
+  /** Selected list: a project ID, null for the Inbox, undefined for all todos */
+  selectedProjectId?: string | null;
+  onSelect: (projectId: string | null | undefined) => void;
+}
+
+export function ProjectSidebar({ selectedProjectId, onSelect }: ProjectSidebarProps) {
+  const [opened, { open, close }] = useDisclosure(false);
+  const [editingProject, setEditingProject] = useState<TodoProject | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+
+  const utils = api.useUtils();
+  const { data: projectsData } = api.project.getAll.useQuery();
+  const projects = projectsData?.projects ?? [];
+
+  const showError = (message: string) => {
+    notifications.show({
+      title: 'Error',
+      message,
+      color: 'red',
+    });
+  };
+
+  const handleSaved = () => {
+    close();
+    void utils.project.getAll.invalidate();
+  };
+
+  const createMutation = api.project.create.useMutation({
+    onSuccess: ({ project }) => {
+      handleSaved();
+      onSelect(project.id);
+    },
+    onError: (error) => showError(error.message || 'Failed to create project'),
+  });
+
+  const updateMutation = api.project.update.useMutation({
+    onSuccess: handleSaved,
+    onError: (error) => showError(error.message || 'Failed to update project'),
+  });
+
+  const deleteMutation = api.project.delete.useMutation({
+    onSuccess: (_data, { id }) => {
+      notifications.show({
+        title: 'Success',
+        message: 'Project deleted, its todos moved to the Inbox',
+        color: 'green',
+      });
+      if (selectedProjectId === id) {
+        onSelect(undefined);
+      }
+      void utils.project.getAll.invalidate();
+      void utils.todo.getAll.invalidate();
+      void utils.todo.getStats.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to delete project'),
+  });
+
+  const openCreate = () => {
+    setEditingProject(null);
+    setName('');
+    setColor(DEFAULT_COLOR);
+    open();
+  };
+
+  const openEdit = (project: TodoProject) => {
+    setEditingProject(project);
+    setName(project.name);
+    setColor(project.color);
+    open();
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      showError('Project name is required');
+      return;
+    }
+
+    if (editingProject) {
+      updateMutation.mutate({ id: editingProject.id, name: name.trim(), color });
+    } else {
+      createMutation.mutate({ name: name.trim(), color });
+    }
+  };
+
+  return (
+    <Paper withBorder radius="md" p="xs">
+      <NavLink
+        label="All todos"
+        leftSection={<IconListCheck size="1rem" />}
+        active={selectedProjectId === undefined}
+        onClick={() => onSelect(undefined)}
+      />
+      <NavLink
+        label="Inbox"
+        leftSection={<IconInbox size="1rem" />}
+        active={selectedProjectId === null}
+        onClick={() => onSelect(null)}
+      />
+
+      <Divider my="xs" />
+
+      <Group justify="space-between" px="sm" mb={4}>
+        <Text size="xs" fw={700} c="dimmed" tt="uppercase">
+          Projects
+        </Text>
+        <ActionIcon variant="subtle" size="sm" onClick={openCreate} aria-label="New project">
+          <IconPlus size="0.9rem" />
+        </ActionIcon>
+      </Group>
+
+      {projects.length === 0 ? (
+        <Text size="xs" c="dimmed" px="sm" py="xs">
+          No projects yet
+        </Text>
+      ) : (
+        projects.map((project) => (
+          <NavLink
+            key={project.id}
+            label={project.name}
+            leftSection={<ColorSwatch color={project.color} size={10} />}
+            active={selectedProjectId === project.id}
+            onClick={() => onSelect(project.id)}
+            rightSection={
+              <Menu shadow="md" width={140} position="bottom-end">
+                <Menu.Target>
+                  <ActionIcon
+                    variant="subtle"
+                    color="gray"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Options for ${project.name}`}
+                  >
+                    <IconDots size="0.9rem" />
+                  </ActionIcon>
+                </Menu.Target>
+                <Menu.Dropdown onClick={(e) => e.stopPropagation()}>
+                  <Menu.Item
+                    leftSection={<IconEdit size="1rem" />}
+                    onClick={() => openEdit(project)}
+                  >
+                    Edit
+                  </Menu.Item>
+                  <Menu.Item
+                    leftSection={<IconTrash size="1rem" />}
+                    color="red"
+                    onClick={() => deleteMutation.mutate({ id: project.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete
+                  </Menu.Item>
+                </Menu.Dropdown>
+              </Menu>
+            }
+          />
+        ))
+      )}
+
+      <Divider my="xs" />
+
+      <NavLink
+        label="Trash"
+        leftSection={<IconTrash size="1rem" />}
+        component={Link}
+        href="/trash"
+      />
+
+      <Modal
+        opened={opened}
+        onClose={close}
+        title={editingProject ? 'Edit project' : 'New project'}
+      >
+        <Stack gap="sm">
+          <TextInput
+            label="Name"
+            placeholder="e.g. Work"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            maxLength={100}
+            required
+            autoFocus
+          />
+          <ColorInput
+            label="Color"
+            value={color}
+            onChange={setColor}
+            swatches={COLOR_SWATCHES}
+          />
+          <Group justify="flex-end" gap="sm">
+            <Button variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              loading={createMutation.isPending || updateMutation.isPending}
+            >
+              {editingProject ? 'Save' : 'Create'}
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Paper>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { Chip, Group, NumberInput, Select, Stack, Text } from '@mantine/core';
+import { DatePickerInput } from '@mantine/dates';
+import { IconCalendar, IconRepeat } from '@tabler/icons-react';
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  WEEKDAY_DISPLAY_ORDER,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '~/lib/recurrence';
+import { toDueDate } from './todo-dates';
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+const frequencySelectData = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const endSelectData = [
+  { value: 'never', label: 'Never ends' },
+  { value: 'until', label: 'Ends on date' },
+  { value: 'count', label: 'Ends after' },
+];
+
+const intervalUnits: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+function getRecurrenceEnd(rule: RecurrenceRule): RecurrenceEnd {
+  if (rule.until != null) {
+    return 'until';
+  }
+  return rule.count != null ? 'count' : 'never';
+}
+
+/**
+ * Wire value for a rule; weekdays and dayOfMonth only apply to their own frequency
+ */
+function withFrequency(rule: RecurrenceRule, frequency: RecurrenceFrequency): RecurrenceRule {
+  const { weekdays, dayOfMonth, ...rest } = rule;
+  return {
+    ...rest,
+    frequency,
+    ...(frequency === 'weekly' && weekdays ? { weekdays } : {}),
+    ...(frequency === 'monthly' && dayOfMonth ? { dayOfMonth } : {}),
+  };
+}
+
+interface RecurrenceInputProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+}
+
+export function RecurrenceInput({ value, onChange }: RecurrenceInputProps) {
+  const handleFrequencyChange = (frequency: string | null) => {
+    if (!frequency || frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange(withFrequency(value ?? { frequency: 'daily', interval: 1 }, frequency as RecurrenceFrequency));
+  };
+
+  const handleEndChange = (end: string | null) => {
+    if (!value) {
+      return;
+    }
+    if (end === 'until') {
+      onChange({ ...value, until: toDueDate(new Date())!.toISOString(), count: null });
+    } else if (end === 'count') {
+      onChange({ ...value, until: null, count: 5 });
+    } else {
+      onChange({ ...value, until: null, count: null });
+    }
+  };
+
+  const handleWeekdaysChange = (days: string[]) => {
+    if (!value) {
+      return;
+    }
+    onChange({ ...value, weekdays: days.length > 0 ? days.map(Number) : undefined });
+  };
+
+  const handleDayOfMonthChange = (day: string | number) => {
+    if (!value) {
+      return;
+    }
+    onChange({ ...value, dayOfMonth: typeof day === 'number' ? day : undefined });
+  };
+
+  const end = value ? getRecurrenceEnd(value) : 'never';
+
+  return (
+    <Stack gap="xs">
+      <Group grow gap="sm" align="flex-end">
+        <Select
+          label="Repeat"
+          data={frequencySelectData}
+          value={value?.frequency ?? 'none'}
+          onChange={handleFrequencyChange}
+          leftSection={<IconRepeat size="1rem" />}
+          allowDeselect={false}
+        />
+        {value && (
+          <NumberInput
+            label="Every"
+            value={value.interval}
+            onChange={(interval) => onChange({ ...value, interval: typeof interval === 'number' ? interval : 1 })}
+            min={1}
+            max={MAX_RECURRENCE_INTERVAL}
+            allowDecimal={false}
+            rightSection={<Text size="xs" c="dimmed">{intervalUnits[value.frequency]}</Text>}
+            rightSectionWidth={64}
+          />
+        )}
+        {value && (
+          <Select
+            label="Ends"
+            data={endSelectData}
+            value={end}
+            onChange={handleEndChange}
+            allowDeselect={false}
+          />
+        )}
+        {value && end === 'until' && (
+          <DatePickerInput
+            label="Until"
+            value={value.until ? new Date(value.until) : null}
+            onChange={(date) => onChange({ ...value, until: toDueDate(date)?.toISOString() ?? null })}
+            leftSection={<IconCalendar size="1rem" />}
+          />
+        )}
+        {value && end === 'count' && (
+          <NumberInput
+            label="Occurrences"
+            value={value.count ?? 1}
+            onChange={(count) => onChange({ ...value, count: typeof count === 'number' ? count : 1 })}
+            min={1}
+            max={MAX_RECURRENCE_COUNT}
+            allowDecimal={false}
+          />
+        )}
+      </Group>
+
+      {value?.frequency === 'weekly' && (
+        <Chip.Group
+          multiple
+          value={value.weekdays?.map(String) ?? []}
+          onChange={handleWeekdaysChange}
+        >
+          <Group gap={4}>
+            {WEEKDAY_DISPLAY_ORDER.map((day) => (
+              <Chip key={day} value={String(day)} size="xs">
+                {WEEKDAY_LABELS[day]}
+              </Chip>
+            ))}
+          </Group>
+        </Chip.Group>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <NumberInput
+          label="Day of month"
+          description="Defaults to the day of the current due date; shorter months use their last day"
+          placeholder="Same day"
+          value={value.dayOfMonth ?? ''}
+          onChange={handleDayOfMonthChange}
+          min={1}
+          max={31}
+          allowDecimal={false}
+        />
+      )}
+
+      {value && (
+        <Text size="xs" c="dimmed">
+          {describeRecurrence(value)}
+        </Text>
+      )}
+    </Stack>
+  );
+}
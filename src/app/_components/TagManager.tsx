@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Modal,
+  Button,
+  Stack,
+  Group,
+  TextInput,
+  ColorInput,
+  ActionIcon,
+  Badge,
+  Text,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconPlus, IconTags, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { api } from '~/trpc/react';
+import { COLOR_SWATCHES, DEFAULT_COLOR } from './color-swatches';
+
+export function TagManager() {
+  const [opened, { open, close }] = useDisclosure(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+
+  const utils = api.useUtils();
+  const { data: tagsData } = api.tag.getAll.useQuery();
+  const tags = tagsData?.tags ?? [];
+
+  const invalidateTags = () => {
+    void utils.tag.getAll.invalidate();
+    void utils.todo.getAll.invalidate();
+  };
+
+  const showError = (message: string) => {
+    notifications.show({
+      title: 'Error',
+      message,
+      color: 'red',
+    });
+  };
+
+  const createMutation = api.tag.create.useMutation({
+    onSuccess: () => {
+      setName('');
+      setColor(DEFAULT_COLOR);
+      invalidateTags();
+    },
+    onError: (error) => showError(error.message || 'Failed to create tag'),
+  });
+
+  const updateMutation = api.tag.update.useMutation({
+    onSuccess: invalidateTags,
+    onError: (error) => showError(error.message || 'Failed to update tag'),
+  });
+
+  const deleteMutation = api.tag.delete.useMutation({
+    onSuccess: () => {
+      notifications.show({
+        title: 'Success',
+        message: 'Tag deleted successfully',
+        color: 'green',
+      });
+      invalidateTags();
+    },
+    onError: (error) => showError(error.message || 'Failed to delete tag'),
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      showError('Tag name is required');
+      return;
+    }
+
+    createMutation.mutate({ name: name.trim(), color });
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="xs"
+        onClick={open}
+        leftSection={<IconTags size="1rem" />}
+      >
+        Tags
+      </Button>
+
+      <Modal opened={opened} onClose={close} title="Manage tags">
+        <Stack gap="md">
+          <Group gap="sm" align="flex-end" wrap="nowrap">
+            <TextInput
+              label="Name"
+              placeholder="e.g. work"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              maxLength={50}
+              style={{ flex: 1 }}
+            />
+            <ColorInput
+              label="Color"
+              value={color}
+              onChange={setColor}
+              swatches={COLOR_SWATCHES}
+              w={120}
+            />
+            <ActionIcon
+              size="lg"
+              onClick={handleCreate}
+              loading={createMutation.isPending}
+              aria-label="Add tag"
+            >
+              <IconPlus size="1rem" />
+            </ActionIcon>
+          </Group>
+
+          {tags.length === 0 ? (
+            <Text c="dimmed" size="sm" ta="center">
+              No tags yet. Create one to start organizing your todos.
+            </Text>
+          ) : (
+            <Stack gap="xs">
+              {tags.map((tag) => (
+                <Group key={tag.id} justify="space-between" wrap="nowrap">
+                  <Badge color={tag.color} variant="light">
+                    {tag.name}
+                  </Badge>
+                  <Group gap="xs" wrap="nowrap">
+                    <ColorInput
+                      size="xs"
+                      defaultValue={tag.color}
+                      onChangeEnd={(value) => updateMutation.mutate({ id: tag.id, color: value })}
+                      swatches={COLOR_SWATCHES}
+                      w={110}
+                      aria-label={`Color for ${tag.name}`}
+                    />
+                    <ActionIcon
+                      variant="subtle"
+                      color="red"
+                      onClick={() => deleteMutation.mutate({ id: tag.id })}
+                      disabled={deleteMutation.isPending}
+                      aria-label={`Delete ${tag.name}`}
+                    >
+                      <IconTrash size="1rem" />
+                    </ActionIcon>
+                  </Group>
+                </Group>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      </Modal>
+    </>
+  );
+}
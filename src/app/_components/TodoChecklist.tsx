@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { ActionIcon, Button, Checkbox, Group, Stack, Text, TextInput } from '@mantine/core';
+import { IconArrowDown, IconArrowUp, IconPlus, IconX } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { api } from '~/trpc/react';
+
+export interface TodoChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+  rank: number;
+}
+
+/**
+ * Completed/total counts for a checklist, e.g. "3/5 done"
+ */
+export function getChecklistProgress(items: TodoChecklistItem[]) {
+  return {
+    completed: items.filter(item => item.completed).length,
+    total: items.length,
+  };
+}
+
+interface TodoChecklistProps {
+  todoId: string;
+  items: TodoChecklistItem[];
+}
+
+export function TodoChecklist({ todoId, items }: TodoChecklistProps) {
+  const [newTitle, setNewTitle] = useState('');
+
+  const utils = api.useUtils();
+
+  const showError = (message: string) => {
+    notifications.show({
+      title: 'Error',
+      message,
+      color: 'red',
+    });
+  };
+
+  const addMutation = api.todo.addChecklistItem.useMutation({
+    onSuccess: () => {
+      setNewTitle('');
+      void utils.todo.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to add checklist item'),
+  });
+
+  const toggleMutation = api.todo.toggleChecklistItem.useMutation({
+    onSuccess: () => {
+      void utils.todo.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to update checklist item'),
+  });
+
+  const deleteMutation = api.todo.deleteChecklistItem.useMutation({
+    onSuccess: () => {
+      void utils.todo.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to delete checklist item'),
+  });
+
+  const reorderMutation = api.todo.reorderChecklistItem.useMutation({
+    onSuccess: () => {
+      void utils.todo.getAll.invalidate();
+    },
+    onError: (error) => showError(error.message || 'Failed to move checklist item'),
+  });
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) {
+      return;
+    }
+    addMutation.mutate({ todoId, title: newTitle.trim() });
+  };
+
+  const handleMoveUp = (index: number) => {
+    const item = items[index];
+    const previous = items[index - 1];
+    if (item && previous) {
+      reorderMutation.mutate({ id: item.id, beforeId: previous.id });
+    }
+  };
+
+  const handleMoveDown = (index: number) => {
+    const item = items[index];
+    const next = items[index + 1];
+    if (item && next) {
+      reorderMutation.mutate({ id: item.id, afterId: next.id });
+    }
+  };
+
+  return (
+    <Stack gap={4}>
+      {items.map((item, index) => (
+        <Group key={item.id} gap="xs" wrap="nowrap">
+          <Checkbox
+            size="xs"
+            checked={item.completed}
+            onChange={() => toggleMutation.mutate({ id: item.id })}
+            disabled={toggleMutation.isPending}
+          />
+          <Text
+            size="sm"
+            style={{
+              flex: 1,
+              textDecoration: item.completed ? 'line-through' : 'none',
+              opacity: item.completed ? 0.6 : 1,
+            }}
+          >
+            {item.title}
+          </Text>
+          <ActionIcon
+            variant="subtle"
+            color="gray"
+            size="xs"
+            aria-label="Move up"
+            onClick={() => handleMoveUp(index)}
+            disabled={index === 0 || reorderMutation.isPending}
+          >
+            <IconArrowUp size="0.8rem" />
+          </ActionIcon>
+          <ActionIcon
+            variant="subtle"
+            color="gray"
+            size="xs"
+            aria-label="Move down"
+            onClick={() => handleMoveDown(index)}
+            disabled={index === items.length - 1 || reorderMutation.isPending}
+          >
+            <IconArrowDown size="0.8rem" />
+          </ActionIcon>
+          <ActionIcon
+            variant="subtle"
+            color="red"
+            size="xs"
+            aria-label="Delete checklist item"
+            onClick={() => deleteMutation.mutate({ id: item.id })}
+            disabled={deleteMutation.isPending}
+          >
+            <IconX size="0.8rem" />
+          </ActionIcon>
+        </Group>
+      ))}
+      <Group gap="xs" wrap="nowrap">
+        <TextInput
+          size="xs"
+          placeholder="Add checklist item..."
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          maxLength={200}
+          style={{ flex: 1 }}
+        />
+        <Button
+          size="xs"
+          variant="light"
+          leftSection={<IconPlus size="0.8rem" />}
+          onClick={handleAdd}
+          loading={addMutation.isPending}
+          disabled={!newTitle.trim()}
+        >
+          Add
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { Button, Center, Loader, Stack, Text, Timeline } from '@mantine/core';
+import { IconArrowBackUp, IconCheck, IconPencil, IconPlus, IconRotate } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import dayjs from 'dayjs';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type TodoRevision = RouterOutputs['todo']['getHistory']['revisions'][number];
+
+/**
+ * Revisions recorded by the same update, newest change first
+ */
+function groupRevisionsByChange(revisions: TodoRevision[]): TodoRevision[][] {
+  const changes = new Map<number, TodoRevision[]>();
+  for (const revision of revisions) {
+    const time = revision.createdAt.getTime();
+    changes.set(time, [...(changes.get(time) ?? []), revision]);
+  }
+  return [...changes.values()];
+}
+
+/**
+ * One-line description of a field change, e.g. 'Renamed from "a" to "b"'
+ */
+function describeRevision(revision: TodoRevision): string {
+  switch (revision.field) {
+    case 'title':
+      return `Renamed from "${String(revision.previousValue)}" to "${String(revision.newValue)}"`;
+    case 'description':
+      if (!revision.previousValue) {
+        return 'Added a description';
+      }
+      return revision.newValue ? 'Edited the description' : 'Removed the description';
+    case 'completed':
+      return revision.newValue ? 'Marked as completed' : 'Reopened';
+  }
+}
+
+function formatChangeTime(date: Date): string {
+  return dayjs(date).format('MMM D, YYYY h:mm A');
+}
+
+interface TodoHistoryProps {
+  todoId: string;
+  createdAt: Date;
+  /** Version of the todo being shown; a revert fails if the todo has changed since */
+  version: number;
+}
+
+export function TodoHistory({ todoId, createdAt, version }: TodoHistoryProps) {
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.todo.getHistory.useQuery({ id: todoId });
+
+  const revertMutation = api.todo.revert.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      void utils.todo.getHistory.invalidate({ id: todoId });
+      void utils.todo.getAll.invalidate();
+      void utils.todo.getStats.invalidate();
+    },
+    onError: (error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message || 'Failed to revert todo',
+        color: 'red',
+      });
+    },
+  });
+
+  const handleRevert = (change: TodoRevision[]) => {
+    const [revision] = change;
+    if (!revision) {
+      return;
+    }
+
+    modals.openConfirmModal({
+      title: 'Restore this version?',
+      children: (
+        <Text size="sm">
+          The title, description and completion go back to how they were on {formatChangeTime(revision.createdAt)}.
+          The restore shows up in the history, so it can be undone.
+        </Text>
+      ),
+      labels: { confirm: 'Restore', cancel: 'Cancel' },
+      onConfirm: () => revertMutation.mutate({ id: todoId, revisionId: revision.id, expectedVersion: version }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Center py="xs">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  if (error) {
+    return (
+      <Text size="sm" c="red">
+        {error.message || 'Failed to load history'}
+      </Text>
+    );
+  }
+
+  const changes = groupRevisionsByChange(data?.revisions ?? []);
+
+  return (
+    <Timeline bulletSize={20} lineWidth={2} mt="xs">
+      {changes.map((change, index) => {
+        const isCompletion = change.every(revision => revision.field === 'completed');
+        return (
+          <Timeline.Item
+            key={change[0]?.id}
+            bullet={isCompletion
+              ? (change[0]?.newValue ? <IconCheck size="0.7rem" /> : <IconRotate size="0.7rem" />)
+              : <IconPencil size="0.7rem" />}
+          >
+            <Stack gap={2}>
+              {change.map((revision) => (
+                <Text key={revision.id} size="sm">{describeRevision(revision)}</Text>
+              ))}
+              <Text size="xs" c="dimmed">{change[0] && formatChangeTime(change[0].createdAt)}</Text>
+              {/* The newest change is the current state */}
+              {index > 0 && (
+                <Button
+                  variant="subtle"
+                  size="compact-xs"
+                  leftSection={<IconArrowBackUp size="0.8rem" />}
+                  onClick={() => handleRevert(change)}
+                  loading={revertMutation.isPending}
+                  w="fit-content"
+                >
+                  Restore this version
+                </Button>
+              )}
+            </Stack>
+          </Timeline.Item>
+        );
+      })}
+      <Timeline.Item bullet={<IconPlus size="0.7rem" />}>
+        <Text size="sm">Created</Text>
+        <Text size="xs" c="dimmed">{formatChangeTime(createdAt)}</Text>
+      </Timeline.Item>
+    </Timeline>
+  );
+}
@@ -12,44 +12,115 @@ import {
   Textarea,
   Button,
   Stack,
+  Badge,
+  Select,
+  MultiSelect,
+  Collapse,
 } from '@mantine/core';
-import { IconDots, IconEdit, IconTrash, IconCheck, IconX } from '@tabler/icons-react';
+import { DatePickerInput } from '@mantine/dates';
+import type { DraggableProvidedDragHandleProps } from '@hello-pangea/dnd';
+import { IconDots, IconEdit, IconTrash, IconCheck, IconX, IconCalendar, IconAlertTriangle, IconTags, IconGripVertical, IconListCheck, IconRepeat, IconHistory } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
 import { api } from '~/trpc/react';
+import { formatTodoDate, isDueToday, isOverdue, toDueDate, toStartDate } from './todo-dates';
+import { getPriorityOption, prioritySelectData, type TodoPriority } from './todo-priority';
+import { toTagSelectData, type TodoTag } from './todo-tags';
+import { fromProjectSelectValue, toProjectSelectData, toProjectSelectValue } from './todo-projects';
+import { TodoChecklist, getChecklistProgress, type TodoChecklistItem } from './TodoChecklist';
+import { RecurrenceInput } from './RecurrenceInput';
+import { TodoHistory } from './TodoHistory';
+import { describeRecurrence, type RecurrenceRule } from '~/lib/recurrence';
 
 interface Todo {
   id: string;
   title: string;
   description?: string | null;
   completed: boolean;
+  priority: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  tags: TodoTag[];
+  checklist: TodoChecklistItem[];
+  projectId?: string | null;
   createdAt: Date;
   updatedAt: Date;
+  version: number;
 }
 
 interface TodoItemProps {
   todo: Todo;
   onUpdate?: () => void;
+  /** Provided when the list is in manual order; renders a drag handle */
+  dragHandleProps?: DraggableProvidedDragHandleProps | null;
 }
 
-export function TodoItem({ todo, onUpdate }: TodoItemProps) {
+export function TodoItem({ todo, onUpdate, dragHandleProps }: TodoItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(todo.title);
   const [editDescription, setEditDescription] = useState(todo.description ?? '');
+  const [editPriority, setEditPriority] = useState<TodoPriority>(todo.priority);
+  const [editStartDate, setEditStartDate] = useState<Date | null>(todo.startDate ?? null);
+  const [editDueDate, setEditDueDate] = useState<Date | null>(todo.dueDate ?? null);
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceRule | null>(todo.recurrence ?? null);
+  const [editTagIds, setEditTagIds] = useState<string[]>(todo.tags.map(tag => tag.id));
+  const [editProjectId, setEditProjectId] = useState<string | null>(todo.projectId ?? null);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Version the edit form was opened with, so edits made elsewhere meanwhile are detected
+  const [editVersion, setEditVersion] = useState(todo.version);
+
+  const priorityOption = getPriorityOption(todo.priority);
+  const overdue = isOverdue(todo);
+  const dueToday = !overdue && isDueToday(todo);
+  const checklistProgress = getChecklistProgress(todo.checklist);
 
   const utils = api.useUtils();
+  const { data: tagsData } = api.tag.getAll.useQuery(undefined, { enabled: isEditing });
+  const { data: projectsData } = api.project.getAll.useQuery(undefined, { enabled: isEditing });
+
+  /**
+   * Ask whether to reload or overwrite after a write was rejected because the todo changed elsewhere
+   */
+  const openConflictDialog = (overwrite: () => void) => {
+    modals.openConfirmModal({
+      title: 'This todo changed elsewhere',
+      children: (
+        <Text size="sm">
+          It was changed in another tab or window after you opened it. Reload it to see the latest
+          version, or overwrite it with your changes.
+        </Text>
+      ),
+      labels: { confirm: 'Overwrite', cancel: 'Reload' },
+      confirmProps: { color: 'red' },
+      onConfirm: overwrite,
+      onCancel: () => {
+        setIsEditing(false);
+        void utils.todo.getAll.invalidate();
+        void utils.todo.getStats.invalidate();
+      },
+    });
+  };
 
   const toggleMutation = api.todo.toggle.useMutation({
-    onSuccess: () => {
+    onSuccess: ({ nextOccurrence }) => {
       notifications.show({
         title: 'Success',
-        message: `Todo marked as ${!todo.completed ? 'completed' : 'pending'}`,
+        message: nextOccurrence?.dueDate
+          ? `Todo completed; next occurrence due ${formatTodoDate(nextOccurrence.dueDate)}`
+          : `Todo marked as ${!todo.completed ? 'completed' : 'pending'}`,
         color: 'green',
       });
       void utils.todo.getAll.invalidate();
       void utils.todo.getStats.invalidate();
       onUpdate?.();
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (error.data?.code === 'CONFLICT') {
+        openConflictDialog(() => toggleMutation.mutate({ ...variables, expectedVersion: undefined }));
+        return;
+      }
       notifications.show({
         title: 'Error',
         message: error.message || 'Failed to update todo',
@@ -70,7 +141,11 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
       void utils.todo.getStats.invalidate();
       onUpdate?.();
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (error.data?.code === 'CONFLICT') {
+        openConflictDialog(() => updateMutation.mutate({ ...variables, expectedVersion: undefined }));
+        return;
+      }
       notifications.show({
         title: 'Error',
         message: error.message || 'Failed to update todo',
@@ -83,11 +158,12 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
     onSuccess: () => {
       notifications.show({
         title: 'Success',
-        message: 'Todo deleted successfully',
+        message: 'Todo moved to trash',
         color: 'green',
       });
       void utils.todo.getAll.invalidate();
       void utils.todo.getStats.invalidate();
+      void utils.todo.listTrash.invalidate();
       onUpdate?.();
     },
     onError: (error) => {
@@ -100,12 +176,37 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
   });
 
   const handleToggle = () => {
-    toggleMutation.mutate({ id: todo.id });
+    const timezoneOffset = new Date().getTimezoneOffset();
+    const openItems = checklistProgress.total - checklistProgress.completed;
+    if (todo.completed || openItems === 0) {
+      toggleMutation.mutate({ id: todo.id, timezoneOffset, expectedVersion: todo.version });
+      return;
+    }
+
+    // Completing a todo with open checklist items: let the user decide whether they go too
+    modals.openConfirmModal({
+      title: 'Complete checklist too?',
+      children: (
+        <Text size="sm">
+          {openItems === 1 ? '1 checklist item is' : `${openItems} checklist items are`} still open.
+        </Text>
+      ),
+      labels: { confirm: 'Complete all', cancel: 'Only this todo' },
+      onConfirm: () => toggleMutation.mutate({ id: todo.id, completeChecklist: true, timezoneOffset, expectedVersion: todo.version }),
+      onCancel: () => toggleMutation.mutate({ id: todo.id, timezoneOffset, expectedVersion: todo.version }),
+    });
   };
 
   const handleEdit = () => {
     setEditTitle(todo.title);
     setEditDescription(todo.description ?? '');
+    setEditPriority(todo.priority);
+    setEditStartDate(todo.startDate ?? null);
+    setEditDueDate(todo.dueDate ?? null);
+    setEditRecurrence(todo.recurrence ?? null);
+    setEditTagIds(todo.tags.map(tag => tag.id));
+    setEditProjectId(todo.projectId ?? null);
+    setEditVersion(todo.version);
     setIsEditing(true);
   };
 
@@ -123,12 +224,26 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
       id: todo.id,
       title: editTitle.trim(),
       description: editDescription.trim() || undefined,
+      priority: editPriority,
+      startDate: toStartDate(editStartDate),
+      dueDate: toDueDate(editDueDate),
+      recurrence: editRecurrence,
+      tagIds: editTagIds,
+      projectId: editProjectId,
+      timezoneOffset: new Date().getTimezoneOffset(),
+      expectedVersion: editVersion,
     });
   };
 
   const handleCancel = () => {
     setEditTitle(todo.title);
     setEditDescription(todo.description ?? '');
+    setEditPriority(todo.priority);
+    setEditStartDate(todo.startDate ?? null);
+    setEditDueDate(todo.dueDate ?? null);
+    setEditRecurrence(todo.recurrence ?? null);
+    setEditTagIds(todo.tags.map(tag => tag.id));
+    setEditProjectId(todo.projectId ?? null);
     setIsEditing(false);
   };
 
@@ -156,6 +271,53 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
             minRows={2}
             maxRows={4}
           />
+          <Group grow gap="sm">
+            <Select
+              label="Priority"
+              data={prioritySelectData}
+              value={editPriority}
+              onChange={(value) => setEditPriority((value as TodoPriority | null) ?? 'none')}
+              allowDeselect={false}
+            />
+            <DatePickerInput
+              label="Start date"
+              placeholder="Optional"
+              value={editStartDate}
+              onChange={setEditStartDate}
+              maxDate={editDueDate ?? undefined}
+              leftSection={<IconCalendar size="1rem" />}
+              clearable
+            />
+            <DatePickerInput
+              label="Due date"
+              placeholder="Optional"
+              value={editDueDate}
+              onChange={setEditDueDate}
+              minDate={editStartDate ?? undefined}
+              leftSection={<IconCalendar size="1rem" />}
+              clearable
+            />
+          </Group>
+          <RecurrenceInput value={editRecurrence} onChange={setEditRecurrence} />
+          <Group grow gap="sm" align="flex-start">
+            <Select
+              label="Project"
+              data={toProjectSelectData(projectsData?.projects ?? [])}
+              value={toProjectSelectValue(editProjectId)}
+              onChange={(value) => setEditProjectId(fromProjectSelectValue(value))}
+              allowDeselect={false}
+            />
+            <MultiSelect
+              label="Tags"
+              placeholder={editTagIds.length === 0 ? 'Optional' : undefined}
+              data={toTagSelectData(tagsData?.tags ?? todo.tags)}
+              value={editTagIds}
+              onChange={setEditTagIds}
+              leftSection={<IconTags size="1rem" />}
+              searchable
+              clearable
+            />
+          </Group>
           <Group justify="flex-end" gap="sm">
             <Button 
               variant="outline" 
@@ -180,9 +342,27 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
   }
 
   return (
-    <Card shadow="sm" padding="md" radius="md" withBorder>
+    <Card
+      shadow="sm"
+      padding="md"
+      radius="md"
+      withBorder
+      style={overdue ? { borderColor: 'var(--mantine-color-red-5)' } : undefined}
+    >
       <Group justify="space-between" align="flex-start">
         <Group align="flex-start" gap="sm" style={{ flex: 1 }}>
+          {dragHandleProps && (
+            <ActionIcon
+              {...dragHandleProps}
+              variant="subtle"
+              color="gray"
+              size="sm"
+              aria-label="Drag to reorder"
+              style={{ cursor: 'grab' }}
+            >
+              <IconGripVertical size="1rem" />
+            </ActionIcon>
+          )}
           <Checkbox
             checked={todo.completed}
             onChange={handleToggle}
@@ -190,15 +370,22 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
             mt={2}
           />
           <Stack gap="xs" style={{ flex: 1 }}>
-            <Text
-              fw={500}
-              style={{
-                textDecoration: todo.completed ? 'line-through' : 'none',
-                opacity: todo.completed ? 0.6 : 1,
-              }}
-            >
-              {todo.title}
-            </Text>
+            <Group gap="xs" wrap="nowrap" align="center">
+              <Text
+                fw={500}
+                style={{
+                  textDecoration: todo.completed ? 'line-through' : 'none',
+                  opacity: todo.completed ? 0.6 : 1,
+                }}
+              >
+                {todo.title}
+              </Text>
+              {todo.priority !== 'none' && (
+                <Badge size="xs" variant="light" color={priorityOption.color}>
+                  {priorityOption.label}
+                </Badge>
+              )}
+            </Group>
             {todo.description && (
               <Text
                 size="sm"
@@ -211,13 +398,67 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
                 {todo.description}
               </Text>
             )}
+            {(todo.startDate ?? todo.dueDate ?? todo.recurrence) && (
+              <Group gap="xs">
+                {todo.startDate && (
+                  <Badge size="sm" variant="light" color="gray" leftSection={<IconCalendar size="0.8rem" />}>
+                    Starts {formatTodoDate(todo.startDate)}
+                  </Badge>
+                )}
+                {todo.dueDate && (
+                  <Badge
+                    size="sm"
+                    variant={overdue ? 'filled' : 'light'}
+                    color={overdue ? 'red' : dueToday ? 'orange' : 'blue'}
+                    leftSection={overdue ? <IconAlertTriangle size="0.8rem" /> : <IconCalendar size="0.8rem" />}
+                  >
+                    {overdue ? 'Overdue' : dueToday ? 'Due today' : 'Due'} · {formatTodoDate(todo.dueDate)}
+                  </Badge>
+                )}
+                {todo.recurrence && (
+                  <Badge size="sm" variant="light" color="grape" leftSection={<IconRepeat size="0.8rem" />}>
+                    {describeRecurrence(todo.recurrence)}
+                  </Badge>
+                )}
+              </Group>
+            )}
+            {todo.tags.length > 0 && (
+              <Group gap={4}>
+                {todo.tags.map((tag) => (
+                  <Badge key={tag.id} size="sm" variant="light" color={tag.color} radius="sm">
+                    {tag.name}
+                  </Badge>
+                ))}
+              </Group>
+            )}
+            {checklistProgress.total > 0 && (
+              <Group gap={4}>
+                <Badge
+                  size="sm"
+                  variant="light"
+                  color={checklistProgress.completed === checklistProgress.total ? 'green' : 'gray'}
+                  leftSection={<IconListCheck size="0.8rem" />}
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => setShowChecklist((shown) => !shown)}
+                >
+                  {checklistProgress.completed}/{checklistProgress.total} done
+                </Badge>
+              </Group>
+            )}
+            <Collapse in={showChecklist}>
+              <TodoChecklist todoId={todo.id} items={todo.checklist} />
+            </Collapse>
             <Text size="xs" c="dimmed">
               Created: {new Date(todo.createdAt).toLocaleDateString()}
             </Text>
+            <Collapse in={showHistory}>
+              {/* Mounted only while open so the history is fetched on demand */}
+              {showHistory && <TodoHistory todoId={todo.id} createdAt={todo.createdAt} version={todo.version} />}
+            </Collapse>
           </Stack>
         </Group>
 
-        <Menu shadow="md" width={120}>
+        <Menu shadow="md" width={150}>
           <Menu.Target>
             <ActionIcon variant="subtle" color="gray">
               <IconDots size="1rem" />
@@ -231,6 +472,18 @@ export function TodoItem({ todo, onUpdate }: TodoItemProps) {
             >
               Edit
             </Menu.Item>
+            <Menu.Item
+              leftSection={<IconListCheck size="1rem" />}
+              onClick={() => setShowChecklist((shown) => !shown)}
+            >
+              {showChecklist ? 'Hide checklist' : 'Checklist'}
+            </Menu.Item>
+            <Menu.Item
+              leftSection={<IconHistory size="1rem" />}
+              onClick={() => setShowHistory((shown) => !shown)}
+            >
+              {showHistory ? 'Hide history' : 'History'}
+            </Menu.Item>
             <Menu.Item 
               leftSection={<IconTrash size="1rem" />}
               color="red"
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Stack,
   Title,
@@ -14,35 +14,81 @@ import {
   Badge,
   Paper,
   Box,
+  Select,
+  MultiSelect,
 } from '@mantine/core';
-import { useMediaQuery } from '@mantine/hooks';
-import { IconInfoCircle, IconCheckupList, IconCircleCheck, IconClock } from '@tabler/icons-react';
+import { useIntersection, useMediaQuery } from '@mantine/hooks';
+import { notifications } from '@mantine/notifications';
+import { DragDropContext, Draggable, Droppable, type DropResult } from '@hello-pangea/dnd';
+import { IconInfoCircle, IconCheckupList, IconCircleCheck, IconClock, IconAlertTriangle, IconCalendarDue, IconTags } from '@tabler/icons-react';
 import { api } from '~/trpc/react';
 import { TodoItem } from './TodoItem';
 import { AddTodoForm } from './AddTodoForm';
+import { TagManager } from './TagManager';
+import { TodoTransfer } from './TodoTransfer';
+import { toTagSelectData } from './todo-tags';
+import { getDropTarget, moveTodo } from './todo-order';
+import { useTodoSync } from './use-todo-sync';
 
 type FilterType = 'all' | 'pending' | 'completed';
+type SortType = 'priority' | 'newest' | 'manual';
+type TagMatchType = 'any' | 'all';
 
-export function TodoList() {
+interface TodoListProps {
+  /** Selected list: a project ID, null for the Inbox, undefined for all todos */
+  projectId?: string | null;
+  title?: string;
+}
+
+export function TodoList({ projectId, title = 'My Todos' }: TodoListProps) {
   const [filter, setFilter] = useState<FilterType>('all');
+  const [sortBy, setSortBy] = useState<SortType>('priority');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatchType>('any');
   const isMobile = useMediaQuery('(max-width: 768px)');
 
+  const todosInput = {
+    includeCompleted: true,
+    sortBy,
+    tagIds: tagFilter.length > 0 ? tagFilter : undefined,
+    tagMatch,
+    projectId,
+  };
+
   const { 
     data: todosData, 
     isLoading: todosLoading, 
     error: todosError,
-    refetch: refetchTodos 
-  } = api.todo.getAll.useQuery({
-    includeCompleted: true,
+    refetch: refetchTodos,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = api.todo.getAll.useInfiniteQuery(todosInput, {
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  // Load the next page when the sentinel below the list scrolls into view
+  const { ref: loadMoreRef, entry: loadMoreEntry } = useIntersection({ rootMargin: '200px' });
+  useEffect(() => {
+    if (loadMoreEntry?.isIntersecting && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  }, [loadMoreEntry?.isIntersecting, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { data: tagsData } = api.tag.getAll.useQuery();
+
   const { 
     data: statsData,
     isLoading: statsLoading 
-  } = api.todo.getStats.useQuery();
+  } = api.todo.getStats.useQuery({
+    timezoneOffset: new Date().getTimezoneOffset(),
+    projectId,
+  });
 
-  const todos = todosData?.todos ?? [];
-  const stats = statsData?.stats ?? { total: 0, completed: 0, pending: 0 };
+  const todos = todosData?.pages.flatMap(page => page.todos) ?? [];
+  const tags = tagsData?.tags ?? [];
+  const hasTagFilter = tagFilter.length > 0;
+  const stats = statsData?.stats ?? { total: 0, completed: 0, pending: 0, overdue: 0, dueToday: 0 };
 
   // Filter todos based on current filter
   const filteredTodos = todos.filter(todo => {
@@ -58,6 +104,56 @@ export function TodoList() {
 
   const utils = api.useUtils();
 
+  // Apply changes made in other tabs and on other devices as they happen
+  useTodoSync();
+
+  // Move the todo in the cached list straight away; roll back if the server rejects it
+  const reorderMutation = api.todo.reorder.useMutation({
+    onMutate: async ({ id, afterId, beforeId }) => {
+      await utils.todo.getAll.cancel(todosInput);
+      const previous = utils.todo.getAll.getInfiniteData(todosInput);
+      utils.todo.getAll.setInfiniteData(todosInput, (data) => {
+        if (!data) {
+          return data;
+        }
+        // Move across the loaded pages, then cut the list back into pages of the same sizes
+        let moved = moveTodo(data.pages.flatMap(page => page.todos), id, { afterId, beforeId });
+        const pages = data.pages.map(page => {
+          const todos = moved.slice(0, page.todos.length);
+          moved = moved.slice(page.todos.length);
+          return { ...page, todos };
+        });
+        return { ...data, pages };
+      });
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        utils.todo.getAll.setInfiniteData(todosInput, context.previous);
+      }
+      notifications.show({
+        title: 'Error',
+        message: error.message || 'Failed to move todo',
+        color: 'red',
+      });
+    },
+    onSettled: () => {
+      void utils.todo.getAll.invalidate();
+    },
+  });
+
+  const isManualOrder = sortBy === 'manual';
+
+  const handleDragEnd = ({ source, destination, draggableId }: DropResult) => {
+    if (!destination || destination.index === source.index) {
+      return;
+    }
+    reorderMutation.mutate({
+      id: draggableId,
+      ...getDropTarget(filteredTodos, source.index, destination.index),
+    });
+  };
+
   const handleRefresh = () => {
     void refetchTodos();
     void utils.todo.getStats.invalidate();
@@ -97,20 +193,24 @@ export function TodoList() {
         <Group justify="space-between" align="flex-start" mb="md">
           <div>
             <Title order={2} mb="xs">
-              My Todos
+              {title}
             </Title>
             <Text c="dimmed" size="sm">
               Stay organized and get things done
             </Text>
           </div>
-          <Button 
-            variant="outline" 
-            size="xs"
-            onClick={handleRefresh}
-            loading={todosLoading}
-          >
-            Refresh
-          </Button>
+          <Group gap="xs">
+            <TagManager />
+            <TodoTransfer />
+            <Button 
+              variant="outline" 
+              size="xs"
+              onClick={handleRefresh}
+              loading={todosLoading}
+            >
+              Refresh
+            </Button>
+          </Group>
         </Group>
 
         {/* Stats */}
@@ -139,14 +239,34 @@ export function TodoList() {
               </Text>
             </Group>
           </Paper>
+          {stats.dueToday > 0 && (
+            <Paper p="xs" radius="sm" bg="yellow.0" c="yellow.9">
+              <Group gap="xs">
+                <IconCalendarDue size="1rem" />
+                <Text size="sm" fw={500}>
+                  Due today: {stats.dueToday}
+                </Text>
+              </Group>
+            </Paper>
+          )}
+          {stats.overdue > 0 && (
+            <Paper p="xs" radius="sm" bg="red.0" c="red.8">
+              <Group gap="xs">
+                <IconAlertTriangle size="1rem" />
+                <Text size="sm" fw={500}>
+                  Overdue: {stats.overdue}
+                </Text>
+              </Group>
+            </Paper>
+          )}
         </Group>
       </div>
 
       {/* Add Todo Form */}
-      <AddTodoForm onSuccess={() => refetchTodos()} />
+      <AddTodoForm projectId={projectId ?? null} onSuccess={() => refetchTodos()} />
 
       {/* Filter Controls */}
-      {todos.length > 0 && (
+      {(todos.length > 0 || hasTagFilter) && (
         <Stack gap="sm">
           <Title order={4}>
             Your Tasks
@@ -155,75 +275,147 @@ export function TodoList() {
             </Badge>
           </Title>
           
-          <Box style={{ alignSelf: isMobile ? 'stretch' : 'flex-end' }}>
-            <SegmentedControl
+          <Group
+            justify={isMobile ? 'flex-start' : 'flex-end'}
+            gap="sm"
+            grow={isMobile}
+          >
+            <Select
               size={isMobile ? "xs" : "sm"}
-              value={filter}
-              onChange={(value) => setFilter(value as FilterType)}
-              fullWidth={isMobile}
+              value={sortBy}
+              onChange={(value) => setSortBy((value as SortType | null) ?? 'priority')}
+              allowDeselect={false}
               data={[
-                {
-                  label: isMobile ? (
-                    <Box ta="center">
-                      <Text size="xs">All</Text>
-                      <Badge size="xs" variant="light" color="blue">
-                        {todos.length}
-                      </Badge>
-                    </Box>
-                  ) : (
-                    <Group gap="xs" wrap="nowrap">
-                      <Text size="sm">All</Text>
-                      <Badge size="xs" variant="light" color="blue">
-                        {todos.length}
-                      </Badge>
-                    </Group>
-                  ),
-                  value: 'all',
-                },
-                {
-                  label: isMobile ? (
-                    <Box ta="center">
-                      <Text size="xs">Pending</Text>
-                      <Badge size="xs" variant="light" color="orange">
-                        {stats.pending}
-                      </Badge>
-                    </Box>
-                  ) : (
-                    <Group gap="xs" wrap="nowrap">
-                      <Text size="sm">Pending</Text>
-                      <Badge size="xs" variant="light" color="orange" style={{ minWidth: 20 }}>
-                        {stats.pending}
-                      </Badge>
-                    </Group>
-                  ),
-                  value: 'pending',
-                },
-                {
-                  label: isMobile ? (
-                    <Box ta="center">
-                      <Text size="xs">Done</Text>
-                      <Badge size="xs" variant="light" color="green">
-                        {stats.completed}
-                      </Badge>
-                    </Box>
-                  ) : (
-                    <Group gap="xs" wrap="nowrap">
-                      <Text size="sm">Done</Text>
-                      <Badge size="xs" variant="light" color="green"  style={{ minWidth: 20 }}>
-                        {stats.completed}
-                      </Badge>
-                    </Group>
-                  ),
-                  value: 'completed',
-                },
+                { value: 'priority', label: 'Sort: Priority' },
+                { value: 'newest', label: 'Sort: Newest' },
+                { value: 'manual', label: 'Sort: Manual' },
               ]}
+              w={isMobile ? undefined : 160}
             />
-          </Box>
+            <Box style={{ flex: isMobile ? 1 : undefined }}>
+              <SegmentedControl
+                size={isMobile ? "xs" : "sm"}
+                value={filter}
+                onChange={(value) => setFilter(value as FilterType)}
+                fullWidth={isMobile}
+                data={[
+                  {
+                    label: isMobile ? (
+                      <Box ta="center">
+                        <Text size="xs">All</Text>
+                        <Badge size="xs" variant="light" color="blue">
+                          {stats.total}
+                        </Badge>
+                      </Box>
+                    ) : (
+                      <Group gap="xs" wrap="nowrap">
+                        <Text size="sm">All</Text>
+                        <Badge size="xs" variant="light" color="blue">
+                          {stats.total}
+                        </Badge>
+                      </Group>
+                    ),
+                    value: 'all',
+                  },
+                  {
+                    label: isMobile ? (
+                      <Box ta="center">
+                        <Text size="xs">Pending</Text>
+                        <Badge size="xs" variant="light" color="orange">
+                          {stats.pending}
+                        </Badge>
+                      </Box>
+                    ) : (
+                      <Group gap="xs" wrap="nowrap">
+                        <Text size="sm">Pending</Text>
+                        <Badge size="xs" variant="light" color="orange" style={{ minWidth: 20 }}>
+                          {stats.pending}
+                        </Badge>
+                      </Group>
+                    ),
+                    value: 'pending',
+                  },
+                  {
+                    label: isMobile ? (
+                      <Box ta="center">
+                        <Text size="xs">Done</Text>
+                        <Badge size="xs" variant="light" color="green">
+                          {stats.completed}
+                        </Badge>
+                      </Box>
+                    ) : (
+                      <Group gap="xs" wrap="nowrap">
+                        <Text size="sm">Done</Text>
+                        <Badge size="xs" variant="light" color="green"  style={{ minWidth: 20 }}>
+                          {stats.completed}
+                        </Badge>
+                      </Group>
+                    ),
+                    value: 'completed',
+                  },
+                ]}
+              />
+            </Box>
+          </Group>
+
+          {tags.length > 0 && (
+            <Group
+              justify={isMobile ? 'flex-start' : 'flex-end'}
+              gap="sm"
+              grow={isMobile}
+            >
+              <MultiSelect
+                size={isMobile ? "xs" : "sm"}
+                placeholder={hasTagFilter ? undefined : 'Filter by tags'}
+                data={toTagSelectData(tags)}
+                value={tagFilter}
+                onChange={setTagFilter}
+                leftSection={<IconTags size="1rem" />}
+                searchable
+                clearable
+                w={isMobile ? undefined : 320}
+              />
+              {tagFilter.length > 1 && (
+                <SegmentedControl
+                  size={isMobile ? "xs" : "sm"}
+                  value={tagMatch}
+                  onChange={(value) => setTagMatch(value as TagMatchType)}
+                  data={[
+                    { label: 'Any tag', value: 'any' },
+                    { label: 'All tags', value: 'all' },
+                  ]}
+                />
+              )}
+            </Group>
+          )}
         </Stack>
       )}
 
       {/* Todo Items */}
-      {filteredTodos.length > 0 ? (
+      {filteredTodos.length > 0 && isManualOrder ? (
+        <DragDropContext onDragEnd={handleDragEnd}>
+          <Droppable droppableId="todo-list">
+            {(droppable) => (
+              <Stack gap={0} ref={droppable.innerRef} {...droppable.droppableProps}>
+                {filteredTodos.map((todo, index) => (
+                  <Draggable key={todo.id} draggableId={todo.id} index={index}>
+                    {(draggable) => (
+                      <Box ref={draggable.innerRef} {...draggable.draggableProps} pb="sm">
+                        <TodoItem
+                          todo={todo}
+                          onUpdate={() => refetchTodos()}
+                          dragHandleProps={draggable.dragHandleProps}
+                        />
+                      </Box>
+                    )}
+                  </Draggable>
+                ))}
+                {droppable.placeholder}
+              </Stack>
+            )}
+          </Droppable>
+        </DragDropContext>
+      ) : filteredTodos.length > 0 ? (
         <Stack gap="sm">
           {filteredTodos.map((todo) => (
             <TodoItem 
@@ -233,7 +425,7 @@ export function TodoList() {
             />
           ))}
         </Stack>
-      ) : todos.length === 0 ? (
+      ) : todos.length === 0 && !hasTagFilter ? (
         <Paper p="xl" radius="md" bg="gray.0" ta="center">
           <Stack align="center" gap="sm">
             <IconCheckupList size="3rem" color="var(--mantine-color-gray-5)" />
@@ -247,22 +439,42 @@ export function TodoList() {
         <Paper p="xl" radius="md" bg="gray.0" ta="center">
           <Stack align="center" gap="sm">
             <IconCheckupList size="3rem" color="var(--mantine-color-gray-5)" />
-            <Title order={4} c="dimmed">No {filter} todos</Title>
+            <Title order={4} c="dimmed">
+              {hasTagFilter ? 'No matching todos' : `No ${filter} todos`}
+            </Title>
             <Text c="dimmed" size="sm">
-              {filter === 'pending' 
-                ? 'Great! You\'ve completed all your tasks.' 
-                : 'No completed todos yet. Keep working!'}
+              {hasTagFilter
+                ? 'No todos match the selected tags.'
+                : filter === 'pending' 
+                  ? 'Great! You\'ve completed all your tasks.' 
+                  : 'No completed todos yet. Keep working!'}
             </Text>
             <Button 
               variant="outline" 
               size="sm"
-              onClick={() => setFilter('all')}
+              onClick={() => {
+                setFilter('all');
+                setTagFilter([]);
+              }}
             >
               View All Todos
             </Button>
           </Stack>
         </Paper>
       )}
+
+      {/* Infinite scroll sentinel */}
+      {hasNextPage && (
+        <Center ref={loadMoreRef} py="md">
+          {isFetchingNextPage ? (
+            <Loader size="sm" />
+          ) : (
+            <Button variant="subtle" size="xs" onClick={() => void fetchNextPage()}>
+              Load more
+            </Button>
+          )}
+        </Center>
+      )}
     </Stack>
   );
 }
\ No newline at end of file
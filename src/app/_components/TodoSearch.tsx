@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Popover,
+  TextInput,
+  Stack,
+  Text,
+  UnstyledButton,
+  Loader,
+  Group,
+  Badge,
+  Modal,
+  CloseButton,
+} from '@mantine/core';
+import { useDebouncedValue, useDisclosure } from '@mantine/hooks';
+import { IconSearch } from '@tabler/icons-react';
+import { api } from '~/trpc/react';
+import { splitHighlight } from '~/lib/search-highlight';
+import { TodoItem } from './TodoItem';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Snippet with matched words emphasised; rendered as text, never as HTML
+ */
+function Highlighted({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlight(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index}>{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function TodoSearch() {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery] = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+  const [dropdownOpened, setDropdownOpened] = useState(false);
+  const [modalOpened, { open: openModal, close: closeModal }] = useDisclosure(false);
+  const [selectedTodoId, setSelectedTodoId] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data, isFetching } = api.todo.search.useQuery(
+    { query: debouncedQuery },
+    { enabled: debouncedQuery.length > 0 }
+  );
+  const results = debouncedQuery ? data?.results ?? [] : [];
+  const selectedTodo = results.find(result => result.todo.id === selectedTodoId)?.todo;
+
+  const handleSelect = (todoId: string) => {
+    setSelectedTodoId(todoId);
+    setDropdownOpened(false);
+    openModal();
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setDropdownOpened(false);
+  };
+
+  return (
+    <>
+      <Popover
+        opened={dropdownOpened && query.trim().length > 0}
+        onChange={setDropdownOpened}
+        position="bottom-start"
+        width="target"
+        shadow="md"
+      >
+        <Popover.Target>
+          <TextInput
+            placeholder='Search todos ("exact phrase")'
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setDropdownOpened(true);
+            }}
+            onFocus={() => setDropdownOpened(true)}
+            onKeyDown={(e) => e.key === 'Escape' && handleClear()}
+            leftSection={isFetching ? <Loader size="xs" /> : <IconSearch size="1rem" />}
+            rightSection={query ? <CloseButton size="sm" onClick={handleClear} aria-label="Clear search" /> : null}
+            w={{ base: 200, md: 320 }}
+            aria-label="Search todos"
+          />
+        </Popover.Target>
+        <Popover.Dropdown p="xs">
+          {results.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="xs">
+              {isFetching || query.trim() !== debouncedQuery ? 'Searching...' : 'No matching todos'}
+            </Text>
+          ) : (
+            <Stack gap={4}>
+              {results.map(({ todo, titleHighlight, descriptionHighlight }) => (
+                <UnstyledButton
+                  key={todo.id}
+                  onClick={() => handleSelect(todo.id)}
+                  p="xs"
+                  style={{ borderRadius: 'var(--mantine-radius-sm)' }}
+                >
+                  <Group gap="xs" wrap="nowrap">
+                    <Text
+                      size="sm"
+                      fw={500}
+                      style={{ flex: 1, textDecoration: todo.completed ? 'line-through' : 'none' }}
+                      lineClamp={1}
+                    >
+                      <Highlighted snippet={titleHighlight} />
+                    </Text>
+                    {todo.completed && (
+                      <Badge size="xs" variant="light" color="green">
+                        Done
+                      </Badge>
+                    )}
+                  </Group>
+                  {descriptionHighlight && (
+                    <Text size="xs" c="dimmed" lineClamp={2}>
+                      <Highlighted snippet={descriptionHighlight} />
+                    </Text>
+                  )}
+                </UnstyledButton>
+              ))}
+            </Stack>
+          )}
+        </Popover.Dropdown>
+      </Popover>
+
+      <Modal opened={modalOpened} onClose={closeModal} title="Todo" size="lg">
+        {selectedTodo ? (
+          <TodoItem
+            todo={selectedTodo}
+            onUpdate={() => void utils.todo.search.invalidate()}
+          />
+        ) : (
+          <Text size="sm" c="dimmed">
+            This todo is no longer available.
+          </Text>
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Badge,
+  Button,
+  FileInput,
+  Group,
+  Menu,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  Text,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconAlertCircle, IconDownload, IconFileImport, IconTransfer } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import dayjs from 'dayjs';
+import { api, type RouterInputs, type RouterOutputs } from '~/trpc/react';
+
+type TransferFormat = RouterInputs['todo']['export']['format'];
+type ImportResult = RouterOutputs['todo']['import'];
+
+const TRANSFER_FORMATS: { value: TransferFormat; label: string; extensions: string[]; type: string }[] = [
+  { value: 'json', label: 'JSON (everything)', extensions: ['json'], type: 'application/json' },
+  { value: 'csv', label: 'CSV (spreadsheets)', extensions: ['csv'], type: 'text/csv' },
+  { value: 'markdown', label: 'Markdown checklist', extensions: ['md', 'markdown'], type: 'text/markdown' },
+  { value: 'todotxt', label: 'todo.txt', extensions: ['txt'], type: 'text/plain' },
+  { value: 'ical', label: 'iCalendar (VTODO)', extensions: ['ics'], type: 'text/calendar' },
+];
+
+const ROW_STATUS_COLORS: Record<ImportResult['rows'][number]['status'], string> = {
+  new: 'green',
+  duplicate: 'yellow',
+  invalid: 'red',
+};
+
+function guessFormat(file: File): TransferFormat | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return TRANSFER_FORMATS.find(format => format.extensions.includes(extension))?.value ?? null;
+}
+
+function downloadFile(chunks: string[], filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob(chunks, { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const showError = (message: string) => {
+  notifications.show({
+    title: 'Error',
+    message,
+    color: 'red',
+  });
+};
+
+function ImportPreview({ preview }: { preview: ImportResult }) {
+  const counts = {
+    new: preview.rows.filter(row => row.status === 'new').length,
+    duplicate: preview.rows.filter(row => row.status === 'duplicate').length,
+    invalid: preview.rows.filter(row => row.status === 'invalid').length,
+  };
+
+  return (
+    <Stack gap="xs">
+      <Text size="sm">
+        {counts.new} new · {counts.duplicate} {counts.duplicate === 1 ? 'duplicate' : 'duplicates'} ·{' '}
+        {counts.invalid} invalid
+      </Text>
+      {(preview.newProjects.length > 0 || preview.newTags.length > 0) && (
+        <Text size="xs" c="dimmed">
+          {preview.newProjects.length > 0 && `New projects: ${preview.newProjects.join(', ')}. `}
+          {preview.newTags.length > 0 && `New tags: ${preview.newTags.join(', ')}.`}
+        </Text>
+      )}
+      <ScrollArea.Autosize mah={320}>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Row</Table.Th>
+              <Table.Th>Title</Table.Th>
+              <Table.Th>Status</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {preview.rows.map(row => (
+              <Table.Tr key={row.row} style={{ verticalAlign: 'top' }}>
+                <Table.Td>{row.row}</Table.Td>
+                <Table.Td>
+                  <Text size="sm">{row.title || '—'}</Text>
+                  {row.errors.map(error => (
+                    <Text key={error} size="xs" c="red">
+                      {error}
+                    </Text>
+                  ))}
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="sm" variant="light" color={ROW_STATUS_COLORS[row.status]}>
+                    {row.status}
+                  </Badge>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+    </Stack>
+  );
+}
+
+/**
+ * Export todos to a file, or import them from one with a preview first
+ */
+export function TodoTransfer() {
+  const [importOpened, { open: openImport, close: closeImport }] = useDisclosure(false);
+  const [exportingFormat, setExportingFormat] = useState<TransferFormat | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<TransferFormat | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+
+  const utils = api.useUtils();
+
+  const importMutation = api.todo.import.useMutation({
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      notifications.show({
+        title: 'Success',
+        message: result.message,
+        color: 'green',
+      });
+      void utils.todo.getAll.invalidate();
+      void utils.todo.getStats.invalidate();
+      void utils.tag.getAll.invalidate();
+      void utils.project.getAll.invalidate();
+      handleCloseImport();
+    },
+    onError: (error) => showError(error.message || 'Failed to import todos'),
+  });
+
+  const handleExport = async (exportFormat: (typeof TRANSFER_FORMATS)[number]) => {
+    setExportingFormat(exportFormat.value);
+    try {
+      const chunks: string[] = [];
+      for await (const chunk of await utils.client.todo.export.query({ format: exportFormat.value })) {
+        chunks.push(chunk);
+      }
+      downloadFile(chunks, `todos-${dayjs().format('YYYY-MM-DD')}.${exportFormat.extensions[0]}`, exportFormat.type);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to export todos');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    if (selected) {
+      setFormat(guessFormat(selected) ?? format);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !format) return;
+    importMutation.mutate({
+      format,
+      content: await file.text(),
+      dryRun,
+      skipDuplicates,
+    });
+  };
+
+  const handleCloseImport = () => {
+    setFile(null);
+    setFormat(null);
+    setPreview(null);
+    closeImport();
+  };
+
+  const hasInvalidRows = preview?.rows.some(row => row.status === 'invalid') ?? false;
+
+  return (
+    <>
+      <Menu position="bottom-end">
+        <Menu.Target>
+          <Button
+            variant="outline"
+            size="xs"
+            leftSection={<IconTransfer size="1rem" />}
+            loading={exportingFormat !== null}
+          >
+            Import / Export
+          </Button>
+        </Menu.Target>
+        <Menu.Dropdown>
+          <Menu.Label>Export</Menu.Label>
+          {TRANSFER_FORMATS.map(exportFormat => (
+            <Menu.Item
+              key={exportFormat.value}
+              leftSection={<IconDownload size="0.9rem" />}
+              onClick={() => void handleExport(exportFormat)}
+            >
+              {exportFormat.label}
+            </Menu.Item>
+          ))}
+          <Menu.Divider />
+          <Menu.Item leftSection={<IconFileImport size="0.9rem" />} onClick={openImport}>
+            Import from file…
+          </Menu.Item>
+        </Menu.Dropdown>
+      </Menu>
+
+      <Modal opened={importOpened} onClose={handleCloseImport} title="Import todos" size="lg">
+        <Stack gap="md">
+          <Group grow align="flex-end">
+            <FileInput
+              label="File"
+              placeholder="Choose a .json, .csv, .md, todo.txt or .ics file"
+              accept=".json,.csv,.md,.markdown,.txt,.ics"
+              value={file}
+              onChange={handleFileChange}
+              clearable
+            />
+            <Select
+              label="Format"
+              data={TRANSFER_FORMATS.map(({ value, label }) => ({ value, label }))}
+              value={format}
+              onChange={(value) => {
+                setFormat(value as TransferFormat | null);
+                setPreview(null);
+              }}
+            />
+          </Group>
+          <Switch
+            label="Skip todos that already exist (same title and due date)"
+            checked={skipDuplicates}
+            onChange={(e) => {
+              setSkipDuplicates(e.currentTarget.checked);
+              setPreview(null);
+            }}
+          />
+
+          {preview && <ImportPreview preview={preview} />}
+          {hasInvalidRows && (
+            <Alert icon={<IconAlertCircle size="1rem" />} color="red">
+              Fix the invalid rows and choose the file again; nothing is imported while any row is invalid.
+            </Alert>
+          )}
+
+          <Group justify="flex-end">
+            <Button variant="default" onClick={handleCloseImport}>
+              Cancel
+            </Button>
+            {preview ? (
+              <Button
+                onClick={() => void runImport(false)}
+                loading={importMutation.isPending}
+                disabled={hasInvalidRows}
+              >
+                Import
+              </Button>
+            ) : (
+              <Button
+                onClick={() => void runImport(true)}
+                loading={importMutation.isPending}
+                disabled={!file || !format}
+              >
+                Preview
+              </Button>
+            )}
+          </Group>
+        </Stack>
+      </Modal>
+    </>
+  );
+}
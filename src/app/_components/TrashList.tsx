@@ -0,0 +1,173 @@
+'use client';
+
+import {
+  Card,
+  Text,
+  Group,
+  Button,
+  Stack,
+  Title,
+  Loader,
+  Alert,
+} from '@mantine/core';
+import { IconAlertCircle, IconRestore, IconTrashX } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import dayjs from 'dayjs';
+import { api } from '~/trpc/react';
+import { formatTodoDate } from './todo-dates';
+import { useTodoSync } from './use-todo-sync';
+
+/**
+ * Moment a trashed todo is purged for good
+ */
+function getPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return dayjs(deletedAt).add(retentionDays, 'day').toDate();
+}
+
+export function TrashList() {
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.todo.listTrash.useQuery();
+  const trashedTodos = data?.todos ?? [];
+
+  // Pick up todos trashed or restored in other tabs
+  useTodoSync();
+
+  const invalidateLists = () => {
+    void utils.todo.listTrash.invalidate();
+    void utils.todo.getAll.invalidate();
+    void utils.todo.getStats.invalidate();
+  };
+
+  const restoreMutation = api.todo.restore.useMutation({
+    onSuccess: () => {
+      notifications.show({
+        title: 'Success',
+        message: 'Todo restored successfully',
+        color: 'green',
+      });
+      invalidateLists();
+    },
+    onError: (error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message || 'Failed to restore todo',
+        color: 'red',
+      });
+    },
+  });
+
+  const emptyTrashMutation = api.todo.emptyTrash.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      invalidateLists();
+    },
+    onError: (error) => {
+      notifications.show({
+        title: 'Error',
+        message: error.message || 'Failed to empty trash',
+        color: 'red',
+      });
+    },
+  });
+
+  const handleEmptyTrash = () => {
+    modals.openConfirmModal({
+      title: 'Empty trash?',
+      children: (
+        <Text size="sm">
+          {trashedTodos.length === 1 ? '1 todo' : `${trashedTodos.length} todos`} will be permanently deleted.
+          This cannot be undone.
+        </Text>
+      ),
+      labels: { confirm: 'Empty trash', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => emptyTrashMutation.mutate(),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader />
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="Error" color="red">
+        {error.message || 'Failed to load trash'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <div>
+          <Title order={2}>Trash</Title>
+          {data && (
+            <Text size="sm" c="dimmed">
+              Deleted todos are permanently removed after {data.retentionDays} days
+            </Text>
+          )}
+        </div>
+        <Button
+          color="red"
+          variant="light"
+          leftSection={<IconTrashX size="1rem" />}
+          onClick={handleEmptyTrash}
+          loading={emptyTrashMutation.isPending}
+          disabled={trashedTodos.length === 0}
+        >
+          Empty trash
+        </Button>
+      </Group>
+
+      {trashedTodos.length === 0 ? (
+        <Card withBorder radius="md" padding="xl">
+          <Text ta="center" c="dimmed">
+            Trash is empty
+          </Text>
+        </Card>
+      ) : (
+        trashedTodos.map((todo) => (
+          <Card key={todo.id} shadow="sm" padding="md" radius="md" withBorder>
+            <Group justify="space-between" align="flex-start">
+              <Stack gap={4} style={{ flex: 1 }}>
+                <Text fw={500} c={todo.completed ? 'dimmed' : undefined}>
+                  {todo.title}
+                </Text>
+                {todo.description && (
+                  <Text size="sm" c="dimmed" lineClamp={2}>
+                    {todo.description}
+                  </Text>
+                )}
+                {todo.deletedAt && data && (
+                  <Text size="xs" c="dimmed">
+                    Deleted {formatTodoDate(todo.deletedAt)} · permanently removed{' '}
+                    {formatTodoDate(getPurgeDate(todo.deletedAt, data.retentionDays))}
+                  </Text>
+                )}
+              </Stack>
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<IconRestore size="0.9rem" />}
+                onClick={() => restoreMutation.mutate({ id: todo.id })}
+                loading={restoreMutation.isPending && restoreMutation.variables?.id === todo.id}
+              >
+                Restore
+              </Button>
+            </Group>
+          </Card>
+        ))
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,453 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Code,
+  CopyButton,
+  Group,
+  Loader,
+  Menu,
+  Modal,
+  MultiSelect,
+  Stack,
+  Switch,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconCopy,
+  IconDots,
+  IconHistory,
+  IconKey,
+  IconPlus,
+  IconSend,
+  IconTrash,
+} from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { modals } from '@mantine/modals';
+import dayjs from 'dayjs';
+import { api, type RouterOutputs } from '~/trpc/react';
+
+type WebhookEndpoint = RouterOutputs['webhook']['getAll']['endpoints'][number];
+type WebhookDelivery = RouterOutputs['webhook']['getDeliveries']['deliveries'][number];
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  pending: 'blue',
+  succeeded: 'green',
+  failed: 'red',
+};
+
+function formatTime(date: Date | null): string {
+  return date ? dayjs(date).format('MMM D, YYYY HH:mm:ss') : '—';
+}
+
+const showError = (message: string) => {
+  notifications.show({
+    title: 'Error',
+    message,
+    color: 'red',
+  });
+};
+
+/**
+ * Shows a signing secret once, right after it was created or rotated
+ */
+function SecretModal({ secret, onClose }: { secret: string | null; onClose: () => void }) {
+  return (
+    <Modal opened={secret !== null} onClose={onClose} title="Signing secret">
+      <Stack gap="md">
+        <Text size="sm">
+          Copy this secret now, it will not be shown again. Use it to verify the
+          X-Webhook-Signature header on every delivery.
+        </Text>
+        <Group gap="xs" wrap="nowrap">
+          <Code style={{ flex: 1, overflowWrap: 'anywhere' }}>{secret}</Code>
+          <CopyButton value={secret ?? ''}>
+            {({ copied, copy }) => (
+              <ActionIcon variant="subtle" color={copied ? 'green' : 'gray'} onClick={copy} aria-label="Copy secret">
+                {copied ? <IconCheck size="1rem" /> : <IconCopy size="1rem" />}
+              </ActionIcon>
+            )}
+          </CopyButton>
+        </Group>
+        <Group justify="flex-end">
+          <Button onClick={onClose}>Done</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+function CreateEndpointModal({
+  opened,
+  onClose,
+  onCreated,
+}: {
+  opened: boolean;
+  onClose: () => void;
+  onCreated: (secret: string) => void;
+}) {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+
+  const utils = api.useUtils();
+  const { data: availableEventTypes = [] } = api.webhook.getEventTypes.useQuery();
+
+  const createMutation = api.webhook.create.useMutation({
+    onSuccess: ({ endpoint }) => {
+      setUrl('');
+      setDescription('');
+      setEventTypes([]);
+      void utils.webhook.getAll.invalidate();
+      onClose();
+      onCreated(endpoint.secret);
+    },
+    onError: (error) => showError(error.message || 'Failed to create webhook endpoint'),
+  });
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      url: url.trim(),
+      description: description.trim() || undefined,
+      eventTypes: availableEventTypes.filter((type) => eventTypes.includes(type)),
+    });
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Add webhook endpoint">
+      <Stack gap="md">
+        <TextInput
+          label="Payload URL"
+          placeholder="https://example.com/webhooks"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          required
+        />
+        <TextInput
+          label="Description"
+          placeholder="What receives these events"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={200}
+        />
+        <MultiSelect
+          label="Events"
+          placeholder="Select events"
+          data={availableEventTypes}
+          value={eventTypes}
+          onChange={setEventTypes}
+          required
+          searchable
+        />
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            loading={createMutation.isPending}
+            disabled={!url.trim() || eventTypes.length === 0}
+          >
+            Add endpoint
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+function DeliveryAttempts({ deliveryId }: { deliveryId: string }) {
+  const { data, isLoading } = api.webhook.getDeliveryAttempts.useQuery({ deliveryId });
+
+  if (isLoading) {
+    return <Loader size="xs" />;
+  }
+
+  return (
+    <Stack gap={4}>
+      {data?.attempts.map((attempt) => (
+        <Text key={attempt.id} size="xs" c="dimmed">
+          {formatTime(attempt.createdAt)} · {attempt.statusCode ?? 'no response'} · {attempt.durationMs} ms
+          {attempt.error && ` · ${attempt.error}`}
+        </Text>
+      ))}
+    </Stack>
+  );
+}
+
+function DeliveriesModal({ endpoint, onClose }: { endpoint: WebhookEndpoint | null; onClose: () => void }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data, isLoading } = api.webhook.getDeliveries.useQuery(
+    { endpointId: endpoint?.id ?? '' },
+    { enabled: endpoint !== null }
+  );
+  const deliveries = data?.deliveries ?? [];
+
+  return (
+    <Modal opened={endpoint !== null} onClose={onClose} title="Recent deliveries" size="xl">
+      {isLoading ? (
+        <Group justify="center" py="md">
+          <Loader />
+        </Group>
+      ) : deliveries.length === 0 ? (
+        <Text c="dimmed" size="sm" ta="center">
+          No deliveries yet
+        </Text>
+      ) : (
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Event</Table.Th>
+              <Table.Th>Status</Table.Th>
+              <Table.Th>Attempts</Table.Th>
+              <Table.Th>Last response</Table.Th>
+              <Table.Th>Created</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {deliveries.map((delivery) => (
+              <Table.Tr
+                key={delivery.id}
+                onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                style={{ cursor: 'pointer', verticalAlign: 'top' }}
+              >
+                <Table.Td>
+                  <Text size="sm">{delivery.eventType}</Text>
+                  {expandedId === delivery.id && <DeliveryAttempts deliveryId={delivery.id} />}
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="sm" variant="light" color={DELIVERY_STATUS_COLORS[delivery.status]}>
+                    {delivery.status}
+                  </Badge>
+                </Table.Td>
+                <Table.Td>{delivery.attempts}</Table.Td>
+                <Table.Td>
+                  <Tooltip label={delivery.lastError} disabled={!delivery.lastError} multiline w={320}>
+                    <Text size="sm">{delivery.lastStatusCode ?? (delivery.lastError ? 'Error' : '—')}</Text>
+                  </Tooltip>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm">{formatTime(delivery.createdAt)}</Text>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Modal>
+  );
+}
+
+export function WebhookSettings() {
+  const [createOpened, { open: openCreate, close: closeCreate }] = useDisclosure(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [deliveriesEndpoint, setDeliveriesEndpoint] = useState<WebhookEndpoint | null>(null);
+
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.webhook.getAll.useQuery();
+  const endpoints = data?.endpoints ?? [];
+
+  const invalidateEndpoints = () => {
+    void utils.webhook.getAll.invalidate();
+  };
+
+  const updateMutation = api.webhook.update.useMutation({
+    onSuccess: invalidateEndpoints,
+    onError: (error) => showError(error.message || 'Failed to update webhook endpoint'),
+  });
+
+  const rotateSecretMutation = api.webhook.rotateSecret.useMutation({
+    onSuccess: ({ endpoint }) => setRevealedSecret(endpoint.secret),
+    onError: (error) => showError(error.message || 'Failed to rotate webhook secret'),
+  });
+
+  const deleteMutation = api.webhook.delete.useMutation({
+    onSuccess: ({ message }) => {
+      notifications.show({
+        title: 'Success',
+        message,
+        color: 'green',
+      });
+      invalidateEndpoints();
+    },
+    onError: (error) => showError(error.message || 'Failed to delete webhook endpoint'),
+  });
+
+  const sendTestMutation = api.webhook.sendTest.useMutation({
+    onSuccess: (result) => {
+      notifications.show({
+        title: result.succeeded ? 'Test event delivered' : 'Test event failed',
+        message: result.statusCode
+          ? `Endpoint responded ${result.statusCode} in ${result.durationMs} ms`
+          : (result.error ?? 'No response'),
+        color: result.succeeded ? 'green' : 'red',
+      });
+    },
+    onError: (error) => showError(error.message || 'Failed to send test event'),
+  });
+
+  const handleRotateSecret = (endpoint: WebhookEndpoint) => {
+    modals.openConfirmModal({
+      title: 'Rotate signing secret?',
+      children: (
+        <Text size="sm">
+          Deliveries to {endpoint.url} will be signed with a new secret straight away.
+          Update your receiver before the next event.
+        </Text>
+      ),
+      labels: { confirm: 'Rotate secret', cancel: 'Cancel' },
+      onConfirm: () => rotateSecretMutation.mutate({ id: endpoint.id }),
+    });
+  };
+
+  const handleDelete = (endpoint: WebhookEndpoint) => {
+    modals.openConfirmModal({
+      title: 'Delete webhook endpoint?',
+      children: (
+        <Text size="sm">
+          {endpoint.url} will stop receiving events and its delivery log will be deleted.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteMutation.mutate({ id: endpoint.id }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader />
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="Error" color="red">
+        {error.message || 'Failed to load webhooks'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <div>
+          <Title order={2}>Webhooks</Title>
+          <Text size="sm" c="dimmed">
+            Receive a signed HTTP POST whenever your todos or profile change
+          </Text>
+        </div>
+        <Button leftSection={<IconPlus size="1rem" />} onClick={openCreate}>
+          Add endpoint
+        </Button>
+      </Group>
+
+      {endpoints.length === 0 ? (
+        <Card withBorder radius="md" padding="xl">
+          <Text ta="center" c="dimmed">
+            No webhook endpoints yet
+          </Text>
+        </Card>
+      ) : (
+        endpoints.map((endpoint) => (
+          <Card key={endpoint.id} shadow="sm" padding="md" radius="md" withBorder>
+            <Group justify="space-between" align="flex-start" wrap="nowrap">
+              <Stack gap={6} style={{ flex: 1, minWidth: 0 }}>
+                <Text fw={500} truncate>
+                  {endpoint.url}
+                </Text>
+                {endpoint.description && (
+                  <Text size="sm" c="dimmed">
+                    {endpoint.description}
+                  </Text>
+                )}
+                <Group gap={4}>
+                  {endpoint.eventTypes.map((eventType) => (
+                    <Badge key={eventType} size="sm" variant="light">
+                      {eventType}
+                    </Badge>
+                  ))}
+                </Group>
+                {endpoint.disabledReason && (
+                  <Text size="xs" c="red">
+                    Disabled {formatTime(endpoint.disabledAt)}: {endpoint.disabledReason}
+                  </Text>
+                )}
+                {endpoint.enabled && endpoint.consecutiveFailures > 0 && (
+                  <Text size="xs" c="orange">
+                    {endpoint.consecutiveFailures === 1
+                      ? '1 failed delivery in a row'
+                      : `${endpoint.consecutiveFailures} failed deliveries in a row`}
+                  </Text>
+                )}
+              </Stack>
+              <Group gap="xs" wrap="nowrap">
+                <Switch
+                  checked={endpoint.enabled}
+                  onChange={(e) => updateMutation.mutate({ id: endpoint.id, enabled: e.currentTarget.checked })}
+                  aria-label={endpoint.enabled ? 'Disable endpoint' : 'Enable endpoint'}
+                />
+                <Button
+                  size="xs"
+                  variant="light"
+                  leftSection={<IconSend size="0.9rem" />}
+                  onClick={() => sendTestMutation.mutate({ id: endpoint.id })}
+                  loading={sendTestMutation.isPending && sendTestMutation.variables?.id === endpoint.id}
+                >
+                  Send test
+                </Button>
+                <Menu position="bottom-end">
+                  <Menu.Target>
+                    <ActionIcon variant="subtle" color="gray" aria-label="Endpoint actions">
+                      <IconDots size="1rem" />
+                    </ActionIcon>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    <Menu.Item
+                      leftSection={<IconHistory size="0.9rem" />}
+                      onClick={() => setDeliveriesEndpoint(endpoint)}
+                    >
+                      Deliveries
+                    </Menu.Item>
+                    <Menu.Item
+                      leftSection={<IconKey size="0.9rem" />}
+                      onClick={() => handleRotateSecret(endpoint)}
+                    >
+                      Rotate secret
+                    </Menu.Item>
+                    <Menu.Divider />
+                    <Menu.Item
+                      leftSection={<IconTrash size="0.9rem" />}
+                      color="red"
+                      onClick={() => handleDelete(endpoint)}
+                    >
+                      Delete
+                    </Menu.Item>
+                  </Menu.Dropdown>
+                </Menu>
+              </Group>
+            </Group>
+          </Card>
+        ))
+      )}
+
+      <CreateEndpointModal opened={createOpened} onClose={closeCreate} onCreated={setRevealedSecret} />
+      <SecretModal secret={revealedSecret} onClose={() => setRevealedSecret(null)} />
+      <DeliveriesModal endpoint={deliveriesEndpoint} onClose={() => setDeliveriesEndpoint(null)} />
+    </Stack>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Color presets for tags and projects (Mantine palette, shade 6)
+ */
+export const COLOR_SWATCHES = [
+  '#228be6',
+  '#15aabf',
+  '#12b886',
+  '#40c057',
+  '#fab005',
+  '#fd7e14',
+  '#fa5252',
+  '#e64980',
+  '#be4bdb',
+  '#7950f2',
+  '#868e96',
+];
+
+export const DEFAULT_COLOR = COLOR_SWATCHES[0]!;
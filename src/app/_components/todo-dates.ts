@@ -0,0 +1,42 @@
+import dayjs from 'dayjs';
+
+interface SchedulableTodo {
+  completed: boolean;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+}
+
+/**
+ * Date pickers return local midnight; a todo due on a day stays on time until that day ends
+ */
+export function toDueDate(date: Date | null): Date | null {
+  return date ? dayjs(date).endOf('day').toDate() : null;
+}
+
+/**
+ * Start dates begin at local midnight of the selected day
+ */
+export function toStartDate(date: Date | null): Date | null {
+  return date ? dayjs(date).startOf('day').toDate() : null;
+}
+
+/**
+ * Incomplete todo whose due date has already passed
+ */
+export function isOverdue(todo: SchedulableTodo, now = new Date()): boolean {
+  return !todo.completed && !!todo.dueDate && dayjs(todo.dueDate).isBefore(now);
+}
+
+/**
+ * Incomplete todo due at some point during the current local day
+ */
+export function isDueToday(todo: SchedulableTodo, now = new Date()): boolean {
+  return !todo.completed && !!todo.dueDate && dayjs(todo.dueDate).isSame(now, 'day');
+}
+
+/**
+ * Short human-readable date, e.g. "Jan 5, 2025"
+ */
+export function formatTodoDate(date: Date): string {
+  return dayjs(date).format('MMM D, YYYY');
+}
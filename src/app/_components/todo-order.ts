@@ -0,0 +1,43 @@
+/**
+ * Neighbours of a todo after a drag-and-drop move, as sent to `todo.reorder`
+ */
+export interface TodoDropTarget {
+  afterId?: string | null;
+  beforeId?: string | null;
+}
+
+/**
+ * Neighbours at `destinationIndex` once the todo at `sourceIndex` has been moved there
+ */
+export function getDropTarget<T extends { id: string }>(
+  items: T[],
+  sourceIndex: number,
+  destinationIndex: number
+): TodoDropTarget {
+  const remaining = items.filter((_, index) => index !== sourceIndex);
+  return {
+    afterId: remaining[destinationIndex - 1]?.id ?? null,
+    beforeId: remaining[destinationIndex]?.id ?? null,
+  };
+}
+
+/**
+ * Move a todo next to its new neighbour, mirroring the server-side reorder
+ * afterId takes precedence when both neighbours are given
+ */
+export function moveTodo<T extends { id: string }>(items: T[], id: string, target: TodoDropTarget): T[] {
+  const moved = items.find(item => item.id === id);
+  if (!moved) {
+    return items;
+  }
+
+  const remaining = items.filter(item => item.id !== id);
+  const anchorId = target.afterId ?? target.beforeId;
+  const anchorIndex = remaining.findIndex(item => item.id === anchorId);
+  if (anchorIndex === -1) {
+    return items;
+  }
+
+  const insertIndex = target.afterId ? anchorIndex + 1 : anchorIndex;
+  return [...remaining.slice(0, insertIndex), moved, ...remaining.slice(insertIndex)];
+}
@@ -0,0 +1,24 @@
+/**
+ * Priority levels shown in the UI, ordered from lowest to highest
+ */
+export const TODO_PRIORITY_OPTIONS = [
+  { value: 'none', label: 'No priority', color: 'gray' },
+  { value: 'low', label: 'Low', color: 'teal' },
+  { value: 'medium', label: 'Medium', color: 'yellow' },
+  { value: 'high', label: 'High', color: 'orange' },
+  { value: 'urgent', label: 'Urgent', color: 'red' },
+] as const;
+
+export type TodoPriority = (typeof TODO_PRIORITY_OPTIONS)[number]['value'];
+
+/**
+ * Display metadata (label and badge color) for a priority level
+ */
+export function getPriorityOption(priority: TodoPriority) {
+  return TODO_PRIORITY_OPTIONS.find(option => option.value === priority) ?? TODO_PRIORITY_OPTIONS[0];
+}
+
+/**
+ * Select data for priority pickers
+ */
+export const prioritySelectData = TODO_PRIORITY_OPTIONS.map(({ value, label }) => ({ value, label }));
@@ -0,0 +1,28 @@
+/**
+ * Select value standing in for "no project" (todos without a project live in the Inbox)
+ */
+export const INBOX_VALUE = 'inbox';
+
+export interface TodoProject {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Select data for project pickers, with the Inbox first
+ */
+export function toProjectSelectData(projects: TodoProject[]) {
+  return [
+    { value: INBOX_VALUE, label: 'Inbox' },
+    ...projects.map(({ id, name }) => ({ value: id, label: name })),
+  ];
+}
+
+export function toProjectSelectValue(projectId?: string | null) {
+  return projectId ?? INBOX_VALUE;
+}
+
+export function fromProjectSelectValue(value: string | null) {
+  return !value || value === INBOX_VALUE ? null : value;
+}
@@ -0,0 +1,12 @@
+export interface TodoTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Select data for tag pickers
+ */
+export function toTagSelectData(tags: TodoTag[]) {
+  return tags.map(({ id, name }) => ({ value: id, label: name }));
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { getQueryKey } from '@trpc/react-query';
+import type { TodoChangeEvent } from '~/server/services';
+import { api, type RouterInputs, type RouterOutputs } from '~/trpc/react';
+
+type Todo = RouterOutputs['todo']['getAll']['todos'][number];
+type TodoListInput = RouterInputs['todo']['getAll'];
+type TodoListData = InfiniteData<RouterOutputs['todo']['getAll']>;
+
+/**
+ * Whether an updated todo keeps its place in a list: it still passes the list's
+ * project and tag filters and nothing the list is sorted by has changed
+ */
+function keepsListPosition(previous: Todo, updated: Todo, input: TodoListInput): boolean {
+  if (input?.projectId !== undefined && (updated.projectId ?? null) !== input.projectId) {
+    return false;
+  }
+
+  if (input?.tagIds?.length) {
+    const tagIds = updated.tags.map(tag => tag.id);
+    const matches = input.tagMatch === 'all'
+      ? input.tagIds.every(id => tagIds.includes(id))
+      : input.tagIds.some(id => tagIds.includes(id));
+    if (!matches) {
+      return false;
+    }
+  }
+
+  switch (input?.sortBy) {
+    case 'manual':
+      return previous.rank === updated.rank;
+    case 'priority':
+      return previous.priority === updated.priority &&
+        previous.dueDate?.getTime() === updated.dueDate?.getTime();
+    default:
+      return true;
+  }
+}
+
+/**
+ * Keep this tab's todo lists in step with changes made anywhere else
+ * Listens to `todo.onChange` and patches each cached `todo.getAll` list in place,
+ * refetching only the lists a change may have added a todo to or moved one within.
+ * The subscription reconnects on its own and catches up on the changes it missed
+ */
+export function useTodoSync() {
+  const queryClient = useQueryClient();
+  const utils = api.useUtils();
+
+  const applyChange = (event: TodoChangeEvent) => {
+    if (event.type === 'resync') {
+      void utils.todo.getAll.invalidate();
+      void utils.todo.getStats.invalidate();
+      void utils.todo.listTrash.invalidate();
+      return;
+    }
+
+    const listQueries = queryClient.getQueryCache().findAll({
+      queryKey: getQueryKey(api.todo.getAll, undefined, 'infinite'),
+    });
+
+    for (const query of listQueries) {
+      const data = query.state.data as TodoListData | undefined;
+      if (!data) {
+        continue;
+      }
+
+      const [, meta] = query.queryKey as [unknown, { input?: TodoListInput } | undefined];
+      const previous = data.pages.flatMap(page => page.todos).find(todo => todo.id === event.todoId);
+
+      if (previous && !event.todo) {
+        queryClient.setQueryData<TodoListData>(query.queryKey, {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            todos: page.todos.filter(todo => todo.id !== event.todoId),
+          })),
+        });
+      } else if (previous && event.todo && keepsListPosition(previous, event.todo, meta?.input)) {
+        const updated = event.todo;
+        queryClient.setQueryData<TodoListData>(query.queryKey, {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            todos: page.todos.map(todo => (todo.id === updated.id ? updated : todo)),
+          })),
+        });
+      } else if (event.todo) {
+        void queryClient.invalidateQueries({ queryKey: query.queryKey, exact: true });
+      }
+    }
+
+    void utils.todo.getStats.invalidate();
+    void utils.todo.getHistory.invalidate({ id: event.todoId });
+    if (event.type === 'deleted' || event.type === 'restored') {
+      void utils.todo.listTrash.invalidate();
+    }
+  };
+
+  api.todo.onChange.useSubscription(undefined, {
+    onData: ({ data }) => applyChange(data),
+  });
+}
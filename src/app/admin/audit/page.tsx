@@ -0,0 +1,15 @@
+'use client';
+
+import { AdminRoute } from '~/components/auth/AdminRoute';
+import { AdminShell } from '../../_components/AdminShell';
+import { AdminAuditLog } from '../../_components/AdminAuditLog';
+
+export default function AdminAuditPage() {
+  return (
+    <AdminRoute permissions={['audit:read']}>
+      <AdminShell>
+        <AdminAuditLog />
+      </AdminShell>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { AdminRoute } from '~/components/auth/AdminRoute';
+import { AdminShell } from '../_components/AdminShell';
+import { AdminUserTable } from '../_components/AdminUserTable';
+
+export default function AdminUsersPage() {
+  return (
+    <AdminRoute permissions={['users:read']}>
+      <AdminShell>
+        <AdminUserTable />
+      </AdminShell>
+    </AdminRoute>
+  );
+}
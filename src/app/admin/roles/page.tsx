@@ -0,0 +1,15 @@
+'use client';
+
+import { AdminRoute } from '~/components/auth/AdminRoute';
+import { AdminShell } from '../../_components/AdminShell';
+import { AdminRoleManager } from '../../_components/AdminRoleManager';
+
+export default function AdminRolesPage() {
+  return (
+    <AdminRoute permissions={['roles:read']}>
+      <AdminShell>
+        <AdminRoleManager />
+      </AdminShell>
+    </AdminRoute>
+  );
+}
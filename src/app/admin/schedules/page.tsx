@@ -0,0 +1,15 @@
+'use client';
+
+import { AdminRoute } from '~/components/auth/AdminRoute';
+import { AdminShell } from '../../_components/AdminShell';
+import { AdminSchedules } from '../../_components/AdminSchedules';
+
+export default function AdminSchedulesPage() {
+  return (
+    <AdminRoute permissions={['schedules:read']}>
+      <AdminShell>
+        <AdminSchedules />
+      </AdminShell>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { Button } from '@mantine/core';
+import { IconArrowLeft } from '@tabler/icons-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AdminRoute } from '~/components/auth/AdminRoute';
+import { AdminShell } from '../../../_components/AdminShell';
+import { AdminUserDetail } from '../../../_components/AdminUserDetail';
+
+export default function AdminUserPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <AdminRoute permissions={['users:read', 'roles:read']}>
+      <AdminShell>
+        <Button
+          variant="subtle"
+          component={Link}
+          href="/admin"
+          leftSection={<IconArrowLeft size="1rem" />}
+          mb="md"
+        >
+          Back to users
+        </Button>
+        <AdminUserDetail userId={id} />
+      </AdminShell>
+    </AdminRoute>
+  );
+}
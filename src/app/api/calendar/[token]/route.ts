@@ -0,0 +1,50 @@
+import { createContainer } from "~/server/context/app-context";
+import { createRequestContext } from "~/server/lib/request-context";
+
+/**
+ * Private iCalendar feed of a user's scheduled todos, for calendar apps to subscribe to
+ * The token in the URL (with or without a .ics suffix) is the only credential; unknown and
+ * revoked tokens get a 404
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const container = await createContainer(createRequestContext(request.headers, null));
+  const { calendarFeedService, appContext } = container;
+
+  try {
+    const feed = await calendarFeedService.findFeedByToken(token.replace(/\.ics$/i, ""));
+    if (!feed) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const chunks = calendarFeedService.renderFeed(feed);
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = await chunks.next();
+        if (chunk.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(chunk.value));
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="todos.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    appContext.logger.error("Failed to serve calendar feed", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      operation: "calendarFeed",
+    });
+    return new Response("Internal server error", { status: 500 });
+  }
+}
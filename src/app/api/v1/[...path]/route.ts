@@ -0,0 +1,8 @@
+import { handleRestRequest } from "~/server/api/rest";
+
+/**
+ * REST API over the todo and user procedures; see /api/v1/openapi.json for the routes
+ */
+const handler = (req: Request) => handleRestRequest(req);
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
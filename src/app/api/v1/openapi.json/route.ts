@@ -0,0 +1,8 @@
+import { getOpenApiDocument } from "~/server/api/openapi";
+
+/**
+ * OpenAPI 3.1 document describing the REST API under /api/v1
+ */
+export function GET() {
+  return Response.json(getOpenApiDocument());
+}
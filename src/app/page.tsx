@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { 
   Container, 
   Title, 
@@ -15,10 +16,24 @@ import { IconShieldCheck, IconSettings, IconChecklist } from '@tabler/icons-reac
 import { useSession } from '~/lib/auth-client';
 import { TodoList } from './_components/TodoList';
 import { AppHeader } from './_components/AppHeader';
+import { ProjectSidebar } from './_components/ProjectSidebar';
+import { api } from '~/trpc/react';
 import Link from 'next/link';
 
 export default function Home() {
   const { data: session, isPending } = useSession();
+  // Selected list: a project ID, null for the Inbox, undefined for all todos
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null | undefined>(undefined);
+  const { data: projectsData } = api.project.getAll.useQuery(undefined, {
+    enabled: !!session?.user,
+  });
+
+  const selectedProject = projectsData?.projects.find(project => project.id === selectedProjectId);
+  const listTitle = selectedProjectId === undefined
+    ? 'My Todos'
+    : selectedProjectId === null
+      ? 'Inbox'
+      : selectedProject?.name ?? 'Project';
 
   if (isPending) {
     return (
@@ -48,7 +63,17 @@ export default function Home() {
               </Text>
             </Stack>
             
-            <TodoList />
+            <Grid gutter="lg">
+              <Grid.Col span={{ base: 12, md: 3 }}>
+                <ProjectSidebar
+                  selectedProjectId={selectedProjectId}
+                  onSelect={setSelectedProjectId}
+                />
+              </Grid.Col>
+              <Grid.Col span={{ base: 12, md: 9 }}>
+                <TodoList projectId={selectedProjectId} title={listTitle} />
+              </Grid.Col>
+            </Grid>
           </Container>
         </AppShell.Main>
       </AppShell>
@@ -21,13 +21,18 @@ import { IconAlertCircle, IconCheck } from '@tabler/icons-react';
 import { useSession } from '~/lib/auth-client';
 import { ProtectedRoute } from '~/components/auth/ProtectedRoute';
 import { api } from '~/trpc/react';
+import { AccessTokenSettings } from '../_components/AccessTokenSettings';
 
 function ProfileContent() {
   const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
+  const utils = api.useUtils();
+  // The stored profile version, sent back with updates to detect edits made elsewhere
+  const { data: profileData } = api.user.getProfile.useQuery();
   
   const updateProfileMutation = api.user.updateProfile.useMutation({
     onSuccess: () => {
+      void utils.user.getProfile.invalidate();
       notifications.show({
         title: 'Success',
         message: 'Profile updated successfully!',
@@ -37,9 +42,14 @@ function ProfileContent() {
       setLoading(false);
     },
     onError: (error) => {
+      if (error.data?.code === 'CONFLICT') {
+        void utils.user.getProfile.invalidate();
+      }
       notifications.show({
         title: 'Error',
-        message: error.message,
+        message: error.data?.code === 'CONFLICT'
+          ? 'Your profile was changed in another tab or window. Reload the page to see the latest version.'
+          : error.message,
         color: 'red',
         icon: <IconAlertCircle size="1rem" />,
       });
@@ -62,7 +72,7 @@ function ProfileContent() {
 
   const handleSubmit = async (values: typeof form.values) => {
     setLoading(true);
-    updateProfileMutation.mutate(values);
+    updateProfileMutation.mutate({ ...values, expectedVersion: profileData?.user.version });
   };
 
   if (!session?.user) {
@@ -158,6 +168,10 @@ function ProfileContent() {
             </Group>
           </Stack>
         </Paper>
+
+        <Paper withBorder shadow="md" p="xl" radius="md">
+          <AccessTokenSettings />
+        </Paper>
       </Stack>
     </Container>
   );
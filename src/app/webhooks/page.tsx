@@ -0,0 +1,32 @@
+'use client';
+
+import { AppShell, Button, Container } from '@mantine/core';
+import { IconArrowLeft } from '@tabler/icons-react';
+import Link from 'next/link';
+import { ProtectedRoute } from '~/components/auth/ProtectedRoute';
+import { AppHeader } from '../_components/AppHeader';
+import { WebhookSettings } from '../_components/WebhookSettings';
+
+export default function WebhooksPage() {
+  return (
+    <ProtectedRoute>
+      <AppShell header={{ height: 60 }}>
+        <AppHeader />
+        <AppShell.Main>
+          <Container size="md" py="xl">
+            <Button
+              variant="subtle"
+              component={Link}
+              href="/"
+              leftSection={<IconArrowLeft size="1rem" />}
+              mb="md"
+            >
+              Back to todos
+            </Button>
+            <WebhookSettings />
+          </Container>
+        </AppShell.Main>
+      </AppShell>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Loader, Center, Stack, Text } from '@mantine/core';
+import { useRouter } from 'next/navigation';
+import type { PermissionName } from '~/server/infrastructure/db/schema';
+import { api } from '~/trpc/react';
+import { ProtectedRoute } from './ProtectedRoute';
+
+interface AdminRouteProps {
+  children: React.ReactNode;
+  /** Permissions the user must hold; the server enforces the same checks */
+  permissions?: PermissionName[];
+}
+
+function PermissionGate({ children, permissions }: Required<AdminRouteProps>) {
+  const router = useRouter();
+  const { data, isLoading, error } = api.role.getMyAccess.useQuery();
+  const allowed = !!data && permissions.every(permission => data.permissions.includes(permission));
+
+  useEffect(() => {
+    if (data && !allowed) {
+      router.push('/unauthorized');
+    }
+  }, [data, allowed, router]);
+
+  if (isLoading) {
+    return (
+      <Center h="100vh">
+        <Stack align="center" gap="md">
+          <Loader size="lg" />
+          <Text c="dimmed">Checking permissions...</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  if (error) {
+    return (
+      <Center h="100vh">
+        <Stack align="center" gap="md">
+          <Text c="red">Authorization Error</Text>
+          <Text c="dimmed" size="sm">{error.message}</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  if (!allowed) {
+    return (
+      <Center h="100vh">
+        <Stack align="center" gap="md">
+          <Text c="red">Access Denied</Text>
+          <Text c="dimmed" size="sm">Admin access required</Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Route guard for the admin area: requires a session and the given permissions
+ */
+export function AdminRoute({ children, permissions = ['users:read'] }: AdminRouteProps) {
+  return (
+    <ProtectedRoute>
+      <PermissionGate permissions={permissions}>{children}</PermissionGate>
+    </ProtectedRoute>
+  );
+}
@@ -29,6 +29,38 @@ export const env = createEnv({
       .string()
       .min(32, 'BETTER_AUTH_SECRET must be at least 32 characters for security')
       .default('your-secret-key-change-in-production'),
+
+    // Trash Configuration
+    TRASH_RETENTION_DAYS: z
+      .string()
+      .regex(/^\d+$/, 'TRASH_RETENTION_DAYS must be a numeric string')
+      .default('30')
+      .transform(Number),
+
+    // Background Job Worker Configuration
+    WORKER_CONCURRENCY: z
+      .string()
+      .regex(/^[1-9]\d*$/, 'WORKER_CONCURRENCY must be a positive numeric string')
+      .default('4')
+      .transform(Number),
+    WORKER_POLL_INTERVAL_MS: z
+      .string()
+      .regex(/^[1-9]\d*$/, 'WORKER_POLL_INTERVAL_MS must be a positive numeric string')
+      .default('5000')
+      .transform(Number),
+
+    // Reverse Proxy Configuration
+    TRUSTED_PROXY_COUNT: z
+      .string()
+      .regex(/^\d+$/, 'TRUSTED_PROXY_COUNT must be a numeric string')
+      .default('1')
+      .transform(Number),
+
+    // Webhook Configuration
+    WEBHOOK_ALLOW_PRIVATE_URLS: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform(value => value === 'true'),
   },
 
   /**
@@ -53,6 +85,11 @@ export const env = createEnv({
     PORT: process.env.PORT,
     DATABASE_URL: process.env.DATABASE_URL,
     BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET,
+    TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS,
+    WORKER_CONCURRENCY: process.env.WORKER_CONCURRENCY,
+    WORKER_POLL_INTERVAL_MS: process.env.WORKER_POLL_INTERVAL_MS,
+    TRUSTED_PROXY_COUNT: process.env.TRUSTED_PROXY_COUNT,
+    WEBHOOK_ALLOW_PRIVATE_URLS: process.env.WEBHOOK_ALLOW_PRIVATE_URLS,
     NEXT_PUBLIC_BETTER_AUTH_URL: process.env.NEXT_PUBLIC_BETTER_AUTH_URL,
   },
   /**
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsComponent,
+  formatIcsDateTime,
+  formatIcsList,
+  formatIcsProperty,
+  IcsParseError,
+  parseIcs,
+  parseIcsDate,
+  parseIcsProperty,
+  splitIcsList,
+  unescapeIcsText,
+} from './ical';
+
+function octets(line: string): number {
+  return Buffer.byteLength(line, 'utf8');
+}
+
+describe('foldIcsLine', () => {
+  it('leaves a line of 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(octets(line)).toBe(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds at 75 octets, counting the leading space of continuation lines', () => {
+    const folded = foldIcsLine(`SUMMARY:${'a'.repeat(200)}`).split('\r\n');
+    expect(folded.map(octets)).toEqual([75, 75, 60]);
+    expect(folded.slice(1).every(line => line.startsWith(' '))).toBe(true);
+  });
+
+  it('moves a multi-byte character straddling the limit to the next line', () => {
+    // 74 octets, then a 2-octet "é" that would end on octet 76
+    const line = `SUMMARY:${'a'.repeat(66)}éb`;
+    expect(foldIcsLine(line)).toBe(`SUMMARY:${'a'.repeat(66)}\r\n éb`);
+  });
+
+  it('never splits a character outside the Basic Multilingual Plane', () => {
+    const folded = foldIcsLine(`${'x'.repeat(73)}😀${'y'.repeat(80)}`).split('\r\n');
+    expect(folded[0]).toBe('x'.repeat(73));
+    expect(folded[1]?.startsWith(' 😀')).toBe(true);
+    expect(folded.every(line => octets(line) <= 75)).toBe(true);
+  });
+});
+
+describe('unfolding', () => {
+  it('joins continuation lines back into the original value', () => {
+    const title = `Ünïcödé ${'ü'.repeat(40)} 😀 ${'long '.repeat(20)}`;
+    const content = formatIcsComponent({
+      name: 'VTODO',
+      properties: [{ name: 'SUMMARY', params: {}, value: escapeIcsText(title) }],
+      components: [],
+    });
+
+    expect(content.split('\r\n').every(line => octets(line) <= 75)).toBe(true);
+    const [vtodo] = parseIcs(content);
+    expect(unescapeIcsText(vtodo?.properties[0]?.value ?? '')).toBe(title);
+  });
+
+  it('accepts tabs and bare LF line endings', () => {
+    expect(parseIcs('BEGIN:VTODO\nSUMMARY:Wri\n\tte report\nEND:VTODO\n')[0]?.properties)
+      .toEqual([{ name: 'SUMMARY', params: {}, value: 'Write report' }]);
+  });
+
+  it('keeps the line number each component starts on', () => {
+    const [calendar] = parseIcs('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nSUMMARY:A\r\n  B\r\nEND:VTODO\r\nBEGIN:VTODO\r\nEND:VTODO\r\nEND:VCALENDAR\r\n');
+    expect(calendar?.components.map(component => component.line)).toEqual([2, 6]);
+  });
+});
+
+describe('TEXT values', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeIcsText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+
+  it.each([
+    'Plain',
+    'Semi; colon, comma',
+    'C:\\path\\n not a newline',
+    'Two\nlines',
+  ])('reads back %j', (text) => {
+    expect(unescapeIcsText(escapeIcsText(text))).toBe(text);
+  });
+
+  it('reads an upper case \\N as a line break', () => {
+    expect(unescapeIcsText('one\\Ntwo')).toBe('one\ntwo');
+  });
+
+  it('splits lists on commas that are not escaped', () => {
+    expect(splitIcsList('work,home\\, garden,a\\\\')).toEqual(['work', 'home, garden', 'a\\']);
+    expect(splitIcsList(formatIcsList(['a,b', 'c;d', 'e']))).toEqual(['a,b', 'c;d', 'e']);
+    expect(splitIcsList('')).toEqual([]);
+  });
+});
+
+describe('content lines', () => {
+  it('reads parameters, with and without quotes', () => {
+    expect(parseIcsProperty('dtstart;tzid="America/New_York";VALUE=DATE-TIME:20250315T093000')).toEqual({
+      name: 'DTSTART',
+      params: { TZID: 'America/New_York', VALUE: 'DATE-TIME' },
+      value: '20250315T093000',
+    });
+  });
+
+  it('keeps colons in quoted parameters and in the value', () => {
+    expect(parseIcsProperty('ATTACH;X-LABEL="a:b";FMTTYPE=text/plain:https://example.com/a')).toEqual({
+      name: 'ATTACH',
+      params: { 'X-LABEL': 'a:b', FMTTYPE: 'text/plain' },
+      value: 'https://example.com/a',
+    });
+  });
+
+  it('quotes parameter values that need it', () => {
+    expect(formatIcsProperty({ name: 'X-TODO', params: { 'X-LABEL': 'a:b', PLAIN: 'c' }, value: 'v' }))
+      .toBe('X-TODO;X-LABEL="a:b";PLAIN=c:v\r\n');
+  });
+
+  it.each(['no colon', ';X=1:v', 'NAME;X="open:v'])('rejects %j', (line) => {
+    expect(parseIcsProperty(line)).toBeNull();
+  });
+});
+
+describe('dates', () => {
+  it('writes UTC date-times', () => {
+    expect(formatIcsDateTime(new Date('2025-03-14T09:30:00.123Z'))).toBe('20250314T093000Z');
+  });
+
+  it.each([
+    [{}, '20250315', '2025-03-15T00:00:00.000Z'],
+    [{}, '20250315T093000Z', '2025-03-15T09:30:00.000Z'],
+    [{}, '20250315T093000', '2025-03-15T09:30:00.000Z'],
+    // Daylight saving time in New York started on March 9
+    [{ TZID: 'America/New_York' }, '20250315T093000', '2025-03-15T13:30:00.000Z'],
+    [{ TZID: 'America/New_York' }, '20250115T093000', '2025-01-15T14:30:00.000Z'],
+    [{ TZID: 'W. Europe Standard Time' }, '20250315T093000', '2025-03-15T09:30:00.000Z'],
+  ])('reads %j %s', (params, value, expected) => {
+    expect(parseIcsDate({ params, value })?.toISOString()).toBe(expected);
+  });
+
+  it('returns null for values that are not dates', () => {
+    expect(parseIcsDate({ params: {}, value: 'tomorrow' })).toBeNull();
+  });
+});
+
+describe('parseIcs', () => {
+  it('nests components', () => {
+    const [calendar] = parseIcs('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VTODO\r\nSUMMARY:A\r\nEND:VTODO\r\nEND:VCALENDAR\r\n');
+    expect(calendar).toMatchObject({
+      name: 'VCALENDAR',
+      properties: [{ name: 'VERSION', value: '2.0' }],
+      components: [{ name: 'VTODO', properties: [{ name: 'SUMMARY', value: 'A' }] }],
+    });
+  });
+
+  it.each([
+    ['BEGIN:VTODO\r\nnot a line\r\nEND:VTODO', 'Line 2: not an iCalendar content line'],
+    ['SUMMARY:A', 'Line 1: SUMMARY outside of a component'],
+    ['END:VTODO', 'Line 1: END:VTODO without a matching BEGIN:VTODO'],
+    ['BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nEND:VCALENDAR', 'Line 3: END:VCALENDAR while BEGIN:VTODO is still open'],
+    ['BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nEND:VTODO', 'Line 1: BEGIN:VCALENDAR is never closed'],
+  ])('rejects %j', (content, message) => {
+    expect(() => parseIcs(content)).toThrow(IcsParseError);
+    expect(() => parseIcs(content)).toThrow(message);
+  });
+});
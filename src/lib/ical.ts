@@ -0,0 +1,339 @@
+/**
+ * iCalendar format (RFC 5545)
+ *
+ * Pure, dependency-free reading and writing of the iCalendar syntax: components
+ * (BEGIN:VTODO … END:VTODO) holding content lines such as
+ *
+ *   DUE;VALUE=DATE:20250315
+ *   │   │          └ value, raw: TEXT values are escaped (see escapeIcsText)
+ *   │   └ parameters
+ *   └ property name
+ *
+ * Lines are folded at 75 octets when written and unfolded when read. What the
+ * properties mean is up to the caller; this module only knows dates and text escaping.
+ */
+
+export interface IcsProperty {
+  /** Upper case, e.g. SUMMARY */
+  name: string;
+  /** Parameter names in upper case; quotes around values removed */
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  /** Upper case, e.g. VTODO */
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+  /** 1-based line of the BEGIN line, 0 for components that were not parsed */
+  line: number;
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'IcsParseError';
+  }
+}
+
+const MAX_LINE_OCTETS = 75;
+const NAME = /^[A-Za-z0-9-]+/;
+const PARAM_VALUE = /^[^";:,]*/;
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+
+// =============================================================================
+// TEXT VALUES
+// =============================================================================
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Write a list of TEXT values, e.g. for CATEGORIES
+ */
+export function formatIcsList(values: string[]): string {
+  return values.map(escapeIcsText).join(',');
+}
+
+/**
+ * Read a list of TEXT values, splitting on commas that are not escaped
+ */
+export function splitIcsList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,])+/g) ?? []).map(unescapeIcsText);
+}
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+/**
+ * UTC DATE-TIME value, e.g. 20250314T093000Z
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
+
+/**
+ * Offset of a time zone from UTC (ms) at an instant; 0 for zones the runtime does not know
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(instant));
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Read a DATE or DATE-TIME value, or null when it is neither
+ *
+ * - DATE (20250315): midnight UTC of that day
+ * - UTC DATE-TIME (20250315T093000Z): that instant
+ * - DATE-TIME with a TZID parameter: wall-clock time in that IANA zone; zones the runtime
+ *   does not know (such as Windows zone names) are read as UTC
+ * - floating DATE-TIME (no Z, no TZID): read as UTC
+ */
+export function parseIcsDate(property: Pick<IcsProperty, 'params' | 'value'>): Date | null {
+  const value = property.value.trim();
+
+  const date = DATE_VALUE.exec(value);
+  if (date) {
+    return new Date(Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3])));
+  }
+
+  const dateTime = DATE_TIME_VALUE.exec(value);
+  if (!dateTime) {
+    return null;
+  }
+  const wallClock = Date.UTC(
+    Number(dateTime[1]),
+    Number(dateTime[2]) - 1,
+    Number(dateTime[3]),
+    Number(dateTime[4]),
+    Number(dateTime[5]),
+    Number(dateTime[6])
+  );
+  const timeZone = property.params.TZID;
+  if (dateTime[7] === 'Z' || !timeZone) {
+    return new Date(wallClock);
+  }
+  // The offset at the wall-clock time read as UTC can be an hour off around a DST change;
+  // looking it up again at the corrected instant settles it
+  const offset = timeZoneOffset(wallClock - timeZoneOffset(wallClock, timeZone), timeZone);
+  return new Date(wallClock - offset);
+}
+
+// =============================================================================
+// CONTENT LINES
+// =============================================================================
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, never splitting a UTF-8 character
+ * Continuation lines start with a space, which counts towards their length
+ */
+export function foldIcsLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    const charSize = utf8Length(char);
+    if (size + charSize > limit) {
+      lines.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+function formatParamValue(value: string): string {
+  const clean = value.replace(/"/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Write a property as a folded content line ending in CRLF
+ */
+export function formatIcsProperty(property: IcsProperty): string {
+  const params = Object.entries(property.params)
+    .map(([name, value]) => `;${name}=${formatParamValue(value)}`)
+    .join('');
+  return `${foldIcsLine(`${property.name}${params}:${property.value}`)}\r\n`;
+}
+
+/**
+ * Read one unfolded content line, or null when it is not one
+ */
+export function parseIcsProperty(line: string): IcsProperty | null {
+  const name = NAME.exec(line)?.[0];
+  if (!name) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  let index = name.length;
+
+  while (line[index] === ';') {
+    const equals = line.indexOf('=', index);
+    if (equals === -1) {
+      return null;
+    }
+    const paramName = line.slice(index + 1, equals).toUpperCase();
+    let value = '';
+    index = equals + 1;
+
+    // A comma-separated list of plain or quoted values
+    for (;;) {
+      if (line[index] === '"') {
+        const closingQuote = line.indexOf('"', index + 1);
+        if (closingQuote === -1) {
+          return null;
+        }
+        value += line.slice(index + 1, closingQuote);
+        index = closingQuote + 1;
+      } else {
+        const plain = PARAM_VALUE.exec(line.slice(index))?.[0] ?? '';
+        value += plain;
+        index += plain.length;
+      }
+      if (line[index] !== ',') break;
+      value += ',';
+      index++;
+    }
+
+    params[paramName] = value;
+  }
+
+  if (line[index] !== ':') {
+    return null;
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/**
+ * Join folded lines back together, keeping the line number each one started on
+ */
+function unfoldIcsLines(content: string): { line: number; text: string }[] {
+  const lines: { line: number; text: string }[] = [];
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((text, index) => {
+    const previous = lines[lines.length - 1];
+    if (previous && (text.startsWith(' ') || text.startsWith('\t'))) {
+      previous.text += text.slice(1);
+    } else {
+      lines.push({ line: index + 1, text });
+    }
+  });
+
+  return lines;
+}
+
+// =============================================================================
+// COMPONENTS
+// =============================================================================
+
+/**
+ * First property of a component with the given name
+ */
+export function getIcsProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * Write a component and its subcomponents, each line folded and ending in CRLF
+ */
+export function formatIcsComponent(component: Omit<IcsComponent, 'line'>): string {
+  return [
+    formatIcsProperty({ name: 'BEGIN', params: {}, value: component.name }),
+    ...component.properties.map(formatIcsProperty),
+    ...component.components.map(formatIcsComponent),
+    formatIcsProperty({ name: 'END', params: {}, value: component.name }),
+  ].join('');
+}
+
+/**
+ * Read the top-level components of an iCalendar file (normally one VCALENDAR)
+ * Throws an IcsParseError for lines that are not content lines and for unbalanced BEGIN / END
+ */
+export function parseIcs(content: string): IcsComponent[] {
+  const components: IcsComponent[] = [];
+  const open: IcsComponent[] = [];
+
+  for (const { line, text } of unfoldIcsLines(content)) {
+    if (text.trim() === '') {
+      continue;
+    }
+
+    const property = parseIcsProperty(text);
+    if (!property) {
+      throw new IcsParseError('not an iCalendar content line', line);
+    }
+
+    const current = open[open.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [], line };
+      (current?.components ?? components).push(component);
+      open.push(component);
+    } else if (property.name === 'END') {
+      const name = property.value.trim().toUpperCase();
+      if (!current) {
+        throw new IcsParseError(`END:${name} without a matching BEGIN:${name}`, line);
+      }
+      if (current.name !== name) {
+        throw new IcsParseError(`END:${name} while BEGIN:${current.name} is still open`, line);
+      }
+      open.pop();
+    } else if (current) {
+      current.properties.push(property);
+    } else {
+      throw new IcsParseError(`${property.name} outside of a component`, line);
+    }
+  }
+
+  const unclosed = open[open.length - 1];
+  if (unclosed) {
+    throw new IcsParseError(`BEGIN:${unclosed.name} is never closed`, unclosed.line);
+  }
+
+  return components;
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  advanceRecurrence,
+  anchorRecurrence,
+  describeRecurrence,
+  getNextOccurrence,
+  getRecurrenceError,
+  type RecurrenceRule,
+} from './recurrence';
+
+/**
+ * Follow a series from `start`, returning the dates of its next `steps` occurrences as days
+ */
+function occurrences(rule: RecurrenceRule, start: string, steps: number, timezoneOffset = 0): string[] {
+  const days: string[] = [];
+  let current = new Date(start);
+  let currentRule = anchorRecurrence(rule, current, timezoneOffset);
+  for (let step = 0; step < steps; step++) {
+    const next = getNextOccurrence(currentRule, current, timezoneOffset);
+    if (!next) {
+      break;
+    }
+    days.push(next.toISOString().slice(0, 10));
+    current = next;
+    currentRule = advanceRecurrence(currentRule);
+  }
+  return days;
+}
+
+describe('getNextOccurrence', () => {
+  describe('daily', () => {
+    it('moves by the interval and keeps the time of day', () => {
+      expect(getNextOccurrence({ frequency: 'daily', interval: 3 }, new Date('2025-01-30T09:15:00Z')))
+        .toEqual(new Date('2025-02-02T09:15:00Z'));
+    });
+  });
+
+  describe('weekly', () => {
+    it('goes to the next day of the set within the week', () => {
+      // Wednesday → Friday
+      expect(getNextOccurrence({ frequency: 'weekly', interval: 1, weekdays: [1, 3, 5] }, new Date('2025-01-15T10:00:00Z')))
+        .toEqual(new Date('2025-01-17T10:00:00Z'));
+    });
+
+    it('wraps to the first day of the set in the next week', () => {
+      // Friday → Monday
+      expect(occurrences({ frequency: 'weekly', interval: 1, weekdays: [5, 1] }, '2025-01-17T10:00:00Z', 4))
+        .toEqual(['2025-01-20', '2025-01-24', '2025-01-27', '2025-01-31']);
+    });
+
+    it('skips the weeks between intervals', () => {
+      // Every other week on Tuesday and Thursday, from Tuesday 2025-01-07
+      expect(occurrences({ frequency: 'weekly', interval: 2, weekdays: [2, 4] }, '2025-01-07T10:00:00Z', 4))
+        .toEqual(['2025-01-09', '2025-01-21', '2025-01-23', '2025-02-04']);
+    });
+
+    it('repeats the weekday of the current occurrence without a set', () => {
+      expect(getNextOccurrence({ frequency: 'weekly', interval: 1 }, new Date('2025-01-15T10:00:00Z')))
+        .toEqual(new Date('2025-01-22T10:00:00Z'));
+    });
+
+    it('picks weekdays in the user\'s time zone', () => {
+      // Monday 18:00 UTC is already Tuesday in UTC+7, so the next Tuesday is a week later
+      expect(getNextOccurrence({ frequency: 'weekly', interval: 1, weekdays: [2] }, new Date('2025-01-20T18:00:00Z'), -420))
+        .toEqual(new Date('2025-01-27T18:00:00Z'));
+    });
+  });
+
+  describe('monthly', () => {
+    it('clamps to the end of shorter months', () => {
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, new Date('2025-01-31T10:00:00Z')))
+        .toEqual(new Date('2025-02-28T10:00:00Z'));
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, new Date('2024-01-31T10:00:00Z')))
+        .toEqual(new Date('2024-02-29T10:00:00Z'));
+    });
+
+    it('goes back to the day of the month after a clamped month', () => {
+      expect(occurrences({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, '2025-01-31T10:00:00Z', 4))
+        .toEqual(['2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31']);
+    });
+
+    it('keeps the day the series started on without a day of the month', () => {
+      expect(occurrences({ frequency: 'monthly', interval: 1 }, '2025-01-31T10:00:00Z', 3))
+        .toEqual(['2025-02-28', '2025-03-31', '2025-04-30']);
+    });
+
+    it('takes a day still ahead in the current month first', () => {
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 3, dayOfMonth: 20 }, new Date('2025-01-10T10:00:00Z')))
+        .toEqual(new Date('2025-01-20T10:00:00Z'));
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 3, dayOfMonth: 20 }, new Date('2025-01-20T10:00:00Z')))
+        .toEqual(new Date('2025-04-20T10:00:00Z'));
+    });
+
+    it('moves to a later month when the day has passed', () => {
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 5 }, new Date('2025-01-10T10:00:00Z')))
+        .toEqual(new Date('2025-02-05T10:00:00Z'));
+    });
+
+    it('crosses into the next year', () => {
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 12 }, new Date('2024-02-29T10:00:00Z')))
+        .toEqual(new Date('2025-02-28T10:00:00Z'));
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 2, dayOfMonth: 15 }, new Date('2025-11-15T10:00:00Z')))
+        .toEqual(new Date('2026-01-15T10:00:00Z'));
+    });
+  });
+
+  describe('end conditions', () => {
+    it('stops after the until date', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 1, until: '2025-01-03T10:00:00.000Z' };
+      expect(occurrences(rule, '2025-01-01T10:00:00Z', 5)).toEqual(['2025-01-02', '2025-01-03']);
+    });
+
+    it('counts down the occurrences left', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, count: 3 };
+      expect(occurrences(rule, '2025-01-01T10:00:00Z', 5)).toEqual(['2025-01-08', '2025-01-15']);
+      expect(advanceRecurrence(rule)).toEqual({ frequency: 'weekly', interval: 1, count: 2 });
+    });
+
+    it('ends with the last occurrence', () => {
+      expect(getNextOccurrence({ frequency: 'daily', interval: 1, count: 1 }, new Date('2025-01-01T10:00:00Z'))).toBeNull();
+    });
+  });
+});
+
+describe('anchorRecurrence', () => {
+  it('pins monthly series to the local day of the start', () => {
+    // 2025-01-31 20:00 UTC is already Feb 1 in UTC+7
+    expect(anchorRecurrence({ frequency: 'monthly', interval: 1 }, new Date('2025-01-31T20:00:00Z'), -420))
+      .toEqual({ frequency: 'monthly', interval: 1, dayOfMonth: 1 });
+  });
+
+  it('leaves other rules alone', () => {
+    const monthly: RecurrenceRule = { frequency: 'monthly', interval: 1, dayOfMonth: 15 };
+    const weekly: RecurrenceRule = { frequency: 'weekly', interval: 1 };
+    expect(anchorRecurrence(monthly, new Date('2025-01-31T10:00:00Z'))).toBe(monthly);
+    expect(anchorRecurrence(weekly, new Date('2025-01-31T10:00:00Z'))).toBe(weekly);
+  });
+});
+
+describe('getRecurrenceError', () => {
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'daily', interval: 0 }, 'Repeat interval must be a whole number between 1 and 365'],
+    [{ frequency: 'daily', interval: 1, weekdays: [1] }, 'Weekdays can only be set on weekly schedules'],
+    [{ frequency: 'weekly', interval: 1, weekdays: [7] }, 'Weekdays must be between 0 (Sunday) and 6 (Saturday)'],
+    [{ frequency: 'monthly', interval: 1, dayOfMonth: 32 }, 'Day of month must be between 1 and 31'],
+    [{ frequency: 'daily', interval: 1, until: 'soon' }, 'Repeat end date is invalid'],
+    [{ frequency: 'daily', interval: 1, count: 0 }, 'Repeat count must be a whole number between 1 and 1000'],
+    [
+      { frequency: 'daily', interval: 1, count: 2, until: '2025-01-03T10:00:00.000Z' },
+      'A schedule can end on a date or after a number of occurrences, not both',
+    ],
+  ])('rejects %j', (rule, message) => {
+    expect(getRecurrenceError(rule)).toBe(message);
+  });
+
+  it('accepts a valid rule', () => {
+    expect(getRecurrenceError({ frequency: 'weekly', interval: 2, weekdays: [1, 3], count: 5 })).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'daily', interval: 1 }, 'Every day'],
+    [{ frequency: 'weekly', interval: 1, weekdays: [0, 1, 3] }, 'Every Mon, Wed, Sun'],
+    [{ frequency: 'weekly', interval: 2, weekdays: [5], count: 5 }, 'Every 2 weeks on Fri, 5 times'],
+    [{ frequency: 'monthly', interval: 1, dayOfMonth: 22 }, 'Every month on the 22nd'],
+    [{ frequency: 'monthly', interval: 3, dayOfMonth: 11, count: 1 }, 'Every 3 months on the 11th, last time'],
+  ])('describes %j', (rule, summary) => {
+    expect(describeRecurrence(rule)).toBe(summary);
+  });
+});
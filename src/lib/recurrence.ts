@@ -0,0 +1,255 @@
+/**
+ * Recurrence rules for repeating todos
+ *
+ * Pure, dependency-free calculations shared by the server (spawning the next
+ * occurrence) and the UI (human-readable summaries). Calendar maths happens in
+ * the user's local time: callers pass the client's
+ * `Date.prototype.getTimezoneOffset()` value (minutes, UTC minus local time).
+ */
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/**
+ * Weekday labels indexed like `Date.prototype.getDay()` (0 = Sunday)
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+/**
+ * Display order for weekdays, starting on Monday
+ */
+export const WEEKDAY_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0] as const;
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+export const MAX_RECURRENCE_COUNT = 1000;
+
+/**
+ * RRULE-style repeat schedule stored on a todo
+ *
+ * @example
+ * ```typescript
+ * { frequency: 'weekly', interval: 1, weekdays: [1, 3] }          // Every Mon, Wed
+ * { frequency: 'monthly', interval: 1, dayOfMonth: 31, count: 12 } // Every month on the 31st, 12 times
+ * { frequency: 'daily', interval: 3, until: '2026-12-31T23:59:59.999Z' }
+ * ```
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every N days, weeks or months (1 = every period) */
+  interval: number;
+  /** Weekly only: days of the week (0 = Sunday); defaults to the weekday of the current occurrence */
+  weekdays?: number[];
+  /** Monthly only: day of the month (1-31), clamped to the last day of shorter months */
+  dayOfMonth?: number;
+  /** ISO timestamp; no occurrence is scheduled after this moment */
+  until?: string | null;
+  /** Occurrences left in the series, including the current one */
+  count?: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Shift a real instant so that its UTC fields read as the user's local wall-clock time
+ */
+function toLocal(date: Date, timezoneOffset: number): Date {
+  return new Date(date.getTime() - timezoneOffset * MINUTE_MS);
+}
+
+function fromLocal(local: Date, timezoneOffset: number): Date {
+  return new Date(local.getTime() + timezoneOffset * MINUTE_MS);
+}
+
+/**
+ * Whole days since the Unix epoch for a shifted local date
+ */
+function toDayNumber(local: Date): number {
+  return Math.floor(local.getTime() / DAY_MS);
+}
+
+/**
+ * Index of the Sunday-based week containing the given day (1970-01-01 was a Thursday)
+ */
+function toWeekNumber(dayNumber: number): number {
+  return Math.floor((dayNumber + 4) / 7);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Returns a validation message for an invalid rule, or null when the rule is usable
+ */
+export function getRecurrenceError(rule: RecurrenceRule): string | null {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    return 'Unknown repeat frequency';
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_RECURRENCE_INTERVAL) {
+    return `Repeat interval must be a whole number between 1 and ${MAX_RECURRENCE_INTERVAL}`;
+  }
+  if (rule.weekdays !== undefined) {
+    if (rule.frequency !== 'weekly') {
+      return 'Weekdays can only be set on weekly schedules';
+    }
+    if (rule.weekdays.length === 0 || rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Weekdays must be between 0 (Sunday) and 6 (Saturday)';
+    }
+  }
+  if (rule.dayOfMonth !== undefined) {
+    if (rule.frequency !== 'monthly') {
+      return 'Day of month can only be set on monthly schedules';
+    }
+    if (!Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth < 1 || rule.dayOfMonth > 31) {
+      return 'Day of month must be between 1 and 31';
+    }
+  }
+  if (rule.until != null && Number.isNaN(new Date(rule.until).getTime())) {
+    return 'Repeat end date is invalid';
+  }
+  if (rule.count != null && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_RECURRENCE_COUNT)) {
+    return `Repeat count must be a whole number between 1 and ${MAX_RECURRENCE_COUNT}`;
+  }
+  if (rule.until != null && rule.count != null) {
+    return 'A schedule can end on a date or after a number of occurrences, not both';
+  }
+  return null;
+}
+
+/**
+ * Next date the schedule fires strictly after `current`, ignoring end conditions
+ * The time of day of `current` is preserved
+ */
+function getNextDate(rule: RecurrenceRule, current: Date, timezoneOffset: number): Date {
+  const local = toLocal(current, timezoneOffset);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return fromLocal(new Date(local.getTime() + rule.interval * DAY_MS), timezoneOffset);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [local.getUTCDay()];
+      const currentDay = toDayNumber(local);
+      const currentWeek = toWeekNumber(currentDay);
+      // Any matching day lies within the next `interval` weeks plus the rest of this week
+      for (let offset = 1; offset <= rule.interval * 7 + 7; offset++) {
+        const day = currentDay + offset;
+        const weeksApart = toWeekNumber(day) - currentWeek;
+        const weekday = ((day + 4) % 7 + 7) % 7;
+        if (weeksApart % rule.interval === 0 && weekdays.includes(weekday)) {
+          return fromLocal(new Date(local.getTime() + offset * DAY_MS), timezoneOffset);
+        }
+      }
+      // Unreachable for valid rules; fall back to the same weekday `interval` weeks later
+      return fromLocal(new Date(local.getTime() + rule.interval * 7 * DAY_MS), timezoneOffset);
+    }
+
+    case 'monthly': {
+      const targetDay = rule.dayOfMonth ?? local.getUTCDate();
+      // A target day still ahead in the current month comes first (the 20th after the 10th)
+      const dayThisMonth = Math.min(targetDay, daysInMonth(local.getUTCFullYear(), local.getUTCMonth()));
+      const monthIndex = local.getUTCMonth() + (dayThisMonth > local.getUTCDate() ? 0 : rule.interval);
+      const year = local.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      const next = new Date(local);
+      next.setUTCFullYear(year, month, Math.min(targetDay, daysInMonth(year, month)));
+      return fromLocal(next, timezoneOffset);
+    }
+  }
+}
+
+/**
+ * Date of the occurrence after `current`, or null when the series has ended
+ *
+ * @example
+ * ```typescript
+ * // Wednesday 2025-01-15 → Monday 2025-01-20
+ * getNextOccurrence({ frequency: 'weekly', interval: 1, weekdays: [1, 3] }, new Date('2025-01-15T10:00:00Z'));
+ * // Jan 31 → Feb 28 (clamped to the end of the month)
+ * getNextOccurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, new Date('2025-01-31T10:00:00Z'));
+ * // Jan 10 → Jan 20 (the day is still ahead this month)
+ * getNextOccurrence({ frequency: 'monthly', interval: 3, dayOfMonth: 20 }, new Date('2025-01-10T10:00:00Z'));
+ * ```
+ */
+export function getNextOccurrence(rule: RecurrenceRule, current: Date, timezoneOffset = 0): Date | null {
+  if (rule.count != null && rule.count <= 1) {
+    return null;
+  }
+
+  const next = getNextDate(rule, current, timezoneOffset);
+
+  if (rule.until != null && next.getTime() > new Date(rule.until).getTime()) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * The rule with a monthly series pinned to the day of `start`, its first occurrence
+ * Without it each occurrence repeats the day of the one before, so a clamped month
+ * would move the series for good (Jan 31 → Feb 28 → Mar 28)
+ */
+export function anchorRecurrence(rule: RecurrenceRule, start: Date, timezoneOffset = 0): RecurrenceRule {
+  if (rule.frequency !== 'monthly' || rule.dayOfMonth !== undefined) {
+    return rule;
+  }
+  return { ...rule, dayOfMonth: toLocal(start, timezoneOffset).getUTCDate() };
+}
+
+/**
+ * Rule carried by the next occurrence: one fewer occurrence left when counting down
+ */
+export function advanceRecurrence(rule: RecurrenceRule): RecurrenceRule {
+  return rule.count != null ? { ...rule, count: rule.count - 1 } : rule;
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 100 >= 11 && day % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[day % 10] ?? 'th';
+  return `${day}${suffix}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every Mon, Wed", "Every 2 weeks on Fri, 5 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let summary: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      summary = rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+      break;
+
+    case 'weekly': {
+      const days = WEEKDAY_DISPLAY_ORDER
+        .filter(day => rule.weekdays?.includes(day))
+        .map(day => WEEKDAY_LABELS[day])
+        .join(', ');
+      if (rule.interval === 1) {
+        summary = days ? `Every ${days}` : 'Every week';
+      } else {
+        summary = `Every ${rule.interval} weeks${days ? ` on ${days}` : ''}`;
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const period = rule.interval === 1 ? 'Every month' : `Every ${rule.interval} months`;
+      summary = rule.dayOfMonth ? `${period} on the ${ordinal(rule.dayOfMonth)}` : period;
+      break;
+    }
+  }
+
+  if (rule.until != null) {
+    const until = new Date(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    summary += `, until ${until}`;
+  } else if (rule.count != null) {
+    summary += rule.count === 1 ? ', last time' : `, ${rule.count} times`;
+  }
+
+  return summary;
+}
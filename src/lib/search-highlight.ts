@@ -0,0 +1,46 @@
+/**
+ * Search result highlighting
+ *
+ * The server wraps matched words in these markers (via `ts_headline`); the UI
+ * splits on them and renders plain text segments, so snippets are never
+ * interpreted as HTML.
+ */
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a highlighted snippet into plain and matched segments
+ *
+ * @example
+ * ```typescript
+ * splitHighlight('Buy <mark>milk</mark> today');
+ * // [{ text: 'Buy ', highlighted: false }, { text: 'milk', highlighted: true }, { text: ' today', highlighted: false }]
+ * ```
+ */
+export function splitHighlight(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const stop = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_STOP, start + HIGHLIGHT_START.length);
+    if (stop === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, stop), highlighted: true });
+    rest = rest.slice(stop + HIGHLIGHT_STOP.length);
+  }
+
+  return segments;
+}
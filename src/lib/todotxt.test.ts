@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  decodeTodoTxtValue,
+  encodeTodoTxtValue,
+  escapeTodoTxtWord,
+  formatTodoTxt,
+  formatTodoTxtTask,
+  parseTodoTxt,
+  parseTodoTxtLine,
+  toTodoTxtName,
+  tokenizeTodoTxtText,
+} from './todotxt';
+
+describe('parseTodoTxtLine', () => {
+  it('reads completion, priority, dates and text', () => {
+    expect(parseTodoTxtLine('x (A) 2025-03-14 2025-03-01 Call Mom +Family @phone due:2025-03-15')).toEqual({
+      completed: true,
+      priority: 'A',
+      completionDate: '2025-03-14',
+      creationDate: '2025-03-01',
+      text: 'Call Mom +Family @phone due:2025-03-15',
+    });
+  });
+
+  it('reads the only date of an open task as its creation date', () => {
+    expect(parseTodoTxtLine('(B) 2025-03-01 Pay rent')).toEqual({
+      completed: false,
+      priority: 'B',
+      completionDate: null,
+      creationDate: '2025-03-01',
+      text: 'Pay rent',
+    });
+  });
+
+  it('keeps a lowercase priority or a date inside the text as text', () => {
+    expect(parseTodoTxtLine('(a) Review 2025-03-01 notes')).toMatchObject({
+      priority: null,
+      creationDate: null,
+      text: '(a) Review 2025-03-01 notes',
+    });
+  });
+});
+
+describe('formatTodoTxtTask', () => {
+  it.each([
+    'x (A) 2025-03-14 2025-03-01 Call Mom +Family @phone due:2025-03-15',
+    'x 2025-03-14 Done without a creation date',
+    '(C) 2025-03-01 Open task',
+    'Bare task',
+  ])('gives back the canonical line %s', (line) => {
+    expect(formatTodoTxtTask(parseTodoTxtLine(line))).toBe(line);
+  });
+
+  it('leaves out the creation date of a completed task without a completion date', () => {
+    expect(formatTodoTxtTask({
+      completed: true,
+      priority: null,
+      completionDate: null,
+      creationDate: '2025-03-01',
+      text: 'Done',
+    })).toBe('x Done');
+  });
+});
+
+describe('parseTodoTxt', () => {
+  it('skips blank lines and numbers the others by their line', () => {
+    const tasks = parseTodoTxt('First\r\n\n  \nSecond\n');
+    expect(tasks.map(({ line, task }) => [line, task.text])).toEqual([[1, 'First'], [4, 'Second']]);
+  });
+
+  it('reads back what formatTodoTxt writes', () => {
+    const content = 'x 2025-03-14 2025-03-01 One\n(A) Two +Work\n';
+    expect(formatTodoTxt(parseTodoTxt(content).map(({ task }) => task))).toBe(content);
+  });
+});
+
+describe('tokenizeTodoTxtText', () => {
+  it('tells words from projects, contexts and extras', () => {
+    expect(tokenizeTodoTxtText('Call +Family @phone due:2025-03-15 at 10 https://example.com')).toEqual([
+      { type: 'word', value: 'Call' },
+      { type: 'project', value: '+Family', name: 'Family' },
+      { type: 'context', value: '@phone', name: 'phone' },
+      { type: 'extra', value: 'due:2025-03-15', key: 'due', extraValue: '2025-03-15' },
+      { type: 'word', value: 'at' },
+      { type: 'word', value: '10' },
+      { type: 'word', value: 'https://example.com' },
+    ]);
+  });
+
+  it('decodes project and context names', () => {
+    expect(tokenizeTodoTxtText('+Home%20Office @50%off')).toEqual([
+      { type: 'project', value: '+Home%20Office', name: 'Home Office' },
+      { type: 'context', value: '@50%off', name: '50%off' },
+    ]);
+  });
+
+  it('reads escaped tokens as words', () => {
+    expect(tokenizeTodoTxtText('\\@bob \\+launch \\due:today \\\\n \\')).toEqual([
+      { type: 'word', value: '@bob' },
+      { type: 'word', value: '+launch' },
+      { type: 'word', value: 'due:today' },
+      { type: 'word', value: '\\n' },
+      { type: 'word', value: '\\' },
+    ]);
+  });
+});
+
+describe('escapeTodoTxtWord', () => {
+  it.each(['@bob', '+launch', 'due:today', '10:30', '\\n', 'plain', '+', '@', 'https://example.com', '\\'])(
+    'reads %s back as the same word',
+    (word) => {
+      expect(tokenizeTodoTxtText(escapeTodoTxtWord(word))).toEqual([{ type: 'word', value: word }]);
+    }
+  );
+
+  it('leaves plain words alone', () => {
+    expect(escapeTodoTxtWord('plain')).toBe('plain');
+    expect(escapeTodoTxtWord('@bob')).toBe('\\@bob');
+  });
+});
+
+describe('encodeTodoTxtValue', () => {
+  it.each([
+    'Home Office',
+    'Line one\nline two\twith tab',
+    'Meet at 10:30',
+    '100% done',
+    '/starts/with/a/slash',
+    'Ünïcödé　wide space',
+    '2026-12-31T23:59:59.999Z',
+  ])('keeps %j in a single extra value', (value) => {
+    const encoded = encodeTodoTxtValue(value);
+    expect(tokenizeTodoTxtText(`key:${encoded}`)).toEqual([
+      { type: 'extra', value: `key:${encoded}`, key: 'key', extraValue: encoded },
+    ]);
+    expect(decodeTodoTxtValue(encoded)).toBe(value);
+  });
+
+  it('keeps malformed encodings as written', () => {
+    expect(decodeTodoTxtValue('50%off')).toBe('50%off');
+  });
+});
+
+describe('toTodoTxtName', () => {
+  it('encodes spaces instead of changing the name', () => {
+    expect(toTodoTxtName(' Home Office ')).toBe('Home%20Office');
+    expect(tokenizeTodoTxtText(`+${toTodoTxtName('Home Office')}`)).toEqual([
+      { type: 'project', value: '+Home%20Office', name: 'Home Office' },
+    ]);
+  });
+});
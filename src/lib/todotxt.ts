@@ -0,0 +1,173 @@
+/**
+ * todo.txt format (https://github.com/todotxt/todo.txt)
+ *
+ * Pure, dependency-free reading and writing of todo.txt lines. One task per line:
+ *
+ *   x (A) 2025-03-14 2025-03-01 Call Mom +Family @phone due:2025-03-15
+ *   │  │   │          │          └ text: words, +project and @context tags, key:value extras
+ *   │  │   │          └ creation date
+ *   │  │   └ completion date (completed tasks only, required before a creation date)
+ *   │  └ priority A-Z
+ *   └ completed
+ *
+ * The text is kept verbatim, so formatting a parsed line gives the same line back
+ * whenever it was written in the canonical form (single spaces between the parts).
+ *
+ * The format has no quoting, so two conventions keep arbitrary text intact: a word that would
+ * read as a token (`+word`, `@word`, `key:value`) is escaped with a leading backslash, and
+ * names and extra values percent-encode whitespace, colons and `%` (`+Home%20Office`).
+ */
+
+export interface TodoTxtTask {
+  completed: boolean;
+  /** Single capital letter, A being the most important */
+  priority: string | null;
+  /** YYYY-MM-DD; only set on completed tasks */
+  completionDate: string | null;
+  /** YYYY-MM-DD */
+  creationDate: string | null;
+  /** Everything after the dates, including the project, context and key:value tokens */
+  text: string;
+}
+
+/**
+ * A token of a task's text; `value` is as written, except that escaped words lose their backslash.
+ * Project and context names are decoded, extra values are left for the caller to decode
+ */
+export type TodoTxtToken =
+  | { type: 'word'; value: string }
+  | { type: 'project'; value: string; name: string }
+  | { type: 'context'; value: string; name: string }
+  | { type: 'extra'; value: string; key: string; extraValue: string };
+
+const COMPLETED = /^(x)(?:\s+|$)/;
+const PRIORITY = /^\(([A-Z])\)(?:\s+|$)/;
+const DATE = /^(\d{4}-\d{2}-\d{2})(?:\s+|$)/;
+// Both sides free of whitespace and colons; values starting with / are URLs, not extras
+const EXTRA = /^([^\s:]+):([^\s:/][^\s:]*)$/;
+// What a name or extra value cannot contain as written
+const ENCODED_CHARACTERS = /[\s:%]|^\//g;
+
+/**
+ * Read one line of a todo.txt file
+ */
+export function parseTodoTxtLine(line: string): TodoTxtTask {
+  let rest = line.trim();
+  // Consume a leading part of the line, returning its captured value
+  const take = (pattern: RegExp): string | null => {
+    const match = pattern.exec(rest);
+    if (!match) return null;
+    rest = rest.slice(match[0].length);
+    return match[1] ?? null;
+  };
+
+  const completed = take(COMPLETED) !== null;
+  const priority = take(PRIORITY);
+  const firstDate = take(DATE);
+  const secondDate = completed && firstDate ? take(DATE) : null;
+
+  return {
+    completed,
+    priority,
+    // A completed task's first date is when it was completed
+    completionDate: completed ? firstDate : null,
+    creationDate: completed ? secondDate : firstDate,
+    text: rest,
+  };
+}
+
+/**
+ * Write a task as one todo.txt line
+ * A completed task's creation date is only written together with its completion date, as the format requires
+ */
+export function formatTodoTxtTask(task: TodoTxtTask): string {
+  const parts: string[] = [];
+
+  if (task.completed) parts.push('x');
+  if (task.priority) parts.push(`(${task.priority})`);
+  if (task.completed && task.completionDate) {
+    parts.push(task.completionDate);
+    if (task.creationDate) parts.push(task.creationDate);
+  } else if (!task.completed && task.creationDate) {
+    parts.push(task.creationDate);
+  }
+  if (task.text) parts.push(task.text);
+
+  return parts.join(' ');
+}
+
+/**
+ * Read a whole todo.txt file, skipping blank lines; `line` is 1-based
+ */
+export function parseTodoTxt(content: string): { line: number; task: TodoTxtTask }[] {
+  return content
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, text }))
+    .filter(({ text }) => text.trim() !== '')
+    .map(({ line, text }) => ({ line, task: parseTodoTxtLine(text) }));
+}
+
+/**
+ * Write tasks as a todo.txt file, one per line
+ */
+export function formatTodoTxt(tasks: TodoTxtTask[]): string {
+  return tasks.map(task => formatTodoTxtTask(task) + '\n').join('');
+}
+
+function readToken(value: string): TodoTxtToken {
+  if (value.length > 1 && value.startsWith('\\')) {
+    return { type: 'word', value: value.slice(1) };
+  }
+  if (value.length > 1 && value.startsWith('+')) {
+    return { type: 'project', value, name: decodeTodoTxtValue(value.slice(1)) };
+  }
+  if (value.length > 1 && value.startsWith('@')) {
+    return { type: 'context', value, name: decodeTodoTxtValue(value.slice(1)) };
+  }
+  const extra = EXTRA.exec(value);
+  if (extra) {
+    return { type: 'extra', value, key: extra[1] ?? '', extraValue: extra[2] ?? '' };
+  }
+  return { type: 'word', value };
+}
+
+/**
+ * Split a task's text into words and +project, @context and key:value tokens
+ */
+export function tokenizeTodoTxtText(text: string): TodoTxtToken[] {
+  return text.split(/\s+/).filter(value => value !== '').map(readToken);
+}
+
+/**
+ * Write a word of free text so it reads back as a word, escaping it when it would
+ * otherwise be a token (or starts with the escape character itself)
+ */
+export function escapeTodoTxtWord(word: string): string {
+  const token = readToken(word);
+  return token.type !== 'word' || token.value !== word ? `\\${word}` : word;
+}
+
+/**
+ * Percent-encode what would end or split a token, so any text fits in a name or extra value
+ */
+export function encodeTodoTxtValue(value: string): string {
+  return value.replace(ENCODED_CHARACTERS, character => encodeURIComponent(character));
+}
+
+/**
+ * Read back a value written by encodeTodoTxtValue; malformed encodings are kept as written
+ */
+export function decodeTodoTxtValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Turn a name into a single todo.txt token, e.g. `Home Office` into `Home%20Office`
+ */
+export function toTodoTxtName(name: string): string {
+  return encodeTodoTxtValue(name.trim());
+}
@@ -0,0 +1,267 @@
+/**
+ * REST routes and OpenAPI 3.1 document for the procedures that set `meta.openapi`
+ *
+ * Each route calls its tRPC procedure (see ~/server/api/rest), so authentication, access token
+ * scopes, auditing and errors work the same as over tRPC. Path parameters, query parameters
+ * (GET and DELETE) and the JSON body (POST, PUT and PATCH) are merged into the procedure's input.
+ */
+import type { AnyTRPCProcedure, TRPCProcedureType } from "@trpc/server";
+import { z } from "zod";
+
+import { appRouter } from "~/server/api/root";
+import type { ProcedureMeta } from "~/server/api/trpc";
+import { getZodObjectShape, zodToJsonSchema, type JsonSchema } from "~/server/lib/zod-json-schema";
+
+export type RestMethod = NonNullable<ProcedureMeta["openapi"]>["method"];
+
+export interface RestRoute {
+  method: RestMethod;
+  /** OpenAPI path template below /api/v1, e.g. `/todos/{id}` */
+  path: string;
+  segments: string[];
+  pathParams: string[];
+  /** Procedure path in the app router, e.g. `todo.update` */
+  procedure: string;
+  type: TRPCProcedureType;
+  input: z.ZodTypeAny | null;
+  summary: string;
+  public: boolean;
+  stream: boolean;
+}
+
+export interface RestRouteMatch {
+  route: RestRoute;
+  params: Record<string, string>;
+}
+
+export const REST_API_PREFIX = "/api/v1";
+
+const BODY_METHODS: RestMethod[] = ["POST", "PUT", "PATCH"];
+
+export const hasRequestBody = (method: RestMethod) => BODY_METHODS.includes(method);
+
+const isPathParam = (segment: string) => segment.startsWith("{") && segment.endsWith("}");
+
+function collectRoutes(): RestRoute[] {
+  // Typed as the nested router record, but keyed by full procedure path at runtime
+  const procedures = appRouter._def.procedures as unknown as Record<string, AnyTRPCProcedure>;
+
+  return Object.entries(procedures).flatMap(([procedure, { _def }]) => {
+    const openapi = (_def.meta as ProcedureMeta | undefined)?.openapi;
+    if (!openapi) return [];
+
+    const input = _def.inputs[0];
+    if (_def.inputs.length > 1 || (input && !(input instanceof z.ZodType))) {
+      throw new Error(`${procedure}: REST routes need a single Zod input schema`);
+    }
+    if (_def.type === "subscription") {
+      throw new Error(`${procedure}: subscriptions cannot be REST routes`);
+    }
+
+    const segments = openapi.path.split("/").slice(1);
+    const pathParams = segments.filter(isPathParam).map(segment => segment.slice(1, -1));
+    const shape = input ? getZodObjectShape(input) : null;
+    if (input && !shape) {
+      throw new Error(`${procedure}: REST routes need an object input schema`);
+    }
+    const missing = pathParams.find(param => !shape?.[param]);
+    if (missing) {
+      throw new Error(`${procedure}: path parameter {${missing}} is not an input field`);
+    }
+
+    return [{
+      method: openapi.method,
+      path: openapi.path,
+      segments,
+      pathParams,
+      procedure,
+      type: _def.type,
+      input: input ?? null,
+      summary: openapi.summary,
+      public: openapi.public ?? false,
+      stream: openapi.stream ?? false,
+    }];
+  });
+}
+
+export const restRoutes = collectRoutes();
+
+function matchSegments(route: RestRoute, segments: string[]): Record<string, string> | null {
+  if (route.segments.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of route.segments.entries()) {
+    const value = segments[index] ?? "";
+    if (isPathParam(segment)) {
+      params[segment.slice(1, -1)] = value;
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+  return params;
+}
+
+const literalCount = (route: RestRoute) => route.segments.length - route.pathParams.length;
+
+/**
+ * Path segments with percent-escapes decoded; null when an escape is malformed (e.g. `%E0`)
+ */
+function decodeSegments(pathname: string): string[] | null {
+  try {
+    return pathname.split("/").filter(segment => segment !== "").map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the route for a path below /api/v1; `/todos/trash` wins over `/todos/{id}`
+ * `allowedMethods` lists the methods of routes that match the path, for 405 responses.
+ * A path that cannot be decoded matches no route
+ */
+export function matchRestRoute(
+  method: string,
+  pathname: string
+): { match: RestRouteMatch | null; allowedMethods: RestMethod[] } {
+  const segments = decodeSegments(pathname);
+  if (!segments) return { match: null, allowedMethods: [] };
+
+  const matches = restRoutes
+    .map(route => ({ route, params: matchSegments(route, segments) }))
+    .filter((found): found is RestRouteMatch => found.params !== null)
+    .sort((a, b) => literalCount(b.route) - literalCount(a.route));
+
+  return {
+    match: matches.find(found => found.route.method === method) ?? null,
+    allowedMethods: [...new Set(matches.map(found => found.route.method))],
+  };
+}
+
+const ERROR_RESPONSE = { $ref: "#/components/responses/Error" };
+
+function operation(route: RestRoute) {
+  const inputSchema = route.input ? zodToJsonSchema(route.input) : null;
+  const fields = Object.entries(inputSchema?.properties ?? {});
+  const required = new Set(inputSchema?.required);
+
+  const parameters = fields
+    .filter(([name]) => route.pathParams.includes(name) || !hasRequestBody(route.method))
+    .map(([name, schema]) => {
+      const inPath = route.pathParams.includes(name);
+      return {
+        name,
+        in: inPath ? "path" : "query",
+        required: inPath || required.has(name),
+        schema,
+        ...(schema.type === "array" ? { style: "form", explode: true } : {}),
+      };
+    });
+
+  let requestBody: object | undefined;
+  if (hasRequestBody(route.method) && inputSchema) {
+    const bodyFields = fields.filter(([name]) => !route.pathParams.includes(name));
+    const bodyRequired = bodyFields.map(([name]) => name).filter(name => required.has(name));
+    const bodySchema: JsonSchema = { type: "object", properties: Object.fromEntries(bodyFields) };
+    if (bodyRequired.length > 0) bodySchema.required = bodyRequired;
+    requestBody = {
+      required: bodyRequired.length > 0,
+      content: { "application/json": { schema: bodySchema } },
+    };
+  }
+
+  return {
+    operationId: route.procedure,
+    summary: route.summary,
+    tags: [route.procedure.split(".")[0]],
+    ...(route.public ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      "200": route.stream
+        ? { description: "The file, streamed as text", content: { "text/plain": { schema: { type: "string" } } } }
+        : { description: "The procedure's result as JSON; dates are ISO 8601 strings", content: { "application/json": { schema: {} } } },
+      "400": ERROR_RESPONSE,
+      "401": ERROR_RESPONSE,
+      "403": ERROR_RESPONSE,
+      "404": ERROR_RESPONSE,
+      "409": ERROR_RESPONSE,
+      "422": ERROR_RESPONSE,
+      "500": ERROR_RESPONSE,
+    },
+  };
+}
+
+let openApiDocument: object | null = null;
+
+/**
+ * OpenAPI 3.1 document for every REST route, served at /api/v1/openapi.json
+ */
+export function getOpenApiDocument(): object {
+  if (openApiDocument) return openApiDocument;
+
+  const paths: Record<string, Record<string, ReturnType<typeof operation>>> = {};
+  for (const route of restRoutes) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  openApiDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "Todo App API",
+      version: "1",
+      description:
+        "REST access to the tRPC API. Authenticate with a personal access token from your profile page " +
+        "(`Authorization: Bearer pat_…`); its scopes limit what it can call, as they do over tRPC.",
+    },
+    servers: [{ url: REST_API_PREFIX }],
+    security: [{ accessToken: [] }, { session: [] }],
+    tags: [...new Set(restRoutes.map(route => route.procedure.split(".")[0]))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        accessToken: {
+          type: "http",
+          scheme: "bearer",
+          description: "Personal access token (`pat_…`)",
+        },
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: "better-auth.session_token",
+          description: "Session cookie of a signed-in browser",
+        },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string", description: "tRPC error code, e.g. NOT_FOUND" },
+                message: { type: "string" },
+                zodError: {
+                  type: ["object", "null"],
+                  description: "Invalid input fields, for BAD_REQUEST errors from input validation",
+                  properties: {
+                    formErrors: { type: "array", items: { type: "string" } },
+                    fieldErrors: { type: "object", additionalProperties: { type: "array", items: { type: "string" } } },
+                  },
+                },
+              },
+              required: ["code", "message"],
+            },
+          },
+          required: ["error"],
+        },
+      },
+      responses: {
+        Error: {
+          description: "The request failed; the status code follows the tRPC error code",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+      },
+    },
+  };
+  return openApiDocument;
+}
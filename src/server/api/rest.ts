@@ -0,0 +1,143 @@
+/**
+ * Handler for the REST API under /api/v1: runs the tRPC procedure a route maps to
+ *
+ * Procedures are called with the same context as the tRPC endpoint, so sessions, access tokens
+ * and their scopes, auditing and error codes behave as they do over tRPC. Results are sent as
+ * plain JSON rather than superjson, so dates become ISO 8601 strings.
+ */
+import { TRPCError, callTRPCProcedure, getTRPCErrorFromUnknown } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { ZodError } from "zod";
+
+import { env } from "~/env";
+import { hasRequestBody, matchRestRoute, REST_API_PREFIX, type RestRouteMatch } from "~/server/api/openapi";
+import { appRouter } from "~/server/api/root";
+import { createTRPCContext } from "~/server/api/trpc";
+import { getBearerToken } from "~/server/lib/request-context";
+import { coerceZodInput } from "~/server/lib/zod-json-schema";
+
+function errorResponse(error: TRPCError, headers?: HeadersInit): Response {
+  const zodError = error.cause instanceof ZodError ? error.cause.flatten() : null;
+  return Response.json(
+    {
+      error: {
+        code: error.code,
+        message: zodError ? "Invalid input" : error.message,
+        zodError,
+      },
+    },
+    { status: getHTTPStatusCodeFromError(error), headers }
+  );
+}
+
+/**
+ * Query parameters as an object; repeated parameters become arrays
+ */
+function readQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length === 1 ? (values[0] ?? "") : values;
+  }
+  return query;
+}
+
+/**
+ * Whether the request says its body is JSON, e.g. `application/json; charset=utf-8`
+ */
+function isJsonRequest(request: Request): boolean {
+  const mediaType = request.headers.get("content-type")?.split(";")[0]?.trim().toLowerCase();
+  return mediaType === "application/json";
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (text.trim() === "") return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Request body is not valid JSON" });
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Request body must be a JSON object" });
+  }
+  return body as Record<string, unknown>;
+}
+
+async function readInput(request: Request, { route, params }: RestRouteMatch): Promise<unknown> {
+  // Browsers send the session cookie with cross-site form posts, which cannot be JSON;
+  // access tokens are never sent implicitly, so token clients may leave the header out
+  if (hasRequestBody(route.method) && !getBearerToken(request.headers) && !isJsonRequest(request)) {
+    throw new TRPCError({ code: "UNSUPPORTED_MEDIA_TYPE", message: "Send the request body as application/json" });
+  }
+  if (!route.input) return undefined;
+
+  const fields = hasRequestBody(route.method)
+    ? await readBody(request)
+    : readQuery(new URL(request.url).searchParams);
+  return coerceZodInput(route.input, { ...fields, ...params });
+}
+
+function streamText(chunks: AsyncIterable<unknown>): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = await iterator.next();
+      if (chunk.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(String(chunk.value)));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Answer a request to /api/v1/...; unknown paths get a 404 and known paths a 405 for other methods
+ */
+export async function handleRestRequest(request: Request): Promise<Response> {
+  const pathname = new URL(request.url).pathname.slice(REST_API_PREFIX.length);
+  const { match, allowedMethods } = matchRestRoute(request.method, pathname);
+
+  if (!match) {
+    return allowedMethods.length > 0
+      ? errorResponse(
+          new TRPCError({ code: "METHOD_NOT_SUPPORTED", message: `Use ${allowedMethods.join(", ")} for this path` }),
+          { Allow: allowedMethods.join(", ") }
+        )
+      : errorResponse(new TRPCError({ code: "NOT_FOUND", message: `No route for ${request.method} ${pathname}` }));
+  }
+
+  const { route } = match;
+  try {
+    const input = await readInput(request, match);
+    const ctx = await createTRPCContext({ headers: request.headers });
+    const result: unknown = await callTRPCProcedure({
+      router: appRouter,
+      path: route.procedure,
+      type: route.type,
+      ctx,
+      getRawInput: async () => input,
+      signal: request.signal,
+    });
+
+    if (route.stream) {
+      return new Response(streamText(result as AsyncIterable<unknown>), {
+        headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "private, no-store" },
+      });
+    }
+    return result === undefined ? new Response(null, { status: 204 }) : Response.json(result);
+  } catch (cause) {
+    const error = getTRPCErrorFromUnknown(cause);
+    if (env.NODE_ENV === "development") {
+      console.error(`❌ REST ${request.method} ${pathname} (${route.procedure}) failed: ${error.message}`);
+    }
+    return errorResponse(error);
+  }
+}
@@ -1,5 +1,13 @@
 import { userRouter } from "~/server/api/routers/user";
+import { roleRouter } from "~/server/api/routers/role";
+import { auditRouter } from "~/server/api/routers/audit";
+import { scheduleRouter } from "~/server/api/routers/schedule";
 import { todoRouter } from "~/server/api/routers/todo";
+import { tagRouter } from "~/server/api/routers/tag";
+import { projectRouter } from "~/server/api/routers/project";
+import { webhookRouter } from "~/server/api/routers/webhook";
+import { calendarFeedRouter } from "~/server/api/routers/calendar-feed";
+import { personalAccessTokenRouter } from "~/server/api/routers/personal-access-token";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -9,7 +17,15 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
   user: userRouter,
+  role: roleRouter,
+  audit: auditRouter,
+  schedule: scheduleRouter,
   todo: todoRouter,
+  tag: tagRouter,
+  project: projectRouter,
+  webhook: webhookRouter,
+  calendarFeed: calendarFeedRouter,
+  personalAccessToken: personalAccessTokenRouter,
 });
 
 // export type definition of API
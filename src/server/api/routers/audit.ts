@@ -0,0 +1,59 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, requirePermission } from '~/server/api/trpc';
+import { AUDIT_ENTITY_TYPES } from '~/server/infrastructure/db/schema';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+/**
+ * tRPC router for the audit log - requires audit:read
+ */
+export const auditRouter = createTRPCRouter({
+  /**
+   * Audit entries matching the filters, newest first
+   * `from` is inclusive and `to` exclusive
+   */
+  getAll: requirePermission('audit:read')
+    .input(z.object({
+      actorId: z.string().uuid('Invalid actor ID').optional(),
+      entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+      entityId: z.string().trim().min(1).max(100).optional(),
+      action: z.string().trim().min(1).max(100).optional(),
+      from: z.date().optional(),
+      to: z.date().optional(),
+      limit: z.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+      cursor: z.string().max(1000).nullish(),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const auditService = ctx.container.auditService;
+
+        const page = await auditService.getAuditLogs(input);
+
+        return {
+          entries: page.items,
+          nextCursor: page.nextCursor,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch audit log', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        // Invalid time ranges and malformed cursors
+        if (Err.isValidationError(error)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch audit log',
+          cause: error,
+        });
+      }
+    }),
+});
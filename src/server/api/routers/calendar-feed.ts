@@ -0,0 +1,110 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import type { CalendarFeed } from '~/server/domain';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { calendarFeedPath } from '~/server/services';
+
+/**
+ * Feed as listed to its owner; the token hash stays on the server
+ */
+const withoutTokenHash = ({ tokenHash: _tokenHash, ...feed }: CalendarFeed) => feed;
+
+/**
+ * Map calendar feed domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toCalendarFeedTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: error.message, cause: error });
+  }
+  if (Err.isBusinessRuleError(error)) {
+    return new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for the authenticated user's private calendar feed URLs
+ */
+export const calendarFeedRouter = createTRPCRouter({
+  /**
+   * All of the user's feeds
+   */
+  getAll: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const calendarFeedService = ctx.container.calendarFeedService;
+        const userId = ctx.user.id;
+
+        const feeds = await calendarFeedService.getFeeds(userId);
+
+        return {
+          feeds: feeds.map(withoutTokenHash),
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch calendar feeds', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toCalendarFeedTRPCError(error, 'Failed to fetch calendar feeds');
+      }
+    }),
+
+  /**
+   * Create a feed; the response includes its URL path, which cannot be shown again
+   */
+  create: protectedProcedure
+    .input(z.object({
+      name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const calendarFeedService = ctx.container.calendarFeedService;
+        const userId = ctx.user.id;
+
+        const { feed, token } = await calendarFeedService.createFeed(userId, input.name);
+
+        return {
+          feed: withoutTokenHash(feed),
+          path: calendarFeedPath(token),
+          message: 'Calendar feed created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create calendar feed', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toCalendarFeedTRPCError(error, 'Failed to create calendar feed');
+      }
+    }),
+
+  /**
+   * Revoke a feed's URL
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid calendar feed ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const calendarFeedService = ctx.container.calendarFeedService;
+        const userId = ctx.user.id;
+
+        await calendarFeedService.deleteFeed(input.id, userId);
+
+        return {
+          message: 'Calendar feed revoked successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to revoke calendar feed', {
+          error: error instanceof Error ? error.message : String(error),
+          feedId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toCalendarFeedTRPCError(error, 'Failed to revoke calendar feed');
+      }
+    }),
+});
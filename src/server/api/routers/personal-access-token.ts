@@ -0,0 +1,121 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import { ACCESS_TOKEN_SCOPES, type PersonalAccessToken } from '~/server/domain';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+/**
+ * Token as listed to its owner; the hash stays on the server
+ */
+const withoutTokenHash = ({ tokenHash: _tokenHash, ...accessToken }: PersonalAccessToken) => accessToken;
+
+/**
+ * Map personal access token domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toAccessTokenTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  if (Err.isBusinessRuleError(error)) {
+    return new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for the authenticated user's personal access tokens
+ * Not available to access tokens themselves, so a leaked token cannot mint more
+ */
+export const personalAccessTokenRouter = createTRPCRouter({
+  /**
+   * Scopes a token can be given
+   */
+  getScopes: protectedProcedure
+    .query(() => ACCESS_TOKEN_SCOPES),
+
+  /**
+   * All of the user's tokens, newest first
+   */
+  getAll: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const personalAccessTokenService = ctx.container.personalAccessTokenService;
+        const userId = ctx.user.id;
+
+        const accessTokens = await personalAccessTokenService.getTokens(userId);
+
+        return {
+          accessTokens: accessTokens.map(withoutTokenHash),
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch personal access tokens', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toAccessTokenTRPCError(error, 'Failed to fetch access tokens');
+      }
+    }),
+
+  /**
+   * Create a token; the response includes the token, which cannot be shown again
+   */
+  create: protectedProcedure
+    .input(z.object({
+      name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+      scopes: z.array(z.enum(ACCESS_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+      expiresAt: z.date().nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const personalAccessTokenService = ctx.container.personalAccessTokenService;
+        const userId = ctx.user.id;
+
+        const { accessToken, token } = await personalAccessTokenService.createToken(userId, input);
+
+        return {
+          accessToken: withoutTokenHash(accessToken),
+          token,
+          message: 'Access token created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create personal access token', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toAccessTokenTRPCError(error, 'Failed to create access token');
+      }
+    }),
+
+  /**
+   * Revoke a token
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid access token ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const personalAccessTokenService = ctx.container.personalAccessTokenService;
+        const userId = ctx.user.id;
+
+        await personalAccessTokenService.deleteToken(input.id, userId);
+
+        return {
+          message: 'Access token revoked successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to revoke personal access token', {
+          error: error instanceof Error ? error.message : String(error),
+          tokenId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toAccessTokenTRPCError(error, 'Failed to revoke access token');
+      }
+    }),
+});
@@ -0,0 +1,148 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+const projectNameSchema = z.string().trim().min(1, 'Project name is required').max(100, 'Project name too long');
+const projectColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #228be6');
+
+/**
+ * Map project domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toProjectTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: 'Project not found or not accessible', cause: error });
+  }
+  if (Err.isConflictError(error)) {
+    return new TRPCError({ code: 'CONFLICT', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for Project operations
+ * Projects are private to their owner; todos without a project form the Inbox
+ */
+export const projectRouter = createTRPCRouter({
+  /**
+   * Get all projects for the authenticated user
+   */
+  getAll: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const projectService = ctx.container.projectService;
+        const userId = ctx.user.id;
+
+        const projects = await projectService.getProjects(userId);
+
+        return {
+          projects,
+          count: projects.length,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch projects', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toProjectTRPCError(error, 'Failed to fetch projects');
+      }
+    }),
+
+  /**
+   * Create a new project
+   */
+  create: protectedProcedure
+    .input(z.object({
+      name: projectNameSchema,
+      color: projectColorSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const projectService = ctx.container.projectService;
+        const userId = ctx.user.id;
+
+        const project = await projectService.createProject(userId, input);
+
+        return {
+          project,
+          message: 'Project created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create project', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          name: input.name,
+        });
+
+        throw toProjectTRPCError(error, 'Failed to create project');
+      }
+    }),
+
+  /**
+   * Rename and/or recolor a project
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid project ID'),
+      name: projectNameSchema.optional(),
+      color: projectColorSchema.optional(),
+    }).refine(data => data.name !== undefined || data.color !== undefined,
+      'At least one field must be provided for update'
+    ))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const projectService = ctx.container.projectService;
+        const userId = ctx.user.id;
+
+        const project = await projectService.updateProject(input.id, userId, {
+          name: input.name,
+          color: input.color,
+        });
+
+        return {
+          project,
+          message: 'Project updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to update project', {
+          error: error instanceof Error ? error.message : String(error),
+          projectId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toProjectTRPCError(error, 'Failed to update project');
+      }
+    }),
+
+  /**
+   * Delete a project (its todos move to the Inbox)
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid project ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const projectService = ctx.container.projectService;
+        const userId = ctx.user.id;
+
+        await projectService.deleteProject(input.id, userId);
+
+        return {
+          message: 'Project deleted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to delete project', {
+          error: error instanceof Error ? error.message : String(error),
+          projectId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toProjectTRPCError(error, 'Failed to delete project');
+      }
+    }),
+});
@@ -0,0 +1,275 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '~/server/api/trpc';
+import { PERMISSIONS } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+const roleNameSchema = z.string().trim().min(1, 'Role name is required').max(50, 'Role name too long');
+const roleDescriptionSchema = z.string().trim().max(255, 'Description too long').nullable();
+const permissionsSchema = z.array(z.enum(PERMISSIONS)).max(PERMISSIONS.length);
+
+/**
+ * Map role domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toRoleTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: error.message, cause: error });
+  }
+  if (Err.isForbiddenError(error)) {
+    return new TRPCError({ code: 'FORBIDDEN', message: error.message, cause: error });
+  }
+  if (Err.isConflictError(error)) {
+    return new TRPCError({ code: 'CONFLICT', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  if (Err.isBusinessRuleError(error)) {
+    return new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for roles, permissions and role assignment
+ * Role management needs roles:read / roles:write; assigning roles to users needs users:write
+ * Either way, callers can only grant or revoke roles whose permissions they hold themselves
+ */
+export const roleRouter = createTRPCRouter({
+  /**
+   * Roles and permissions of the authenticated user, used to show or hide admin features
+   */
+  getMyAccess: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const roleService = ctx.container.roleService;
+        const userId = ctx.user.id;
+
+        const [roles, permissions] = await Promise.all([
+          roleService.getUserRoleNames(userId),
+          roleService.getUserPermissions(userId),
+        ]);
+
+        return {
+          roles,
+          permissions: [...permissions],
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch user access', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to fetch user access');
+      }
+    }),
+
+  /**
+   * Get all roles with their permissions
+   */
+  getAll: requirePermission('roles:read')
+    .query(async ({ ctx }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const roles = await roleService.getRoles();
+
+        return {
+          roles,
+          availablePermissions: [...roleService.getAvailablePermissions()],
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch roles', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to fetch roles');
+      }
+    }),
+
+  /**
+   * Create a new role
+   */
+  create: requirePermission('roles:write')
+    .input(z.object({
+      name: roleNameSchema,
+      description: roleDescriptionSchema.optional(),
+      permissions: permissionsSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const role = await roleService.createRole(ctx.user.id, input);
+
+        return {
+          role,
+          message: 'Role created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create role', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          name: input.name,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to create role');
+      }
+    }),
+
+  /**
+   * Update a role's name, description and/or permissions
+   */
+  update: requirePermission('roles:write')
+    .input(z.object({
+      id: z.string().uuid('Invalid role ID'),
+      name: roleNameSchema.optional(),
+      description: roleDescriptionSchema.optional(),
+      permissions: permissionsSchema.optional(),
+    }).refine(
+      data => data.name !== undefined || data.description !== undefined || data.permissions !== undefined,
+      'At least one field must be provided for update'
+    ))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const role = await roleService.updateRole(ctx.user.id, input.id, {
+          name: input.name,
+          description: input.description,
+          permissions: input.permissions,
+        });
+
+        return {
+          role,
+          message: 'Role updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to update role', {
+          error: error instanceof Error ? error.message : String(error),
+          roleId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to update role');
+      }
+    }),
+
+  /**
+   * Delete a custom role
+   */
+  delete: requirePermission('roles:write')
+    .input(z.object({
+      id: z.string().uuid('Invalid role ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        await roleService.deleteRole(ctx.user.id, input.id);
+
+        return {
+          success: true,
+          message: 'Role deleted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to delete role', {
+          error: error instanceof Error ? error.message : String(error),
+          roleId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to delete role');
+      }
+    }),
+
+  /**
+   * Replace a user's roles
+   */
+  setUserRoles: requirePermission('users:write')
+    .input(z.object({
+      userId: z.string().uuid('Invalid user ID'),
+      roleNames: z.array(z.string().min(1)).max(50),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const roles = await roleService.setUserRoles(ctx.user.id, input.userId, input.roleNames);
+
+        return {
+          roles,
+          message: 'User roles updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to set user roles', {
+          error: error instanceof Error ? error.message : String(error),
+          targetUserId: input.userId,
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to update user roles');
+      }
+    }),
+
+  /**
+   * Give a user a role
+   */
+  assignRole: requirePermission('users:write')
+    .input(z.object({
+      userId: z.string().uuid('Invalid user ID'),
+      roleId: z.string().uuid('Invalid role ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const roles = await roleService.assignRole(ctx.user.id, input.userId, input.roleId);
+
+        return {
+          roles,
+          message: 'Role assigned successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to assign role', {
+          error: error instanceof Error ? error.message : String(error),
+          targetUserId: input.userId,
+          roleId: input.roleId,
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to assign role');
+      }
+    }),
+
+  /**
+   * Take a role away from a user
+   */
+  removeRole: requirePermission('users:write')
+    .input(z.object({
+      userId: z.string().uuid('Invalid user ID'),
+      roleId: z.string().uuid('Invalid role ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const roleService = ctx.container.roleService;
+
+        const roles = await roleService.removeRole(ctx.user.id, input.userId, input.roleId);
+
+        return {
+          roles,
+          message: 'Role removed successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to remove role', {
+          error: error instanceof Error ? error.message : String(error),
+          targetUserId: input.userId,
+          roleId: input.roleId,
+          userId: ctx.user.id,
+        });
+
+        throw toRoleTRPCError(error, 'Failed to remove role');
+      }
+    }),
+});
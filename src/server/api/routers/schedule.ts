@@ -0,0 +1,36 @@
+import { TRPCError } from '@trpc/server';
+import { createTRPCRouter, requirePermission } from '~/server/api/trpc';
+import { scheduledTaskDefinitions } from '~/server/jobs/schedules';
+
+/**
+ * tRPC router for scheduled maintenance tasks - requires schedules:read
+ */
+export const scheduleRouter = createTRPCRouter({
+  /**
+   * Every scheduled task with its cron, last run and next run
+   */
+  getAll: requirePermission('schedules:read')
+    .query(async ({ ctx }) => {
+      try {
+        const schedulerService = ctx.container.schedulerService;
+
+        const tasks = await schedulerService.getScheduledTasks();
+
+        return tasks.map(task => ({
+          ...task,
+          description: scheduledTaskDefinitions[task.name]?.description ?? null,
+        }));
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch scheduled tasks', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch scheduled tasks',
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,148 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+const tagNameSchema = z.string().trim().min(1, 'Tag name is required').max(50, 'Tag name too long');
+const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #228be6');
+
+/**
+ * Map tag domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toTagTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: 'Tag not found or not accessible', cause: error });
+  }
+  if (Err.isConflictError(error)) {
+    return new TRPCError({ code: 'CONFLICT', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for Tag operations
+ * Tags are private to their owner; assigning them to todos lives in the todo router
+ */
+export const tagRouter = createTRPCRouter({
+  /**
+   * Get all tags for the authenticated user
+   */
+  getAll: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const tagService = ctx.container.tagService;
+        const userId = ctx.user.id;
+
+        const tags = await tagService.getTags(userId);
+
+        return {
+          tags,
+          count: tags.length,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch tags', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toTagTRPCError(error, 'Failed to fetch tags');
+      }
+    }),
+
+  /**
+   * Create a new tag
+   */
+  create: protectedProcedure
+    .input(z.object({
+      name: tagNameSchema,
+      color: tagColorSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const tagService = ctx.container.tagService;
+        const userId = ctx.user.id;
+
+        const tag = await tagService.createTag(userId, input);
+
+        return {
+          tag,
+          message: 'Tag created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create tag', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          name: input.name,
+        });
+
+        throw toTagTRPCError(error, 'Failed to create tag');
+      }
+    }),
+
+  /**
+   * Rename and/or recolor a tag
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid tag ID'),
+      name: tagNameSchema.optional(),
+      color: tagColorSchema.optional(),
+    }).refine(data => data.name !== undefined || data.color !== undefined,
+      'At least one field must be provided for update'
+    ))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const tagService = ctx.container.tagService;
+        const userId = ctx.user.id;
+
+        const tag = await tagService.updateTag(input.id, userId, {
+          name: input.name,
+          color: input.color,
+        });
+
+        return {
+          tag,
+          message: 'Tag updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to update tag', {
+          error: error instanceof Error ? error.message : String(error),
+          tagId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toTagTRPCError(error, 'Failed to update tag');
+      }
+    }),
+
+  /**
+   * Delete a tag (it is removed from every todo it was assigned to)
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid tag ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const tagService = ctx.container.tagService;
+        const userId = ctx.user.id;
+
+        await tagService.deleteTag(input.id, userId);
+
+        return {
+          message: 'Tag deleted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to delete tag', {
+          error: error instanceof Error ? error.message : String(error),
+          tagId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toTagTRPCError(error, 'Failed to delete tag');
+      }
+    }),
+});
@@ -1,6 +1,73 @@
-import { TRPCError } from '@trpc/server';
+import { TRPCError, tracked } from '@trpc/server';
 import { z } from 'zod';
-import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import { auditedProcedure, createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { TODO_PRIORITIES } from '~/server/domain/models';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT, TODO_IMPORT_MAX_LENGTH } from '~/server/lib/constants';
+import { TODO_TRANSFER_FORMATS } from '~/server/lib/todo-formats';
+import { MAX_RECURRENCE_COUNT, MAX_RECURRENCE_INTERVAL, RECURRENCE_FREQUENCIES } from '~/lib/recurrence';
+
+/**
+ * Client timezone offset in minutes (`Date.prototype.getTimezoneOffset()`),
+ * used to resolve calendar days such as "today"
+ */
+const timezoneOffsetSchema = z.number().int().min(-14 * 60).max(14 * 60).optional().default(0);
+
+/**
+ * Start date must not be after the due date when both are provided
+ */
+const isScheduleOrdered = (data: { startDate?: Date | null; dueDate?: Date | null }) =>
+  !data.startDate || !data.dueDate || data.startDate.getTime() <= data.dueDate.getTime();
+
+/**
+ * Tag IDs attached to a todo or used to filter the list
+ */
+const tagIdsSchema = z.array(z.string().uuid('Invalid tag ID')).max(50, 'Too many tags');
+
+/**
+ * Project scope for todos: a project ID, null for the Inbox, or omitted for every project
+ */
+const projectIdSchema = z.string().uuid('Invalid project ID').nullable().optional();
+
+/**
+ * Page size for cursor-paginated listings
+ */
+const pageLimitSchema = z.number().int().min(1).max(MAX_PAGE_LIMIT).optional().default(DEFAULT_PAGE_LIMIT);
+
+/**
+ * Opaque keyset cursor: the nextCursor of the previous page, omitted for the first page
+ */
+const cursorSchema = z.string().max(1000).nullish();
+
+/**
+ * Version of the todo the client last read; when given, writes over a newer version fail with CONFLICT
+ */
+const expectedVersionSchema = z.number().int().min(1).optional();
+
+/**
+ * Repeat schedule for a todo; null clears it. Cross-field rules are checked by TodoService
+ */
+const recurrenceSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL).default(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  until: z.string().datetime().nullable().optional(),
+  count: z.number().int().min(1).max(MAX_RECURRENCE_COUNT).nullable().optional(),
+}).nullable().optional();
+
+/**
+ * Map checklist domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toChecklistTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
 
 /**
  * tRPC router for Todo operations
@@ -8,36 +75,55 @@ import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
  */
 export const todoRouter = createTRPCRouter({
   /**
-   * Get all todos for the authenticated user
+   * Get a page of todos for the authenticated user
+   * Pass the returned nextCursor as `cursor` to fetch the following page
    */
   getAll: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos', summary: 'List todos, a page at a time' } })
     .input(z.object({
       includeCompleted: z.boolean().optional().default(true),
-      limit: z.number().min(1).max(100).optional(),
-      skip: z.number().min(0).optional(),
+      limit: pageLimitSchema,
+      cursor: cursorSchema,
+      sortBy: z.enum(['newest', 'priority', 'manual']).optional().default('newest'),
+      tagIds: tagIdsSchema.optional(),
+      tagMatch: z.enum(['any', 'all']).optional().default('any'),
+      projectId: projectIdSchema,
     }).optional().default({}))
     .query(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
-        const todos = await todoService.getTodos(userId, {
+        const page = await todoService.getTodos(userId, {
           includeCompleted: input.includeCompleted,
           limit: input.limit,
-          skip: input.skip,
+          cursor: input.cursor,
+          sortBy: input.sortBy,
+          tagIds: input.tagIds,
+          tagMatch: input.tagMatch,
+          projectId: input.projectId,
         });
 
         return {
-          todos,
-          count: todos.length,
+          todos: page.items,
+          nextCursor: page.nextCursor,
         };
       } catch (error) {
         ctx.container.appContext.logger.error('Failed to fetch todos', {
           error: error instanceof Error ? error.message : String(error),
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
           input,
         });
 
+        // Handle malformed cursors
+        if (Err.isValidationError(error)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          });
+        }
+
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch todos',
@@ -50,13 +136,14 @@ export const todoRouter = createTRPCRouter({
    * Get a single todo by ID
    */
   getById: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/{id}', summary: 'Get a todo' } })
     .input(z.object({
       id: z.string().min(1, 'Todo ID is required'),
     }))
     .query(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
         const todo = await todoService.getTodoById(input.id, userId);
         
@@ -76,7 +163,7 @@ export const todoRouter = createTRPCRouter({
         ctx.container.appContext.logger.error('Failed to fetch todo by ID', {
           error: error instanceof Error ? error.message : String(error),
           todoId: input.id,
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
         });
 
         throw new TRPCError({
@@ -87,22 +174,74 @@ export const todoRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Full-text search over titles and descriptions with highlighted snippets
+   */
+  search: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/search', summary: 'Search todos' } })
+    .input(z.object({
+      query: z.string().trim().min(1, 'Search query is required').max(200, 'Search query too long'),
+      includeCompleted: z.boolean().optional().default(true),
+      limit: z.number().int().min(1).max(50).optional().default(10),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const results = await todoService.searchTodos(userId, input.query, {
+          includeCompleted: input.includeCompleted,
+          limit: input.limit,
+        });
+
+        return { results };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to search todos', {
+          error: error instanceof Error ? error.message : String(error),
+          query: input.query,
+          userId: ctx.user.id,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to search todos',
+          cause: error,
+        });
+      }
+    }),
+
   /**
    * Create a new todo
    */
-  create: protectedProcedure
+  create: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos', summary: 'Create a todo' } })
     .input(z.object({
       title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
       description: z.string().max(1000, 'Description too long').optional(),
+      priority: z.enum(TODO_PRIORITIES).optional(),
+      startDate: z.date().nullable().optional(),
+      dueDate: z.date().nullable().optional(),
+      recurrence: recurrenceSchema,
+      tagIds: tagIdsSchema.optional(),
+      projectId: projectIdSchema,
+    }).refine(isScheduleOrdered, {
+      message: 'Start date must be before or equal to due date',
+      path: ['startDate'],
     }))
     .mutation(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
         const todo = await todoService.createTodo(userId, {
           title: input.title,
           description: input.description,
+          priority: input.priority,
+          startDate: input.startDate,
+          dueDate: input.dueDate,
+          recurrence: input.recurrence,
+          tagIds: input.tagIds,
+          projectId: input.projectId,
         });
 
         return { 
@@ -112,12 +251,21 @@ export const todoRouter = createTRPCRouter({
       } catch (error) {
         ctx.container.appContext.logger.error('Failed to create todo', {
           error: error instanceof Error ? error.message : String(error),
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
           title: input.title,
         });
 
+        // Handle unknown tags or project
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
         // Handle validation errors
-        if (error instanceof Error && error.message.includes('ValidationError')) {
+        if (Err.isValidationError(error) || (error instanceof Error && error.message.includes('ValidationError'))) {
           throw new TRPCError({
             code: 'BAD_REQUEST',
             message: error.message,
@@ -136,26 +284,49 @@ export const todoRouter = createTRPCRouter({
   /**
    * Update an existing todo
    */
-  update: protectedProcedure
+  update: auditedProcedure
+    .meta({ openapi: { method: 'PATCH', path: '/todos/{id}', summary: 'Update a todo' } })
     .input(z.object({
       id: z.string().min(1, 'Todo ID is required'),
       title: z.string().min(1, 'Title is required').max(200, 'Title too long').optional(),
       description: z.string().max(1000, 'Description too long').optional(),
       completed: z.boolean().optional(),
+      priority: z.enum(TODO_PRIORITIES).optional(),
+      startDate: z.date().nullable().optional(),
+      dueDate: z.date().nullable().optional(),
+      recurrence: recurrenceSchema,
+      tagIds: tagIdsSchema.optional(),
+      projectId: projectIdSchema,
+      completeChecklist: z.boolean().optional(),
+      timezoneOffset: timezoneOffsetSchema,
+      expectedVersion: expectedVersionSchema,
     }).refine(data => 
-      data.title !== undefined || data.description !== undefined || data.completed !== undefined,
+      data.title !== undefined || data.description !== undefined || data.completed !== undefined ||
+      data.priority !== undefined || data.startDate !== undefined || data.dueDate !== undefined ||
+      data.recurrence !== undefined || data.tagIds !== undefined || data.projectId !== undefined,
       'At least one field must be provided for update'
-    ))
+    ).refine(isScheduleOrdered, {
+      message: 'Start date must be before or equal to due date',
+      path: ['startDate'],
+    }))
     .mutation(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
         await todoService.updateTodo(input.id, userId, {
           title: input.title,
           description: input.description,
           completed: input.completed,
-        });
+          priority: input.priority,
+          startDate: input.startDate,
+          dueDate: input.dueDate,
+          recurrence: input.recurrence,
+          tagIds: input.tagIds,
+          projectId: input.projectId,
+          completeChecklist: input.completeChecklist,
+          expectedVersion: input.expectedVersion,
+        }, input.timezoneOffset);
 
         return { 
           message: 'Todo updated successfully'
@@ -164,9 +335,17 @@ export const todoRouter = createTRPCRouter({
         ctx.container.appContext.logger.error('Failed to update todo', {
           error: error instanceof Error ? error.message : String(error),
           todoId: input.id,
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
         });
 
+        if (Err.isConflictError(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This todo was changed elsewhere',
+            cause: error,
+          });
+        }
+
         // Handle not found errors
         if (error instanceof Error && error.message.includes('not found')) {
           throw new TRPCError({
@@ -177,7 +356,7 @@ export const todoRouter = createTRPCRouter({
         }
 
         // Handle validation errors
-        if (error instanceof Error && error.message.includes('ValidationError')) {
+        if (Err.isValidationError(error) || (error instanceof Error && error.message.includes('ValidationError'))) {
           throw new TRPCError({
             code: 'BAD_REQUEST',
             message: error.message,
@@ -196,28 +375,45 @@ export const todoRouter = createTRPCRouter({
   /**
    * Toggle completion status of a todo
    */
-  toggle: protectedProcedure
+  toggle: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos/{id}/toggle', summary: 'Toggle whether a todo is completed' } })
     .input(z.object({
       id: z.string().min(1, 'Todo ID is required'),
+      completeChecklist: z.boolean().optional(),
+      timezoneOffset: timezoneOffsetSchema,
+      expectedVersion: expectedVersionSchema,
     }))
     .mutation(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
-        const updatedTodo = await todoService.toggleTodo(input.id, userId);
+        const { todo: updatedTodo, nextOccurrence } = await todoService.toggleTodo(input.id, userId, {
+          completeChecklist: input.completeChecklist,
+          timezoneOffset: input.timezoneOffset,
+          expectedVersion: input.expectedVersion,
+        });
 
         return { 
           todo: updatedTodo,
+          nextOccurrence,
           message: `Todo marked as ${updatedTodo.completed ? 'completed' : 'pending'}`
         };
       } catch (error) {
         ctx.container.appContext.logger.error('Failed to toggle todo', {
           error: error instanceof Error ? error.message : String(error),
           todoId: input.id,
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
         });
 
+        if (Err.isConflictError(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This todo was changed elsewhere',
+            cause: error,
+          });
+        }
+
         // Handle not found errors
         if (error instanceof Error && error.message.includes('not found')) {
           throw new TRPCError({
@@ -236,27 +432,128 @@ export const todoRouter = createTRPCRouter({
     }),
 
   /**
-   * Delete a todo
+   * Change history of a todo: title, description and completion revisions, newest first
+   */
+  getHistory: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/{id}/history', summary: 'List the revisions of a todo' } })
+    .input(z.object({
+      id: z.string().uuid('Invalid todo ID'),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const revisions = await todoService.getTodoHistory(input.id, userId);
+
+        return { revisions };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch todo history', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          userId: ctx.user.id,
+        });
+
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Todo not found or not accessible',
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch todo history',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Revert a todo's title, description and completion to a previous revision
+   */
+  revert: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos/{id}/revert', summary: 'Revert a todo to an earlier revision' } })
+    .input(z.object({
+      id: z.string().uuid('Invalid todo ID'),
+      revisionId: z.string().uuid('Invalid revision ID'),
+      expectedVersion: expectedVersionSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const todo = await todoService.revertTodo(input.id, input.revisionId, userId, input.expectedVersion);
+
+        return {
+          todo,
+          message: 'Todo reverted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to revert todo', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          revisionId: input.revisionId,
+          userId: ctx.user.id,
+        });
+
+        if (Err.isConflictError(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This todo was changed elsewhere',
+            cause: error,
+          });
+        }
+
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        if (Err.isBusinessRuleError(error)) {
+          throw new TRPCError({
+            code: 'UNPROCESSABLE_CONTENT',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to revert todo',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Delete a todo (moves it to the trash)
    */
-  delete: protectedProcedure
+  delete: auditedProcedure
+    .meta({ openapi: { method: 'DELETE', path: '/todos/{id}', summary: 'Move a todo to the trash' } })
     .input(z.object({
       id: z.string().min(1, 'Todo ID is required'),
     }))
     .mutation(async ({ ctx, input }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
         await todoService.deleteTodo(input.id, userId);
 
         return { 
-          message: 'Todo deleted successfully'
+          message: 'Todo moved to trash'
         };
       } catch (error) {
         ctx.container.appContext.logger.error('Failed to delete todo', {
           error: error instanceof Error ? error.message : String(error),
           todoId: input.id,
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
         });
 
         // Handle not found errors
@@ -277,26 +574,680 @@ export const todoRouter = createTRPCRouter({
     }),
 
   /**
-   * Get statistics for user's todos
+   * Restore a todo from the trash
    */
-  getStats: protectedProcedure
+  restore: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos/{id}/restore', summary: 'Restore a todo from the trash' } })
+    .input(z.object({
+      id: z.string().min(1, 'Todo ID is required'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const todo = await todoService.restoreTodo(input.id, userId);
+
+        return { 
+          todo,
+          message: 'Todo restored successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to restore todo', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          userId: ctx.user.id,
+        });
+
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Todo not found in trash',
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to restore todo',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * List todos in the trash, most recently deleted first
+   */
+  listTrash: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/trash', summary: 'List todos in the trash' } })
     .query(async ({ ctx }) => {
       try {
         const todoService = ctx.container.todoService;
-        const userId = ctx.session!.user.id;
+        const userId = ctx.user.id;
 
-        const stats = await todoService.getTodoStats(userId);
+        const todos = await todoService.getTrash(userId);
 
-        return { stats };
+        return { 
+          todos,
+          retentionDays: ctx.container.appContext.config.trash.retentionDays,
+        };
       } catch (error) {
-        ctx.container.appContext.logger.error('Failed to fetch todo statistics', {
+        ctx.container.appContext.logger.error('Failed to fetch trash', {
           error: error instanceof Error ? error.message : String(error),
-          userId: ctx.session!.user.id,
+          userId: ctx.user.id,
         });
 
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to fetch statistics',
+          message: 'Failed to fetch trash',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Permanently delete every todo in the trash
+   */
+  emptyTrash: auditedProcedure
+    .meta({ openapi: { method: 'DELETE', path: '/todos/trash', summary: 'Empty the trash' } })
+    .mutation(async ({ ctx }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const deletedCount = await todoService.emptyTrash(userId);
+
+        return { 
+          deletedCount,
+          message: `${deletedCount} ${deletedCount === 1 ? 'todo' : 'todos'} permanently deleted`
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to empty trash', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to empty trash',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Replace all tags on a todo
+   */
+  setTags: auditedProcedure
+    .meta({ openapi: { method: 'PUT', path: '/todos/{id}/tags', summary: 'Replace the tags of a todo' } })
+    .input(z.object({
+      id: z.string().min(1, 'Todo ID is required'),
+      tagIds: tagIdsSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.setTodoTags(input.id, userId, input.tagIds);
+
+        return {
+          message: 'Todo tags updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to set todo tags', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          userId: ctx.user.id,
+        });
+
+        // Handle not found errors (todo or tags)
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update todo tags',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Move a todo between two neighbours in the manual order
+   */
+  reorder: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos/{id}/reorder', summary: 'Move a todo in the manual order' } })
+    .input(z.object({
+      id: z.string().min(1, 'Todo ID is required'),
+      afterId: z.string().uuid('Invalid todo ID').nullable().optional(),
+      beforeId: z.string().uuid('Invalid todo ID').nullable().optional(),
+    }).refine(data => Boolean(data.afterId ?? data.beforeId),
+      'Either afterId or beforeId must be provided'
+    ))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.reorderTodo(input.id, userId, {
+          afterId: input.afterId,
+          beforeId: input.beforeId,
+        });
+
+        return {
+          message: 'Todo moved successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to reorder todo', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          userId: ctx.user.id,
+        });
+
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        if (Err.isValidationError(error)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reorder todo',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Add a checklist item (subtask) to a todo
+   */
+  addChecklistItem: auditedProcedure
+    .meta({
+      audit: { entityType: 'checklist_item' },
+      openapi: { method: 'POST', path: '/todos/{todoId}/checklist', summary: 'Add a checklist item to a todo' },
+    })
+    .input(z.object({
+      todoId: z.string().uuid('Invalid todo ID'),
+      title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const item = await todoService.addChecklistItem(input.todoId, userId, input.title);
+
+        return {
+          item,
+          message: 'Checklist item added successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to add checklist item', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.todoId,
+          userId: ctx.user.id,
+        });
+
+        throw toChecklistTRPCError(error, 'Failed to add checklist item');
+      }
+    }),
+
+  /**
+   * Toggle a checklist item between done and not done
+   */
+  toggleChecklistItem: auditedProcedure
+    .meta({
+      audit: { entityType: 'checklist_item' },
+      openapi: { method: 'POST', path: '/checklist-items/{id}/toggle', summary: 'Toggle whether a checklist item is completed' },
+    })
+    .input(z.object({
+      id: z.string().uuid('Invalid checklist item ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const item = await todoService.toggleChecklistItem(input.id, userId);
+
+        return {
+          item,
+          message: `Checklist item marked as ${item.completed ? 'done' : 'not done'}`
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to toggle checklist item', {
+          error: error instanceof Error ? error.message : String(error),
+          checklistItemId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toChecklistTRPCError(error, 'Failed to toggle checklist item');
+      }
+    }),
+
+  /**
+   * Delete a checklist item
+   */
+  deleteChecklistItem: auditedProcedure
+    .meta({
+      audit: { entityType: 'checklist_item' },
+      openapi: { method: 'DELETE', path: '/checklist-items/{id}', summary: 'Delete a checklist item' },
+    })
+    .input(z.object({
+      id: z.string().uuid('Invalid checklist item ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.deleteChecklistItem(input.id, userId);
+
+        return {
+          message: 'Checklist item deleted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to delete checklist item', {
+          error: error instanceof Error ? error.message : String(error),
+          checklistItemId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toChecklistTRPCError(error, 'Failed to delete checklist item');
+      }
+    }),
+
+  /**
+   * Move a checklist item between two neighbours within its todo
+   */
+  reorderChecklistItem: auditedProcedure
+    .meta({
+      audit: { entityType: 'checklist_item' },
+      openapi: { method: 'POST', path: '/checklist-items/{id}/reorder', summary: 'Move a checklist item' },
+    })
+    .input(z.object({
+      id: z.string().uuid('Invalid checklist item ID'),
+      afterId: z.string().uuid('Invalid checklist item ID').nullable().optional(),
+      beforeId: z.string().uuid('Invalid checklist item ID').nullable().optional(),
+    }).refine(data => Boolean(data.afterId ?? data.beforeId),
+      'Either afterId or beforeId must be provided'
+    ))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.reorderChecklistItem(input.id, userId, {
+          afterId: input.afterId,
+          beforeId: input.beforeId,
+        });
+
+        return {
+          message: 'Checklist item moved successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to reorder checklist item', {
+          error: error instanceof Error ? error.message : String(error),
+          checklistItemId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toChecklistTRPCError(error, 'Failed to reorder checklist item');
+      }
+    }),
+
+  /**
+   * Assign a tag to a todo
+   */
+  assignTag: auditedProcedure
+    .meta({ openapi: { method: 'PUT', path: '/todos/{id}/tags/{tagId}', summary: 'Add a tag to a todo' } })
+    .input(z.object({
+      id: z.string().min(1, 'Todo ID is required'),
+      tagId: z.string().uuid('Invalid tag ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.assignTag(input.id, input.tagId, userId);
+
+        return {
+          message: 'Tag assigned successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to assign tag', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          tagId: input.tagId,
+          userId: ctx.user.id,
+        });
+
+        // Handle not found errors (todo or tag)
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to assign tag',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Remove a tag from a todo
+   */
+  unassignTag: auditedProcedure
+    .meta({ openapi: { method: 'DELETE', path: '/todos/{id}/tags/{tagId}', summary: 'Remove a tag from a todo' } })
+    .input(z.object({
+      id: z.string().min(1, 'Todo ID is required'),
+      tagId: z.string().uuid('Invalid tag ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        await todoService.unassignTag(input.id, input.tagId, userId);
+
+        return {
+          message: 'Tag removed successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to remove tag', {
+          error: error instanceof Error ? error.message : String(error),
+          todoId: input.id,
+          tagId: input.tagId,
+          userId: ctx.user.id,
+        });
+
+        // Handle not found errors
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Todo not found or not accessible',
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to remove tag',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Get incomplete todos whose due date has passed
+   */
+  getOverdue: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/overdue', summary: 'List overdue todos' } })
+    .query(async ({ ctx }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const todos = await todoService.getOverdueTodos(userId);
+
+        return {
+          todos,
+          count: todos.length,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch overdue todos', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch overdue todos',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Get incomplete todos due today (in the client's timezone)
+   */
+  getDueToday: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/due-today', summary: 'List todos due today' } })
+    .input(z.object({
+      timezoneOffset: timezoneOffsetSchema,
+    }).optional().default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const todos = await todoService.getTodosDueToday(userId, input.timezoneOffset);
+
+        return {
+          todos,
+          count: todos.length,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch todos due today', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          input,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch todos due today',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Get incomplete todos due in the next N days (starting tomorrow)
+   */
+  getUpcoming: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/upcoming', summary: 'List todos due in the coming days' } })
+    .input(z.object({
+      days: z.number().int().min(1).max(90).optional().default(7),
+      timezoneOffset: timezoneOffsetSchema,
+    }).optional().default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const todos = await todoService.getUpcomingTodos(userId, input.days, input.timezoneOffset);
+
+        return {
+          todos,
+          count: todos.length,
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch upcoming todos', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          input,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch upcoming todos',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Get statistics for user's todos, optionally for a single project (null = Inbox)
+   */
+  getStats: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/stats', summary: 'Get todo statistics' } })
+    .input(z.object({
+      timezoneOffset: timezoneOffsetSchema,
+      projectId: projectIdSchema,
+    }).optional().default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const todoService = ctx.container.todoService;
+        const userId = ctx.user.id;
+
+        const stats = await todoService.getTodoStats(userId, input.timezoneOffset, input.projectId);
+
+        return { stats };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch todo statistics', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        // Handle unknown project
+        if (Err.isNotFoundError(error)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch statistics',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Export the authenticated user's todos as JSON (lossless, versioned), CSV, a Markdown checklist or todo.txt
+   * The file is streamed as text chunks; concatenate them in order
+   */
+  export: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/todos/export', summary: 'Export todos as a file', stream: true } })
+    .input(z.object({
+      format: z.enum(TODO_TRANSFER_FORMATS),
+    }))
+    .query(async function* ({ ctx, input }) {
+      const todoTransferService = ctx.container.todoTransferService;
+      const userId = ctx.user.id;
+
+      try {
+        yield* todoTransferService.exportTodos(userId, input.format);
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to export todos', {
+          error: error instanceof Error ? error.message : String(error),
+          userId,
+          format: input.format,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to export todos',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Import todos from a JSON, CSV, Markdown or todo.txt file in one transaction
+   * With dryRun nothing is created and every row comes back with its status and validation errors;
+   * without it, any invalid row fails the whole import
+   */
+  import: auditedProcedure
+    .meta({ openapi: { method: 'POST', path: '/todos/import', summary: 'Import todos from a file' } })
+    .input(z.object({
+      format: z.enum(TODO_TRANSFER_FORMATS),
+      content: z.string().min(1, 'File is empty').max(TODO_IMPORT_MAX_LENGTH, 'File too large'),
+      dryRun: z.boolean().optional().default(false),
+      skipDuplicates: z.boolean().optional().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const todoTransferService = ctx.container.todoTransferService;
+        const userId = ctx.user.id;
+
+        const result = await todoTransferService.importTodos(userId, input);
+
+        return {
+          ...result,
+          message: result.dryRun
+            ? `${result.rows.length} ${result.rows.length === 1 ? 'row' : 'rows'} checked`
+            : `${result.created} ${result.created === 1 ? 'todo' : 'todos'} imported`
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to import todos', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+          format: input.format,
+          dryRun: input.dryRun,
+        });
+
+        // Handle unreadable files and invalid rows
+        if (Err.isValidationError(error)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to import todos',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Live feed of the authenticated user's todo changes (server-sent events)
+   * Each event carries the change id; a client reconnecting with it as `lastEventId`
+   * first receives the changes it missed, or a single 'resync' event when it missed too many
+   */
+  onChange: protectedProcedure
+    .input(z.object({
+      lastEventId: z.string().regex(/^\d+$/, 'Invalid event ID').nullish(),
+    }).optional())
+    .subscription(async function* ({ ctx, input, signal }) {
+      const todoService = ctx.container.todoService;
+      const userId = ctx.user.id;
+      const afterId = input?.lastEventId ? Number(input.lastEventId) : null;
+
+      try {
+        for await (const event of todoService.watchChanges(userId, afterId, signal)) {
+          yield tracked(String(event.id), event);
+        }
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to stream todo changes', {
+          error: error instanceof Error ? error.message : String(error),
+          userId,
+          afterId,
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to stream todo changes',
           cause: error,
         });
       }
@@ -1,7 +1,15 @@
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
-import { createTRPCRouter, protectedProcedure, publicProcedure, adminProcedure } from '~/server/api/trpc';
+import {
+  auditedProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+  requirePermission,
+} from '~/server/api/trpc';
 import { UpdateProfileSchema } from '~/server/schemas/user';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
 
 /**
  * tRPC router for User operations
@@ -13,6 +21,7 @@ export const userRouter = createTRPCRouter({
    * Get users by IDs - public endpoint for instructor display
    */
   getUsersByIds: publicProcedure
+    .meta({ openapi: { method: 'GET', path: '/users/lookup', summary: 'Get the public profiles of users', public: true } })
     .input(z.object({
       userIds: z.array(z.string()).min(1).max(50), // Limit to prevent abuse
     }))
@@ -66,6 +75,7 @@ export const userRouter = createTRPCRouter({
    * Get user profile - requires authentication
    */
   getProfile: protectedProcedure
+    .meta({ openapi: { method: 'GET', path: '/me', summary: 'Get your profile' } })
     .query(async ({ ctx }) => {
       try {
         const user = ctx.user;
@@ -91,6 +101,7 @@ export const userRouter = createTRPCRouter({
             website: userData.website,
             createdAt: userData.createdAt,
             updatedAt: userData.updatedAt,
+            version: userData.version,
           },
           session: ctx.session,
         };
@@ -114,7 +125,11 @@ export const userRouter = createTRPCRouter({
   /**
    * Update user profile - requires authentication
    */
-  updateProfile: protectedProcedure
+  updateProfile: auditedProcedure
+    .meta({
+      audit: { actorIsEntity: true },
+      openapi: { method: 'PATCH', path: '/me', summary: 'Update your profile' },
+    })
     .input(UpdateProfileSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -147,6 +162,7 @@ export const userRouter = createTRPCRouter({
             website: updatedUser.website,
             createdAt: updatedUser.createdAt,
             updatedAt: updatedUser.updatedAt,
+            version: updatedUser.version,
           },
         };
       } catch (error) {
@@ -159,6 +175,14 @@ export const userRouter = createTRPCRouter({
           userId: ctx.user?.id,
         });
 
+        if (Err.isConflictError(error)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'Your profile was changed elsewhere',
+            cause: error,
+          });
+        }
+
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: error instanceof Error ? error.message : 'Internal server error',
@@ -167,35 +191,38 @@ export const userRouter = createTRPCRouter({
     }),
 
   /**
-   * Get all users - admin only
+   * Get all users - requires users:read
    */
-  getAllUsers: adminProcedure
+  getAllUsers: requirePermission('users:read')
+    .meta({ openapi: { method: 'GET', path: '/users', summary: 'List users, a page at a time' } })
     .input(z.object({
-      limit: z.number().int().min(1).max(100).default(20),
-      skip: z.number().int().min(0).default(0),
+      limit: z.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+      cursor: z.string().max(1000).nullish(),
+      search: z.string().trim().max(100).optional(),
     }))
     .query(async ({ ctx, input }) => {
       try {
         const userService = ctx.container.userService;
 
-        const users = await userService.getAllUsers(
-          {}, // No filter - get all users
+        const filter = { search: input.search };
+        const page = await userService.getAllUsers(
+          filter,
           {
             limit: input.limit,
-            skip: input.skip,
+            cursor: input.cursor,
             sort: { createdAt: -1 }, // Latest first
           }
         );
 
-        const totalCount = await userService.getUserCount();
+        const totalCount = await userService.getUserCount(filter);
 
         return {
-          users,
+          users: page.items,
+          nextCursor: page.nextCursor,
           pagination: {
             total: totalCount,
             limit: input.limit,
-            skip: input.skip,
-            hasMore: input.skip + input.limit < totalCount,
+            hasMore: page.nextCursor !== null,
           },
         };
       } catch (error) {
@@ -204,6 +231,14 @@ export const userRouter = createTRPCRouter({
           userId: ctx.user?.id,
         });
 
+        // Handle malformed cursors
+        if (Err.isValidationError(error)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+          });
+        }
+
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch users',
@@ -212,9 +247,10 @@ export const userRouter = createTRPCRouter({
     }),
 
   /**
-   * Get user by ID - admin only
+   * Get user by ID - requires users:read
    */
-  getUserById: adminProcedure
+  getUserById: requirePermission('users:read')
+    .meta({ openapi: { method: 'GET', path: '/users/{userId}', summary: 'Get a user' } })
     .input(z.object({
       userId: z.string().min(1),
     }))
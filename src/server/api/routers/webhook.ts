@@ -0,0 +1,265 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, protectedProcedure } from '~/server/api/trpc';
+import { WEBHOOK_EVENT_TYPES, type WebhookEndpoint } from '~/server/domain';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+const webhookUrlSchema = z.string().trim().url('Invalid URL').max(2048, 'URL too long');
+const webhookDescriptionSchema = z.string().trim().max(200, 'Description too long').nullish();
+const webhookEventTypesSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Select at least one event type');
+
+const DELIVERY_LIST_LIMIT = 50;
+
+/**
+ * Endpoint as listed to its owner: the secret is only returned when it is created or rotated
+ */
+const withoutSecret = ({ secret: _secret, ...endpoint }: WebhookEndpoint) => endpoint;
+
+/**
+ * Map webhook domain errors to tRPC errors, falling back to INTERNAL_SERVER_ERROR
+ */
+const toWebhookTRPCError = (error: unknown, fallbackMessage: string): TRPCError => {
+  if (Err.isNotFoundError(error)) {
+    return new TRPCError({ code: 'NOT_FOUND', message: error.message, cause: error });
+  }
+  if (Err.isValidationError(error)) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  if (Err.isBusinessRuleError(error)) {
+    return new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: error.message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error });
+};
+
+/**
+ * tRPC router for the authenticated user's webhook endpoints and their deliveries
+ */
+export const webhookRouter = createTRPCRouter({
+  /**
+   * Event types an endpoint can subscribe to
+   */
+  getEventTypes: protectedProcedure
+    .query(() => WEBHOOK_EVENT_TYPES),
+
+  /**
+   * All of the user's endpoints
+   */
+  getAll: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        const endpoints = await webhookService.getEndpoints(userId);
+
+        return {
+          endpoints: endpoints.map(withoutSecret),
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch webhook endpoints', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to fetch webhook endpoints');
+      }
+    }),
+
+  /**
+   * Register an endpoint; the response includes its signing secret
+   */
+  create: protectedProcedure
+    .input(z.object({
+      url: webhookUrlSchema,
+      description: webhookDescriptionSchema,
+      eventTypes: webhookEventTypesSchema,
+      secret: z.string().min(16, 'Secret must be at least 16 characters').max(100, 'Secret too long').optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        const endpoint = await webhookService.createEndpoint(userId, input);
+
+        return {
+          endpoint,
+          message: 'Webhook endpoint created successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to create webhook endpoint', {
+          error: error instanceof Error ? error.message : String(error),
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to create webhook endpoint');
+      }
+    }),
+
+  /**
+   * Change an endpoint's URL, description or event types, or disable / re-enable it
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid webhook endpoint ID'),
+      url: webhookUrlSchema.optional(),
+      description: webhookDescriptionSchema,
+      eventTypes: webhookEventTypesSchema.optional(),
+      enabled: z.boolean().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+        const { id, ...updates } = input;
+
+        const endpoint = await webhookService.updateEndpoint(id, userId, updates);
+
+        return {
+          endpoint: withoutSecret(endpoint),
+          message: 'Webhook endpoint updated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to update webhook endpoint', {
+          error: error instanceof Error ? error.message : String(error),
+          endpointId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to update webhook endpoint');
+      }
+    }),
+
+  /**
+   * Replace an endpoint's signing secret; the response includes the new secret
+   */
+  rotateSecret: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid webhook endpoint ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        const endpoint = await webhookService.rotateSecret(input.id, userId);
+
+        return {
+          endpoint,
+          message: 'Webhook secret rotated successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to rotate webhook secret', {
+          error: error instanceof Error ? error.message : String(error),
+          endpointId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to rotate webhook secret');
+      }
+    }),
+
+  /**
+   * Delete an endpoint with its delivery log
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid webhook endpoint ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        await webhookService.deleteEndpoint(input.id, userId);
+
+        return {
+          message: 'Webhook endpoint deleted successfully'
+        };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to delete webhook endpoint', {
+          error: error instanceof Error ? error.message : String(error),
+          endpointId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to delete webhook endpoint');
+      }
+    }),
+
+  /**
+   * Send a test event now and report how the endpoint responded
+   */
+  sendTest: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid('Invalid webhook endpoint ID'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        return await webhookService.sendTestEvent(input.id, userId);
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to send webhook test event', {
+          error: error instanceof Error ? error.message : String(error),
+          endpointId: input.id,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to send test event');
+      }
+    }),
+
+  /**
+   * Recent deliveries to an endpoint, newest first
+   */
+  getDeliveries: protectedProcedure
+    .input(z.object({
+      endpointId: z.string().uuid('Invalid webhook endpoint ID'),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        const deliveries = await webhookService.getDeliveries(input.endpointId, userId, DELIVERY_LIST_LIMIT);
+
+        return { deliveries };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch webhook deliveries', {
+          error: error instanceof Error ? error.message : String(error),
+          endpointId: input.endpointId,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to fetch webhook deliveries');
+      }
+    }),
+
+  /**
+   * Every attempt made for a delivery, with status codes and errors
+   */
+  getDeliveryAttempts: protectedProcedure
+    .input(z.object({
+      deliveryId: z.string().uuid('Invalid webhook delivery ID'),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const webhookService = ctx.container.webhookService;
+        const userId = ctx.user.id;
+
+        const attempts = await webhookService.getDeliveryAttempts(input.deliveryId, userId);
+
+        return { attempts };
+      } catch (error) {
+        ctx.container.appContext.logger.error('Failed to fetch webhook delivery attempts', {
+          error: error instanceof Error ? error.message : String(error),
+          deliveryId: input.deliveryId,
+          userId: ctx.user.id,
+        });
+
+        throw toWebhookTRPCError(error, 'Failed to fetch webhook delivery attempts');
+      }
+    }),
+});
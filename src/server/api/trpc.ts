@@ -11,7 +11,23 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 
 import { getAuth } from "~/server/lib/auth";
-import { createContainer } from "~/server/context/app-context";
+import { createContainer, type ServiceContainer } from "~/server/context/app-context";
+import {
+  type AccessTokenScope,
+  type AuditEntityType,
+  type PermissionName,
+} from "~/server/infrastructure/db/schema";
+import { isForbiddenError } from "~/server/lib/errors/domain-errors";
+import { createRequestContext, getBearerToken } from "~/server/lib/request-context";
+
+/**
+ * The user a request is made as: the session's user, or the owner of a personal access token
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+}
 
 /**
  * 1. CONTEXT
@@ -26,23 +42,63 @@ import { createContainer } from "~/server/context/app-context";
  * @see https://trpc.io/docs/server/context
  */
 export const createTRPCContext = async (opts: { headers: Headers }) => {
-  // Get session from Better Auth using standard pattern
+  // Create application container for this request
+  const requestContext = createRequestContext(opts.headers, null);
+  const container = await createContainer(requestContext);
+
+  // Scripts send a personal access token; browsers get the session from Better Auth's cookie.
+  // A request with a token that does not resolve stays unauthenticated
+  const bearerToken = getBearerToken(opts.headers);
   const auth = await getAuth();
-  const session = await auth.api.getSession({
-    headers: opts.headers,
-  });
+  const session = bearerToken
+    ? null
+    : await auth.api.getSession({
+        headers: opts.headers,
+      });
+  const authenticatedToken = bearerToken
+    ? await container.personalAccessTokenService.authenticate(bearerToken)
+    : null;
 
-  // Create application container
-  const container = await createContainer();
+  const tokenUser = authenticatedToken?.user;
+  const user: AuthenticatedUser | undefined = tokenUser
+    ? { id: tokenUser.id, email: tokenUser.email, name: tokenUser.name }
+    : session?.user;
+  requestContext.actorId = user?.id ?? null;
 
   return {
     ...opts,
     session,
-    user: session?.user,
+    user,
+    /** Set when the request authenticated with a personal access token */
+    accessToken: authenticatedToken?.accessToken ?? null,
     container,
   };
 };
 
+/**
+ * Procedure metadata, set with `.meta({ ... })` on a procedure
+ */
+export interface ProcedureMeta {
+  /** Overrides for how `auditedProcedure` identifies the entity a mutation changes */
+  audit?: {
+    /** Defaults to the router name, e.g. `todo` for `todo.update` */
+    entityType?: AuditEntityType;
+    /** The mutation changes the calling user (e.g. profile updates) */
+    actorIsEntity?: boolean;
+  };
+  /** Exposes the procedure in the REST API under /api/v1 (see ~/server/api/openapi) */
+  openapi?: {
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+    /** `{name}` segments fill the input field of that name, e.g. `/todos/{id}` */
+    path: `/${string}`;
+    summary: string;
+    /** The procedure also answers requests that are not signed in */
+    public?: boolean;
+    /** The procedure yields text chunks, sent as one text/plain response */
+    stream?: boolean;
+  };
+}
+
 /**
  * 2. INITIALIZATION
  *
@@ -50,7 +106,7 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
  * ZodErrors so that you get typesafety on the frontend if your procedure fails due to validation
  * errors on the backend.
  */
-const t = initTRPC.context<typeof createTRPCContext>().create({
+const t = initTRPC.context<typeof createTRPCContext>().meta<ProcedureMeta>().create({
   transformer: superjson,
   errorFormatter({ shape, error }) {
     return {
@@ -117,62 +173,199 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
 
+/**
+ * Scopes a personal access token needs for a router's queries (and subscriptions) and mutations
+ * Routers left out - calendar feeds, access tokens - can only be used from a signed-in session
+ */
+const ACCESS_TOKEN_ROUTER_SCOPES: Record<string, { read: AccessTokenScope; write: AccessTokenScope }> = {
+  todo: { read: "todos:read", write: "todos:write" },
+  tag: { read: "todos:read", write: "todos:write" },
+  project: { read: "todos:read", write: "todos:write" },
+  user: { read: "profile:read", write: "profile:write" },
+  role: { read: "profile:read", write: "profile:write" },
+  webhook: { read: "webhooks:read", write: "webhooks:write" },
+  audit: { read: "admin", write: "admin" },
+  schedule: { read: "admin", write: "admin" },
+};
+
 /**
  * Protected procedure - requires authentication
  *
  * This procedure ensures that a user is authenticated before allowing access.
- * You can access the authenticated user via `ctx.user`.
+ * You can access the authenticated user via `ctx.user`. Requests made with a personal
+ * access token must also hold the scope for the procedure's router (see above).
  */
 export const protectedProcedure = t.procedure
   .use(timingMiddleware)
-  .use(async ({ next, ctx }) => {
-    if (!ctx.session?.user) {
+  .use(async ({ next, ctx, path, type }) => {
+    if (!ctx.user) {
       throw new TRPCError({
         code: "UNAUTHORIZED",
-        message: "You must be logged in to access this resource",
+        message: getBearerToken(ctx.headers)
+          ? "Invalid or expired access token"
+          : "You must be logged in to access this resource",
       });
     }
 
+    if (ctx.accessToken) {
+      const routerScopes = ACCESS_TOKEN_ROUTER_SCOPES[path.split(".")[0] ?? ""];
+      if (!routerScopes) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "This procedure cannot be called with an access token",
+        });
+      }
+      const scope = type === "mutation" ? routerScopes.write : routerScopes.read;
+      if (!ctx.accessToken.scopes.includes(scope)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `This access token lacks the ${scope} scope`,
+        });
+      }
+    }
+
     return next({
       ctx: {
         ...ctx,
         // Ensure user is definitely defined for protected procedures
-        user: ctx.session.user,
+        user: ctx.user,
       },
     });
   });
 
 /**
- * Admin-only procedure - requires admin role
- *
- * This procedure ensures that a user is authenticated and has admin role.
- * Use this for admin-only operations.
- * 
- * TODO: Re-enable when user repository is migrated to Drizzle
- */
-export const adminProcedure = protectedProcedure.use(async ({ next, ctx }) => {
-  // TODO: Uncomment when userService is available
-  // const userService = ctx.container.userService;
-  // if (!userService) {
-  //   throw new TRPCError({
-  //     code: "INTERNAL_SERVER_ERROR", 
-  //     message: "User service not available",
-  //   });
-  // }
-  
-  // const userData = await userService.getUserById(ctx.user.id);
-  // if (!userData?.roles?.includes('admin')) {
-  //   throw new TRPCError({
-  //     code: "FORBIDDEN", 
-  //     message: "Admin access required",
-  //   });
-  // }
-
-  // For now, allow any authenticated user (temporary until user service is migrated)
-  return next({
-    ctx: {
-      ...ctx,
-      user: ctx.user,
-    },
+ * Loaders for the before/after snapshots of audited entities
+ * Entity types without a loader record the mutation input as the "after" state.
+ */
+const auditSnapshotLoaders: Partial<Record<
+  AuditEntityType,
+  (container: ServiceContainer, userId: string, entityId: string) => Promise<unknown>
+>> = {
+  todo: (container, userId, entityId) => container.todoService.getTodoById(entityId, userId),
+  user: (container, _userId, entityId) => container.userService.getUserById(entityId),
+};
+
+/**
+ * Find the id of the entity a mutation returned, e.g. `{ todo: { id } }`
+ */
+const findResultEntityId = (data: unknown): string | undefined => {
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+
+  for (const value of Object.values(data) as unknown[]) {
+    if (value && typeof value === "object" && "id" in value && typeof value.id === "string") {
+      return value.id;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Audited procedure - requires authentication and records every successful mutation
+ *
+ * Each mutation is written to the audit log with the procedure path as its action and a
+ * before/after snapshot of the entity it changed. The entity id is taken from `input.id`,
+ * falling back to the entity the mutation returned. Queries pass through unrecorded.
+ *
+ * The entry is written once the mutation has committed, so recording it must not fail the
+ * request: snapshot and record failures are logged and the mutation's result is returned.
+ *
+ * @example
+ * ```typescript
+ * toggleChecklistItem: auditedProcedure
+ *   .meta({ audit: { entityType: 'checklist_item' } })
+ *   .input(...)
+ *   .mutation(...)
+ * ```
+ */
+export const auditedProcedure = protectedProcedure.use(
+  async ({ next, ctx, meta, path, type, getRawInput }) => {
+    if (type !== "mutation") {
+      return next();
+    }
+
+    const entityType = meta?.audit?.entityType ?? (path.split(".")[0] as AuditEntityType);
+    const input = await getRawInput();
+    const inputId =
+      input && typeof input === "object" && "id" in input && typeof input.id === "string"
+        ? input.id
+        : undefined;
+    const loadSnapshot = auditSnapshotLoaders[entityType];
+    const snapshot = loadSnapshot
+      ? (id: string) => loadSnapshot(ctx.container, ctx.user.id, id).catch(() => null)
+      : undefined;
+
+    let entityId = meta?.audit?.actorIsEntity ? ctx.user.id : inputId;
+    const before = snapshot && entityId ? await snapshot(entityId) : null;
+
+    const result = await next();
+    if (!result.ok) {
+      return result;
+    }
+
+    try {
+      entityId ??= findResultEntityId(result.data);
+      const after = snapshot
+        ? entityId ? await snapshot(entityId) : null
+        : input ?? null;
+
+      await ctx.container.auditService.record({
+        action: path,
+        entityType,
+        entityId,
+        before,
+        after,
+      });
+    } catch (error) {
+      ctx.container.appContext.logger.error('Failed to audit mutation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        action: path,
+        entityType,
+        entityId,
+        requestId: ctx.container.appContext.request?.requestId,
+      });
+    }
+
+    return result;
+  }
+);
+
+/**
+ * Permission-checked procedure builder - requires authentication and every listed permission
+ *
+ * Permissions come from the user's roles (see RoleService) and are resolved once per request.
+ * Users lacking any of them get a FORBIDDEN error, as do access tokens without the admin scope.
+ *
+ * @example
+ * ```typescript
+ * getAllUsers: requirePermission('users:read').query(...)
+ * ```
+ */
+export const requirePermission = (...permissions: PermissionName[]) =>
+  protectedProcedure.use(async ({ next, ctx }) => {
+    if (ctx.accessToken && !ctx.accessToken.scopes.includes("admin")) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "This access token lacks the admin scope",
+      });
+    }
+
+    try {
+      await ctx.container.roleService.requirePermissions(ctx.user.id, permissions);
+    } catch (error) {
+      if (isForbiddenError(error)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: error.message,
+        });
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to check permissions",
+        cause: error,
+      });
+    }
+
+    return next({ ctx });
   });
-});
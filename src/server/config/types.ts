@@ -24,6 +24,29 @@ export interface AuthConfig {
   readonly trustedOrigins: string[];
 }
 
+/**
+ * Trash configuration extracted from environment variables
+ */
+export interface TrashConfig {
+  readonly retentionDays: number;
+}
+
+/**
+ * Background job worker configuration extracted from environment variables
+ */
+export interface WorkerConfig {
+  readonly concurrency: number;
+  readonly pollIntervalMs: number;
+}
+
+/**
+ * Webhook delivery configuration extracted from environment variables
+ */
+export interface WebhookConfig {
+  /** Let endpoints use loopback and private network addresses, for local development */
+  readonly allowPrivateUrls: boolean;
+}
+
 /**
  * Application configuration containing all service configurations
  */
@@ -31,6 +54,9 @@ export interface AppConfig {
   readonly server: ServerConfig;
   readonly database: DatabaseConfig;
   readonly auth: AuthConfig;
+  readonly trash: TrashConfig;
+  readonly worker: WorkerConfig;
+  readonly webhooks: WebhookConfig;
 }
 
 /**
@@ -54,5 +80,15 @@ export function createAppConfig(): AppConfig {
         'http://localhost:3051', // API server
       ],
     },
+    trash: {
+      retentionDays: env.TRASH_RETENTION_DAYS,
+    },
+    worker: {
+      concurrency: env.WORKER_CONCURRENCY,
+      pollIntervalMs: env.WORKER_POLL_INTERVAL_MS,
+    },
+    webhooks: {
+      allowPrivateUrls: env.WEBHOOK_ALLOW_PRIVATE_URLS,
+    },
   };
 }
@@ -2,10 +2,11 @@ import type { ILogger } from '@thaitype/core-utils';
 import { createLogger } from '~/server/infrastructure/logging/logger-factory';
 import type { AppConfig } from '~/server/config/types';
 import { createAppConfig } from '~/server/config/types';
-import { UserService, TodoService } from '~/server/services';
-import type { IUserRepository, ITodoRepository } from '~/server/domain/repositories';
-import { DrizzleTodoRepository, DrizzleUserRepository } from '~/server/infrastructure/repositories';
+import { UserService, RoleService, TodoService, TodoTransferService, TagService, ProjectService, AuditService, DomainEventService, JobService, SchedulerService, MaintenanceService, WebhookService, CalendarFeedService, PersonalAccessTokenService } from '~/server/services';
+import type { IUserRepository, IRoleRepository, ITodoRepository, ITagRepository, IProjectRepository, IChecklistRepository, IAuditLogRepository, ITodoChangeRepository, IOutboxRepository, IUnitOfWork, IJobRepository, IScheduledTaskRepository, IMaintenanceRepository, IWebhookRepository, ICalendarFeedRepository, IPersonalAccessTokenRepository } from '~/server/domain/repositories';
+import { DrizzleTodoRepository, DrizzleUserRepository, DrizzleRoleRepository, DrizzleTagRepository, DrizzleProjectRepository, DrizzleChecklistRepository, DrizzleAuditLogRepository, DrizzleTodoChangeRepository, DrizzleOutboxRepository, DrizzleUnitOfWork, DrizzleJobRepository, DrizzleScheduledTaskRepository, DrizzleMaintenanceRepository, DrizzleWebhookRepository, DrizzleCalendarFeedRepository, DrizzlePersonalAccessTokenRepository } from '~/server/infrastructure/repositories';
 import { initializeDatabaseConfig as initDbConfig } from '~/server/lib/db';
+import { domainEventBus, registerEventSubscribers } from '~/server/events';
 import { env } from '~/env';
 
 /**
@@ -15,6 +16,18 @@ import { env } from '~/env';
 export interface AppContext {
   logger: ILogger;
   config: AppConfig;
+  /** The request being served; absent in scripts */
+  request?: RequestContext;
+}
+
+/**
+ * Who is making the current request and from where, as recorded in the audit log
+ */
+export interface RequestContext {
+  requestId: string;
+  actorId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
 }
 
 /**
@@ -23,7 +36,19 @@ export interface AppContext {
 export interface ServiceContainer {
   appContext: AppContext;
   userService: UserService;
+  roleService: RoleService;
   todoService: TodoService;
+  todoTransferService: TodoTransferService;
+  tagService: TagService;
+  projectService: ProjectService;
+  auditService: AuditService;
+  domainEventService: DomainEventService;
+  jobService: JobService;
+  schedulerService: SchedulerService;
+  maintenanceService: MaintenanceService;
+  webhookService: WebhookService;
+  calendarFeedService: CalendarFeedService;
+  personalAccessTokenService: PersonalAccessTokenService;
 }
 
 /**
@@ -36,8 +61,9 @@ export interface AppContextConfig {
 
 /**
  * Creates the service container with all dependencies
+ * API requests pass their request context; scripts create a container without one
  */
-export async function createContainer(): Promise<ServiceContainer> {
+export async function createContainer(request?: RequestContext): Promise<ServiceContainer> {
   // Create logger
   const logger = createLogger({
     level: env.NODE_ENV === 'development' ? 'debug' : 'info',
@@ -54,19 +80,62 @@ export async function createContainer(): Promise<ServiceContainer> {
   const appContext: AppContext = {
     logger,
     config: appConfig,
+    request,
   };
 
   // Create repositories (Drizzle will handle database connection internally)
   const todoRepository: ITodoRepository = new DrizzleTodoRepository(appContext);
   const userRepository: IUserRepository = new DrizzleUserRepository(appContext);
+  const auditLogRepository: IAuditLogRepository = new DrizzleAuditLogRepository(appContext);
+  const roleRepository: IRoleRepository = new DrizzleRoleRepository(appContext, auditLogRepository);
+  const tagRepository: ITagRepository = new DrizzleTagRepository(appContext);
+  const projectRepository: IProjectRepository = new DrizzleProjectRepository(appContext);
+  const checklistRepository: IChecklistRepository = new DrizzleChecklistRepository(appContext);
+  const todoChangeRepository: ITodoChangeRepository = new DrizzleTodoChangeRepository(appContext);
+  const outboxRepository: IOutboxRepository = new DrizzleOutboxRepository(appContext);
+  const unitOfWork: IUnitOfWork = new DrizzleUnitOfWork();
+  const jobRepository: IJobRepository = new DrizzleJobRepository(appContext);
+  const scheduledTaskRepository: IScheduledTaskRepository = new DrizzleScheduledTaskRepository(appContext);
+  const maintenanceRepository: IMaintenanceRepository = new DrizzleMaintenanceRepository(appContext);
+  const webhookRepository: IWebhookRepository = new DrizzleWebhookRepository(appContext);
+  const calendarFeedRepository: ICalendarFeedRepository = new DrizzleCalendarFeedRepository(appContext);
+  const personalAccessTokenRepository: IPersonalAccessTokenRepository = new DrizzlePersonalAccessTokenRepository(appContext);
+
+  // Subscribers live for the whole process; only the first container registers them.
+  // They get a fresh container per event, like a script
+  registerEventSubscribers(domainEventBus, logger, () => createContainer());
 
   // Create services
-  const userService = new UserService(appContext, userRepository);
-  const todoService = new TodoService(appContext, todoRepository);
+  const domainEventService = new DomainEventService(appContext, outboxRepository, unitOfWork, domainEventBus);
+  const userService = new UserService(appContext, userRepository, domainEventService);
+  const roleService = new RoleService(appContext, roleRepository, domainEventService);
+  const todoService = new TodoService(appContext, todoRepository, tagRepository, projectRepository, checklistRepository, todoChangeRepository, domainEventService);
+  const todoTransferService = new TodoTransferService(appContext, todoRepository, tagRepository, projectRepository, checklistRepository, todoChangeRepository, domainEventService);
+  const tagService = new TagService(appContext, tagRepository);
+  const projectService = new ProjectService(appContext, projectRepository);
+  const auditService = new AuditService(appContext, auditLogRepository);
+  const jobService = new JobService(appContext, jobRepository);
+  const schedulerService = new SchedulerService(appContext, scheduledTaskRepository);
+  const maintenanceService = new MaintenanceService(appContext, maintenanceRepository);
+  const webhookService = new WebhookService(appContext, webhookRepository, jobService, unitOfWork);
+  const calendarFeedService = new CalendarFeedService(appContext, calendarFeedRepository, todoTransferService);
+  const personalAccessTokenService = new PersonalAccessTokenService(appContext, personalAccessTokenRepository, userRepository);
 
   return {
     appContext,
     userService,
+    roleService,
     todoService,
+    todoTransferService,
+    tagService,
+    projectService,
+    auditService,
+    domainEventService,
+    jobService,
+    schedulerService,
+    maintenanceService,
+    webhookService,
+    calendarFeedService,
+    personalAccessTokenService,
   };
 }
@@ -0,0 +1,27 @@
+import type { AuditEntityType, AuditSnapshot } from '~/server/infrastructure/db/schema';
+
+export { AUDIT_ENTITY_TYPES, type AuditEntityType, type AuditSnapshot } from '~/server/infrastructure/db/schema';
+
+/**
+ * Who performed an audited operation, as shown in the log
+ */
+export interface AuditActor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  createdAt: Date;
+  actorId: string | null;
+  actor: AuditActor | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+}
@@ -0,0 +1,11 @@
+export interface CalendarFeed {
+  id: string;
+  userId: string;
+  name: string;
+  /** SHA-256 of the token in the feed's URL */
+  tokenHash: string;
+  /** Last time a calendar app fetched the feed */
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
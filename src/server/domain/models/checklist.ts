@@ -0,0 +1,15 @@
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+  rank: number;
+  todoId: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Checklist fields embedded in todos for display
+ */
+export type TodoChecklistItem = Pick<ChecklistItem, 'id' | 'title' | 'completed' | 'rank'>;
@@ -0,0 +1,50 @@
+import type { DomainEventType } from '~/server/infrastructure/db/schema';
+
+export { DOMAIN_EVENT_TYPES, type DomainEventType } from '~/server/infrastructure/db/schema';
+
+/**
+ * A todo listed in a TodoDigest; the due date is an ISO 8601 string
+ */
+export interface TodoDigestEntry {
+  todoId: string;
+  title: string;
+  dueDate: string;
+}
+
+/**
+ * Payload of each domain event type
+ */
+export interface DomainEventPayloads {
+  TodoCreated: { todoId: string; userId: string; title: string };
+  /** Names of the fields the update set */
+  TodoUpdated: { todoId: string; userId: string; fields: string[] };
+  TodoCompleted: { todoId: string; userId: string };
+  TodoReopened: { todoId: string; userId: string };
+  /** Moved to the trash */
+  TodoDeleted: { todoId: string; userId: string };
+  TodoRestored: { todoId: string; userId: string };
+  /** Trashed todos permanently deleted by emptying the trash */
+  TrashEmptied: { userId: string; todoIds: string[] };
+  /** Daily summary of a user's incomplete todos that are overdue or due within a day */
+  TodoDigest: { userId: string; overdue: TodoDigestEntry[]; dueSoon: TodoDigestEntry[] };
+  UserProfileUpdated: { userId: string; fields: string[] };
+  RoleAssigned: { userId: string; roleNames: string[] };
+  RoleRemoved: { userId: string; roleNames: string[] };
+}
+
+/**
+ * An event as emitted by a service, before it is stored in the outbox
+ */
+export type NewDomainEvent<T extends DomainEventType = DomainEventType> = {
+  [K in T]: { type: K; payload: DomainEventPayloads[K] };
+}[T];
+
+/**
+ * An event read back from the outbox for delivery
+ */
+export type DomainEvent<T extends DomainEventType = DomainEventType> = NewDomainEvent<T> & {
+  id: string;
+  occurredAt: Date;
+  /** Failed deliveries so far */
+  attempts: number;
+};
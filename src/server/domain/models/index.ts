@@ -1,3 +1,13 @@
 // Domain Models - Clean objects without persistence concerns
 export * from './user';
-export * from './todo';
\ No newline at end of file
+export * from './todo';
+export * from './tag';
+export * from './project';
+export * from './checklist';
+export * from './audit';
+export * from './domain-event';
+export * from './job';
+export * from './scheduled-task';
+export * from './webhook';
+export * from './calendar-feed';
+export * from './personal-access-token';
@@ -0,0 +1,33 @@
+import type { JobName, JobStatus } from '~/server/infrastructure/db/schema';
+
+export { JOB_NAMES, JOB_STATUSES, type JobName, type JobStatus } from '~/server/infrastructure/db/schema';
+
+/**
+ * Payload of each job type
+ */
+export interface JobPayloads {
+  'trash.purge': Record<string, never>;
+  'sync.purge': Record<string, never>;
+  'events.dispatch': Record<string, never>;
+  'events.purge': Record<string, never>;
+  'webhook.deliver': { deliveryId: string };
+}
+
+export type Job<N extends JobName = JobName> = {
+  [K in N]: {
+    id: string;
+    name: K;
+    payload: JobPayloads[K];
+    status: JobStatus;
+    runAt: Date;
+    /** Attempts started so far, including the current one while running */
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    lockedBy: string | null;
+    lockedAt: Date | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+}[N];
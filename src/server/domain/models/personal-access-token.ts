@@ -0,0 +1,17 @@
+import type { AccessTokenScope } from '~/server/infrastructure/db/schema';
+
+export { ACCESS_TOKEN_SCOPES, type AccessTokenScope } from '~/server/infrastructure/db/schema';
+
+export interface PersonalAccessToken {
+  id: string;
+  userId: string;
+  name: string;
+  /** SHA-256 of the token */
+  tokenHash: string;
+  scopes: AccessTokenScope[];
+  /** Null for tokens that never expire */
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,8 @@
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
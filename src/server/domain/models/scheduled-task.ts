@@ -0,0 +1,22 @@
+import type { ScheduledTaskName } from '~/server/infrastructure/db/schema';
+
+export { SCHEDULED_TASK_NAMES, type ScheduledTaskName } from '~/server/infrastructure/db/schema';
+
+/**
+ * A recurring task and the state of its runs, as shown to admins
+ */
+export interface ScheduledTask {
+  id: string;
+  name: ScheduledTaskName;
+  cron: string;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  /** Why the last finished run failed; null when it succeeded */
+  lastError: string | null;
+  /** Scheduler instance that started the last run */
+  lastRunBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,13 @@
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Tag fields embedded in todos for display
+ */
+export type TodoTag = Pick<Tag, 'id' | 'name' | 'color'>;
@@ -1,9 +1,68 @@
+import type { TodoChangeType, TodoPriority, TodoRevisionField, TodoRevisionValue } from '~/server/infrastructure/db/schema';
+import type { TodoTag } from './tag';
+import type { TodoChecklistItem } from './checklist';
+import type { RecurrenceRule } from '~/lib/recurrence';
+
+export { TODO_PRIORITIES, type TodoPriority } from '~/server/infrastructure/db/schema';
+export {
+  TODO_REVISION_FIELDS,
+  type TodoRevisionField,
+  type TodoRevisionValue,
+} from '~/server/infrastructure/db/schema';
+export { TODO_CHANGE_TYPES, type TodoChangeType } from '~/server/infrastructure/db/schema';
+export type { RecurrenceRule } from '~/lib/recurrence';
+
 export interface Todo {
   id: string;
   title: string;
   description?: string | null;
   completed: boolean;
+  priority: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  tags: TodoTag[];
+  checklist: TodoChecklistItem[];
+  projectId?: string | null;
+  rank: number;
   userId: string;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+  /** Set while the todo is in the trash */
+  deletedAt?: Date | null;
+  /** Incremented by every update; pass it back as expectedVersion to detect conflicting edits */
+  version: number;
+}
+
+export interface TodoSearchResult {
+  todo: Todo;
+  /** Relevance from `ts_rank`; higher is better */
+  score: number;
+  /** Title with matched words wrapped in highlight markers */
+  titleHighlight: string;
+  /** Best-matching description fragments with highlight markers, or null without a description */
+  descriptionHighlight: string | null;
+}
+
+/**
+ * A single field change in a todo's history
+ */
+export interface TodoRevision {
+  id: string;
+  todoId: string;
+  field: TodoRevisionField;
+  previousValue: TodoRevisionValue;
+  newValue: TodoRevisionValue;
+  createdAt: Date;
+}
+
+/**
+ * A change to one of a user's todos, in the order it happened
+ */
+export interface TodoChange {
+  id: number;
+  userId: string;
+  todoId: string;
+  type: TodoChangeType;
+  createdAt: Date;
+}
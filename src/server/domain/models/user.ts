@@ -8,6 +8,8 @@ export interface User {
   website?: string | null;
   createdAt: Date;
   updatedAt: Date;
+  /** Incremented by every profile update; pass it back as expectedVersion to detect conflicting edits */
+  version: number;
 }
 
 export interface CreateUserRequest {
@@ -32,5 +34,7 @@ export interface UpdateProfileRequest {
   bio?: string | null;
   avatar?: string | null;
   website?: string | null;
+  /** Version the profile was read at; a newer stored version fails with ConflictError */
+  expectedVersion?: number;
 }
 
@@ -0,0 +1,56 @@
+import type {
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WEBHOOK_TEST_EVENT,
+} from '~/server/infrastructure/db/schema';
+
+export {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TEST_EVENT,
+  WEBHOOK_DELIVERY_STATUSES,
+  type WebhookEventType,
+  type WebhookDeliveryStatus,
+} from '~/server/infrastructure/db/schema';
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  description: string | null;
+  /** Key of the HMAC-SHA256 signature on every delivery */
+  secret: string;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  consecutiveFailures: number;
+  disabledAt: Date | null;
+  /** Why the endpoint was disabled automatically; null when a user disabled it */
+  disabledReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string | null;
+  eventType: WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  /** The JSON body sent with every attempt */
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  /** Null when no response arrived */
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: Date;
+}
@@ -0,0 +1,19 @@
+import type { AuditLogEntry } from '~/server/domain/models';
+import type { AuditLogRecordRequest, AuditLogFilterQuery } from './types/audit-log-repository-types';
+import type { CursorPage } from './types/pagination-types';
+
+/**
+ * Repository interface for the audit log
+ * Entries are append-only: they are created and queried, never updated or deleted
+ */
+export interface IAuditLogRepository {
+  /**
+   * Record a change made during the current request
+   */
+  record(data: AuditLogRecordRequest): Promise<void>;
+
+  /**
+   * Find entries matching the filters, newest first, with the actor's name and email
+   */
+  findMany(filter: AuditLogFilterQuery): Promise<CursorPage<AuditLogEntry>>;
+}
@@ -0,0 +1,27 @@
+import type { CalendarFeed } from '~/server/domain/models';
+import type { CalendarFeedCreateRequest } from './types/calendar-feed-repository-types';
+
+/**
+ * Repository interface for calendar feeds
+ * Methods taking a userId are user-scoped for security
+ */
+export interface ICalendarFeedRepository {
+  create(input: CalendarFeedCreateRequest): Promise<CalendarFeed>;
+
+  /**
+   * All feeds of a user, oldest first
+   */
+  findByUserId(userId: string): Promise<CalendarFeed[]>;
+
+  /**
+   * The feed a URL token belongs to (not user-scoped: the token is the credential)
+   */
+  findByTokenHash(tokenHash: string): Promise<CalendarFeed | null>;
+
+  /**
+   * Record that a calendar app fetched the feed
+   */
+  markAccessed(id: string, accessedAt: Date): Promise<void>;
+
+  delete(id: string, userId: string): Promise<void>;
+}
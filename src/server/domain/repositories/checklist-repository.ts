@@ -0,0 +1,56 @@
+import type { ChecklistItem } from '~/server/domain/models';
+import type {
+  ChecklistItemCreateRequest,
+  ChecklistItemStatusUpdate,
+  ChecklistItemRankUpdate,
+} from './types/checklist-repository-types';
+
+/**
+ * Repository interface for todo checklist items (subtasks)
+ * Every method is user-scoped for security; ownership of the parent todo
+ * is verified by the service layer before items are created
+ */
+export interface IChecklistRepository {
+  // =============================================================================
+  // CHECKLIST ITEM CRUD OPERATIONS
+  // =============================================================================
+
+  /**
+   * Create a checklist item at the end of the todo's checklist
+   */
+  create(input: ChecklistItemCreateRequest): Promise<ChecklistItem>;
+
+  /**
+   * Find checklist item by ID (user-scoped for security)
+   */
+  findById(id: string, userId: string): Promise<ChecklistItem | null>;
+
+  /**
+   * Find all checklist items of a todo in checklist order
+   */
+  findByTodoId(todoId: string, userId: string): Promise<ChecklistItem[]>;
+
+  /**
+   * Delete checklist item (hard delete)
+   */
+  delete(id: string, userId: string): Promise<void>;
+
+  // =============================================================================
+  // DEDICATED UPDATE METHODS
+  // =============================================================================
+
+  /**
+   * Update checklist item completion status
+   */
+  updateStatus(id: string, input: ChecklistItemStatusUpdate, userId: string): Promise<ChecklistItem>;
+
+  /**
+   * Update completion status of every item in a todo's checklist
+   */
+  updateStatusForTodo(todoId: string, input: ChecklistItemStatusUpdate, userId: string): Promise<void>;
+
+  /**
+   * Write new ranks atomically (one item for a move, many for a rebalance)
+   */
+  updateRanks(updates: ChecklistItemRankUpdate[], userId: string): Promise<void>;
+}
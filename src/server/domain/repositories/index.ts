@@ -1,3 +1,17 @@
 // Repository Interfaces - Contracts for data access
 export * from './user-repository';
+export * from './role-repository';
 export * from './todo-repository';
+export * from './tag-repository';
+export * from './project-repository';
+export * from './checklist-repository';
+export * from './audit-log-repository';
+export * from './todo-change-repository';
+export * from './outbox-repository';
+export * from './unit-of-work';
+export * from './job-repository';
+export * from './scheduled-task-repository';
+export * from './maintenance-repository';
+export * from './webhook-repository';
+export * from './calendar-feed-repository';
+export * from './personal-access-token-repository';
@@ -0,0 +1,51 @@
+import type { Job, JobName } from '~/server/domain/models';
+import type { JobClaimQuery, JobEnqueueRequest, JobFailureUpdate } from './types/job-repository-types';
+
+/**
+ * Repository interface for the background job queue
+ */
+export interface IJobRepository {
+  /**
+   * Add a pending job and wake idle workers
+   */
+  enqueue(data: JobEnqueueRequest): Promise<Job>;
+
+  /**
+   * Atomically take the oldest due pending job, marking it running for the worker
+   * Jobs locked by another worker's claim are skipped, never waited for
+   */
+  claimNext(query: JobClaimQuery): Promise<Job | null>;
+
+  /**
+   * Number of running jobs of each kind, across all workers
+   */
+  countRunning(): Promise<Partial<Record<JobName, number>>>;
+
+  /**
+   * Move the lock time of a job the worker is still running to now, so it is not taken for orphaned
+   * Returns false when the job is no longer running under this worker's lock
+   */
+  refreshLock(id: string, workerId: string): Promise<boolean>;
+
+  /**
+   * Mark a running job completed
+   */
+  complete(id: string): Promise<void>;
+
+  /**
+   * Record a failed attempt: back to pending for a retry, or dead
+   */
+  fail(id: string, update: JobFailureUpdate): Promise<void>;
+
+  /**
+   * Put running jobs locked before the cutoff (their worker died) back to pending,
+   * or mark them dead once they have used up their attempts. Returns how many were released
+   */
+  releaseStale(lockedBefore: Date): Promise<number>;
+
+  /**
+   * Call `onEnqueued` whenever a job is enqueued by any process
+   * Resolves once listening has started, with a function that stops listening
+   */
+  listenForEnqueued(onEnqueued: () => void): Promise<() => Promise<void>>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Repository interface for database housekeeping outside the domain tables
+ */
+export interface IMaintenanceRepository {
+  /**
+   * Permanently delete auth sessions that expired before the cutoff
+   * Returns how many were deleted
+   */
+  purgeExpiredSessions(cutoff: Date): Promise<number>;
+
+  /**
+   * Permanently delete email verification and reset tokens that expired before the cutoff
+   * Returns how many were deleted
+   */
+  purgeExpiredVerifications(cutoff: Date): Promise<number>;
+
+  /**
+   * Refresh the query planner's table statistics
+   */
+  analyzeTables(): Promise<void>;
+}
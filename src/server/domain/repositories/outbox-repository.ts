@@ -0,0 +1,35 @@
+import type { DomainEvent, NewDomainEvent } from '~/server/domain/models';
+import type { OutboxClaimQuery, OutboxFailureUpdate } from './types/outbox-repository-types';
+
+/**
+ * Repository interface for the domain event outbox
+ * Appending joins the caller's transaction, so events are stored if and only if
+ * the change they describe is committed
+ */
+export interface IOutboxRepository {
+  /**
+   * Store events for delivery
+   */
+  append(events: NewDomainEvent[]): Promise<void>;
+
+  /**
+   * Claim unprocessed events due for delivery, oldest first
+   * Events claimed by another dispatcher are skipped until their claim times out
+   */
+  claimDue(query: OutboxClaimQuery): Promise<DomainEvent[]>;
+
+  /**
+   * Record that every subscriber has handled the event, releasing its claim
+   */
+  markProcessed(id: string): Promise<void>;
+
+  /**
+   * Record a failed delivery and when to try again, releasing its claim
+   */
+  markFailed(id: string, update: OutboxFailureUpdate): Promise<void>;
+
+  /**
+   * Permanently delete events processed before the cutoff; returns how many were deleted
+   */
+  purgeProcessedBefore(cutoff: Date): Promise<number>;
+}
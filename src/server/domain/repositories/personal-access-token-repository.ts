@@ -0,0 +1,27 @@
+import type { PersonalAccessToken } from '~/server/domain/models';
+import type { PersonalAccessTokenCreateRequest } from './types/personal-access-token-repository-types';
+
+/**
+ * Repository interface for personal access tokens
+ * Methods taking a userId are user-scoped for security
+ */
+export interface IPersonalAccessTokenRepository {
+  create(input: PersonalAccessTokenCreateRequest): Promise<PersonalAccessToken>;
+
+  /**
+   * All tokens of a user, newest first
+   */
+  findByUserId(userId: string): Promise<PersonalAccessToken[]>;
+
+  /**
+   * The token with this hash, expired or not (not user-scoped: the token is the credential)
+   */
+  findByTokenHash(tokenHash: string): Promise<PersonalAccessToken | null>;
+
+  /**
+   * Record that the token authenticated a request
+   */
+  markUsed(id: string, usedAt: Date): Promise<void>;
+
+  delete(id: string, userId: string): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import type { Project } from '~/server/domain/models';
+import type {
+  ProjectCreateRequest,
+  ProjectBasicInfoPartialUpdate,
+} from './types/project-repository-types';
+
+/**
+ * Repository interface for Project operations
+ * Projects are owned by a single user; every method is user-scoped for security
+ */
+export interface IProjectRepository {
+  /**
+   * Create a new project (names are unique per user)
+   */
+  create(input: ProjectCreateRequest): Promise<Project>;
+
+  /**
+   * Find project by ID (user-scoped for security)
+   */
+  findById(id: string, userId: string): Promise<Project | null>;
+
+  /**
+   * Find all projects for a user ordered by name
+   */
+  findByUserId(userId: string): Promise<Project[]>;
+
+  /**
+   * Update project name and/or color
+   */
+  updateBasicInfo(id: string, input: ProjectBasicInfoPartialUpdate, userId: string): Promise<Project>;
+
+  /**
+   * Delete project; its todos move to the Inbox
+   */
+  delete(id: string, userId: string): Promise<void>;
+}
@@ -19,6 +19,7 @@ import type {
   UserRolesSetData,
   RoleFilterQuery,
   UserRoleFilterQuery,
+  RolePermissionsSetData,
 } from './types/role-repository-types';
 
 /**
@@ -123,6 +124,12 @@ export interface IRoleRepository {
    */
   getUsersWithRoles(filter: UserRoleFilterQuery): Promise<string[]>;
 
+  /**
+   * Users holding a role, locking their assignments (`FOR UPDATE`) until the current transaction ends
+   * Concurrent changes to those assignments wait, so checks like "an admin remains" cannot race
+   */
+  lockUsersWithRole(roleName: string): Promise<string[]>;
+
   /**
    * Check if user has specific role
    */
@@ -137,4 +144,24 @@ export interface IRoleRepository {
    * Check if user has all of the specified roles
    */
   userHasAllRoles(userId: string, roleNames: string[]): Promise<boolean>;
+
+  // =============================================================================
+  // PERMISSION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Get the names of all permissions granted to a user through any of their roles
+   */
+  getUserPermissionNames(userId: string): Promise<string[]>;
+
+  /**
+   * Get the names of the permissions granted to a role
+   */
+  getRolePermissionNames(roleId: string): Promise<string[]>;
+
+  /**
+   * Set role permissions (complete replacement)
+   * Repository handles permission name to ID resolution
+   */
+  setRolePermissions(data: RolePermissionsSetData): Promise<void>;
 }
\ No newline at end of file
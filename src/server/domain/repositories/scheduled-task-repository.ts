@@ -0,0 +1,33 @@
+import type { ScheduledTask, ScheduledTaskName } from '~/server/domain/models';
+import type {
+  ScheduledTaskClaim,
+  ScheduledTaskRunResult,
+  ScheduledTaskSyncRequest,
+} from './types/scheduled-task-repository-types';
+
+/**
+ * Repository interface for recurring task schedules and their run state
+ */
+export interface IScheduledTaskRepository {
+  /**
+   * All scheduled tasks, by name
+   */
+  findAll(): Promise<ScheduledTask[]>;
+
+  /**
+   * Make the stored tasks match the registry: add new tasks, reschedule tasks whose cron
+   * changed (keeping the next run of unchanged ones) and remove tasks no longer registered
+   */
+  sync(tasks: ScheduledTaskSyncRequest[]): Promise<void>;
+
+  /**
+   * Take the due run of a task for one scheduler instance, under the task's advisory lock
+   * Returns false when the run is not due or another instance is claiming it
+   */
+  claimRun(claim: ScheduledTaskClaim): Promise<boolean>;
+
+  /**
+   * Record how a claimed run ended
+   */
+  recordResult(name: ScheduledTaskName, result: ScheduledTaskRunResult): Promise<void>;
+}
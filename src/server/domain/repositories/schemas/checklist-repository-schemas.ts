@@ -0,0 +1,53 @@
+/**
+ * Checklist Repository Zod Schemas
+ * 
+ * This file defines Zod validation schemas for Checklist repository operations.
+ * All schemas use matches<T>() utility to ensure runtime validation aligns with TypeScript types.
+ */
+
+import { z } from 'zod';
+import { matches, commonValidation } from '~/server/lib/validation/zod-utils';
+import type {
+  ChecklistItemCreateRequest,
+  ChecklistItemStatusUpdate,
+  ChecklistItemRankUpdate,
+} from '~/server/domain/repositories/types/checklist-repository-types';
+
+// =============================================================================
+// CHECKLIST ITEM SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for creating checklist items
+ */
+export const RepoChecklistItemCreateSchema = matches<ChecklistItemCreateRequest>()(
+  z.object({
+    title: commonValidation.nonEmptyString.max(200, 'Checklist item title too long'),
+    todoId: z.string().uuid('Invalid todo ID format'),
+    userId: z.string().uuid('Invalid user ID format'),
+  })
+);
+
+/**
+ * Schema for updating checklist item completion status
+ */
+export const RepoChecklistItemStatusUpdateSchema = matches<ChecklistItemStatusUpdate>()(
+  z.object({
+    completed: z.boolean(),
+  })
+);
+
+/**
+ * Schema for a checklist item's new rank
+ */
+export const RepoChecklistItemRankUpdateSchema = matches<ChecklistItemRankUpdate>()(
+  z.object({
+    id: z.string().uuid('Invalid checklist item ID format'),
+    rank: z.number().finite().positive('Rank must be positive'),
+  })
+);
+
+/**
+ * Schema for a batch of rank updates (a single move or a full rebalance)
+ */
+export const RepoChecklistItemRankUpdatesSchema = z.array(RepoChecklistItemRankUpdateSchema).min(1, 'At least one rank update is required');
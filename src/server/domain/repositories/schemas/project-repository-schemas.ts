@@ -0,0 +1,46 @@
+/**
+ * Project Repository Zod Schemas
+ * 
+ * This file defines Zod validation schemas for Project repository operations.
+ * All schemas use matches<T>() utility to ensure runtime validation aligns with TypeScript types.
+ */
+
+import { z } from 'zod';
+import { matches, commonValidation } from '~/server/lib/validation/zod-utils';
+import type {
+  ProjectCreateRequest,
+  ProjectBasicInfoPartialUpdate,
+} from '~/server/domain/repositories/types/project-repository-types';
+
+// =============================================================================
+// SHARED FIELD SCHEMAS
+// =============================================================================
+
+const projectNameSchema = commonValidation.nonEmptyString.max(100, 'Project name too long');
+
+const projectColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #228be6');
+
+// =============================================================================
+// PROJECT SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for creating projects
+ */
+export const RepoProjectCreateSchema = matches<ProjectCreateRequest>()(
+  z.object({
+    name: projectNameSchema,
+    color: projectColorSchema.optional(),
+    userId: z.string().uuid('Invalid user ID format'),
+  })
+);
+
+/**
+ * Schema for updating project name and/or color
+ */
+export const RepoProjectBasicInfoUpdateSchema = matches<ProjectBasicInfoPartialUpdate>()(
+  z.object({
+    name: projectNameSchema,
+    color: projectColorSchema,
+  }).partial()
+);
@@ -0,0 +1,88 @@
+/**
+ * Tag Repository Zod Schemas
+ * 
+ * This file defines Zod validation schemas for Tag repository operations.
+ * All schemas use matches<T>() utility to ensure runtime validation aligns with TypeScript types.
+ */
+
+import { z } from 'zod';
+import { matches, commonValidation } from '~/server/lib/validation/zod-utils';
+import type {
+  TagCreateRequest,
+  TagBasicInfoPartialUpdate,
+  TodoTagAssignData,
+  TodoTagsSetData,
+  TodoTagFilterQuery,
+} from '~/server/domain/repositories/types/tag-repository-types';
+
+// =============================================================================
+// SHARED FIELD SCHEMAS
+// =============================================================================
+
+/**
+ * Tag colors are stored as 6-digit hex strings, e.g. #228be6
+ */
+export const RepoTagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #228be6');
+
+const tagNameSchema = commonValidation.nonEmptyString.max(50, 'Tag name too long');
+
+const tagIdsSchema = z.array(z.string().uuid('Invalid tag ID format')).max(50, 'Too many tags');
+
+// =============================================================================
+// TAG SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for creating tags
+ */
+export const RepoTagCreateSchema = matches<TagCreateRequest>()(
+  z.object({
+    name: tagNameSchema,
+    color: RepoTagColorSchema.optional(),
+    userId: z.string().uuid('Invalid user ID format'),
+  })
+);
+
+/**
+ * Schema for updating tag name and/or color
+ */
+export const RepoTagBasicInfoUpdateSchema = matches<TagBasicInfoPartialUpdate>()(
+  z.object({
+    name: tagNameSchema,
+    color: RepoTagColorSchema,
+  }).partial()
+);
+
+// =============================================================================
+// TODO-TAG ASSOCIATION SCHEMAS
+// =============================================================================
+
+/**
+ * Schema for assigning or removing a single tag
+ */
+export const RepoTodoTagAssignSchema = matches<TodoTagAssignData>()(
+  z.object({
+    todoId: z.string().uuid('Invalid todo ID format'),
+    tagId: z.string().uuid('Invalid tag ID format'),
+  })
+);
+
+/**
+ * Schema for replacing all tags on a todo
+ */
+export const RepoTodoTagsSetSchema = matches<TodoTagsSetData>()(
+  z.object({
+    todoId: z.string().uuid('Invalid todo ID format'),
+    tagIds: tagIdsSchema,
+  })
+);
+
+/**
+ * Schema for filtering todos by tags
+ */
+export const RepoTodoTagFilterSchema = matches<TodoTagFilterQuery>()(
+  z.object({
+    tagIds: tagIdsSchema,
+    hasAllTags: z.boolean().optional(),
+  })
+);
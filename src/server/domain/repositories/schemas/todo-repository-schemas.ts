@@ -13,6 +13,10 @@
 import { z } from 'zod';
 import { matches, commonValidation } from '~/server/lib/validation/zod-utils';
 import type { DbTodoEntity } from '~/server/infrastructure/entities';
+import type { TodoSearchQuery } from '~/server/domain/repositories/types/todo-repository-types';
+import { MAX_PAGE_LIMIT } from '~/server/lib/constants';
+import { TODO_PRIORITIES } from '~/server/domain/models';
+import { getRecurrenceError, RECURRENCE_FREQUENCIES, type RecurrenceRule } from '~/lib/recurrence';
 
 // =============================================================================
 // INTERNAL REPOSITORY SCHEMA TYPES (for database operations)
@@ -21,8 +25,13 @@ import type { DbTodoEntity } from '~/server/infrastructure/entities';
 /**
  * Internal repository create data type (for database operations)
  * Derives from DbTodoEntity to ensure type safety
+ * Rank is assigned by the repository (appended after the user's last todo);
+ * createdAt defaults to now and is only given by imports keeping the original time
  */
-type RepoTodoCreateData = Omit<DbTodoEntity, 'id' | 'createdAt' | 'updatedAt'>;
+type RepoTodoCreateData = Omit<
+  Omit<DbTodoEntity, 'createdAt'> & Partial<Pick<DbTodoEntity, 'createdAt'>>,
+  'id' | 'updatedAt' | 'deletedAt' | 'version' | 'rank' | 'searchVector'
+>;
 
 /**
  * Internal content update data type
@@ -44,6 +53,70 @@ type RepoTodoTitleUpdateData = Pick<DbTodoEntity, 'title'>;
  */
 type RepoTodoDescriptionUpdateData = Pick<DbTodoEntity, 'description'>;
 
+/**
+ * Internal priority update data type
+ */
+type RepoTodoPriorityUpdateData = Pick<DbTodoEntity, 'priority'>;
+
+/**
+ * Internal schedule update data type
+ */
+type RepoTodoScheduleUpdateData = Partial<Pick<DbTodoEntity, 'startDate' | 'dueDate'>>;
+
+/**
+ * Internal recurrence update data type
+ */
+type RepoTodoRecurrenceUpdateData = Pick<DbTodoEntity, 'recurrence'>;
+
+/**
+ * Internal project update data type
+ */
+type RepoTodoProjectUpdateData = Pick<DbTodoEntity, 'projectId'>;
+
+/**
+ * Internal rank update data type
+ */
+type RepoTodoRankUpdateData = Pick<DbTodoEntity, 'id' | 'rank'>;
+
+// =============================================================================
+// SHARED FIELD SCHEMAS
+// =============================================================================
+
+/**
+ * Optional schedule date - normalizes undefined to null for storage
+ */
+const scheduleDateSchema = z.date().nullable().optional().transform(val => val ?? null);
+
+/**
+ * Start date must not be after the due date when both are set
+ */
+const isScheduleOrdered = (data: { startDate?: Date | null; dueDate?: Date | null }) =>
+  !data.startDate || !data.dueDate || data.startDate.getTime() <= data.dueDate.getTime();
+
+const scheduleOrderMessage = {
+  message: 'Start date must be before or equal to due date',
+  path: ['startDate'],
+};
+
+/**
+ * Repeat schedule stored as JSON; cross-field rules come from the shared recurrence module
+ */
+export const RepoTodoRecurrenceRuleSchema = matches<RecurrenceRule>()(
+  z.object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int(),
+    weekdays: z.array(z.number().int()).optional(),
+    dayOfMonth: z.number().int().optional(),
+    until: z.string().datetime().nullable().optional(),
+    count: z.number().int().nullable().optional(),
+  }).superRefine((rule, ctx) => {
+    const message = getRecurrenceError(rule);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  })
+);
+
 // =============================================================================
 // TODO CREATE SCHEMAS
 // =============================================================================
@@ -58,7 +131,13 @@ export const RepoTodoCreateSchema = matches<RepoTodoCreateData>()(
     description: z.string().max(1000, 'Description too long').nullable().optional().transform(val => val ?? null),
     userId: z.string().uuid('Invalid user ID format'),
     completed: z.boolean().default(false),
-  })
+    priority: z.enum(TODO_PRIORITIES).default('none'),
+    startDate: scheduleDateSchema,
+    dueDate: scheduleDateSchema,
+    recurrence: RepoTodoRecurrenceRuleSchema.nullable().optional().transform(val => val ?? null),
+    projectId: z.string().uuid('Invalid project ID format').nullable().optional().transform(val => val ?? null),
+    createdAt: z.date().optional(),
+  }).refine(isScheduleOrdered, scheduleOrderMessage)
 );
 
 // =============================================================================
@@ -102,6 +181,58 @@ export const RepoTodoDescriptionUpdateSchema = matches<RepoTodoDescriptionUpdate
   })
 );
 
+/**
+ * Schema for updating todo priority only
+ */
+export const RepoTodoPriorityUpdateSchema = matches<RepoTodoPriorityUpdateData>()(
+  z.object({
+    priority: z.enum(TODO_PRIORITIES),
+  })
+);
+
+/**
+ * Schema for updating todo schedule (start date and due date)
+ */
+export const RepoTodoScheduleUpdateSchema = matches<RepoTodoScheduleUpdateData>()(
+  z.object({
+    startDate: z.date().nullable().optional(),
+    dueDate: z.date().nullable().optional(),
+  }).partial().refine(isScheduleOrdered, scheduleOrderMessage)
+);
+
+/**
+ * Schema for updating todo repeat schedule (null = does not repeat)
+ */
+export const RepoTodoRecurrenceUpdateSchema = matches<RepoTodoRecurrenceUpdateData>()(
+  z.object({
+    recurrence: RepoTodoRecurrenceRuleSchema.nullable(),
+  })
+);
+
+/**
+ * Schema for moving a todo to another project (null = Inbox)
+ */
+export const RepoTodoProjectUpdateSchema = matches<RepoTodoProjectUpdateData>()(
+  z.object({
+    projectId: z.string().uuid('Invalid project ID format').nullable(),
+  })
+);
+
+/**
+ * Schema for a todo's new manual-order rank
+ */
+export const RepoTodoRankUpdateSchema = matches<RepoTodoRankUpdateData>()(
+  z.object({
+    id: z.string().uuid('Invalid todo ID format'),
+    rank: z.number().finite().positive('Rank must be positive'),
+  })
+);
+
+/**
+ * Schema for a batch of rank updates (a single move or a full rebalance)
+ */
+export const RepoTodoRankUpdatesSchema = z.array(RepoTodoRankUpdateSchema).min(1, 'At least one rank update is required');
+
 // =============================================================================
 // QUERY VALIDATION SCHEMAS
 // =============================================================================
@@ -118,14 +249,49 @@ export const RepoTodoUserQuerySchema = z.object({
   userId: RepoUuidSchema,
   includeCompleted: z.boolean().optional(),
   limit: z.number().min(1).max(100).optional(),
-  skip: z.number().min(0).optional(),
+  cursor: z.string().nullish(),
   sort: z.record(z.enum(['asc', 'desc'])).optional(),
 });
 
+/**
+ * Schema for validating todo sort specifications
+ */
+export const RepoTodoSortSchema = z.object({
+  priority: z.union([z.literal(1), z.literal(-1)]),
+  dueDate: z.union([z.literal(1), z.literal(-1)]),
+  startDate: z.union([z.literal(1), z.literal(-1)]),
+  createdAt: z.union([z.literal(1), z.literal(-1)]),
+  updatedAt: z.union([z.literal(1), z.literal(-1)]),
+  title: z.union([z.literal(1), z.literal(-1)]),
+  rank: z.union([z.literal(1), z.literal(-1)]),
+}).partial().strict();
+
 /**
  * Schema for validating todo status queries
  */
 export const RepoTodoStatusQuerySchema = z.object({
   userId: RepoUuidSchema,
   completed: z.boolean(),
-});
\ No newline at end of file
+});
+
+/**
+ * Schema for validating due date range queries
+ */
+export const RepoTodoDueDateRangeSchema = z.object({
+  from: z.date(),
+  to: z.date(),
+}).refine(range => range.from.getTime() < range.to.getTime(), {
+  message: 'Range start must be before range end',
+  path: ['from'],
+});
+
+/**
+ * Schema for validating full-text search queries
+ */
+export const RepoTodoSearchQuerySchema = matches<TodoSearchQuery>()(
+  z.object({
+    query: z.string().trim().min(1, 'Search query is required').max(200, 'Search query too long'),
+    includeCompleted: z.boolean().optional(),
+    limit: z.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  })
+);
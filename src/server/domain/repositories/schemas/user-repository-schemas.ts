@@ -24,7 +24,7 @@ import type {
  * Internal repository create data type (for database operations)
  * Derives from DbUserEntity to ensure type safety (roles now handled separately)
  */
-type RepoUserCreateData = Omit<DbUserEntity, 'id' | 'createdAt' | 'updatedAt'>;
+type RepoUserCreateData = Omit<DbUserEntity, 'id' | 'createdAt' | 'updatedAt' | 'version'>;
 
 /**
  * Internal basic info update data type
@@ -176,8 +176,9 @@ export const UserEmailQuerySchema = z.object({
 export const UserFilterQuerySchema = z.object({
   email: commonValidation.email.optional(),
   roles: z.array(z.string()).optional(),
-  limit: z.number().int().min(1).max(1000).default(100).optional(),
-  skip: z.number().int().min(0).default(0).optional(),
+  search: z.string().max(100).optional(),
+  limit: z.number().int().min(1).max(100).default(20).optional(),
+  cursor: z.string().nullish(),
   sort: z.record(z.enum(['asc', 'desc'])).optional(),
 });
 
@@ -0,0 +1,66 @@
+import type { Tag } from '~/server/domain/models';
+import type {
+  TagCreateRequest,
+  TagBasicInfoPartialUpdate,
+  TodoTagAssignData,
+  TodoTagsSetData,
+} from './types/tag-repository-types';
+
+/**
+ * Repository interface for Tag operations
+ * Tags are owned by a single user; every method is user-scoped for security
+ */
+export interface ITagRepository {
+  // =============================================================================
+  // TAG CRUD OPERATIONS
+  // =============================================================================
+
+  /**
+   * Create a new tag (names are unique per user)
+   */
+  create(input: TagCreateRequest): Promise<Tag>;
+
+  /**
+   * Find tag by ID (user-scoped for security)
+   */
+  findById(id: string, userId: string): Promise<Tag | null>;
+
+  /**
+   * Find tags by IDs, silently dropping IDs the user does not own
+   */
+  findByIds(ids: string[], userId: string): Promise<Tag[]>;
+
+  /**
+   * Find all tags for a user ordered by name
+   */
+  findByUserId(userId: string): Promise<Tag[]>;
+
+  /**
+   * Update tag name and/or color
+   */
+  updateBasicInfo(id: string, input: TagBasicInfoPartialUpdate, userId: string): Promise<Tag>;
+
+  /**
+   * Delete tag (removes it from all todos)
+   */
+  delete(id: string, userId: string): Promise<void>;
+
+  // =============================================================================
+  // TODO-TAG ASSOCIATION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Assign a tag to a todo (no-op if already assigned)
+   */
+  assignTagToTodo(data: TodoTagAssignData): Promise<void>;
+
+  /**
+   * Remove a tag from a todo
+   */
+  removeTagFromTodo(data: TodoTagAssignData): Promise<void>;
+
+  /**
+   * Set todo tags (complete replacement)
+   */
+  setTodoTags(data: TodoTagsSetData): Promise<void>;
+}
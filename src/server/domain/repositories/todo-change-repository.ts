@@ -0,0 +1,34 @@
+import type { TodoChange } from '~/server/domain/models';
+import type { TodoChangeRecordRequest } from './types/todo-change-repository-types';
+
+/**
+ * Repository interface for the todo change feed behind real-time sync
+ * Changes are append-only; recording one also notifies every listener of its user
+ */
+export interface ITodoChangeRepository {
+  /**
+   * Record a change and notify the user's listeners once it is committed
+   */
+  record(data: TodoChangeRecordRequest): Promise<TodoChange>;
+
+  /**
+   * A user's changes recorded after the given change id, oldest first
+   */
+  findAfter(userId: string, afterId: number, limit: number): Promise<TodoChange[]>;
+
+  /**
+   * Id of the user's most recent change, or null when none is kept
+   */
+  findLatestId(userId: string): Promise<number | null>;
+
+  /**
+   * Call `onChange` for each change recorded for the user from now on
+   * Resolves once listening has started, with a function that stops listening
+   */
+  listen(userId: string, onChange: (change: TodoChange) => void): Promise<() => Promise<void>>;
+
+  /**
+   * Permanently delete changes recorded before the cutoff; returns how many were deleted
+   */
+  purgeBefore(cutoff: Date): Promise<number>;
+}
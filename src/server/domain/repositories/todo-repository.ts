@@ -1,12 +1,24 @@
-import type { Todo } from '~/server/domain/models';
+import type { Todo, TodoRevision, TodoSearchResult } from '~/server/domain/models';
 import type {
   TodoCreateRequest,
   TodoContentPartialUpdate,
   TodoStatusUpdate,
   TodoTitleUpdate,
   TodoDescriptionUpdate,
+  TodoPriorityUpdate,
+  TodoSchedulePartialUpdate,
+  TodoRecurrenceUpdate,
+  TodoProjectUpdate,
+  TodoRankUpdate,
+  TodoRankEntry,
+  TodoProjectScope,
+  TodoDueDateRange,
+  TodoSort,
   TodoFilterQuery,
+  TodoSearchQuery,
 } from './types/todo-repository-types';
+import type { TodoTagFilterQuery } from './types/tag-repository-types';
+import type { CursorPage, CursorPageQuery } from './types/pagination-types';
 
 /**
  * Repository interface for Todo operations
@@ -35,55 +47,139 @@ export interface ITodoRepository {
   findById(id: string, userId: string): Promise<Todo | null>;
 
   /**
-   * Delete todo record (hard delete)
+   * Move todo to the trash (soft delete); trashed todos are hidden from every other query
    */
   delete(id: string, userId: string): Promise<void>;
 
+  // =============================================================================
+  // TRASH OPERATIONS
+  // =============================================================================
+
+  /**
+   * Bring a trashed todo back
+   */
+  restore(id: string, userId: string): Promise<Todo>;
+
+  /**
+   * List a user's trashed todos, most recently deleted first
+   */
+  findTrashed(userId: string): Promise<Todo[]>;
+
+  /**
+   * Permanently delete every trashed todo of a user, returning the IDs removed
+   */
+  purgeTrashed(userId: string): Promise<string[]>;
+
+  /**
+   * Permanently delete trashed todos (of all users) deleted before the cutoff
+   */
+  purgeTrashedBefore(cutoff: Date): Promise<number>;
+
   // =============================================================================
   // DEDICATED UPDATE METHODS (No generic update!)
   // =============================================================================
+
+  // Every update bumps the todo's version. Passing the version the caller read as
+  // expectedVersion turns a write over a newer change into a ConflictError.
   
   /**
    * Update todo content (title and description)
+   * Like updateStatus, updateTitle, updateDescription and toggleCompletion, this records
+   * a revision for every changed field
    */
-  updateContent(id: string, input: TodoContentPartialUpdate, userId: string): Promise<void>;
+  updateContent(id: string, input: TodoContentPartialUpdate, userId: string, expectedVersion?: number): Promise<void>;
 
   /**
-   * Update todo completion status
+   * Update todo completion status, returning the status the todo had before
+   * The previous status is read under the row lock, so concurrent updates never both see the todo open
    */
-  updateStatus(id: string, input: TodoStatusUpdate, userId: string): Promise<void>;
+  updateStatus(id: string, input: TodoStatusUpdate, userId: string, expectedVersion?: number): Promise<boolean>;
 
   /**
    * Update todo title only
    */
-  updateTitle(id: string, input: TodoTitleUpdate, userId: string): Promise<void>;
+  updateTitle(id: string, input: TodoTitleUpdate, userId: string, expectedVersion?: number): Promise<void>;
 
   /**
    * Update todo description only
    */
-  updateDescription(id: string, input: TodoDescriptionUpdate, userId: string): Promise<void>;
+  updateDescription(id: string, input: TodoDescriptionUpdate, userId: string, expectedVersion?: number): Promise<void>;
+
+  /**
+   * Update todo priority only
+   */
+  updatePriority(id: string, input: TodoPriorityUpdate, userId: string, expectedVersion?: number): Promise<void>;
+
+  /**
+   * Update todo schedule (start date and/or due date)
+   */
+  updateSchedule(id: string, input: TodoSchedulePartialUpdate, userId: string, expectedVersion?: number): Promise<void>;
+
+  /**
+   * Update todo repeat schedule (null = does not repeat)
+   */
+  updateRecurrence(id: string, input: TodoRecurrenceUpdate, userId: string, expectedVersion?: number): Promise<void>;
+
+  /**
+   * Move todo to another project (null = Inbox)
+   */
+  updateProject(id: string, input: TodoProjectUpdate, userId: string, expectedVersion?: number): Promise<void>;
+
+  /**
+   * Write new manual-order ranks atomically (one todo for a move, many for a rebalance),
+   * bumping the version of every todo whose rank changes
+   */
+  updateRanks(updates: TodoRankUpdate[], userId: string): Promise<void>;
+
+  /**
+   * Bump the version of a todo outside the trash for a change to its checklist
+   * Inside a transaction the row stays locked until it ends, so checklist edits of one todo run one after another
+   */
+  bumpVersion(id: string, userId: string): Promise<void>;
 
   /**
    * Toggle todo completion status
    */
-  toggleCompletion(id: string, userId: string): Promise<Todo>;
+  toggleCompletion(id: string, userId: string, expectedVersion?: number): Promise<Todo>;
+
+  // =============================================================================
+  // HISTORY OPERATIONS
+  // =============================================================================
+
+  /**
+   * List a todo's field revisions, newest first (user-scoped)
+   */
+  findRevisions(id: string, userId: string): Promise<TodoRevision[]>;
 
   // =============================================================================
   // QUERY OPERATIONS
   // =============================================================================
   
   /**
-   * Find all todos for a user with filtering and pagination
+   * Find a page of todos for a user with filtering and keyset pagination
+   * Sort keys are applied in order (then by ID); empty due dates always sort last
+   * Omitting projectId returns todos from every project
    */
   findByUserId(
     userId: string,
     options?: {
       includeCompleted?: boolean;
-      limit?: number;
-      skip?: number;
-      sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<Todo[]>;
+      sort?: TodoSort;
+      tags?: TodoTagFilterQuery;
+      projectId?: string | null; // null = Inbox
+    } & CursorPageQuery
+  ): Promise<CursorPage<Todo>>;
+
+  /**
+   * List every todo's rank for a user in manual order (lowest rank first)
+   * Inside a transaction the rows stay locked until it ends, so concurrent moves run one after another
+   */
+  findRanks(userId: string): Promise<TodoRankEntry[]>;
+
+  /**
+   * Full-text search over title and description, best matches first with highlighted snippets
+   */
+  search(userId: string, query: TodoSearchQuery): Promise<TodoSearchResult[]>;
 
   /**
    * Find todos by completion status for a user
@@ -93,10 +189,35 @@ export interface ITodoRepository {
   /**
    * Count todos for a user with filtering
    */
-  countByUserId(userId: string, filter?: { completed?: boolean }): Promise<number>;
+  countByUserId(userId: string, filter?: { completed?: boolean } & TodoProjectScope): Promise<number>;
+
+  /**
+   * Find incomplete todos whose due date is before the given moment
+   */
+  findOverdue(userId: string, asOf: Date): Promise<Todo[]>;
+
+  /**
+   * Find incomplete todos due within the given date range
+   */
+  findDueInRange(userId: string, range: TodoDueDateRange): Promise<Todo[]>;
+
+  /**
+   * Users (of all users) with incomplete todos due before the given moment
+   */
+  findUserIdsWithTodosDueBefore(before: Date): Promise<string[]>;
+
+  /**
+   * Count incomplete todos whose due date is before the given moment
+   */
+  countOverdue(userId: string, asOf: Date, scope?: TodoProjectScope): Promise<number>;
+
+  /**
+   * Count incomplete todos due within the given date range
+   */
+  countDueInRange(userId: string, range: TodoDueDateRange, scope?: TodoProjectScope): Promise<number>;
 
   /**
    * Find all todos with advanced filtering (admin use)
    */
-  findAll(filter: TodoFilterQuery): Promise<Todo[]>;
+  findAll(filter: TodoFilterQuery): Promise<CursorPage<Todo>>;
 }
\ No newline at end of file
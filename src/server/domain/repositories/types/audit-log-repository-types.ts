@@ -0,0 +1,43 @@
+/**
+ * Audit Log Repository Types
+ *
+ * This file defines all repository-specific types derived from the DbAuditLogEntity.
+ * Audit entries are append-only, so there are no update types.
+ */
+
+import type { AuditEntityType, DbAuditLogEntity } from '~/server/infrastructure/db/schema';
+import type { CursorPageQuery } from './pagination-types';
+
+// =============================================================================
+// AUDIT LOG OPERATIONS
+// =============================================================================
+
+/**
+ * A change to record: the entity's state before and after the operation
+ * Either state may be omitted (creation, deletion); the repository stores only the
+ * changed fields and fills in the actor, IP, user agent and request id of the current request
+ * Used by: record() repository method
+ */
+export type AuditLogRecordRequest = Pick<DbAuditLogEntity, 'action' | 'entityType'> & {
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+// =============================================================================
+// QUERY TYPES
+// =============================================================================
+
+/**
+ * Audit log filters with keyset pagination, newest entries first
+ * `from` is inclusive and `to` exclusive
+ * Used by: findMany() repository method
+ */
+export type AuditLogFilterQuery = {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+} & CursorPageQuery;
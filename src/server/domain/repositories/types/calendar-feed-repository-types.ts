@@ -0,0 +1,16 @@
+/**
+ * Calendar Feed Repository Types
+ *
+ * This file defines all repository-specific types derived from the calendar feed entity.
+ */
+
+import type { DbCalendarFeedEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// CALENDAR FEED OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a calendar feed
+ */
+export type CalendarFeedCreateRequest = Pick<DbCalendarFeedEntity, 'userId' | 'name' | 'tokenHash'>;
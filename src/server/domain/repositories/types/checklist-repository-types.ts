@@ -0,0 +1,30 @@
+/**
+ * Checklist Repository Types
+ * 
+ * This file defines all repository-specific types derived from the DbChecklistItemEntity.
+ * All types are strict subsets of the database schema using Pick<>, Partial<>, and Omit<>.
+ */
+
+import type { DbChecklistItemEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// CHECKLIST ITEM OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a checklist item
+ * Rank is assigned by the repository (appended after the todo's last item)
+ */
+export type ChecklistItemCreateRequest = Pick<DbChecklistItemEntity, 'title' | 'todoId' | 'userId'>;
+
+/**
+ * Update checklist item completion status
+ * Used by: updateStatus() and updateStatusForTodo() repository methods
+ */
+export type ChecklistItemStatusUpdate = Pick<DbChecklistItemEntity, 'completed'>;
+
+/**
+ * New rank for one checklist item
+ * Used by: updateRanks() repository method
+ */
+export type ChecklistItemRankUpdate = Pick<DbChecklistItemEntity, 'id' | 'rank'>;
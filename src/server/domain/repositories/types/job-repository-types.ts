@@ -0,0 +1,37 @@
+/**
+ * Job Repository Types
+ *
+ * This file defines all repository-specific types derived from the DbJobEntity.
+ */
+
+import type { DbJobEntity, JobName } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// JOB OPERATIONS
+// =============================================================================
+
+/**
+ * A job to add to the queue
+ * Used by: enqueue() repository method
+ */
+export type JobEnqueueRequest = Pick<DbJobEntity, 'name' | 'payload' | 'runAt' | 'maxAttempts'>;
+
+/**
+ * Which due job a worker may take next
+ * Used by: claimNext() repository method
+ */
+export type JobClaimQuery = {
+  workerId: string;
+  /** Only jobs of these kinds; the worker leaves out kinds at their concurrency limit */
+  names: JobName[];
+  now: Date;
+};
+
+/**
+ * Outcome of a failed attempt: retry at runAt, or null to move the job to the dead letters
+ * Used by: fail() repository method
+ */
+export type JobFailureUpdate = {
+  error: string;
+  runAt: Date | null;
+};
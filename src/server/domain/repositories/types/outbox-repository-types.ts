@@ -0,0 +1,38 @@
+/**
+ * Outbox Repository Types
+ *
+ * This file defines repository-specific types for the domain event outbox.
+ */
+
+// =============================================================================
+// QUERY TYPES
+// =============================================================================
+
+/**
+ * Unprocessed events that are due for (another) delivery attempt, and who claims them
+ * Used by: claimDue() repository method
+ */
+export type OutboxClaimQuery = {
+  /** Identifies the dispatcher in `outbox_event.locked_by` */
+  dispatcherId: string;
+  /** Events whose next attempt is due by this time */
+  now: Date;
+  /** Claims taken before this are assumed abandoned and can be taken over */
+  lockedBefore: Date;
+  /** Events that have failed this many times are no longer delivered */
+  maxAttempts: number;
+  limit: number;
+};
+
+// =============================================================================
+// UPDATE OPERATIONS
+// =============================================================================
+
+/**
+ * Outcome of a failed delivery
+ * Used by: markFailed() repository method
+ */
+export type OutboxFailureUpdate = {
+  error: string;
+  nextAttemptAt: Date;
+};
@@ -0,0 +1,29 @@
+/**
+ * Pagination Types
+ *
+ * Listings use keyset (cursor) pagination: each page continues after the last
+ * row of the previous one instead of skipping an offset, so pages stay fast
+ * and rows inserted meanwhile are neither skipped nor repeated.
+ */
+
+// =============================================================================
+// CURSOR PAGINATION TYPES
+// =============================================================================
+
+/**
+ * Page request
+ * `cursor` is the opaque `nextCursor` of the previous page; omit it for the first page
+ * `limit` defaults to DEFAULT_PAGE_LIMIT and is capped at MAX_PAGE_LIMIT
+ */
+export type CursorPageQuery = {
+  limit?: number;
+  cursor?: string | null;
+};
+
+/**
+ * One page of results; `nextCursor` is null on the last page
+ */
+export type CursorPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
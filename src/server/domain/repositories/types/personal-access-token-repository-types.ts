@@ -0,0 +1,19 @@
+/**
+ * Personal Access Token Repository Types
+ *
+ * This file defines all repository-specific types derived from the personal access token entity.
+ */
+
+import type { DbPersonalAccessTokenEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// PERSONAL ACCESS TOKEN OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a personal access token
+ */
+export type PersonalAccessTokenCreateRequest = Pick<
+  DbPersonalAccessTokenEntity,
+  'userId' | 'name' | 'tokenHash' | 'scopes' | 'expiresAt'
+>;
@@ -0,0 +1,32 @@
+/**
+ * Project Repository Types
+ * 
+ * This file defines all repository-specific types derived from the DbProjectEntity.
+ * All types are strict subsets of the database schema using Pick<>, Partial<>, and Omit<>.
+ */
+
+import type { DbProjectEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// PROJECT ENTITY OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a new project
+ * Color is optional and falls back to the column default
+ */
+export type ProjectCreateRequest = {
+  name: DbProjectEntity['name'];
+  color?: DbProjectEntity['color'];
+  userId: DbProjectEntity['userId'];
+};
+
+/**
+ * Data for updating project basic information
+ */
+export type ProjectBasicInfoUpdate = Pick<DbProjectEntity, 'name' | 'color'>;
+
+/**
+ * Partial update for project basic information (all fields optional)
+ */
+export type ProjectBasicInfoPartialUpdate = Partial<ProjectBasicInfoUpdate>;
@@ -63,6 +63,19 @@ export type UserRolesSetData = {
   roleNames: string[];
 };
 
+// =============================================================================
+// ROLE-PERMISSION ASSOCIATION OPERATIONS
+// =============================================================================
+
+/**
+ * Data for setting role permissions (complete replacement)
+ * Service layer passes permission names, repository handles ID resolution
+ */
+export type RolePermissionsSetData = {
+  roleId: string;
+  permissionNames: string[];
+};
+
 // =============================================================================
 // QUERY FILTER TYPES
 // =============================================================================
@@ -0,0 +1,39 @@
+/**
+ * Scheduled Task Repository Types
+ *
+ * This file defines all repository-specific types derived from the DbScheduledTaskEntity.
+ */
+
+import type { DbScheduledTaskEntity, ScheduledTaskName } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// SCHEDULED TASK OPERATIONS
+// =============================================================================
+
+/**
+ * A registered task with its schedule and the run that follows it
+ * Used by: sync() repository method
+ */
+export type ScheduledTaskSyncRequest = Pick<DbScheduledTaskEntity, 'name' | 'cron' | 'nextRunAt'>;
+
+/**
+ * Claim of a due run by one scheduler instance
+ * Used by: claimRun() repository method
+ */
+export type ScheduledTaskClaim = {
+  name: ScheduledTaskName;
+  schedulerId: string;
+  now: Date;
+  /** When the task is due again after this run */
+  nextRunAt: Date;
+};
+
+/**
+ * Outcome of a finished run
+ * Used by: recordResult() repository method
+ */
+export type ScheduledTaskRunResult = {
+  finishedAt: Date;
+  durationMs: number;
+  error: string | null;
+};
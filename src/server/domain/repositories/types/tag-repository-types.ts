@@ -0,0 +1,61 @@
+/**
+ * Tag Repository Types
+ * 
+ * This file defines all repository-specific types derived from the DbTagEntity.
+ * All types are strict subsets of the database schema using Pick<>, Partial<>, and Omit<>.
+ */
+
+import type { DbTagEntity, DbTodoTagEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// TAG ENTITY OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a new tag
+ * Color is optional and falls back to the column default
+ */
+export type TagCreateRequest = {
+  name: DbTagEntity['name'];
+  color?: DbTagEntity['color'];
+  userId: DbTagEntity['userId'];
+};
+
+/**
+ * Data for updating tag basic information
+ */
+export type TagBasicInfoUpdate = Pick<DbTagEntity, 'name' | 'color'>;
+
+/**
+ * Partial update for tag basic information (all fields optional)
+ */
+export type TagBasicInfoPartialUpdate = Partial<TagBasicInfoUpdate>;
+
+// =============================================================================
+// TODO-TAG ASSOCIATION OPERATIONS
+// =============================================================================
+
+/**
+ * Data for assigning a tag to a todo
+ */
+export type TodoTagAssignData = Pick<DbTodoTagEntity, 'todoId' | 'tagId'>;
+
+/**
+ * Data for setting todo tags (complete replacement)
+ */
+export type TodoTagsSetData = {
+  todoId: string;
+  tagIds: string[];
+};
+
+// =============================================================================
+// QUERY FILTER TYPES
+// =============================================================================
+
+/**
+ * Todo filtering by tags
+ */
+export type TodoTagFilterQuery = {
+  tagIds: string[];
+  hasAllTags?: boolean; // true = must have ALL tags, false = must have ANY tag
+};
@@ -0,0 +1,18 @@
+/**
+ * Todo Change Repository Types
+ *
+ * This file defines all repository-specific types derived from the DbTodoChangeEntity.
+ * Changes are append-only, so there are no update types.
+ */
+
+import type { DbTodoChangeEntity } from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// TODO CHANGE OPERATIONS
+// =============================================================================
+
+/**
+ * A change to record and announce to the user's listening clients
+ * Used by: record() repository method
+ */
+export type TodoChangeRecordRequest = Pick<DbTodoChangeEntity, 'userId' | 'todoId' | 'type'>;
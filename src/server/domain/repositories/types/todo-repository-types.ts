@@ -11,6 +11,8 @@
  */
 
 import type { DbTodoEntity } from '~/server/infrastructure/entities';
+import type { RecurrenceRule, TodoPriority } from '~/server/domain/models';
+import type { CursorPageQuery } from './pagination-types';
 
 // =============================================================================
 // TODO CRUD TYPES
@@ -67,6 +69,42 @@ export type TodoTitleUpdate = Pick<DbTodoEntity, 'title'>;
  */
 export type TodoDescriptionUpdate = Pick<DbTodoEntity, 'description'>;
 
+/**
+ * Update todo priority only
+ * Used by: updatePriority() repository method
+ */
+export type TodoPriorityUpdate = Pick<DbTodoEntity, 'priority'>;
+
+/**
+ * Update todo schedule (start date and due date)
+ * Used by: updateSchedule() repository method
+ */
+export type TodoScheduleUpdate = Pick<DbTodoEntity, 'startDate' | 'dueDate'>;
+
+/**
+ * Partial schedule update (for optional date changes)
+ * Used by: updateSchedule() repository method when only one date changes
+ */
+export type TodoSchedulePartialUpdate = Partial<TodoScheduleUpdate>;
+
+/**
+ * Update todo repeat schedule (null = does not repeat)
+ * Used by: updateRecurrence() repository method
+ */
+export type TodoRecurrenceUpdate = Pick<DbTodoEntity, 'recurrence'>;
+
+/**
+ * Move todo to another project (null = Inbox)
+ * Used by: updateProject() repository method
+ */
+export type TodoProjectUpdate = Pick<DbTodoEntity, 'projectId'>;
+
+/**
+ * New manual-order rank for one todo
+ * Used by: updateRanks() repository method
+ */
+export type TodoRankUpdate = Pick<DbTodoEntity, 'id' | 'rank'>;
+
 // =============================================================================
 // TODO QUERY TYPES
 // =============================================================================
@@ -90,17 +128,60 @@ export type TodoUserQuery = {
 };
 
 /**
- * Query parameters for todo filtering and pagination
+ * Restrict a query to one project
+ * undefined = every project, null = Inbox (todos without a project)
+ */
+export type TodoProjectScope = {
+  projectId?: string | null;
+};
+
+/**
+ * A todo's position in the user's manual order
+ * Used by: findRanks() repository method
+ */
+export type TodoRankEntry = Pick<DbTodoEntity, 'id' | 'rank'>;
+
+/**
+ * Full-text search over a user's trash-free todos
+ * Bare words match as prefixes, quoted phrases match in order
+ * Used by: search() repository method
+ */
+export type TodoSearchQuery = {
+  query: string;
+  includeCompleted?: boolean;
+  limit?: number;
+};
+
+/**
+ * Due date window for scheduling queries (inclusive `from`, exclusive `to`)
+ * Used by: findDueInRange(), countDueInRange() repository methods
+ */
+export type TodoDueDateRange = {
+  from: Date;
+  to: Date;
+};
+
+/**
+ * Columns todo queries can be ordered by
+ * Sort records are applied in key order, e.g. { priority: -1, dueDate: 1, createdAt: -1 }
+ */
+export type TodoSortField = keyof Pick<DbTodoEntity, 'priority' | 'dueDate' | 'startDate' | 'createdAt' | 'updatedAt' | 'title' | 'rank'>;
+
+/**
+ * Sort specification for todo queries (1 = ascending, -1 = descending)
+ */
+export type TodoSort = Partial<Record<TodoSortField, 1 | -1>>;
+
+/**
+ * Query parameters for todo filtering and keyset pagination
  * Used by: findAll() repository method
  */
 export type TodoFilterQuery = {
   userId?: string;
   completed?: boolean;
   title?: string;
-  limit?: number;
-  skip?: number;
-  sort?: Record<string, 1 | -1>;
-};
+  sort?: TodoSort;
+} & CursorPageQuery;
 
 // =============================================================================
 // TODO SPECIALIZED TYPES
@@ -113,6 +194,13 @@ export type TodoFilterQuery = {
 export type TodoCreateRequest = {
   title: string;
   description?: string;
+  completed?: boolean; // defaults to false; set by imports
+  createdAt?: Date; // defaults to now; set by imports to keep the original creation time
+  priority?: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  projectId?: string | null;
   userId: string;
 };
 
@@ -124,6 +212,11 @@ export type TodoUpdateRequest = {
   title?: string;
   description?: string;
   completed?: boolean;
+  priority?: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  projectId?: string | null;
 };
 
 /**
@@ -148,9 +241,22 @@ export type TodoOperationType =
   | 'updateStatus'
   | 'updateTitle'
   | 'updateDescription'
+  | 'updatePriority'
+  | 'updateSchedule'
+  | 'updateRecurrence'
+  | 'updateProject'
+  | 'updateRanks'
   | 'delete'
+  | 'restore'
+  | 'search'
+  | 'findTrashed'
+  | 'purgeTrashed'
+  | 'purgeTrashedBefore'
   | 'findByStatus'
   | 'findByUserId'
+  | 'findOverdue'
+  | 'findDueInRange'
+  | 'findRanks'
   | 'toggleCompletion';
 
 /**
@@ -11,6 +11,7 @@
  */
 
 import type { DbUserEntity } from '~/server/infrastructure/entities';
+import type { CursorPageQuery } from './pagination-types';
 
 // =============================================================================
 // USER CRUD TYPES
@@ -129,18 +130,27 @@ export type UserActiveQuery = {
   activeOnly: true;
 };
 
+/**
+ * Filter for user listings and counts
+ * Used by: findAll() and count() repository methods
+ * `search` matches a substring of the name or email, case-insensitively
+ */
+export type UserListFilter = {
+  email?: string;
+  roles?: string[];
+  search?: string;
+};
+
 /**
  * Query parameters for user filtering and pagination
- * Used by: findAll() repository method
  */
 export type UserFilterQuery = {
   email?: string;
   roles?: string[];
+  search?: string;
   isActive?: boolean;
-  limit?: number;
-  skip?: number;
   sort?: Record<string, 1 | -1>;
-};
+} & CursorPageQuery;
 
 // =============================================================================
 // USER SPECIALIZED TYPES
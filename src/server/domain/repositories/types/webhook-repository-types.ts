@@ -0,0 +1,62 @@
+/**
+ * Webhook Repository Types
+ *
+ * This file defines all repository-specific types derived from the webhook entities.
+ */
+
+import type {
+  DbWebhookDeliveryAttemptEntity,
+  DbWebhookDeliveryEntity,
+  DbWebhookEndpointEntity,
+  WebhookDeliveryStatus,
+} from '~/server/infrastructure/db/schema';
+
+// =============================================================================
+// WEBHOOK ENDPOINT OPERATIONS
+// =============================================================================
+
+/**
+ * Data required for creating a webhook endpoint
+ */
+export type WebhookEndpointCreateRequest = Pick<DbWebhookEndpointEntity, 'userId' | 'url' | 'secret' | 'eventTypes'> & {
+  description?: DbWebhookEndpointEntity['description'];
+};
+
+/**
+ * Fields a webhook endpoint update may set, including its failure state when re-enabled
+ */
+export type WebhookEndpointPartialUpdate = Partial<Pick<
+  DbWebhookEndpointEntity,
+  'url' | 'description' | 'secret' | 'eventTypes' | 'enabled' | 'consecutiveFailures' | 'disabledAt' | 'disabledReason'
+>>;
+
+// =============================================================================
+// WEBHOOK DELIVERY OPERATIONS
+// =============================================================================
+
+/**
+ * A delivery to create before its first attempt
+ * Used by: createDeliveries() repository method
+ */
+export type WebhookDeliveryCreateRequest = Pick<DbWebhookDeliveryEntity, 'endpointId' | 'eventId' | 'eventType' | 'payload'>;
+
+/**
+ * One HTTP request made for a delivery and the delivery's status after it
+ * Used by: recordAttempt() repository method
+ */
+export type WebhookAttemptRecordRequest = Pick<
+  DbWebhookDeliveryAttemptEntity,
+  'deliveryId' | 'statusCode' | 'error' | 'durationMs'
+> & {
+  status: WebhookDeliveryStatus;
+};
+
+/**
+ * Result of a finished delivery for the endpoint's failure count
+ * Used by: recordEndpointOutcome() repository method
+ */
+export type WebhookEndpointOutcome = {
+  succeeded: boolean;
+  /** Disable the endpoint once this many deliveries in a row have failed */
+  disableAfterFailures: number;
+};
@@ -0,0 +1,15 @@
+/**
+ * Transaction boundary for services
+ * Repository calls made inside `run` share one database transaction
+ */
+export interface IUnitOfWork {
+  /**
+   * Run the work in a transaction, joining the current one when already inside `run`
+   */
+  run<T>(work: () => Promise<T>): Promise<T>;
+
+  /**
+   * Call back once the current transaction commits, or straight away outside one
+   */
+  afterCommit(callback: () => void): void;
+}
@@ -9,7 +9,9 @@ import type {
   UserBioUpdate,
   UserAvatarUpdate,
   UserWebsiteUpdate,
+  UserListFilter,
 } from './types/user-repository-types';
+import type { CursorPage, CursorPageQuery } from './types/pagination-types';
 
 /**
  * Repository interface for User operations
@@ -45,47 +47,50 @@ export interface IUserRepository {
   // =============================================================================
   // DEDICATED UPDATE METHODS (No generic update!)
   // =============================================================================
+
+  // Every update bumps the user's version. Passing the version the caller read as
+  // expectedVersion turns a write over a newer change into a ConflictError.
   
   /**
    * Update user basic information (name, bio, avatar, website)
    */
-  updateBasicInfo(id: string, input: UserBasicInfoPartialUpdate): Promise<void>;
+  updateBasicInfo(id: string, input: UserBasicInfoPartialUpdate, expectedVersion?: number): Promise<void>;
 
   /**
    * Update user roles
    */
-  updateRoles(id: string, input: UserRolesUpdate): Promise<void>;
+  updateRoles(id: string, input: UserRolesUpdate, expectedVersion?: number): Promise<void>;
 
   /**
    * Update user email
    */
-  updateEmail(id: string, input: UserEmailUpdate): Promise<void>;
+  updateEmail(id: string, input: UserEmailUpdate, expectedVersion?: number): Promise<void>;
 
 
   /**
    * Update user profile (name, bio, avatar, website - excludes sensitive fields)
    */
-  updateProfile(id: string, input: UserProfilePartialUpdate): Promise<User | null>;
+  updateProfile(id: string, input: UserProfilePartialUpdate, expectedVersion?: number): Promise<User | null>;
 
   /**
    * Update user name only
    */
-  updateName(id: string, input: UserNameUpdate): Promise<void>;
+  updateName(id: string, input: UserNameUpdate, expectedVersion?: number): Promise<void>;
 
   /**
    * Update user bio only
    */
-  updateBio(id: string, input: UserBioUpdate): Promise<void>;
+  updateBio(id: string, input: UserBioUpdate, expectedVersion?: number): Promise<void>;
 
   /**
    * Update user avatar only
    */
-  updateAvatar(id: string, input: UserAvatarUpdate): Promise<void>;
+  updateAvatar(id: string, input: UserAvatarUpdate, expectedVersion?: number): Promise<void>;
 
   /**
    * Update user website only
    */
-  updateWebsite(id: string, input: UserWebsiteUpdate): Promise<void>;
+  updateWebsite(id: string, input: UserWebsiteUpdate, expectedVersion?: number): Promise<void>;
 
   // =============================================================================
   // QUERY OPERATIONS
@@ -100,17 +105,15 @@ export interface IUserRepository {
    * Find all users with filtering and pagination
    */
   findAll(
-    filter?: Partial<User>,
+    filter?: UserListFilter,
     options?: {
-      limit?: number;
-      skip?: number;
       sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<User[]>;
+    } & CursorPageQuery
+  ): Promise<CursorPage<User>>;
 
   /**
    * Count users with filtering
    */
-  count(filter?: Partial<User>): Promise<number>;
+  count(filter?: UserListFilter): Promise<number>;
 
 }
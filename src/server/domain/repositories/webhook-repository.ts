@@ -0,0 +1,76 @@
+import type { WebhookDelivery, WebhookDeliveryAttempt, WebhookEndpoint, WebhookEventType } from '~/server/domain/models';
+import type {
+  WebhookAttemptRecordRequest,
+  WebhookDeliveryCreateRequest,
+  WebhookEndpointCreateRequest,
+  WebhookEndpointOutcome,
+  WebhookEndpointPartialUpdate,
+} from './types/webhook-repository-types';
+
+/**
+ * Repository interface for webhook endpoints, their deliveries and delivery attempts
+ * Endpoint methods taking a userId are user-scoped for security
+ */
+export interface IWebhookRepository {
+  createEndpoint(input: WebhookEndpointCreateRequest): Promise<WebhookEndpoint>;
+
+  findEndpointById(id: string, userId: string): Promise<WebhookEndpoint | null>;
+
+  /**
+   * All endpoints of a user, oldest first
+   */
+  findEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]>;
+
+  /**
+   * Enabled endpoints of a user subscribed to the event type
+   */
+  findSubscribedEndpoints(userId: string, eventType: WebhookEventType): Promise<WebhookEndpoint[]>;
+
+  updateEndpoint(id: string, input: WebhookEndpointPartialUpdate, userId: string): Promise<WebhookEndpoint>;
+
+  deleteEndpoint(id: string, userId: string): Promise<void>;
+
+  /**
+   * Count a finished delivery towards the endpoint's failures in a row, resetting them
+   * on success and disabling the endpoint once the limit is reached
+   * Returns the updated endpoint, or null when it no longer exists
+   */
+  recordEndpointOutcome(id: string, outcome: WebhookEndpointOutcome): Promise<WebhookEndpoint | null>;
+
+  /**
+   * Create deliveries, skipping any for an event already delivered to the same endpoint
+   * Returns the deliveries that were created
+   */
+  createDeliveries(deliveries: WebhookDeliveryCreateRequest[]): Promise<WebhookDelivery[]>;
+
+  /**
+   * A delivery together with its endpoint (not user-scoped: used by the delivery job)
+   */
+  findDeliveryWithEndpoint(id: string): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint } | null>;
+
+  /**
+   * Most recent deliveries to an endpoint, newest first
+   */
+  findDeliveriesByEndpointId(endpointId: string, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Attempts made for a delivery, oldest first
+   */
+  findAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]>;
+
+  /**
+   * Log an attempt and update the delivery's status, attempt count and last result
+   */
+  recordAttempt(input: WebhookAttemptRecordRequest): Promise<void>;
+
+  /**
+   * Give up on a pending delivery without attempting it
+   */
+  cancelDelivery(id: string, reason: string): Promise<void>;
+
+  /**
+   * Permanently delete deliveries (and their attempts) created before the cutoff
+   * Returns how many deliveries were deleted
+   */
+  purgeDeliveriesBefore(cutoff: Date): Promise<number>;
+}
@@ -0,0 +1,66 @@
+import type { DomainEvent, DomainEventType } from '~/server/domain';
+import { retryWithBackoff, type RetryOptions } from '~/server/utils';
+
+export type DomainEventHandler<T extends DomainEventType = DomainEventType> =
+  (event: DomainEvent<T>) => Promise<void> | void;
+
+/**
+ * Retries of a failing handler within one delivery, before the whole event is retried later
+ */
+const HANDLER_RETRY: RetryOptions = { maxRetries: 2, initialDelay: 100 };
+
+/**
+ * In-process publish/subscribe for domain events read from the outbox
+ * Delivery is at-least-once: an event that failed for one subscriber is delivered
+ * again to all of them, so handlers must be idempotent (the event id is stable)
+ */
+export class DomainEventBus {
+  private handlers = new Map<DomainEventType, Set<DomainEventHandler>>();
+  private allHandlers = new Set<DomainEventHandler>();
+
+  /**
+   * Handle every event of one type; returns a function that unsubscribes
+   */
+  subscribe<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void {
+    const handlers = this.handlers.get(type) ?? new Set<DomainEventHandler>();
+    // The bus only calls it with events of this type
+    const untypedHandler = handler as DomainEventHandler;
+    handlers.add(untypedHandler);
+    this.handlers.set(type, handlers);
+    return () => handlers.delete(untypedHandler);
+  }
+
+  /**
+   * Handle every event regardless of type; returns a function that unsubscribes
+   */
+  subscribeAll(handler: DomainEventHandler): () => void {
+    this.allHandlers.add(handler);
+    return () => this.allHandlers.delete(handler);
+  }
+
+  /**
+   * Run every subscriber of the event, each retried with backoff
+   * All subscribers get their turn; the first failure is rethrown afterwards
+   */
+  async deliver(event: DomainEvent): Promise<void> {
+    const handlers = [...(this.handlers.get(event.type) ?? []), ...this.allHandlers];
+    const failures: unknown[] = [];
+
+    for (const handler of handlers) {
+      try {
+        await retryWithBackoff(async () => handler(event), HANDLER_RETRY);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+  }
+}
+
+/**
+ * Process-wide bus; subscribers register once at startup
+ */
+export const domainEventBus = new DomainEventBus();
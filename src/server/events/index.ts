@@ -0,0 +1,3 @@
+// Domain events - In-process delivery of events from the outbox
+export * from './domain-event-bus';
+export * from './subscribers';
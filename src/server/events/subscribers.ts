@@ -0,0 +1,35 @@
+import type { ILogger } from '@thaitype/core-utils';
+import type { ServiceContainer } from '~/server/context/app-context';
+import type { DomainEventBus } from './domain-event-bus';
+
+let registered = false;
+
+/**
+ * Register the application's event subscribers on the bus, once per process
+ */
+export function registerEventSubscribers(
+  bus: DomainEventBus,
+  logger: ILogger,
+  createContainer: () => Promise<ServiceContainer>
+): void {
+  if (registered) {
+    return;
+  }
+  registered = true;
+
+  bus.subscribeAll((event) => {
+    logger.info('Domain event delivered', {
+      eventId: event.id,
+      type: event.type,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+      attempts: event.attempts,
+    });
+  });
+
+  // Fan out to the users' webhook endpoints; sending happens in the job worker
+  bus.subscribeAll(async (event) => {
+    const container = await createContainer();
+    await container.webhookService.handleDomainEvent(event);
+  });
+}
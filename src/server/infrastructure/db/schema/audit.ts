@@ -0,0 +1,45 @@
+import { index, jsonb, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+/**
+ * Kinds of entities whose changes are recorded in the audit log
+ */
+export const AUDIT_ENTITY_TYPES = ['todo', 'checklist_item', 'user', 'role'] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+/**
+ * Changed fields of an entity, keyed by field name
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Audit log table - Append-only record of who changed what, and when
+ * Rows are never updated, so there is no updatedAt; actors who are deleted later
+ * leave their entries behind with a null actor
+ */
+export const auditLogs = pgTable('audit_log', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  actorId: uuid('actor_id').references(() => user.id, { onDelete: 'set null' }),
+  // Operation name, e.g. `todo.update` or `role.setUserRoles`
+  action: varchar('action', { length: 100 }).notNull(),
+  entityType: varchar('entity_type', { length: 50 }).$type<AuditEntityType>().notNull(),
+  entityId: text('entity_id'),
+  // Only the fields that changed: their values before and after the operation
+  before: jsonb('before').$type<AuditSnapshot>(),
+  after: jsonb('after').$type<AuditSnapshot>(),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  requestId: varchar('request_id', { length: 100 }),
+}, (table) => [
+  index('audit_log_created_at_idx').on(table.createdAt),
+  index('audit_log_actor_id_created_at_idx').on(table.actorId, table.createdAt),
+  index('audit_log_entity_idx').on(table.entityType, table.entityId, table.createdAt),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbAuditLogEntity = typeof auditLogs.$inferSelect;
+export type DbAuditLogInsert = typeof auditLogs.$inferInsert;
@@ -1,4 +1,4 @@
-import { timestamp, uuid } from 'drizzle-orm/pg-core';
+import { integer, timestamp, uuid } from 'drizzle-orm/pg-core';
 
 /**
  * Base fields for all entities using Drizzle native features
@@ -10,6 +10,23 @@ export const baseFields = {
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow().$onUpdate(() => new Date()),
 } as const;
 
+/**
+ * Soft delete marker for entities that go to the trash before being removed
+ * Rows with a deletedAt are hidden from regular queries and purged after the retention period
+ */
+export const softDeleteFields = {
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+} as const;
+
+/**
+ * Row version for optimistic concurrency control
+ * Every update increments it; writers that pass the version they read get a conflict
+ * instead of overwriting a newer change
+ */
+export const versionFields = {
+  version: integer('version').notNull().default(1),
+} as const;
+
 /**
  * Type helper to extract base field types
  */
@@ -17,4 +34,18 @@ export type BaseFields = {
   readonly id: string;
   readonly createdAt: Date;
   readonly updatedAt: Date;
-};
\ No newline at end of file
+};
+
+/**
+ * Type helper to extract soft delete field types
+ */
+export type SoftDeleteFields = {
+  readonly deletedAt: Date | null;
+};
+
+/**
+ * Type helper to extract version field types
+ */
+export type VersionFields = {
+  readonly version: number;
+};
@@ -0,0 +1,26 @@
+import { index, pgTable, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields } from './base';
+import { user } from './user';
+
+/**
+ * Calendar feeds table - Private iCalendar URLs a user has handed to calendar apps
+ * The URL's token is shown once when the feed is created; only its SHA-256 hash is stored.
+ * Deleting the row revokes the URL
+ */
+export const calendarFeeds = pgTable('calendar_feed', {
+  ...baseFields,
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  // Where the URL is used, e.g. "Phone"
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(),
+  lastAccessedAt: timestamp('last_accessed_at', { withTimezone: true }),
+}, (table) => [
+  uniqueIndex('calendar_feed_token_hash_idx').on(table.tokenHash),
+  index('calendar_feed_user_id_idx').on(table.userId),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbCalendarFeedEntity = typeof calendarFeeds.$inferSelect;
+export type DbCalendarFeedInsert = typeof calendarFeeds.$inferInsert;
@@ -0,0 +1,37 @@
+import { boolean, doublePrecision, index, pgTable, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields, type BaseFields } from './base';
+import { todos } from './todo';
+import { user } from './user';
+
+/**
+ * Checklist items table - Subtasks that belong to a single todo
+ * Items are removed with their todo via the foreign key cascade
+ */
+export const checklistItems = pgTable('todo_checklist_item', {
+  ...baseFields,
+  title: varchar('title', { length: 200 }).notNull(),
+  completed: boolean('completed').notNull().default(false),
+  // Order within the todo's checklist (lowest rank first), same scheme as todo ranks
+  rank: doublePrecision('rank').notNull().default(0),
+  todoId: uuid('todo_id').notNull().references(() => todos.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+}, (table) => [
+  index('todo_checklist_item_todo_id_rank_idx').on(table.todoId, table.rank),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbChecklistItemEntity = typeof checklistItems.$inferSelect;
+export type DbChecklistItemInsert = typeof checklistItems.$inferInsert;
+
+/**
+ * Domain checklist item model - for service layer (string-based IDs)
+ */
+export interface ChecklistItem extends BaseFields {
+  title: string;
+  completed: boolean;
+  rank: number;
+  todoId: string;
+  userId: string;
+}
@@ -8,37 +8,94 @@
 
 // Schema tables
 export { user as users } from './user';
-export { todos, todosRelations } from './todo';
-export { roles, userRoles } from './role';
+export { todos, todosRelations, todoPriorityEnum, TODO_PRIORITIES, TODO_SEARCH_CONFIG } from './todo';
+export { roles, userRoles, permissions, rolePermissions, PERMISSIONS, ADMIN_ROLE, DEFAULT_ROLE_PERMISSIONS } from './role';
+export { tags, todoTags } from './tag';
+export { projects } from './project';
+export { checklistItems } from './checklist';
+export { todoRevisions, TODO_REVISION_FIELDS } from './todo-revision';
+export { todoChanges, TODO_CHANGE_TYPES, TODO_CHANGE_CHANNEL } from './todo-change';
+export { auditLogs, AUDIT_ENTITY_TYPES } from './audit';
+export { outboxEvents, DOMAIN_EVENT_TYPES } from './outbox';
+export { jobs, JOB_NAMES, JOB_STATUSES, JOB_ENQUEUED_CHANNEL } from './job';
+export { scheduledTasks, SCHEDULED_TASK_NAMES } from './scheduled-task';
+export { webhookEndpoints, webhookDeliveries, webhookDeliveryAttempts, WEBHOOK_EVENT_TYPES, WEBHOOK_TEST_EVENT, WEBHOOK_DELIVERY_STATUSES } from './webhook';
+export { calendarFeeds } from './calendar-feed';
+export { personalAccessTokens, ACCESS_TOKEN_SCOPES } from './personal-access-token';
 export { session, account, verification } from './auth';
 
 // Re-import for schema object
 import { user } from './user';
-import { todos, todosRelations } from './todo';
-import { roles, userRoles } from './role';
+import { todos, todosRelations, todoPriorityEnum } from './todo';
+import { roles, userRoles, permissions, rolePermissions } from './role';
+import { tags, todoTags } from './tag';
+import { projects } from './project';
+import { checklistItems } from './checklist';
+import { todoRevisions } from './todo-revision';
+import { todoChanges } from './todo-change';
+import { auditLogs } from './audit';
+import { outboxEvents } from './outbox';
+import { jobs } from './job';
+import { scheduledTasks } from './scheduled-task';
+import { webhookEndpoints, webhookDeliveries, webhookDeliveryAttempts } from './webhook';
+import { calendarFeeds } from './calendar-feed';
+import { personalAccessTokens } from './personal-access-token';
 import { session, account, verification } from './auth';
 
 // Database entity types (with database-specific fields)
 export type { DbUserEntity, DbUserInsert, DbUserUpdate } from './user';
-export type { DbTodoEntity, DbTodoInsert, DbTodoUpdate } from './todo';
-export type { DbRoleEntity, DbRoleInsert, DbUserRoleEntity, DbUserRoleInsert } from './role';
+export type { DbTodoEntity, DbTodoInsert, DbTodoUpdate, TodoPriority } from './todo';
+export type { DbRoleEntity, DbRoleInsert, DbUserRoleEntity, DbUserRoleInsert, DbPermissionEntity, DbPermissionInsert, DbRolePermissionEntity, DbRolePermissionInsert, PermissionName } from './role';
+export type { DbTagEntity, DbTagInsert, DbTodoTagEntity, DbTodoTagInsert } from './tag';
+export type { DbProjectEntity, DbProjectInsert } from './project';
+export type { DbChecklistItemEntity, DbChecklistItemInsert } from './checklist';
+export type { DbTodoRevisionEntity, DbTodoRevisionInsert, TodoRevisionField, TodoRevisionValue } from './todo-revision';
+export type { DbTodoChangeEntity, DbTodoChangeInsert, TodoChangeType } from './todo-change';
+export type { DbAuditLogEntity, DbAuditLogInsert, AuditEntityType, AuditSnapshot } from './audit';
+export type { DbOutboxEventEntity, DbOutboxEventInsert, DomainEventType } from './outbox';
+export type { DbJobEntity, DbJobInsert, JobName, JobStatus } from './job';
+export type { DbScheduledTaskEntity, DbScheduledTaskInsert, ScheduledTaskName } from './scheduled-task';
+export type { DbWebhookEndpointEntity, DbWebhookEndpointInsert, DbWebhookDeliveryEntity, DbWebhookDeliveryInsert, DbWebhookDeliveryAttemptEntity, DbWebhookDeliveryAttemptInsert, WebhookEventType, WebhookDeliveryStatus } from './webhook';
+export type { DbCalendarFeedEntity, DbCalendarFeedInsert } from './calendar-feed';
+export type { DbPersonalAccessTokenEntity, DbPersonalAccessTokenInsert, AccessTokenScope } from './personal-access-token';
 export type { AuthUser, AuthUserInsert, AuthSession, AuthSessionInsert, AuthAccount, AuthAccountInsert, AuthVerification, AuthVerificationInsert } from './auth';
 
 // Domain model types (for service layer - string-based IDs)
 export type { User } from './user';
 export type { Todo } from './todo';
-export type { Role } from './role';
+export type { Role, Permission } from './role';
+export type { Tag } from './tag';
+export type { Project } from './project';
+export type { ChecklistItem } from './checklist';
 
 // Base types
-export type { BaseFields } from './base';
-export { baseFields } from './base';
+export type { BaseFields, SoftDeleteFields, VersionFields } from './base';
+export { baseFields, softDeleteFields, versionFields } from './base';
 
 // Composite schema for Drizzle client
 export const schema = {
+  todoPriorityEnum,
   todos,
   todosRelations,
   roles,
   userRoles,
+  permissions,
+  rolePermissions,
+  tags,
+  todoTags,
+  projects,
+  checklistItems,
+  todoRevisions,
+  todoChanges,
+  auditLogs,
+  outboxEvents,
+  jobs,
+  scheduledTasks,
+  webhookEndpoints,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  calendarFeeds,
+  personalAccessTokens,
   // Better Auth tables
   user,
   session,
@@ -0,0 +1,52 @@
+import { sql } from 'drizzle-orm';
+import { index, integer, jsonb, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { baseFields } from './base';
+
+/**
+ * Kinds of background job; each has a definition in `src/server/jobs/definitions.ts`
+ */
+export const JOB_NAMES = ['trash.purge', 'sync.purge', 'events.dispatch', 'events.purge', 'webhook.deliver'] as const;
+
+export type JobName = (typeof JOB_NAMES)[number];
+
+/**
+ * Job lifecycle: pending (waiting for runAt) → running → completed,
+ * or back to pending for a retry, or dead once its attempts are used up
+ */
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Postgres NOTIFY channel that wakes idle workers when a job is enqueued
+ */
+export const JOB_ENQUEUED_CHANNEL = 'job_enqueued';
+
+/**
+ * Jobs table - Postgres-backed queue for deferred work
+ * Workers claim due pending jobs with `FOR UPDATE SKIP LOCKED`, so each job runs
+ * on one worker at a time; lockedAt tells a crashed worker's jobs apart
+ */
+export const jobs = pgTable('job', {
+  ...baseFields,
+  name: varchar('name', { length: 100 }).$type<JobName>().notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull().default({}),
+  status: varchar('status', { length: 20 }).$type<JobStatus>().notNull().default('pending'),
+  // Earliest time the job may run; pushed back by retries
+  runAt: timestamp('run_at', { withTimezone: true }).notNull().defaultNow(),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull(),
+  lastError: text('last_error'),
+  lockedBy: varchar('locked_by', { length: 100 }),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => [
+  index('job_pending_run_at_idx').on(table.runAt).where(sql`${table.status} = 'pending'`),
+  index('job_name_status_idx').on(table.name, table.status),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbJobEntity = typeof jobs.$inferSelect;
+export type DbJobInsert = typeof jobs.$inferInsert;
@@ -0,0 +1,49 @@
+import { sql } from 'drizzle-orm';
+import { index, integer, jsonb, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+
+/**
+ * Domain events services emit; payload shapes live with the domain models
+ */
+export const DOMAIN_EVENT_TYPES = [
+  'TodoCreated',
+  'TodoUpdated',
+  'TodoCompleted',
+  'TodoReopened',
+  'TodoDeleted',
+  'TodoRestored',
+  'TrashEmptied',
+  'TodoDigest',
+  'UserProfileUpdated',
+  'RoleAssigned',
+  'RoleRemoved',
+] as const;
+
+export type DomainEventType = (typeof DOMAIN_EVENT_TYPES)[number];
+
+/**
+ * Outbox table - Domain events waiting to be delivered to subscribers
+ * Events are written in the same transaction as the change they describe and
+ * marked processed once every subscriber has handled them; failed deliveries
+ * are retried from nextAttemptAt. A dispatcher claims the events it delivers by
+ * setting lockedAt, so concurrent dispatchers never deliver the same event
+ */
+export const outboxEvents = pgTable('outbox_event', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  type: varchar('type', { length: 100 }).$type<DomainEventType>().notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).notNull().defaultNow(),
+  lastError: text('last_error'),
+  processedAt: timestamp('processed_at', { withTimezone: true }),
+  lockedBy: varchar('locked_by', { length: 100 }),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+}, (table) => [
+  index('outbox_event_pending_idx').on(table.nextAttemptAt).where(sql`${table.processedAt} is null`),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbOutboxEventEntity = typeof outboxEvents.$inferSelect;
+export type DbOutboxEventInsert = typeof outboxEvents.$inferInsert;
@@ -0,0 +1,50 @@
+import { index, jsonb, pgTable, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields } from './base';
+import { user } from './user';
+
+/**
+ * What a personal access token may do, checked by `protectedProcedure` for token requests
+ *
+ * - todos:read / todos:write: todos, tags and projects
+ * - profile:read / profile:write: the user's own profile and access
+ * - webhooks:read / webhooks:write: webhook endpoints and deliveries
+ * - admin: procedures that need a role permission; the owner must still hold the permission
+ *
+ * Calendar feeds and access tokens themselves can only be managed from a signed-in session.
+ */
+export const ACCESS_TOKEN_SCOPES = [
+  'todos:read',
+  'todos:write',
+  'profile:read',
+  'profile:write',
+  'webhooks:read',
+  'webhooks:write',
+  'admin',
+] as const;
+
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
+
+/**
+ * Personal access tokens table - Bearer tokens that let scripts call the API as a user
+ * The token is shown once when it is created; only its SHA-256 hash is stored.
+ * Deleting the row revokes the token
+ */
+export const personalAccessTokens = pgTable('personal_access_token', {
+  ...baseFields,
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(),
+  scopes: jsonb('scopes').$type<AccessTokenScope[]>().notNull(),
+  // Null for tokens that never expire
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+}, (table) => [
+  uniqueIndex('personal_access_token_token_hash_idx').on(table.tokenHash),
+  index('personal_access_token_user_id_idx').on(table.userId),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbPersonalAccessTokenEntity = typeof personalAccessTokens.$inferSelect;
+export type DbPersonalAccessTokenInsert = typeof personalAccessTokens.$inferInsert;
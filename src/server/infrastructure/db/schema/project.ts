@@ -0,0 +1,31 @@
+import { pgTable, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields, type BaseFields } from './base';
+import { user } from './user';
+
+/**
+ * Projects table - User-owned lists that group todos
+ * Todos without a project belong to the user's Inbox
+ */
+export const projects = pgTable('project', {
+  ...baseFields,
+  name: varchar('name', { length: 100 }).notNull(),
+  color: varchar('color', { length: 7 }).notNull().default('#228be6'),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+}, (table) => [
+  uniqueIndex('project_user_id_name_idx').on(table.userId, table.name),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbProjectEntity = typeof projects.$inferSelect;
+export type DbProjectInsert = typeof projects.$inferInsert;
+
+/**
+ * Domain project model - for service layer (string-based IDs)
+ */
+export interface Project extends BaseFields {
+  name: string;
+  color: string;
+  userId: string;
+}
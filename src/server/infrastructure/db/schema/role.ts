@@ -1,7 +1,29 @@
-import { pgTable, varchar, text, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, text, uuid, uniqueIndex } from 'drizzle-orm/pg-core';
 import { baseFields, type BaseFields } from './base';
 import { user } from './user';
 
+/**
+ * Permissions known to the application, named `<resource>:<action>`
+ * Procedures check these rather than role names; roles only group them. Each one is inserted
+ * and granted to `admin` by a migration, so add a custom migration with every new permission
+ */
+export const PERMISSIONS = ['users:read', 'users:write', 'roles:read', 'roles:write', 'audit:read', 'schedules:read'] as const;
+
+export type PermissionName = (typeof PERMISSIONS)[number];
+
+/**
+ * Role whose members administer the application; at least one user must always hold it
+ */
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Permissions granted to the built-in roles by the migrations; `pnpm db:seed` re-syncs them
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, readonly PermissionName[]> = {
+  [ADMIN_ROLE]: PERMISSIONS,
+  user: [],
+};
+
 /**
  * Roles table - Master data for user roles
  */
@@ -20,6 +42,26 @@ export const userRoles = pgTable('user_role', {
   roleId: uuid('role_id').notNull().references(() => roles.id, { onDelete: 'cascade' }),
 });
 
+/**
+ * Permissions table - Master data for grantable permissions
+ */
+export const permissions = pgTable('permission', {
+  ...baseFields,
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  description: text('description'),
+});
+
+/**
+ * Role-Permissions junction table - Many-to-many relationship between roles and permissions
+ */
+export const rolePermissions = pgTable('role_permission', {
+  ...baseFields,
+  roleId: uuid('role_id').notNull().references(() => roles.id, { onDelete: 'cascade' }),
+  permissionId: uuid('permission_id').notNull().references(() => permissions.id, { onDelete: 'cascade' }),
+}, (table) => [
+  uniqueIndex('role_permission_role_id_permission_id_idx').on(table.roleId, table.permissionId),
+]);
+
 /**
  * Database entity types following entity-based architecture naming convention
  */
@@ -27,6 +69,10 @@ export type DbRoleEntity = typeof roles.$inferSelect;
 export type DbRoleInsert = typeof roles.$inferInsert;
 export type DbUserRoleEntity = typeof userRoles.$inferSelect;
 export type DbUserRoleInsert = typeof userRoles.$inferInsert;
+export type DbPermissionEntity = typeof permissions.$inferSelect;
+export type DbPermissionInsert = typeof permissions.$inferInsert;
+export type DbRolePermissionEntity = typeof rolePermissions.$inferSelect;
+export type DbRolePermissionInsert = typeof rolePermissions.$inferInsert;
 
 /**
  * Domain role model - for service layer (string-based IDs)
@@ -34,4 +80,12 @@ export type DbUserRoleInsert = typeof userRoles.$inferInsert;
 export interface Role extends BaseFields {
   name: string;
   description?: string | null;
-}
\ No newline at end of file
+}
+
+/**
+ * Domain permission model - for service layer (string-based IDs)
+ */
+export interface Permission extends BaseFields {
+  name: string;
+  description?: string | null;
+}
@@ -0,0 +1,43 @@
+import { integer, pgTable, text, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { baseFields } from './base';
+
+/**
+ * Recurring maintenance tasks; each has a cron schedule in `src/server/jobs/schedules.ts`
+ */
+export const SCHEDULED_TASK_NAMES = [
+  'auth.purge-sessions',
+  'auth.purge-verifications',
+  'db.analyze',
+  'trash.purge',
+  'sync.purge',
+  'events.dispatch',
+  'events.purge',
+  'webhooks.purge',
+  'todos.digest',
+] as const;
+
+export type ScheduledTaskName = (typeof SCHEDULED_TASK_NAMES)[number];
+
+/**
+ * Scheduled tasks table - One row per registered task with the state of its runs
+ * Shared by every scheduler instance: a run is claimed by moving nextRunAt forward
+ * while holding the task's advisory lock, so each tick runs once across replicas
+ */
+export const scheduledTasks = pgTable('scheduled_task', {
+  ...baseFields,
+  name: varchar('name', { length: 100 }).$type<ScheduledTaskName>().notNull().unique(),
+  cron: varchar('cron', { length: 100 }).notNull(),
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }).notNull(),
+  lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+  lastFinishedAt: timestamp('last_finished_at', { withTimezone: true }),
+  lastDurationMs: integer('last_duration_ms'),
+  // Null when the last finished run succeeded
+  lastError: text('last_error'),
+  lastRunBy: varchar('last_run_by', { length: 100 }),
+});
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbScheduledTaskEntity = typeof scheduledTasks.$inferSelect;
+export type DbScheduledTaskInsert = typeof scheduledTasks.$inferInsert;
@@ -0,0 +1,44 @@
+import { pgTable, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields, type BaseFields } from './base';
+import { todos } from './todo';
+import { user } from './user';
+
+/**
+ * Tags table - User-owned labels for todos
+ */
+export const tags = pgTable('tag', {
+  ...baseFields,
+  name: varchar('name', { length: 50 }).notNull(),
+  color: varchar('color', { length: 7 }).notNull().default('#228be6'),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+}, (table) => [
+  uniqueIndex('tag_user_id_name_idx').on(table.userId, table.name),
+]);
+
+/**
+ * Todo-Tags junction table - Many-to-many relationship between todos and tags
+ */
+export const todoTags = pgTable('todo_tag', {
+  ...baseFields,
+  todoId: uuid('todo_id').notNull().references(() => todos.id, { onDelete: 'cascade' }),
+  tagId: uuid('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+}, (table) => [
+  uniqueIndex('todo_tag_todo_id_tag_id_idx').on(table.todoId, table.tagId),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbTagEntity = typeof tags.$inferSelect;
+export type DbTagInsert = typeof tags.$inferInsert;
+export type DbTodoTagEntity = typeof todoTags.$inferSelect;
+export type DbTodoTagInsert = typeof todoTags.$inferInsert;
+
+/**
+ * Domain tag model - for service layer (string-based IDs)
+ */
+export interface Tag extends BaseFields {
+  name: string;
+  color: string;
+  userId: string;
+}
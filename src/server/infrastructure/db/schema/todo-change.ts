@@ -0,0 +1,36 @@
+import { bigserial, index, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+/**
+ * Kinds of todo change streamed to a user's open clients
+ */
+export const TODO_CHANGE_TYPES = ['created', 'updated', 'deleted', 'restored'] as const;
+
+export type TodoChangeType = (typeof TODO_CHANGE_TYPES)[number];
+
+/**
+ * Postgres NOTIFY channel announcing new todo changes
+ */
+export const TODO_CHANGE_CHANNEL = 'todo_change';
+
+/**
+ * Todo changes table - Feed of changes for real-time sync
+ * The increasing id doubles as the event id clients resume from after reconnecting.
+ * todoId has no foreign key so changes outlive todos purged from the trash.
+ */
+export const todoChanges = pgTable('todo_change', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  todoId: uuid('todo_id').notNull(),
+  type: varchar('type', { length: 20 }).$type<TodoChangeType>().notNull(),
+}, (table) => [
+  index('todo_change_user_id_id_idx').on(table.userId, table.id),
+  index('todo_change_created_at_idx').on(table.createdAt),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbTodoChangeEntity = typeof todoChanges.$inferSelect;
+export type DbTodoChangeInsert = typeof todoChanges.$inferInsert;
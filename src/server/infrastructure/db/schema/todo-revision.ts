@@ -0,0 +1,37 @@
+import { index, jsonb, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { todos } from './todo';
+import { user } from './user';
+
+/**
+ * Todo fields whose changes are kept in the revision history
+ */
+export const TODO_REVISION_FIELDS = ['title', 'description', 'completed'] as const;
+
+export type TodoRevisionField = (typeof TODO_REVISION_FIELDS)[number];
+
+/**
+ * Value of a revised field: a title, a description (or null) or a completion flag
+ */
+export type TodoRevisionValue = string | boolean | null;
+
+/**
+ * Todo revisions table - Field-level change history shown on each todo
+ * One row per changed field; rows are never updated and go away with their todo
+ */
+export const todoRevisions = pgTable('todo_revision', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  todoId: uuid('todo_id').notNull().references(() => todos.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  field: varchar('field', { length: 50 }).$type<TodoRevisionField>().notNull(),
+  previousValue: jsonb('previous_value').$type<TodoRevisionValue>(),
+  newValue: jsonb('new_value').$type<TodoRevisionValue>(),
+}, (table) => [
+  index('todo_revision_todo_id_created_at_idx').on(table.todoId, table.createdAt),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbTodoRevisionEntity = typeof todoRevisions.$inferSelect;
+export type DbTodoRevisionInsert = typeof todoRevisions.$inferInsert;
@@ -1,19 +1,67 @@
-import { boolean, pgTable, text, uuid, varchar } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
-import { baseFields, type BaseFields } from './base';
+import { boolean, customType, doublePrecision, index, jsonb, pgEnum, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { baseFields, softDeleteFields, versionFields, type BaseFields, type SoftDeleteFields, type VersionFields } from './base';
 import { user } from './user';
+import { projects } from './project';
+import type { RecurrenceRule } from '~/lib/recurrence';
+
+/**
+ * Todo priority levels, ordered from lowest to highest
+ * PostgreSQL sorts enum values by declaration order, so `desc(priority)` puts urgent first
+ */
+export const TODO_PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const;
+
+export type TodoPriority = (typeof TODO_PRIORITIES)[number];
+
+export const todoPriorityEnum = pgEnum('todo_priority', TODO_PRIORITIES);
+
+/**
+ * Text search configuration used for the todo search vector and queries against it
+ */
+export const TODO_SEARCH_CONFIG = 'english';
+
+/**
+ * PostgreSQL full-text search document
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 /**
  * Todos table schema with minimal fields
  */
 export const todos = pgTable('todo', {
   ...baseFields,
+  ...softDeleteFields,
+  ...versionFields,
   
   title: varchar('title', { length: 200 }).notNull(),
   description: text('description'),
   completed: boolean('completed').notNull().default(false),
+  priority: todoPriorityEnum('priority').notNull().default('none'),
+  // Scheduling: optional start date and due date (overdue = due date passed while not completed)
+  startDate: timestamp('start_date', { withTimezone: true }),
+  dueDate: timestamp('due_date', { withTimezone: true }),
+  // Repeat schedule; completing the todo spawns the next occurrence and clears it here
+  recurrence: jsonb('recurrence').$type<RecurrenceRule>(),
+  // Owning project; null means the todo lives in the user's Inbox
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  // Manual ordering key: fractional so a move only rewrites the moved todo (lowest rank first)
+  rank: doublePrecision('rank').notNull().default(0),
   userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
-});
+  // Full-text search document maintained by PostgreSQL (TODO_SEARCH_CONFIG); title matches rank above description matches
+  searchVector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')`
+  ),
+}, (table) => [
+  index('todo_user_id_due_date_idx').on(table.userId, table.dueDate),
+  index('todo_user_id_project_id_idx').on(table.userId, table.projectId),
+  index('todo_user_id_rank_idx').on(table.userId, table.rank),
+  index('todo_deleted_at_idx').on(table.deletedAt),
+  index('todo_search_vector_idx').using('gin', table.searchVector),
+]);
 
 /**
  * Relations definition for type-safe joins
@@ -23,6 +71,10 @@ export const todosRelations = relations(todos, ({ one }) => ({
     fields: [todos.userId],
     references: [user.id],
   }),
+  project: one(projects, {
+    fields: [todos.projectId],
+    references: [projects.id],
+  }),
 }));
 
 /**
@@ -43,9 +95,15 @@ export type DbTodoUpdate = Partial<Omit<DbTodoEntity, 'id' | 'createdAt' | 'user
 /**
  * Domain todo model - string-based for service layer
  */
-export interface Todo extends BaseFields {
+export interface Todo extends BaseFields, SoftDeleteFields, VersionFields {
   title: string;
   description?: string | null;
   completed: boolean;
+  priority: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  projectId?: string | null;
+  rank: number;
   userId: string;
 }
\ No newline at end of file
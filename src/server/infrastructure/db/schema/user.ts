@@ -1,5 +1,5 @@
 import { boolean, pgTable, text } from 'drizzle-orm/pg-core';
-import { baseFields, type BaseFields } from './base';
+import { baseFields, versionFields, type BaseFields, type VersionFields } from './base';
 
 /**
  * Users table schema with minimal fields
@@ -7,6 +7,7 @@ import { baseFields, type BaseFields } from './base';
  */
 export const user = pgTable('user', {
   ...baseFields,
+  ...versionFields,
   // Core fields required by Better Auth
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
@@ -37,7 +38,7 @@ export type DbUserUpdate = Partial<Omit<DbUserEntity, 'id' | 'createdAt'>>;
  * Domain user model - string-based for service layer
  * Roles are fetched via JOINs and aggregated as string array
  */
-export interface User extends BaseFields {
+export interface User extends BaseFields, VersionFields {
   email: string;
   name: string;
   roles: string[];
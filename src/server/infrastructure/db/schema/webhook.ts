@@ -0,0 +1,102 @@
+import { boolean, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { baseFields } from './base';
+import type { DomainEventType } from './outbox';
+import { user } from './user';
+
+/**
+ * Domain events users can subscribe a webhook endpoint to: those about their own todos and profile,
+ * and the daily digest of their due todos
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'TodoCreated',
+  'TodoUpdated',
+  'TodoCompleted',
+  'TodoReopened',
+  'TodoDeleted',
+  'TodoRestored',
+  'TrashEmptied',
+  'TodoDigest',
+  'UserProfileUpdated',
+] as const satisfies readonly DomainEventType[];
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Event type of the deliveries made by "send test event"
+ */
+export const WEBHOOK_TEST_EVENT = 'WebhookTest';
+
+/**
+ * Delivery lifecycle: pending (being attempted or waiting for a retry) → succeeded or failed
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * Webhook endpoints table - URLs a user has asked to receive events at
+ * Deliveries are signed with the endpoint's secret; the endpoint is disabled
+ * automatically after too many deliveries in a row have failed
+ */
+export const webhookEndpoints = pgTable('webhook_endpoint', {
+  ...baseFields,
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  url: varchar('url', { length: 2048 }).notNull(),
+  description: varchar('description', { length: 200 }),
+  secret: varchar('secret', { length: 100 }).notNull(),
+  eventTypes: jsonb('event_types').$type<WebhookEventType[]>().notNull(),
+  enabled: boolean('enabled').notNull().default(true),
+  // Failed deliveries since the last successful one
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+  disabledAt: timestamp('disabled_at', { withTimezone: true }),
+  disabledReason: text('disabled_reason'),
+}, (table) => [
+  index('webhook_endpoint_user_id_idx').on(table.userId),
+]);
+
+/**
+ * Webhook deliveries table - One event sent to one endpoint, however many attempts it takes
+ * The body is stored so every retry sends exactly the same signed payload
+ */
+export const webhookDeliveries = pgTable('webhook_delivery', {
+  ...baseFields,
+  endpointId: uuid('endpoint_id').notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  // Outbox event being delivered; null for test events
+  eventId: uuid('event_id'),
+  eventType: varchar('event_type', { length: 50 }).$type<WebhookEventType | typeof WEBHOOK_TEST_EVENT>().notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: varchar('status', { length: 20 }).$type<WebhookDeliveryStatus>().notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  lastStatusCode: integer('last_status_code'),
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+}, (table) => [
+  // An event redelivered by the outbox does not create a second delivery
+  uniqueIndex('webhook_delivery_endpoint_id_event_id_idx').on(table.endpointId, table.eventId),
+  index('webhook_delivery_endpoint_id_created_at_idx').on(table.endpointId, table.createdAt),
+]);
+
+/**
+ * Webhook delivery attempts table - Append-only log of every HTTP request made for a delivery
+ */
+export const webhookDeliveryAttempts = pgTable('webhook_delivery_attempt', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  deliveryId: uuid('delivery_id').notNull().references(() => webhookDeliveries.id, { onDelete: 'cascade' }),
+  // Null when no response arrived (network error or timeout)
+  statusCode: integer('status_code'),
+  error: text('error'),
+  durationMs: integer('duration_ms').notNull(),
+}, (table) => [
+  index('webhook_delivery_attempt_delivery_id_idx').on(table.deliveryId),
+]);
+
+/**
+ * Database entity types following entity-based architecture naming convention
+ */
+export type DbWebhookEndpointEntity = typeof webhookEndpoints.$inferSelect;
+export type DbWebhookEndpointInsert = typeof webhookEndpoints.$inferInsert;
+export type DbWebhookDeliveryEntity = typeof webhookDeliveries.$inferSelect;
+export type DbWebhookDeliveryInsert = typeof webhookDeliveries.$inferInsert;
+export type DbWebhookDeliveryAttemptEntity = typeof webhookDeliveryAttempts.$inferSelect;
+export type DbWebhookDeliveryAttemptInsert = typeof webhookDeliveryAttempts.$inferInsert;
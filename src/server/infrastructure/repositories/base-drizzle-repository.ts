@@ -1,6 +1,6 @@
 import type { ILogger } from '@thaitype/core-utils';
 import { eq } from 'drizzle-orm';
-import { getDatabase } from '~/server/lib/db';
+import { getCurrentTransaction, getDatabase, type DbExecutor } from '~/server/lib/db';
 
 /**
  * Base Drizzle Repository Class
@@ -23,8 +23,13 @@ export abstract class BaseDrizzleRepository {
 
   /**
    * Ensure database connection is available
+   * Inside `runInTransaction` this is the shared transaction, so the call commits or rolls back with it
    */
-  protected async ensureDatabase(): Promise<NonNullable<typeof this.db>> {
+  protected async ensureDatabase(): Promise<DbExecutor> {
+    const tx = getCurrentTransaction();
+    if (tx) {
+      return tx;
+    }
     if (!this.db) {
       await this.initializeDatabase();
     }
@@ -0,0 +1,154 @@
+/**
+ * Drizzle Audit Log Repository - Entity-Based Architecture
+ *
+ * Implements the audit log repository interface using Drizzle ORM with PostgreSQL.
+ * Entries are append-only; listings join the actor's name and email and page
+ * newest first with keyset pagination.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { AuditLogEntry, IAuditLogRepository } from '~/server/domain';
+import { and, eq, gte, lt, type SQL } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { auditLogs, users, type DbAuditLogEntity } from '~/server/infrastructure/db/schema';
+import type { CursorPage } from '~/server/domain/repositories/types/pagination-types';
+import type {
+  AuditLogRecordRequest,
+  AuditLogFilterQuery,
+} from '~/server/domain/repositories/types/audit-log-repository-types';
+import { diffSnapshots } from '~/server/utils';
+import {
+  getKeysetOrderBy,
+  getKeysetWhere,
+  getPageLimit,
+  splitPage,
+  type KeysetSortKey,
+} from './keyset-pagination';
+
+const AUDIT_LOG_SORT_KEYS: KeysetSortKey[] = [
+  { column: auditLogs.createdAt, direction: -1 },
+  { column: auditLogs.id, direction: 1 },
+];
+
+export class DrizzleAuditLogRepository extends BaseDrizzleRepository implements IAuditLogRepository {
+  constructor(private appContext: AppContext) {
+    super('auditLogs');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async record(data: AuditLogRecordRequest): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+      const { before, after } = diffSnapshots(data.before, data.after);
+      const request = this.appContext.request;
+
+      await db.insert(auditLogs).values({
+        action: data.action,
+        entityType: data.entityType,
+        entityId: data.entityId ?? null,
+        before,
+        after,
+        actorId: request?.actorId ?? null,
+        ipAddress: request?.ipAddress ?? null,
+        userAgent: request?.userAgent ?? null,
+        requestId: request?.requestId ?? null,
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to record audit entry', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        action: data.action,
+        entityType: data.entityType,
+        entityId: data.entityId,
+        operation: 'record',
+        repository: 'DrizzleAuditLogRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findMany(filter: AuditLogFilterQuery): Promise<CursorPage<AuditLogEntry>> {
+    try {
+      const db = await this.ensureDatabase();
+      const limit = getPageLimit(filter.limit);
+
+      const conditions: SQL[] = [];
+      if (filter.actorId) {
+        conditions.push(eq(auditLogs.actorId, filter.actorId));
+      }
+      if (filter.entityType) {
+        conditions.push(eq(auditLogs.entityType, filter.entityType));
+      }
+      if (filter.entityId) {
+        conditions.push(eq(auditLogs.entityId, filter.entityId));
+      }
+      if (filter.action) {
+        conditions.push(eq(auditLogs.action, filter.action));
+      }
+      if (filter.from) {
+        conditions.push(gte(auditLogs.createdAt, filter.from));
+      }
+      if (filter.to) {
+        conditions.push(lt(auditLogs.createdAt, filter.to));
+      }
+      if (filter.cursor) {
+        conditions.push(getKeysetWhere(AUDIT_LOG_SORT_KEYS, filter.cursor));
+      }
+
+      const rows = await db
+        .select({
+          entry: auditLogs,
+          actorName: users.name,
+          actorEmail: users.email,
+        })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.actorId, users.id))
+        .where(and(...conditions))
+        .orderBy(...getKeysetOrderBy(AUDIT_LOG_SORT_KEYS))
+        .limit(limit + 1);
+
+      const page = splitPage(rows, limit, AUDIT_LOG_SORT_KEYS, ({ entry }) => [entry.createdAt, entry.id]);
+
+      return {
+        items: page.rows.map(row => this.toDomainAuditLogEntry(row.entry, row.actorName, row.actorEmail)),
+        nextCursor: page.nextCursor,
+      };
+    } catch (error) {
+      this.appContext.logger.error('Failed to find audit entries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filter,
+        operation: 'findMany',
+        repository: 'DrizzleAuditLogRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainAuditLogEntry(
+    dbEntry: DbAuditLogEntity,
+    actorName: string | null,
+    actorEmail: string | null
+  ): AuditLogEntry {
+    return {
+      id: dbEntry.id,
+      createdAt: dbEntry.createdAt,
+      actorId: dbEntry.actorId,
+      actor: dbEntry.actorId && actorName !== null && actorEmail !== null
+        ? { id: dbEntry.actorId, name: actorName, email: actorEmail }
+        : null,
+      action: dbEntry.action,
+      entityType: dbEntry.entityType,
+      entityId: dbEntry.entityId,
+      before: dbEntry.before,
+      after: dbEntry.after,
+      ipAddress: dbEntry.ipAddress,
+      userAgent: dbEntry.userAgent,
+      requestId: dbEntry.requestId,
+    };
+  }
+}
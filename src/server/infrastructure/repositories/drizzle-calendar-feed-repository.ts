@@ -0,0 +1,155 @@
+/**
+ * Drizzle Calendar Feed Repository - Entity-Based Architecture
+ *
+ * Implements the calendar feed repository interface using Drizzle ORM with PostgreSQL.
+ * Feeds are user-owned and looked up by the hash of their URL token; deleting a feed
+ * revokes its URL.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { CalendarFeed, ICalendarFeedRepository } from '~/server/domain';
+import { and, asc, eq } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { calendarFeeds, type DbCalendarFeedEntity } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type { CalendarFeedCreateRequest } from '~/server/domain/repositories/types/calendar-feed-repository-types';
+
+export class DrizzleCalendarFeedRepository extends BaseDrizzleRepository implements ICalendarFeedRepository {
+  constructor(private appContext: AppContext) {
+    super('calendarFeeds');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async create(input: CalendarFeedCreateRequest): Promise<CalendarFeed> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [feed] = await db.insert(calendarFeeds).values(input).returning();
+
+      if (!feed) {
+        throw new Err.DatabaseError('Failed to create calendar feed - no data returned');
+      }
+
+      this.appContext.logger.info('Calendar feed created successfully in repository', {
+        feedId: feed.id,
+        userId: feed.userId,
+        operation: 'create'
+      });
+
+      return this.toDomainFeed(feed);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create calendar feed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: input.userId,
+        operation: 'create',
+        repository: 'DrizzleCalendarFeedRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByUserId(userId: string): Promise<CalendarFeed[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const feeds = await db
+        .select()
+        .from(calendarFeeds)
+        .where(eq(calendarFeeds.userId, userId))
+        .orderBy(asc(calendarFeeds.createdAt));
+
+      return feeds.map(feed => this.toDomainFeed(feed));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find calendar feeds by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findByUserId',
+        repository: 'DrizzleCalendarFeedRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [feed] = await db
+        .select()
+        .from(calendarFeeds)
+        .where(eq(calendarFeeds.tokenHash, tokenHash))
+        .limit(1);
+
+      return feed ? this.toDomainFeed(feed) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find calendar feed by token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findByTokenHash',
+        repository: 'DrizzleCalendarFeedRepository'
+      });
+      throw error;
+    }
+  }
+
+  async markAccessed(id: string, accessedAt: Date): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(calendarFeeds)
+        .set({ lastAccessedAt: accessedAt })
+        .where(eq(calendarFeeds.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to record calendar feed access', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        feedId: id,
+        operation: 'markAccessed',
+        repository: 'DrizzleCalendarFeedRepository'
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const deleted = await db
+        .delete(calendarFeeds)
+        .where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.userId, userId)))
+        .returning({ id: calendarFeeds.id });
+
+      if (deleted.length === 0) {
+        throw new Err.NotFoundError(`Calendar feed not found or not owned by user: ${id}`);
+      }
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete calendar feed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        feedId: id,
+        userId,
+        operation: 'delete',
+        repository: 'DrizzleCalendarFeedRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private toDomainFeed(dbFeed: DbCalendarFeedEntity): CalendarFeed {
+    return {
+      id: dbFeed.id,
+      userId: dbFeed.userId,
+      name: dbFeed.name,
+      tokenHash: dbFeed.tokenHash,
+      lastAccessedAt: dbFeed.lastAccessedAt,
+      createdAt: dbFeed.createdAt,
+      updatedAt: dbFeed.updatedAt,
+    };
+  }
+}
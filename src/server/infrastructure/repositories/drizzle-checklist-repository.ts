@@ -0,0 +1,315 @@
+/**
+ * Drizzle Checklist Repository - Entity-Based Architecture
+ *
+ * Implements the checklist repository interface using Drizzle ORM with PostgreSQL.
+ * Checklist items belong to a todo and are deleted with it by the foreign key cascade.
+ * Ownership of the parent todo is verified by the service layer.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { ChecklistItem, IChecklistRepository } from '~/server/domain';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { checklistItems, type DbChecklistItemEntity } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { TODO_RANK_GAP } from '~/server/lib/constants';
+
+// Import validation schemas
+import {
+  RepoChecklistItemCreateSchema,
+  RepoChecklistItemStatusUpdateSchema,
+  RepoChecklistItemRankUpdatesSchema,
+} from '~/server/domain/repositories/schemas/checklist-repository-schemas';
+
+// Import repository types
+import type {
+  ChecklistItemCreateRequest,
+  ChecklistItemStatusUpdate,
+  ChecklistItemRankUpdate,
+} from '~/server/domain/repositories/types/checklist-repository-types';
+
+export class DrizzleChecklistRepository extends BaseDrizzleRepository implements IChecklistRepository {
+  constructor(private appContext: AppContext) {
+    super('checklistItems');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainChecklistItem(dbItem: DbChecklistItemEntity): ChecklistItem {
+    return {
+      id: dbItem.id,
+      title: dbItem.title,
+      completed: dbItem.completed,
+      rank: dbItem.rank,
+      todoId: dbItem.todoId,
+      userId: dbItem.userId,
+      createdAt: dbItem.createdAt,
+      updatedAt: dbItem.updatedAt,
+    };
+  }
+
+  // =============================================================================
+  // CHECKLIST ITEM CRUD OPERATIONS
+  // =============================================================================
+
+  async create(input: ChecklistItemCreateRequest): Promise<ChecklistItem> {
+    try {
+      const validatedData = RepoChecklistItemCreateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      const createdItems = await db
+        .insert(checklistItems)
+        .values({
+          ...validatedData,
+          // Append to the end of the todo's checklist
+          rank: sql`coalesce((select max(${checklistItems.rank}) from ${checklistItems} where ${checklistItems.todoId} = ${validatedData.todoId}), 0) + ${TODO_RANK_GAP}`,
+        })
+        .returning();
+      const createdItem = createdItems[0];
+
+      if (!createdItem) {
+        throw new Err.DatabaseError('Failed to create checklist item - no data returned');
+      }
+
+      this.appContext.logger.info('Checklist item created successfully in repository', {
+        checklistItemId: createdItem.id,
+        todoId: createdItem.todoId,
+        userId: createdItem.userId,
+        operation: 'create'
+      });
+
+      return this.toDomainChecklistItem(createdItem);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: input.todoId,
+        userId: input.userId,
+        operation: 'create',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<ChecklistItem | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(checklistItems)
+        .where(
+          and(
+            eq(checklistItems.id, id),
+            eq(checklistItems.userId, userId)
+          )
+        )
+        .limit(1);
+
+      return result[0] ? this.toDomainChecklistItem(result[0]) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find checklist item by ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: id,
+        userId,
+        operation: 'findById',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByTodoId(todoId: string, userId: string): Promise<ChecklistItem[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(checklistItems)
+        .where(
+          and(
+            eq(checklistItems.todoId, todoId),
+            eq(checklistItems.userId, userId)
+          )
+        )
+        .orderBy(asc(checklistItems.rank), asc(checklistItems.createdAt));
+
+      return result.map(item => this.toDomainChecklistItem(item));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find checklist items by todo ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'findByTodoId',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const deletedItems = await db
+        .delete(checklistItems)
+        .where(
+          and(
+            eq(checklistItems.id, id),
+            eq(checklistItems.userId, userId)
+          )
+        )
+        .returning({ id: checklistItems.id });
+
+      if (deletedItems.length === 0) {
+        throw new Err.NotFoundError(`Checklist item not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Checklist item deleted successfully', {
+        checklistItemId: id,
+        userId,
+        operation: 'delete'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: id,
+        userId,
+        operation: 'delete',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // DEDICATED UPDATE METHODS
+  // =============================================================================
+
+  async updateStatus(id: string, input: ChecklistItemStatusUpdate, userId: string): Promise<ChecklistItem> {
+    try {
+      const validatedData = RepoChecklistItemStatusUpdateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      const updatedItems = await db
+        .update(checklistItems)
+        .set({ completed: validatedData.completed })
+        .where(
+          and(
+            eq(checklistItems.id, id),
+            eq(checklistItems.userId, userId)
+          )
+        )
+        .returning();
+
+      const updatedItem = updatedItems[0];
+      if (!updatedItem) {
+        throw new Err.NotFoundError(`Checklist item not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Checklist item status updated successfully', {
+        checklistItemId: id,
+        userId,
+        completed: validatedData.completed,
+        operation: 'updateStatus'
+      });
+
+      return this.toDomainChecklistItem(updatedItem);
+    } catch (error) {
+      this.appContext.logger.error('Failed to update checklist item status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: id,
+        userId,
+        operation: 'updateStatus',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateStatusForTodo(todoId: string, input: ChecklistItemStatusUpdate, userId: string): Promise<void> {
+    try {
+      const validatedData = RepoChecklistItemStatusUpdateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      const updatedItems = await db
+        .update(checklistItems)
+        .set({ completed: validatedData.completed })
+        .where(
+          and(
+            eq(checklistItems.todoId, todoId),
+            eq(checklistItems.userId, userId)
+          )
+        )
+        .returning({ id: checklistItems.id });
+
+      this.appContext.logger.info('Checklist status updated for todo', {
+        todoId,
+        userId,
+        completed: validatedData.completed,
+        count: updatedItems.length,
+        operation: 'updateStatusForTodo'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to update checklist status for todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'updateStatusForTodo',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateRanks(updates: ChecklistItemRankUpdate[], userId: string): Promise<void> {
+    try {
+      const validatedUpdates = RepoChecklistItemRankUpdatesSchema.parse(updates);
+
+      const db = await this.ensureDatabase();
+
+      // Use transaction so a rebalance never leaves the checklist half renumbered
+      await db.transaction(async (tx) => {
+        for (const update of validatedUpdates) {
+          const updatedItems = await tx
+            .update(checklistItems)
+            .set({ rank: update.rank })
+            .where(
+              and(
+                eq(checklistItems.id, update.id),
+                eq(checklistItems.userId, userId)
+              )
+            )
+            .returning({ id: checklistItems.id });
+
+          if (updatedItems.length === 0) {
+            throw new Err.NotFoundError(`Checklist item not found or not owned by user: ${update.id}`);
+          }
+        }
+      });
+
+      this.appContext.logger.info('Checklist item ranks updated successfully', {
+        userId,
+        count: validatedUpdates.length,
+        operation: 'updateRanks'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to update checklist item ranks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        count: updates.length,
+        operation: 'updateRanks',
+        repository: 'DrizzleChecklistRepository'
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Drizzle Job Repository - Entity-Based Architecture
+ *
+ * Implements the job queue repository interface using Drizzle ORM with PostgreSQL.
+ * Workers claim jobs with `SELECT ... FOR UPDATE SKIP LOCKED`, so concurrent workers
+ * never take the same job and never block on each other. Enqueueing joins the caller's
+ * transaction, and the NOTIFY that wakes workers is sent when it commits.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IJobRepository, Job, JobName } from '~/server/domain';
+import { and, asc, count, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { jobs, JOB_ENQUEUED_CHANNEL, type DbJobEntity } from '~/server/infrastructure/db/schema';
+import type {
+  JobClaimQuery,
+  JobEnqueueRequest,
+  JobFailureUpdate,
+} from '~/server/domain/repositories/types/job-repository-types';
+import { connectToDatabase } from '~/server/lib/db';
+
+export class DrizzleJobRepository extends BaseDrizzleRepository implements IJobRepository {
+  constructor(private appContext: AppContext) {
+    super('jobs');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async enqueue(data: JobEnqueueRequest): Promise<Job> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [job] = await db
+        .insert(jobs)
+        .values({
+          name: data.name,
+          payload: data.payload,
+          runAt: data.runAt,
+          maxAttempts: data.maxAttempts,
+        })
+        .returning();
+
+      if (!job) {
+        throw new Error('Failed to enqueue job');
+      }
+
+      await db.execute(sql`select pg_notify(${JOB_ENQUEUED_CHANNEL}, ${job.name})`);
+
+      return this.toDomainJob(job);
+    } catch (error) {
+      this.appContext.logger.error('Failed to enqueue job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name: data.name,
+        operation: 'enqueue',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async claimNext(query: JobClaimQuery): Promise<Job | null> {
+    if (query.names.length === 0) {
+      return null;
+    }
+
+    try {
+      const db = await this.ensureDatabase();
+
+      const nextDueJob = db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(
+          eq(jobs.status, 'pending'),
+          lte(jobs.runAt, query.now),
+          inArray(jobs.name, query.names)
+        ))
+        .orderBy(asc(jobs.runAt), asc(jobs.createdAt))
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      const [job] = await db
+        .update(jobs)
+        .set({
+          status: 'running',
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedBy: query.workerId,
+          lockedAt: query.now,
+        })
+        .where(inArray(jobs.id, nextDueJob))
+        .returning();
+
+      return job ? this.toDomainJob(job) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to claim job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workerId: query.workerId,
+        names: query.names,
+        operation: 'claimNext',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async countRunning(): Promise<Partial<Record<JobName, number>>> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const rows = await db
+        .select({ name: jobs.name, count: count() })
+        .from(jobs)
+        .where(eq(jobs.status, 'running'))
+        .groupBy(jobs.name);
+
+      return Object.fromEntries(rows.map(row => [row.name, row.count]));
+    } catch (error) {
+      this.appContext.logger.error('Failed to count running jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'countRunning',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async refreshLock(id: string, workerId: string): Promise<boolean> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const refreshed = await db
+        .update(jobs)
+        .set({ lockedAt: new Date() })
+        .where(and(eq(jobs.id, id), eq(jobs.status, 'running'), eq(jobs.lockedBy, workerId)))
+        .returning({ id: jobs.id });
+
+      return refreshed.length > 0;
+    } catch (error) {
+      this.appContext.logger.error('Failed to refresh job lock', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jobId: id,
+        workerId,
+        operation: 'refreshLock',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async complete(id: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(jobs)
+        .set({
+          status: 'completed',
+          completedAt: new Date(),
+          lockedBy: null,
+          lockedAt: null,
+        })
+        .where(eq(jobs.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to complete job', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jobId: id,
+        operation: 'complete',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async fail(id: string, update: JobFailureUpdate): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(jobs)
+        .set({
+          status: update.runAt ? 'pending' : 'dead',
+          ...(update.runAt ? { runAt: update.runAt } : {}),
+          lastError: update.error,
+          lockedBy: null,
+          lockedAt: null,
+        })
+        .where(eq(jobs.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to record job failure', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jobId: id,
+        operation: 'fail',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async releaseStale(lockedBefore: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const released = await db
+        .update(jobs)
+        .set({
+          // A job that keeps taking its worker down would otherwise be retried forever
+          status: sql`case when ${jobs.attempts} >= ${jobs.maxAttempts} then 'dead' else 'pending' end`,
+          lastError: 'Worker stopped before the job finished',
+          lockedBy: null,
+          lockedAt: null,
+        })
+        .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)))
+        .returning({ id: jobs.id });
+
+      return released.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to release stale jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lockedBefore,
+        operation: 'releaseStale',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  async listenForEnqueued(onEnqueued: () => void): Promise<() => Promise<void>> {
+    try {
+      const { client } = await connectToDatabase();
+
+      const subscription = await client.listen(JOB_ENQUEUED_CHANNEL, () => onEnqueued());
+
+      return () => subscription.unlisten();
+    } catch (error) {
+      this.appContext.logger.error('Failed to listen for enqueued jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'listenForEnqueued',
+        repository: 'DrizzleJobRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert database entity to domain model
+   * Payloads are read per job name, so a malformed one fails the job's handler instead of
+   * slipping through typed as valid
+   */
+  private toDomainJob(dbJob: DbJobEntity): Job {
+    const fields = {
+      id: dbJob.id,
+      status: dbJob.status,
+      runAt: dbJob.runAt,
+      attempts: dbJob.attempts,
+      maxAttempts: dbJob.maxAttempts,
+      lastError: dbJob.lastError,
+      lockedBy: dbJob.lockedBy,
+      lockedAt: dbJob.lockedAt,
+      completedAt: dbJob.completedAt,
+      createdAt: dbJob.createdAt,
+      updatedAt: dbJob.updatedAt,
+    };
+
+    switch (dbJob.name) {
+      case 'webhook.deliver': {
+        const { deliveryId } = dbJob.payload;
+        // An empty ID matches no delivery, so the attempt fails and ends up in the dead letters
+        return { ...fields, name: dbJob.name, payload: { deliveryId: typeof deliveryId === 'string' ? deliveryId : '' } };
+      }
+      case 'trash.purge':
+      case 'sync.purge':
+      case 'events.dispatch':
+      case 'events.purge':
+        return { ...fields, name: dbJob.name, payload: {} };
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Drizzle Maintenance Repository - Entity-Based Architecture
+ *
+ * Implements the maintenance repository interface using Drizzle ORM with PostgreSQL.
+ * Cleans up the Better Auth tables, which Better Auth itself only prunes lazily.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IMaintenanceRepository } from '~/server/domain';
+import { lt, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { session, verification } from '~/server/infrastructure/db/schema';
+
+export class DrizzleMaintenanceRepository extends BaseDrizzleRepository implements IMaintenanceRepository {
+  constructor(private appContext: AppContext) {
+    super('maintenance');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async purgeExpiredSessions(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const purgedSessions = await db
+        .delete(session)
+        .where(lt(session.expiresAt, cutoff))
+        .returning({ id: session.id });
+
+      this.appContext.logger.info('Expired sessions purged successfully', {
+        cutoff,
+        count: purgedSessions.length,
+        operation: 'purgeExpiredSessions'
+      });
+
+      return purgedSessions.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired sessions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeExpiredSessions',
+        repository: 'DrizzleMaintenanceRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeExpiredVerifications(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const purgedVerifications = await db
+        .delete(verification)
+        .where(lt(verification.expiresAt, cutoff))
+        .returning({ id: verification.id });
+
+      this.appContext.logger.info('Expired verifications purged successfully', {
+        cutoff,
+        count: purgedVerifications.length,
+        operation: 'purgeExpiredVerifications'
+      });
+
+      return purgedVerifications.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired verifications', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeExpiredVerifications',
+        repository: 'DrizzleMaintenanceRepository'
+      });
+      throw error;
+    }
+  }
+
+  async analyzeTables(): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db.execute(sql`analyze`);
+    } catch (error) {
+      this.appContext.logger.error('Failed to analyze tables', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'analyzeTables',
+        repository: 'DrizzleMaintenanceRepository'
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Drizzle Outbox Repository - Entity-Based Architecture
+ *
+ * Implements the outbox repository interface using Drizzle ORM with PostgreSQL.
+ * Appends go through `ensureDatabase()`, so they join the transaction of the change
+ * being described when the service runs inside a unit of work. Dispatchers claim due
+ * events with `SELECT ... FOR UPDATE SKIP LOCKED`, as workers claim jobs, so every
+ * replica, the dispatch script and the dispatch job can run at the same time.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { DomainEvent, IOutboxRepository, NewDomainEvent } from '~/server/domain';
+import { and, asc, eq, inArray, isNotNull, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { outboxEvents, type DbOutboxEventEntity } from '~/server/infrastructure/db/schema';
+import type {
+  OutboxClaimQuery,
+  OutboxFailureUpdate,
+} from '~/server/domain/repositories/types/outbox-repository-types';
+
+export class DrizzleOutboxRepository extends BaseDrizzleRepository implements IOutboxRepository {
+  constructor(private appContext: AppContext) {
+    super('outboxEvents');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async append(events: NewDomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      const db = await this.ensureDatabase();
+
+      await db.insert(outboxEvents).values(events.map(event => ({
+        type: event.type,
+        payload: event.payload,
+      })));
+    } catch (error) {
+      this.appContext.logger.error('Failed to append domain events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        types: events.map(event => event.type),
+        operation: 'append',
+        repository: 'DrizzleOutboxRepository'
+      });
+      throw error;
+    }
+  }
+
+  async claimDue(query: OutboxClaimQuery): Promise<DomainEvent[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const dueEvents = db
+        .select({ id: outboxEvents.id })
+        .from(outboxEvents)
+        .where(and(
+          isNull(outboxEvents.processedAt),
+          lte(outboxEvents.nextAttemptAt, query.now),
+          lt(outboxEvents.attempts, query.maxAttempts),
+          or(isNull(outboxEvents.lockedAt), lt(outboxEvents.lockedAt, query.lockedBefore))
+        ))
+        .orderBy(asc(outboxEvents.createdAt), asc(outboxEvents.id))
+        .limit(query.limit)
+        .for('update', { skipLocked: true });
+
+      const events = await db
+        .update(outboxEvents)
+        .set({ lockedBy: query.dispatcherId, lockedAt: new Date() })
+        .where(inArray(outboxEvents.id, dueEvents))
+        .returning();
+
+      // UPDATE ... RETURNING gives no order
+      return events
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+        .map(event => this.toDomainEvent(event));
+    } catch (error) {
+      this.appContext.logger.error('Failed to claim due domain events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query,
+        operation: 'claimDue',
+        repository: 'DrizzleOutboxRepository'
+      });
+      throw error;
+    }
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(outboxEvents)
+        .set({ processedAt: new Date(), lastError: null, lockedBy: null, lockedAt: null })
+        .where(eq(outboxEvents.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to mark domain event processed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId: id,
+        operation: 'markProcessed',
+        repository: 'DrizzleOutboxRepository'
+      });
+      throw error;
+    }
+  }
+
+  async markFailed(id: string, update: OutboxFailureUpdate): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(outboxEvents)
+        .set({
+          attempts: sql`${outboxEvents.attempts} + 1`,
+          lastError: update.error,
+          nextAttemptAt: update.nextAttemptAt,
+          lockedBy: null,
+          lockedAt: null,
+        })
+        .where(eq(outboxEvents.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to mark domain event failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId: id,
+        operation: 'markFailed',
+        repository: 'DrizzleOutboxRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeProcessedBefore(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const purgedEvents = await db
+        .delete(outboxEvents)
+        .where(and(isNotNull(outboxEvents.processedAt), lt(outboxEvents.processedAt, cutoff)))
+        .returning({ id: outboxEvents.id });
+
+      this.appContext.logger.info('Processed domain events purged successfully', {
+        cutoff,
+        count: purgedEvents.length,
+        operation: 'purgeProcessedBefore'
+      });
+
+      return purgedEvents.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge processed domain events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeProcessedBefore',
+        repository: 'DrizzleOutboxRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert database entity to domain model
+   * The payload was written from the same event type, so its shape matches
+   */
+  private toDomainEvent(dbEvent: DbOutboxEventEntity): DomainEvent {
+    return {
+      id: dbEvent.id,
+      type: dbEvent.type,
+      payload: dbEvent.payload,
+      occurredAt: dbEvent.createdAt,
+      attempts: dbEvent.attempts,
+    } as DomainEvent;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Drizzle Personal Access Token Repository - Entity-Based Architecture
+ *
+ * Implements the personal access token repository interface using Drizzle ORM with PostgreSQL.
+ * Tokens are user-owned and looked up by their hash; deleting a token revokes it.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { PersonalAccessToken, IPersonalAccessTokenRepository } from '~/server/domain';
+import { and, desc, eq } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { personalAccessTokens, type DbPersonalAccessTokenEntity } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type { PersonalAccessTokenCreateRequest } from '~/server/domain/repositories/types/personal-access-token-repository-types';
+
+export class DrizzlePersonalAccessTokenRepository extends BaseDrizzleRepository implements IPersonalAccessTokenRepository {
+  constructor(private appContext: AppContext) {
+    super('personalAccessTokens');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async create(input: PersonalAccessTokenCreateRequest): Promise<PersonalAccessToken> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [token] = await db.insert(personalAccessTokens).values(input).returning();
+
+      if (!token) {
+        throw new Err.DatabaseError('Failed to create personal access token - no data returned');
+      }
+
+      this.appContext.logger.info('Personal access token created successfully in repository', {
+        tokenId: token.id,
+        userId: token.userId,
+        operation: 'create'
+      });
+
+      return this.toDomainToken(token);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: input.userId,
+        operation: 'create',
+        repository: 'DrizzlePersonalAccessTokenRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByUserId(userId: string): Promise<PersonalAccessToken[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const tokens = await db
+        .select()
+        .from(personalAccessTokens)
+        .where(eq(personalAccessTokens.userId, userId))
+        .orderBy(desc(personalAccessTokens.createdAt));
+
+      return tokens.map(token => this.toDomainToken(token));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find personal access tokens by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findByUserId',
+        repository: 'DrizzlePersonalAccessTokenRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PersonalAccessToken | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [token] = await db
+        .select()
+        .from(personalAccessTokens)
+        .where(eq(personalAccessTokens.tokenHash, tokenHash))
+        .limit(1);
+
+      return token ? this.toDomainToken(token) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find personal access token by hash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findByTokenHash',
+        repository: 'DrizzlePersonalAccessTokenRepository'
+      });
+      throw error;
+    }
+  }
+
+  async markUsed(id: string, usedAt: Date): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(personalAccessTokens)
+        .set({ lastUsedAt: usedAt })
+        .where(eq(personalAccessTokens.id, id));
+    } catch (error) {
+      this.appContext.logger.error('Failed to record personal access token use', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+        operation: 'markUsed',
+        repository: 'DrizzlePersonalAccessTokenRepository'
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const deleted = await db
+        .delete(personalAccessTokens)
+        .where(and(eq(personalAccessTokens.id, id), eq(personalAccessTokens.userId, userId)))
+        .returning({ id: personalAccessTokens.id });
+
+      if (deleted.length === 0) {
+        throw new Err.NotFoundError(`Personal access token not found or not owned by user: ${id}`);
+      }
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+        userId,
+        operation: 'delete',
+        repository: 'DrizzlePersonalAccessTokenRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private toDomainToken(dbToken: DbPersonalAccessTokenEntity): PersonalAccessToken {
+    return {
+      id: dbToken.id,
+      userId: dbToken.userId,
+      name: dbToken.name,
+      tokenHash: dbToken.tokenHash,
+      scopes: dbToken.scopes,
+      expiresAt: dbToken.expiresAt,
+      lastUsedAt: dbToken.lastUsedAt,
+      createdAt: dbToken.createdAt,
+      updatedAt: dbToken.updatedAt,
+    };
+  }
+}
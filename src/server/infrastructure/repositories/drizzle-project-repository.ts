@@ -0,0 +1,254 @@
+/**
+ * Drizzle Project Repository - Entity-Based Architecture
+ *
+ * Implements the project repository interface using Drizzle ORM with PostgreSQL.
+ * Projects are user-owned lists; todos reference them through a nullable project_id.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IProjectRepository, Project } from '~/server/domain';
+import { and, asc, eq, ne, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { projects, type DbProjectEntity } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+// Import validation schemas
+import {
+  RepoProjectCreateSchema,
+  RepoProjectBasicInfoUpdateSchema,
+} from '~/server/domain/repositories/schemas/project-repository-schemas';
+
+// Import repository types
+import type {
+  ProjectCreateRequest,
+  ProjectBasicInfoPartialUpdate,
+} from '~/server/domain/repositories/types/project-repository-types';
+
+export class DrizzleProjectRepository extends BaseDrizzleRepository implements IProjectRepository {
+  constructor(private appContext: AppContext) {
+    super('projects');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainProject(dbProject: DbProjectEntity): Project {
+    return {
+      id: dbProject.id,
+      name: dbProject.name,
+      color: dbProject.color,
+      userId: dbProject.userId,
+      createdAt: dbProject.createdAt,
+      updatedAt: dbProject.updatedAt,
+    };
+  }
+
+  // =============================================================================
+  // PROJECT CRUD OPERATIONS
+  // =============================================================================
+
+  async create(input: ProjectCreateRequest): Promise<Project> {
+    try {
+      const validatedData = RepoProjectCreateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      await this.assertNameAvailable(validatedData.userId, validatedData.name);
+
+      const createdProjects = await db.insert(projects).values(validatedData).returning();
+      const createdProject = createdProjects[0];
+
+      if (!createdProject) {
+        throw new Err.DatabaseError('Failed to create project - no data returned');
+      }
+
+      this.appContext.logger.info('Project created successfully in repository', {
+        projectId: createdProject.id,
+        userId: createdProject.userId,
+        operation: 'create'
+      });
+
+      return this.toDomainProject(createdProject);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: input.userId,
+        operation: 'create',
+        repository: 'DrizzleProjectRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<Project | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, id),
+            eq(projects.userId, userId)
+          )
+        )
+        .limit(1);
+
+      return result[0] ? this.toDomainProject(result[0]) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find project by ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        projectId: id,
+        userId,
+        operation: 'findById',
+        repository: 'DrizzleProjectRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByUserId(userId: string): Promise<Project[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.userId, userId))
+        .orderBy(asc(projects.name));
+
+      this.appContext.logger.info('Found projects for user', {
+        userId,
+        count: result.length,
+        operation: 'findByUserId'
+      });
+
+      return result.map(project => this.toDomainProject(project));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find projects by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findByUserId',
+        repository: 'DrizzleProjectRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateBasicInfo(id: string, input: ProjectBasicInfoPartialUpdate, userId: string): Promise<Project> {
+    try {
+      const validatedData = RepoProjectBasicInfoUpdateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      if (validatedData.name !== undefined) {
+        await this.assertNameAvailable(userId, validatedData.name, id);
+      }
+
+      const updateFields: ProjectBasicInfoPartialUpdate = {};
+      if (validatedData.name !== undefined) updateFields.name = validatedData.name;
+      if (validatedData.color !== undefined) updateFields.color = validatedData.color;
+
+      const updatedProjects = await db
+        .update(projects)
+        .set(updateFields)
+        .where(
+          and(
+            eq(projects.id, id),
+            eq(projects.userId, userId)
+          )
+        )
+        .returning();
+
+      const updatedProject = updatedProjects[0];
+      if (!updatedProject) {
+        throw new Err.NotFoundError(`Project not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Project updated successfully', {
+        projectId: id,
+        userId,
+        operation: 'updateBasicInfo'
+      });
+
+      return this.toDomainProject(updatedProject);
+    } catch (error) {
+      this.appContext.logger.error('Failed to update project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        projectId: id,
+        userId,
+        operation: 'updateBasicInfo',
+        repository: 'DrizzleProjectRepository'
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      // Todos fall back to the Inbox through the project_id ON DELETE SET NULL
+      const deletedProjects = await db
+        .delete(projects)
+        .where(
+          and(
+            eq(projects.id, id),
+            eq(projects.userId, userId)
+          )
+        )
+        .returning({ id: projects.id });
+
+      if (deletedProjects.length === 0) {
+        throw new Err.NotFoundError(`Project not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Project deleted successfully', {
+        projectId: id,
+        userId,
+        operation: 'delete'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        projectId: id,
+        userId,
+        operation: 'delete',
+        repository: 'DrizzleProjectRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Project names are unique per user (case-insensitive)
+   */
+  private async assertNameAvailable(userId: string, name: string, excludeProjectId?: string): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    const existing = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(
+        and(
+          eq(projects.userId, userId),
+          sql`lower(${projects.name}) = lower(${name})`,
+          excludeProjectId ? ne(projects.id, excludeProjectId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      throw new Err.ConflictError(`Project already exists: ${name}`, { field: 'name', value: name });
+    }
+  }
+}
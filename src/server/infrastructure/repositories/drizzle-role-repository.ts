@@ -9,11 +9,15 @@
 import { and, eq, inArray, sql } from 'drizzle-orm';
 import { BaseDrizzleRepository } from './base-drizzle-repository';
 import type { IRoleRepository } from '~/server/domain/repositories/role-repository';
+import type { IAuditLogRepository } from '~/server/domain/repositories/audit-log-repository';
+import type { AuditLogRecordRequest } from '~/server/domain/repositories/types/audit-log-repository-types';
 import type { Role } from '~/server/infrastructure/db/schema';
 import type { AppContext } from '~/server/context/app-context';
 import {
   roles,
   userRoles,
+  permissions,
+  rolePermissions,
   type DbRoleEntity,
 } from '~/server/infrastructure/db/schema';
 import {
@@ -27,6 +31,7 @@ import {
   type UserRolesSetData,
   type RoleFilterQuery,
   type UserRoleFilterQuery,
+  type RolePermissionsSetData,
 } from '~/server/domain/repositories/types/role-repository-types';
 import { z } from 'zod';
 import { NotFoundError, ValidationError } from '~/server/lib/errors/domain-errors';
@@ -56,8 +61,19 @@ const userRolesSetSchema = z.object({
   roleNames: roleNamesSchema,
 }) satisfies z.ZodType<UserRolesSetData>;
 
+const rolePermissionsSetSchema = z.object({
+  roleId: roleIdSchema,
+  permissionNames: z.array(z.string().min(1)),
+}) satisfies z.ZodType<RolePermissionsSetData>;
+
+/**
+ * Role and permission changes are recorded in the audit log when an audit log repository is given
+ */
 export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRoleRepository {
-  constructor(private appContext: AppContext) {
+  constructor(
+    private appContext: AppContext,
+    private auditLogRepository?: IAuditLogRepository
+  ) {
     super('Role');
   }
 
@@ -93,7 +109,9 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
         entityName: this.entityName,
       });
 
-      return this.mapDbEntityToDomain(role);
+      const created = this.mapDbEntityToDomain(role);
+      await this.recordAudit({ action: 'role.create', entityType: 'role', entityId: role.id, after: created });
+      return created;
     } catch (error) {
       this.getLogger().error('Failed to create role', {
         error: error instanceof Error ? error.message : String(error),
@@ -212,6 +230,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
 
+      const before = await this.findById(roleId);
       const result = await db
         .update(roles)
         .set(validatedData)
@@ -225,7 +244,9 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
 
       this.getLogger().info('Role basic info updated successfully', { roleId: role.id });
 
-      return this.mapDbEntityToDomain(role);
+      const updated = this.mapDbEntityToDomain(role);
+      await this.recordAudit({ action: 'role.update', entityType: 'role', entityId: role.id, before, after: updated });
+      return updated;
     } catch (error) {
       this.getLogger().error('Failed to update role basic info', { error: error instanceof Error ? error.message : String(error), roleId: id, data });
       throw error;
@@ -251,6 +272,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
 
+      const before = await this.findById(roleId);
       const result = await db
         .update(roles)
         .set(updateData)
@@ -264,7 +286,9 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
 
       this.getLogger().info('Role basic info updated partially', { roleId: role.id });
 
-      return this.mapDbEntityToDomain(role);
+      const updated = this.mapDbEntityToDomain(role);
+      await this.recordAudit({ action: 'role.update', entityType: 'role', entityId: role.id, before, after: updated });
+      return updated;
     } catch (error) {
       this.getLogger().error('Failed to partially update role basic info', { error: error instanceof Error ? error.message : String(error), roleId: id, data });
       throw error;
@@ -291,11 +315,14 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
 
       const result = await db.delete(roles).where(eq(roles.id, roleId)).returning();
 
-      if (!result[0]) {
+      const role = result[0];
+      if (!role) {
         throw new NotFoundError('Role not found');
       }
 
       this.getLogger().info('Role deleted successfully', { roleId });
+
+      await this.recordAudit({ action: 'role.delete', entityType: 'role', entityId: roleId, before: this.mapDbEntityToDomain(role) });
     } catch (error) {
       this.getLogger().error('Failed to delete role', { error: error instanceof Error ? error.message : String(error), roleId: id });
       throw error;
@@ -313,14 +340,16 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
 
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
-      
-      await db
-        .insert(userRoles)
-        .values({
-          userId,
-          roleId,
-        })
-        .onConflictDoNothing();
+
+      await this.auditUserRoles('role.assignRoleToUser', userId, async () => {
+        await db
+          .insert(userRoles)
+          .values({
+            userId,
+            roleId,
+          })
+          .onConflictDoNothing();
+      });
 
       this.getLogger().info('Role assigned to user successfully', { userId, roleId });
     } catch (error) {
@@ -336,10 +365,12 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
 
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
-      
-      await db
-        .delete(userRoles)
-        .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)));
+
+      await this.auditUserRoles('role.removeRoleFromUser', userId, async () => {
+        await db
+          .delete(userRoles)
+          .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)));
+      });
 
       this.getLogger().info('Role removed from user successfully', { userId, roleId });
     } catch (error) {
@@ -368,7 +399,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
       const roleIds = roleResults.map((r) => r.id);
 
       // Use transaction to ensure atomicity
-      await db.transaction(async (tx) => {
+      await this.auditUserRoles('role.setUserRoles', validatedData.userId, () => db.transaction(async (tx) => {
         // Remove all existing roles for this user
         await tx.delete(userRoles).where(eq(userRoles.userId, validatedData.userId));
 
@@ -381,7 +412,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
             }))
           );
         }
-      });
+      }));
 
       this.getLogger().info('User roles set successfully', { userId: validatedData.userId, roleNames: validatedData.roleNames });
     } catch (error) {
@@ -398,7 +429,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
 
-      await db.transaction(async (tx) => {
+      await this.auditUserRoles('role.updateUserRolesBulk', userId, () => db.transaction(async (tx) => {
         // Remove all existing roles for this user
         await tx.delete(userRoles).where(eq(userRoles.userId, userId));
 
@@ -411,7 +442,7 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
             }))
           );
         }
-      });
+      }));
 
       this.getLogger().info('User roles updated in bulk successfully', { userId, roleIds });
     } catch (error) {
@@ -476,6 +507,28 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
     }
   }
 
+  async lockUsersWithRole(roleName: string): Promise<string[]> {
+    try {
+      const validRoleNames = roleNamesSchema.parse([roleName]);
+
+      await this.initializeDatabase();
+      const db = await this.ensureDatabase();
+
+      // DISTINCT cannot be combined with FOR UPDATE, so duplicates are dropped here
+      const result = await db
+        .select({ userId: userRoles.userId })
+        .from(userRoles)
+        .innerJoin(roles, eq(userRoles.roleId, roles.id))
+        .where(inArray(roles.name, validRoleNames))
+        .for('update', { of: userRoles });
+
+      return [...new Set(result.map((r) => r.userId))];
+    } catch (error) {
+      this.getLogger().error('Failed to lock users with role', { error: error instanceof Error ? error.message : String(error), roleName });
+      throw error;
+    }
+  }
+
   async userHasRole(userId: string, roleName: string): Promise<boolean> {
     try {
       const validUserId = userIdSchema.parse(userId);
@@ -540,10 +593,133 @@ export class DrizzleRoleRepository extends BaseDrizzleRepository implements IRol
     }
   }
 
+  // =============================================================================
+  // PERMISSION OPERATIONS
+  // =============================================================================
+
+  async getUserPermissionNames(userId: string): Promise<string[]> {
+    try {
+      const validUserId = userIdSchema.parse(userId);
+
+      await this.initializeDatabase();
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .selectDistinct({ name: permissions.name })
+        .from(userRoles)
+        .innerJoin(rolePermissions, eq(userRoles.roleId, rolePermissions.roleId))
+        .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+        .where(eq(userRoles.userId, validUserId));
+
+      return result.map((p) => p.name);
+    } catch (error) {
+      this.getLogger().error('Failed to get user permission names', { error: error instanceof Error ? error.message : String(error), userId });
+      throw error;
+    }
+  }
+
+  async getRolePermissionNames(roleId: string): Promise<string[]> {
+    try {
+      const validRoleId = roleIdSchema.parse(roleId);
+
+      await this.initializeDatabase();
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select({ name: permissions.name })
+        .from(rolePermissions)
+        .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+        .where(eq(rolePermissions.roleId, validRoleId))
+        .orderBy(permissions.name);
+
+      return result.map((p) => p.name);
+    } catch (error) {
+      this.getLogger().error('Failed to get role permission names', { error: error instanceof Error ? error.message : String(error), roleId });
+      throw error;
+    }
+  }
+
+  async setRolePermissions(data: RolePermissionsSetData): Promise<void> {
+    try {
+      const validatedData = rolePermissionsSetSchema.parse(data);
+
+      await this.initializeDatabase();
+      const db = await this.ensureDatabase();
+
+      const permissionResults = validatedData.permissionNames.length > 0
+        ? await db
+          .select({ id: permissions.id })
+          .from(permissions)
+          .where(inArray(permissions.name, validatedData.permissionNames))
+        : [];
+
+      if (permissionResults.length !== new Set(validatedData.permissionNames).size) {
+        throw new NotFoundError('Some permissions not found');
+      }
+
+      const before = this.auditLogRepository ? await this.getRolePermissionNames(validatedData.roleId) : [];
+
+      // Use transaction to ensure atomicity
+      await db.transaction(async (tx) => {
+        await tx.delete(rolePermissions).where(eq(rolePermissions.roleId, validatedData.roleId));
+
+        if (permissionResults.length > 0) {
+          await tx.insert(rolePermissions).values(
+            permissionResults.map(({ id }) => ({
+              roleId: validatedData.roleId,
+              permissionId: id,
+            }))
+          );
+        }
+      });
+
+      this.getLogger().info('Role permissions set successfully', { roleId: validatedData.roleId, permissionNames: validatedData.permissionNames });
+
+      if (this.auditLogRepository) {
+        await this.recordAudit({
+          action: 'role.setRolePermissions',
+          entityType: 'role',
+          entityId: validatedData.roleId,
+          before: { permissions: before },
+          after: { permissions: await this.getRolePermissionNames(validatedData.roleId) },
+        });
+      }
+    } catch (error) {
+      this.getLogger().error('Failed to set role permissions', { error: error instanceof Error ? error.message : String(error), data });
+      throw error;
+    }
+  }
+
   // =============================================================================
   // PRIVATE HELPER METHODS
   // =============================================================================
 
+  /**
+   * Run a change to a user's roles and record the role names before and after it
+   */
+  private async auditUserRoles(action: string, userId: string, change: () => Promise<void>): Promise<void> {
+    if (!this.auditLogRepository) {
+      await change();
+      return;
+    }
+
+    const before = await this.getUserRoleNames(userId);
+    await change();
+    const after = await this.getUserRoleNames(userId);
+    await this.recordAudit({ action, entityType: 'user', entityId: userId, before: { roles: before }, after: { roles: after } });
+  }
+
+  /**
+   * Audit failures are logged, not thrown: the role change has already been made
+   */
+  private async recordAudit(change: AuditLogRecordRequest): Promise<void> {
+    try {
+      await this.auditLogRepository?.record(change);
+    } catch (error) {
+      this.getLogger().error('Failed to record role audit entry', { error: error instanceof Error ? error.message : String(error), action: change.action, entityId: change.entityId });
+    }
+  }
+
   private mapDbEntityToDomain(dbEntity: DbRoleEntity): Role {
     return {
       id: dbEntity.id,
@@ -0,0 +1,161 @@
+/**
+ * Drizzle Scheduled Task Repository - Entity-Based Architecture
+ *
+ * Implements the scheduled task repository interface using Drizzle ORM with PostgreSQL.
+ * Every scheduler instance sees the same rows; a run is claimed inside a transaction
+ * that holds the task's `pg_try_advisory_xact_lock`, so concurrent instances never
+ * wait on each other and only the one that moves nextRunAt forward runs the task.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IScheduledTaskRepository, ScheduledTask, ScheduledTaskName } from '~/server/domain';
+import { and, asc, eq, lte, notInArray, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { scheduledTasks, type DbScheduledTaskEntity } from '~/server/infrastructure/db/schema';
+import type {
+  ScheduledTaskClaim,
+  ScheduledTaskRunResult,
+  ScheduledTaskSyncRequest,
+} from '~/server/domain/repositories/types/scheduled-task-repository-types';
+import { SCHEDULER_LOCK_NAMESPACE } from '~/server/lib/constants';
+
+export class DrizzleScheduledTaskRepository extends BaseDrizzleRepository implements IScheduledTaskRepository {
+  constructor(private appContext: AppContext) {
+    super('scheduledTasks');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async findAll(): Promise<ScheduledTask[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const tasks = await db
+        .select()
+        .from(scheduledTasks)
+        .orderBy(asc(scheduledTasks.name));
+
+      return tasks.map(task => this.toDomainScheduledTask(task));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find scheduled tasks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findAll',
+        repository: 'DrizzleScheduledTaskRepository'
+      });
+      throw error;
+    }
+  }
+
+  async sync(tasks: ScheduledTaskSyncRequest[]): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db.transaction(async (tx) => {
+        if (tasks.length > 0) {
+          await tx
+            .insert(scheduledTasks)
+            .values(tasks)
+            .onConflictDoUpdate({
+              target: scheduledTasks.name,
+              set: {
+                cron: sql`excluded.cron`,
+                nextRunAt: sql`case when ${scheduledTasks.cron} = excluded.cron then ${scheduledTasks.nextRunAt} else excluded.next_run_at end`,
+              },
+            });
+        }
+
+        await tx
+          .delete(scheduledTasks)
+          .where(notInArray(scheduledTasks.name, tasks.map(task => task.name)));
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to sync scheduled tasks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        names: tasks.map(task => task.name),
+        operation: 'sync',
+        repository: 'DrizzleScheduledTaskRepository'
+      });
+      throw error;
+    }
+  }
+
+  async claimRun(claim: ScheduledTaskClaim): Promise<boolean> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return await db.transaction(async (tx) => {
+        const [lock] = await tx.execute<{ locked: boolean }>(
+          sql`select pg_try_advisory_xact_lock(${SCHEDULER_LOCK_NAMESPACE}, hashtext(${claim.name})) as locked`
+        );
+        if (!lock?.locked) {
+          return false;
+        }
+
+        const claimed = await tx
+          .update(scheduledTasks)
+          .set({
+            nextRunAt: claim.nextRunAt,
+            lastRunAt: claim.now,
+            lastRunBy: claim.schedulerId,
+          })
+          .where(and(eq(scheduledTasks.name, claim.name), lte(scheduledTasks.nextRunAt, claim.now)))
+          .returning({ id: scheduledTasks.id });
+
+        return claimed.length > 0;
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to claim scheduled task run', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name: claim.name,
+        schedulerId: claim.schedulerId,
+        operation: 'claimRun',
+        repository: 'DrizzleScheduledTaskRepository'
+      });
+      throw error;
+    }
+  }
+
+  async recordResult(name: ScheduledTaskName, result: ScheduledTaskRunResult): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(scheduledTasks)
+        .set({
+          lastFinishedAt: result.finishedAt,
+          lastDurationMs: result.durationMs,
+          lastError: result.error,
+        })
+        .where(eq(scheduledTasks.name, name));
+    } catch (error) {
+      this.appContext.logger.error('Failed to record scheduled task result', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name,
+        operation: 'recordResult',
+        repository: 'DrizzleScheduledTaskRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainScheduledTask(dbTask: DbScheduledTaskEntity): ScheduledTask {
+    return {
+      id: dbTask.id,
+      name: dbTask.name,
+      cron: dbTask.cron,
+      nextRunAt: dbTask.nextRunAt,
+      lastRunAt: dbTask.lastRunAt,
+      lastFinishedAt: dbTask.lastFinishedAt,
+      lastDurationMs: dbTask.lastDurationMs,
+      lastError: dbTask.lastError,
+      lastRunBy: dbTask.lastRunBy,
+      createdAt: dbTask.createdAt,
+      updatedAt: dbTask.updatedAt,
+    };
+  }
+}
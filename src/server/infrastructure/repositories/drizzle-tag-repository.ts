@@ -0,0 +1,388 @@
+/**
+ * Drizzle Tag Repository - Entity-Based Architecture
+ *
+ * Implements the tag repository interface using Drizzle ORM with PostgreSQL.
+ * Tags are user-owned; todo-tag associations live in the todo_tag junction table.
+ * Ownership of the todo side of an association is verified by the service layer.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { ITagRepository, Tag } from '~/server/domain';
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import { tags, todoTags, type DbTagEntity } from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+// Import validation schemas
+import {
+  RepoTagCreateSchema,
+  RepoTagBasicInfoUpdateSchema,
+  RepoTodoTagAssignSchema,
+  RepoTodoTagsSetSchema,
+} from '~/server/domain/repositories/schemas/tag-repository-schemas';
+
+// Import repository types
+import type {
+  TagCreateRequest,
+  TagBasicInfoPartialUpdate,
+  TodoTagAssignData,
+  TodoTagsSetData,
+} from '~/server/domain/repositories/types/tag-repository-types';
+
+export class DrizzleTagRepository extends BaseDrizzleRepository implements ITagRepository {
+  constructor(private appContext: AppContext) {
+    super('tags');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainTag(dbTag: DbTagEntity): Tag {
+    return {
+      id: dbTag.id,
+      name: dbTag.name,
+      color: dbTag.color,
+      userId: dbTag.userId,
+      createdAt: dbTag.createdAt,
+      updatedAt: dbTag.updatedAt,
+    };
+  }
+
+  // =============================================================================
+  // TAG CRUD OPERATIONS
+  // =============================================================================
+
+  async create(input: TagCreateRequest): Promise<Tag> {
+    try {
+      const validatedData = RepoTagCreateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      await this.assertNameAvailable(validatedData.userId, validatedData.name);
+
+      const createdTags = await db.insert(tags).values(validatedData).returning();
+      const createdTag = createdTags[0];
+
+      if (!createdTag) {
+        throw new Err.DatabaseError('Failed to create tag - no data returned');
+      }
+
+      this.appContext.logger.info('Tag created successfully in repository', {
+        tagId: createdTag.id,
+        userId: createdTag.userId,
+        operation: 'create'
+      });
+
+      return this.toDomainTag(createdTag);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: input.userId,
+        operation: 'create',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<Tag | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(tags)
+        .where(
+          and(
+            eq(tags.id, id),
+            eq(tags.userId, userId)
+          )
+        )
+        .limit(1);
+
+      return result[0] ? this.toDomainTag(result[0]) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find tag by ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagId: id,
+        userId,
+        operation: 'findById',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByIds(ids: string[], userId: string): Promise<Tag[]> {
+    try {
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(tags)
+        .where(
+          and(
+            inArray(tags.id, ids),
+            eq(tags.userId, userId)
+          )
+        )
+        .orderBy(asc(tags.name));
+
+      return result.map(tag => this.toDomainTag(tag));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find tags by IDs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagIds: ids,
+        userId,
+        operation: 'findByIds',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByUserId(userId: string): Promise<Tag[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select()
+        .from(tags)
+        .where(eq(tags.userId, userId))
+        .orderBy(asc(tags.name));
+
+      this.appContext.logger.info('Found tags for user', {
+        userId,
+        count: result.length,
+        operation: 'findByUserId'
+      });
+
+      return result.map(tag => this.toDomainTag(tag));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find tags by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findByUserId',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateBasicInfo(id: string, input: TagBasicInfoPartialUpdate, userId: string): Promise<Tag> {
+    try {
+      const validatedData = RepoTagBasicInfoUpdateSchema.parse(input);
+
+      const db = await this.ensureDatabase();
+
+      if (validatedData.name !== undefined) {
+        await this.assertNameAvailable(userId, validatedData.name, id);
+      }
+
+      const updateFields: TagBasicInfoPartialUpdate = {};
+      if (validatedData.name !== undefined) updateFields.name = validatedData.name;
+      if (validatedData.color !== undefined) updateFields.color = validatedData.color;
+
+      const updatedTags = await db
+        .update(tags)
+        .set(updateFields)
+        .where(
+          and(
+            eq(tags.id, id),
+            eq(tags.userId, userId)
+          )
+        )
+        .returning();
+
+      const updatedTag = updatedTags[0];
+      if (!updatedTag) {
+        throw new Err.NotFoundError(`Tag not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Tag updated successfully', {
+        tagId: id,
+        userId,
+        operation: 'updateBasicInfo'
+      });
+
+      return this.toDomainTag(updatedTag);
+    } catch (error) {
+      this.appContext.logger.error('Failed to update tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagId: id,
+        userId,
+        operation: 'updateBasicInfo',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      // Junction rows are removed by the todo_tag foreign key cascade
+      const deletedTags = await db
+        .delete(tags)
+        .where(
+          and(
+            eq(tags.id, id),
+            eq(tags.userId, userId)
+          )
+        )
+        .returning({ id: tags.id });
+
+      if (deletedTags.length === 0) {
+        throw new Err.NotFoundError(`Tag not found or not owned by user: ${id}`);
+      }
+
+      this.appContext.logger.info('Tag deleted successfully', {
+        tagId: id,
+        userId,
+        operation: 'delete'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagId: id,
+        userId,
+        operation: 'delete',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // TODO-TAG ASSOCIATION OPERATIONS
+  // =============================================================================
+
+  async assignTagToTodo(data: TodoTagAssignData): Promise<void> {
+    try {
+      const validatedData = RepoTodoTagAssignSchema.parse(data);
+
+      const db = await this.ensureDatabase();
+
+      await db
+        .insert(todoTags)
+        .values(validatedData)
+        .onConflictDoNothing();
+
+      this.appContext.logger.info('Tag assigned to todo successfully', {
+        ...validatedData,
+        operation: 'assignTagToTodo'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to assign tag to todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data,
+        operation: 'assignTagToTodo',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async removeTagFromTodo(data: TodoTagAssignData): Promise<void> {
+    try {
+      const validatedData = RepoTodoTagAssignSchema.parse(data);
+
+      const db = await this.ensureDatabase();
+
+      await db
+        .delete(todoTags)
+        .where(
+          and(
+            eq(todoTags.todoId, validatedData.todoId),
+            eq(todoTags.tagId, validatedData.tagId)
+          )
+        );
+
+      this.appContext.logger.info('Tag removed from todo successfully', {
+        ...validatedData,
+        operation: 'removeTagFromTodo'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to remove tag from todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data,
+        operation: 'removeTagFromTodo',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  async setTodoTags(data: TodoTagsSetData): Promise<void> {
+    try {
+      const validatedData = RepoTodoTagsSetSchema.parse(data);
+      const tagIds = [...new Set(validatedData.tagIds)];
+
+      const db = await this.ensureDatabase();
+
+      // Use transaction to ensure atomicity
+      await db.transaction(async (tx) => {
+        await tx.delete(todoTags).where(eq(todoTags.todoId, validatedData.todoId));
+
+        if (tagIds.length > 0) {
+          await tx.insert(todoTags).values(
+            tagIds.map((tagId) => ({
+              todoId: validatedData.todoId,
+              tagId,
+            }))
+          );
+        }
+      });
+
+      this.appContext.logger.info('Todo tags set successfully', {
+        todoId: validatedData.todoId,
+        tagIds,
+        operation: 'setTodoTags'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to set todo tags', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data,
+        operation: 'setTodoTags',
+        repository: 'DrizzleTagRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Tag names are unique per user (case-insensitive)
+   */
+  private async assertNameAvailable(userId: string, name: string, excludeTagId?: string): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    const existing = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(
+        and(
+          eq(tags.userId, userId),
+          sql`lower(${tags.name}) = lower(${name})`,
+          excludeTagId ? ne(tags.id, excludeTagId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      throw new Err.ConflictError(`Tag already exists: ${name}`, { field: 'name', value: name });
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Drizzle Todo Change Repository - Entity-Based Architecture
+ *
+ * Implements the todo change repository interface using Drizzle ORM with PostgreSQL.
+ * Each recorded change is announced with NOTIFY in the same transaction, so listeners
+ * only hear about committed changes. Listening goes through the postgres client, which
+ * shares one dedicated connection between all LISTENs of the process.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { ITodoChangeRepository, TodoChange } from '~/server/domain';
+import { and, asc, desc, eq, gt, lt, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import {
+  todoChanges,
+  TODO_CHANGE_CHANNEL,
+  TODO_CHANGE_TYPES,
+  type DbTodoChangeEntity,
+} from '~/server/infrastructure/db/schema';
+import type { TodoChangeRecordRequest } from '~/server/domain/repositories/types/todo-change-repository-types';
+import { connectToDatabase } from '~/server/lib/db';
+
+/**
+ * NOTIFY payload: the recorded change with its timestamp as an ISO string
+ */
+type TodoChangeNotification = Omit<TodoChange, 'createdAt'> & { createdAt: string };
+
+export class DrizzleTodoChangeRepository extends BaseDrizzleRepository implements ITodoChangeRepository {
+  constructor(private appContext: AppContext) {
+    super('todoChanges');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  async record(data: TodoChangeRecordRequest): Promise<TodoChange> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return await db.transaction(async (tx) => {
+        const [change] = await tx
+          .insert(todoChanges)
+          .values({
+            userId: data.userId,
+            todoId: data.todoId,
+            type: data.type,
+          })
+          .returning();
+
+        if (!change) {
+          throw new Error('Failed to record todo change');
+        }
+
+        const notification: TodoChangeNotification = {
+          ...this.toDomainTodoChange(change),
+          createdAt: change.createdAt.toISOString(),
+        };
+        await tx.execute(sql`select pg_notify(${TODO_CHANGE_CHANNEL}, ${JSON.stringify(notification)})`);
+
+        return this.toDomainTodoChange(change);
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to record todo change', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: data.userId,
+        todoId: data.todoId,
+        type: data.type,
+        operation: 'record',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findAfter(userId: string, afterId: number, limit: number): Promise<TodoChange[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const changes = await db
+        .select()
+        .from(todoChanges)
+        .where(and(eq(todoChanges.userId, userId), gt(todoChanges.id, afterId)))
+        .orderBy(asc(todoChanges.id))
+        .limit(limit);
+
+      return changes.map(change => this.toDomainTodoChange(change));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todo changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        afterId,
+        operation: 'findAfter',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findLatestId(userId: string): Promise<number | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [latest] = await db
+        .select({ id: todoChanges.id })
+        .from(todoChanges)
+        .where(eq(todoChanges.userId, userId))
+        .orderBy(desc(todoChanges.id))
+        .limit(1);
+
+      return latest?.id ?? null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find latest todo change', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findLatestId',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      throw error;
+    }
+  }
+
+  async listen(userId: string, onChange: (change: TodoChange) => void): Promise<() => Promise<void>> {
+    try {
+      const { client } = await connectToDatabase();
+
+      const subscription = await client.listen(TODO_CHANGE_CHANNEL, (payload) => {
+        const change = this.parseNotification(payload);
+        if (change?.userId === userId) {
+          onChange(change);
+        }
+      });
+
+      return () => subscription.unlisten();
+    } catch (error) {
+      this.appContext.logger.error('Failed to listen for todo changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'listen',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeBefore(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const purgedChanges = await db
+        .delete(todoChanges)
+        .where(lt(todoChanges.createdAt, cutoff))
+        .returning({ id: todoChanges.id });
+
+      this.appContext.logger.info('Expired todo changes purged successfully', {
+        cutoff,
+        count: purgedChanges.length,
+        operation: 'purgeBefore'
+      });
+
+      return purgedChanges.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired todo changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeBefore',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read a NOTIFY payload; malformed payloads are logged and skipped
+   */
+  private parseNotification(payload: string): TodoChange | null {
+    try {
+      const notification = JSON.parse(payload) as Partial<TodoChangeNotification>;
+      const type = TODO_CHANGE_TYPES.find(changeType => changeType === notification.type);
+      if (
+        !type ||
+        typeof notification.id !== 'number' ||
+        typeof notification.userId !== 'string' ||
+        typeof notification.todoId !== 'string' ||
+        typeof notification.createdAt !== 'string'
+      ) {
+        throw new Error('Unexpected payload shape');
+      }
+
+      return {
+        id: notification.id,
+        userId: notification.userId,
+        todoId: notification.todoId,
+        type,
+        createdAt: new Date(notification.createdAt),
+      };
+    } catch (error) {
+      this.appContext.logger.warn('Ignoring malformed todo change notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload,
+        operation: 'parseNotification',
+        repository: 'DrizzleTodoChangeRepository'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainTodoChange(dbChange: DbTodoChangeEntity): TodoChange {
+    return {
+      id: dbChange.id,
+      userId: dbChange.userId,
+      todoId: dbChange.todoId,
+      type: dbChange.type,
+      createdAt: dbChange.createdAt,
+    };
+  }
+}
@@ -11,11 +11,28 @@
  */
 
 import type { AppContext } from '~/server/context/app-context';
-import type { ITodoRepository, Todo } from '~/server/domain';
-import { eq, and, desc, asc, count, type SQL } from 'drizzle-orm';
+import type { ITodoRepository, Todo, TodoChecklistItem, TodoRevision, TodoSearchResult, TodoTag } from '~/server/domain';
+import { eq, and, desc, asc, count, gte, lt, isNotNull, isNull, inArray, sql, type SQL } from 'drizzle-orm';
 import { BaseDrizzleRepository } from './base-drizzle-repository';
-import { todos } from '~/server/infrastructure/db/schema';
+import { getKeysetOrderBy, getKeysetWhere, getPageLimit, splitPage, type KeysetSortKey } from './keyset-pagination';
+import {
+  todos,
+  tags,
+  todoTags,
+  checklistItems,
+  todoRevisions,
+  TODO_REVISION_FIELDS,
+  TODO_SEARCH_CONFIG,
+  type DbTodoEntity,
+  type DbTodoInsert,
+  type TodoRevisionField,
+  type TodoRevisionValue,
+} from '~/server/infrastructure/db/schema';
+import type { getDatabase } from '~/server/lib/db';
 import * as Err from '~/server/lib/errors/domain-errors';
+import { DEFAULT_PAGE_LIMIT, TODO_RANK_GAP } from '~/server/lib/constants';
+import { toTsQuery } from '~/server/utils';
+import { HIGHLIGHT_START, HIGHLIGHT_STOP } from '~/lib/search-highlight';
 
 // Import validation schemas
 import {
@@ -24,7 +41,16 @@ import {
   RepoTodoStatusUpdateSchema,
   RepoTodoTitleUpdateSchema,
   RepoTodoDescriptionUpdateSchema,
+  RepoTodoPriorityUpdateSchema,
+  RepoTodoScheduleUpdateSchema,
+  RepoTodoRecurrenceUpdateSchema,
+  RepoTodoProjectUpdateSchema,
+  RepoTodoRankUpdatesSchema,
+  RepoTodoDueDateRangeSchema,
+  RepoTodoSortSchema,
+  RepoTodoSearchQuerySchema,
 } from '~/server/domain/repositories/schemas/todo-repository-schemas';
+import { RepoTodoTagFilterSchema } from '~/server/domain/repositories/schemas/tag-repository-schemas';
 
 // Import repository types
 import type {
@@ -33,8 +59,50 @@ import type {
   TodoStatusUpdate,
   TodoTitleUpdate,
   TodoDescriptionUpdate,
+  TodoPriorityUpdate,
+  TodoSchedulePartialUpdate,
+  TodoRecurrenceUpdate,
+  TodoProjectUpdate,
+  TodoRankUpdate,
+  TodoRankEntry,
+  TodoProjectScope,
+  TodoDueDateRange,
+  TodoSort,
+  TodoSortField,
   TodoFilterQuery,
+  TodoSearchQuery,
 } from '~/server/domain/repositories/types/todo-repository-types';
+import type { TodoTagFilterQuery } from '~/server/domain/repositories/types/tag-repository-types';
+import type { CursorPage, CursorPageQuery } from '~/server/domain/repositories/types/pagination-types';
+
+/**
+ * Columns that todo queries may be ordered by
+ */
+const sortableColumns = {
+  priority: todos.priority,
+  dueDate: todos.dueDate,
+  startDate: todos.startDate,
+  createdAt: todos.createdAt,
+  updatedAt: todos.updatedAt,
+  title: todos.title,
+  rank: todos.rank,
+} satisfies Record<TodoSortField, unknown>;
+
+/**
+ * Keyset sort key together with the row field it reads the cursor value from
+ */
+type TodoSortKey = KeysetSortKey & { field: TodoSortField | 'id' };
+
+/**
+ * `ts_headline` options: whole titles, and up to two short fragments of long descriptions
+ */
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const DESCRIPTION_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`;
+
+/**
+ * Transaction handle passed to `db.transaction` callbacks
+ */
+type DbTransaction = Parameters<Parameters<Awaited<ReturnType<typeof getDatabase>>['transaction']>[0]>[0];
 
 export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITodoRepository {
   constructor(private appContext: AppContext) {
@@ -48,18 +116,46 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
   /**
    * Convert database entity to domain model
    */
-  private toDomainTodo(dbTodo: typeof todos.$inferSelect): Todo {
+  private toDomainTodo(
+    dbTodo: typeof todos.$inferSelect,
+    todoTagList: TodoTag[] = [],
+    checklist: TodoChecklistItem[] = []
+  ): Todo {
     return {
       id: dbTodo.id,
       title: dbTodo.title,
       description: dbTodo.description,
       completed: dbTodo.completed,
+      priority: dbTodo.priority,
+      startDate: dbTodo.startDate,
+      dueDate: dbTodo.dueDate,
+      recurrence: dbTodo.recurrence,
+      tags: todoTagList,
+      checklist,
+      projectId: dbTodo.projectId,
+      rank: dbTodo.rank,
       userId: dbTodo.userId,
       createdAt: dbTodo.createdAt,
       updatedAt: dbTodo.updatedAt,
+      deletedAt: dbTodo.deletedAt,
+      version: dbTodo.version,
     };
   }
 
+  /**
+   * Convert database entities to domain models with their tags and checklists attached
+   */
+  private async toDomainTodos(dbTodos: (typeof todos.$inferSelect)[]): Promise<Todo[]> {
+    const todoIds = dbTodos.map(todo => todo.id);
+    const [tagsByTodoId, checklistByTodoId] = await Promise.all([
+      this.findTagsByTodoIds(todoIds),
+      this.findChecklistByTodoIds(todoIds),
+    ]);
+    return dbTodos.map(todo =>
+      this.toDomainTodo(todo, tagsByTodoId.get(todo.id), checklistByTodoId.get(todo.id))
+    );
+  }
+
   async create(input: TodoCreateRequest): Promise<Todo> {
     try {
       this.appContext.logger.info('Creating todo in repository', {
@@ -75,8 +171,16 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
       const newTodo = {
         title: validatedData.title,
         description: validatedData.description,
-        completed: false,
+        completed: validatedData.completed,
+        priority: validatedData.priority,
+        startDate: validatedData.startDate,
+        dueDate: validatedData.dueDate,
+        recurrence: validatedData.recurrence,
+        projectId: validatedData.projectId,
+        // Append to the end of the user's manual order
+        rank: sql`coalesce((select max(${todos.rank}) from ${todos} where ${todos.userId} = ${validatedData.userId}), 0) + ${TODO_RANK_GAP}`,
         userId: validatedData.userId,
+        createdAt: validatedData.createdAt,
       };
 
       // Ensure database is initialized
@@ -125,7 +229,8 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
         .where(
           and(
             eq(todos.id, id),
-            eq(todos.userId, userId)
+            eq(todos.userId, userId),
+            isNull(todos.deletedAt)
           )
         )
         .limit(1);
@@ -139,7 +244,8 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
         return null;
       }
 
-      return this.toDomainTodo(todo[0]);
+      const [domainTodo] = await this.toDomainTodos([todo[0]]);
+      return domainTodo ?? null;
     } catch (error) {
       this.appContext.logger.error('Failed to find todo by ID', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -154,7 +260,7 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
 
   async delete(id: string, userId: string): Promise<void> {
     try {
-      this.appContext.logger.info('Deleting todo', {
+      this.appContext.logger.info('Moving todo to trash', {
         todoId: id,
         userId,
         operation: 'delete',
@@ -163,28 +269,24 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
 
       const db = await this.ensureDatabase();
 
-      // First verify the todo exists and belongs to user
-      const existingTodo = await db
-        .select()
-        .from(todos)
+      // Soft delete: the row stays (with its tags and checklist) until restored or purged
+      const trashedTodos = await db
+        .update(todos)
+        .set({ deletedAt: new Date() })
         .where(
           and(
             eq(todos.id, id),
-            eq(todos.userId, userId)
+            eq(todos.userId, userId),
+            isNull(todos.deletedAt)
           )
         )
-        .limit(1);
+        .returning({ id: todos.id });
 
-      if (existingTodo.length === 0) {
+      if (trashedTodos.length === 0) {
         throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
       }
 
-      // Perform hard delete
-      await db
-        .delete(todos)
-        .where(eq(todos.id, id));
-
-      this.appContext.logger.info('Todo deleted successfully', {
+      this.appContext.logger.info('Todo moved to trash successfully', {
         todoId: id,
         userId,
         operation: 'delete'
@@ -201,36 +303,162 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async updateContent(id: string, input: TodoContentPartialUpdate, userId: string): Promise<void> {
+  // =============================================================================
+  // TRASH OPERATIONS
+  // =============================================================================
+
+  async restore(id: string, userId: string): Promise<Todo> {
     try {
-      const validatedData = RepoTodoContentUpdateSchema.parse(input);
-      
       const db = await this.ensureDatabase();
 
-      // First verify the todo exists and belongs to user
-      const existingTodo = await db
-        .select()
-        .from(todos)
+      const restoredTodos = await db
+        .update(todos)
+        .set({ deletedAt: null })
         .where(
           and(
             eq(todos.id, id),
-            eq(todos.userId, userId)
+            eq(todos.userId, userId),
+            isNotNull(todos.deletedAt)
           )
         )
-        .limit(1);
+        .returning();
 
-      if (existingTodo.length === 0) {
-        throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
+      const restoredTodo = restoredTodos[0];
+      if (!restoredTodo) {
+        throw new Err.NotFoundError(`Todo not found in trash: ${id}`);
+      }
+
+      this.appContext.logger.info('Todo restored from trash successfully', {
+        todoId: id,
+        userId,
+        operation: 'restore'
+      });
+
+      const [domainTodo] = await this.toDomainTodos([restoredTodo]);
+      if (!domainTodo) {
+        throw new Err.DatabaseError('Failed to retrieve restored todo');
       }
+      return domainTodo;
+    } catch (error) {
+      this.appContext.logger.error('Failed to restore todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
+        userId,
+        operation: 'restore',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findTrashed(userId: string): Promise<Todo[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(
+          and(
+            eq(todos.userId, userId),
+            isNotNull(todos.deletedAt)
+          )
+        )
+        .orderBy(desc(todos.deletedAt));
+
+      this.appContext.logger.info('Found trashed todos', {
+        userId,
+        count: todoList.length,
+        operation: 'findTrashed'
+      });
+
+      return await this.toDomainTodos(todoList);
+    } catch (error) {
+      this.appContext.logger.error('Failed to find trashed todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findTrashed',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeTrashed(userId: string): Promise<string[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      // Hard delete; checklist items and tag links go with it via foreign key cascades
+      const purgedTodos = await db
+        .delete(todos)
+        .where(
+          and(
+            eq(todos.userId, userId),
+            isNotNull(todos.deletedAt)
+          )
+        )
+        .returning({ id: todos.id });
+
+      this.appContext.logger.info('Trash emptied successfully', {
+        userId,
+        count: purgedTodos.length,
+        operation: 'purgeTrashed'
+      });
+
+      return purgedTodos.map(todo => todo.id);
+    } catch (error) {
+      this.appContext.logger.error('Failed to empty trash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'purgeTrashed',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeTrashedBefore(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const purgedTodos = await db
+        .delete(todos)
+        .where(lt(todos.deletedAt, cutoff))
+        .returning({ id: todos.id });
+
+      this.appContext.logger.info('Expired trash purged successfully', {
+        cutoff,
+        count: purgedTodos.length,
+        operation: 'purgeTrashedBefore'
+      });
+
+      return purgedTodos.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired trash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeTrashedBefore',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateContent(id: string, input: TodoContentPartialUpdate, userId: string, expectedVersion?: number): Promise<void> {
+    try {
+      const validatedData = RepoTodoContentUpdateSchema.parse(input);
+      
+      const db = await this.ensureDatabase();
 
       const updateFields: { title?: string; description?: string | null } = {};
       if (validatedData.title !== undefined) updateFields.title = validatedData.title;
       if (validatedData.description !== undefined) updateFields.description = validatedData.description;
 
-      await db
-        .update(todos)
-        .set(updateFields)
-        .where(eq(todos.id, id));
+      await db.transaction(async (tx) => {
+        const previousTodo = await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+        await this.recordRevisions(tx, previousTodo, updateFields);
+      });
 
       this.appContext.logger.info('Todo content updated successfully', {
         todoId: id,
@@ -249,34 +477,20 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async updateStatus(id: string, input: TodoStatusUpdate, userId: string): Promise<void> {
+  async updateStatus(id: string, input: TodoStatusUpdate, userId: string, expectedVersion?: number): Promise<boolean> {
     try {
       const validatedData = RepoTodoStatusUpdateSchema.parse(input);
       
       const db = await this.ensureDatabase();
 
-      // First verify the todo exists and belongs to user
-      const existingTodo = await db
-        .select()
-        .from(todos)
-        .where(
-          and(
-            eq(todos.id, id),
-            eq(todos.userId, userId)
-          )
-        )
-        .limit(1);
-
-      if (existingTodo.length === 0) {
-        throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
-      }
-
       const updateFields = { completed: validatedData.completed };
 
-      await db
-        .update(todos)
-        .set(updateFields)
-        .where(eq(todos.id, id));
+      const previousCompleted = await db.transaction(async (tx) => {
+        const previousTodo = await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+        await this.recordRevisions(tx, previousTodo, updateFields);
+        return previousTodo.completed;
+      });
 
       this.appContext.logger.info('Todo status updated successfully', {
         todoId: id,
@@ -284,6 +498,8 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
         completed: validatedData.completed,
         operation: 'updateStatus'
       });
+
+      return previousCompleted;
     } catch (error) {
       this.appContext.logger.error('Failed to update todo status', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -296,34 +512,19 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async updateTitle(id: string, input: TodoTitleUpdate, userId: string): Promise<void> {
+  async updateTitle(id: string, input: TodoTitleUpdate, userId: string, expectedVersion?: number): Promise<void> {
     try {
       const validatedData = RepoTodoTitleUpdateSchema.parse(input);
       
       const db = await this.ensureDatabase();
 
-      // First verify the todo exists and belongs to user
-      const existingTodo = await db
-        .select()
-        .from(todos)
-        .where(
-          and(
-            eq(todos.id, id),
-            eq(todos.userId, userId)
-          )
-        )
-        .limit(1);
-
-      if (existingTodo.length === 0) {
-        throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
-      }
-
       const updateFields = { title: validatedData.title };
 
-      await db
-        .update(todos)
-        .set(updateFields)
-        .where(eq(todos.id, id));
+      await db.transaction(async (tx) => {
+        const previousTodo = await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+        await this.recordRevisions(tx, previousTodo, updateFields);
+      });
 
       this.appContext.logger.info('Todo title updated successfully', {
         todoId: id,
@@ -342,34 +543,19 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async updateDescription(id: string, input: TodoDescriptionUpdate, userId: string): Promise<void> {
+  async updateDescription(id: string, input: TodoDescriptionUpdate, userId: string, expectedVersion?: number): Promise<void> {
     try {
       const validatedData = RepoTodoDescriptionUpdateSchema.parse(input);
       
       const db = await this.ensureDatabase();
 
-      // First verify the todo exists and belongs to user
-      const existingTodo = await db
-        .select()
-        .from(todos)
-        .where(
-          and(
-            eq(todos.id, id),
-            eq(todos.userId, userId)
-          )
-        )
-        .limit(1);
-
-      if (existingTodo.length === 0) {
-        throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
-      }
-
       const updateFields = { description: validatedData.description };
 
-      await db
-        .update(todos)
-        .set(updateFields)
-        .where(eq(todos.id, id));
+      await db.transaction(async (tx) => {
+        const previousTodo = await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+        await this.recordRevisions(tx, previousTodo, updateFields);
+      });
 
       this.appContext.logger.info('Todo description updated successfully', {
         todoId: id,
@@ -388,171 +574,482 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async toggleCompletion(id: string, userId: string): Promise<Todo> {
+  async updatePriority(id: string, input: TodoPriorityUpdate, userId: string, expectedVersion?: number): Promise<void> {
     try {
+      const validatedData = RepoTodoPriorityUpdateSchema.parse(input);
+      
       const db = await this.ensureDatabase();
 
-      // First, get the current todo to know its status
-      const currentTodo = await db
-        .select()
-        .from(todos)
-        .where(
-          and(
-            eq(todos.id, id),
-            eq(todos.userId, userId)
-          )
-        )
-        .limit(1);
+      const updateFields = { priority: validatedData.priority };
 
-      if (currentTodo.length === 0 || !currentTodo[0]) {
-        throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
-      }
+      await db.transaction(async (tx) => {
+        await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+      });
 
-      const newCompletedStatus = !currentTodo[0].completed;
-      const updateFields = { completed: newCompletedStatus };
+      this.appContext.logger.info('Todo priority updated successfully', {
+        todoId: id,
+        userId,
+        priority: validatedData.priority,
+        operation: 'updatePriority'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to update todo priority', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
+        userId,
+        operation: 'updatePriority',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
 
-      const updatedTodos = await db
-        .update(todos)
-        .set(updateFields)
-        .where(eq(todos.id, id))
-        .returning();
+  async updateSchedule(id: string, input: TodoSchedulePartialUpdate, userId: string, expectedVersion?: number): Promise<void> {
+    try {
+      const validatedData = RepoTodoScheduleUpdateSchema.parse(input);
+      
+      const db = await this.ensureDatabase();
 
-      const updatedTodo = updatedTodos[0];
-      if (!updatedTodo) {
-        throw new Err.DatabaseError('Failed to retrieve updated todo');
-      }
+      const updateFields: { startDate?: Date | null; dueDate?: Date | null } = {};
+      if (validatedData.startDate !== undefined) updateFields.startDate = validatedData.startDate;
+      if (validatedData.dueDate !== undefined) updateFields.dueDate = validatedData.dueDate;
+
+      await db.transaction(async (tx) => {
+        const existingTodo = await this.findOwnedForUpdate(tx, id, userId);
+
+        // Validate ordering against the stored value when only one side changes
+        const effectiveStart = updateFields.startDate !== undefined ? updateFields.startDate : existingTodo.startDate;
+        const effectiveDue = updateFields.dueDate !== undefined ? updateFields.dueDate : existingTodo.dueDate;
+        if (effectiveStart && effectiveDue && effectiveStart.getTime() > effectiveDue.getTime()) {
+          throw new Err.ValidationError('Start date must be before or equal to due date', {
+            field: 'startDate',
+            startDate: effectiveStart,
+            dueDate: effectiveDue,
+          });
+        }
+
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+      });
 
-      this.appContext.logger.info('Todo completion toggled successfully', {
+      this.appContext.logger.info('Todo schedule updated successfully', {
         todoId: id,
         userId,
-        newStatus: newCompletedStatus,
-        operation: 'toggleCompletion'
+        operation: 'updateSchedule'
       });
-
-      return this.toDomainTodo(updatedTodo);
     } catch (error) {
-      this.appContext.logger.error('Failed to toggle todo completion', {
+      this.appContext.logger.error('Failed to update todo schedule', {
         error: error instanceof Error ? error.message : 'Unknown error',
         todoId: id,
         userId,
-        operation: 'toggleCompletion',
+        operation: 'updateSchedule',
         repository: 'DrizzleTodoRepository'
       });
       throw error;
     }
   }
 
-  async findByUserId(
-    userId: string,
-    options?: {
-      includeCompleted?: boolean;
-      limit?: number;
-      skip?: number;
-      sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<Todo[]> {
+  async updateRecurrence(id: string, input: TodoRecurrenceUpdate, userId: string, expectedVersion?: number): Promise<void> {
     try {
-      const db = await this.ensureDatabase();
-
-      // Build where conditions
-      const conditions = [eq(todos.userId, userId)];
+      const validatedData = RepoTodoRecurrenceUpdateSchema.parse(input);
       
-      // Filter by completion status if specified
-      if (options?.includeCompleted === false) {
-        conditions.push(eq(todos.completed, false));
-      }
-
-      let query = db
-        .select()
-        .from(todos)
-        .where(and(...conditions));
-
-      // Apply sorting (default to newest first)
-      if (options?.sort?.createdAt === -1) {
-        query = query.orderBy(desc(todos.createdAt)) as typeof query;
-      } else if (options?.sort?.createdAt === 1) {
-        query = query.orderBy(asc(todos.createdAt)) as typeof query;
-      } else {
-        query = query.orderBy(desc(todos.createdAt)) as typeof query;
-      }
+      const db = await this.ensureDatabase();
 
-      // Apply pagination
-      if (options?.limit) {
-        query = query.limit(options.limit) as typeof query;
-      }
-      if (options?.skip) {
-        query = query.offset(options.skip) as typeof query;
-      }
+      const updateFields = { recurrence: validatedData.recurrence };
 
-      const todoList = await query;
+      await db.transaction(async (tx) => {
+        await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+      });
 
-      this.appContext.logger.info('Found todos for user', {
+      this.appContext.logger.info('Todo recurrence updated successfully', {
+        todoId: id,
         userId,
-        count: todoList.length,
-        includeCompleted: options?.includeCompleted,
-        operation: 'findByUserId'
+        repeats: validatedData.recurrence !== null,
+        operation: 'updateRecurrence'
       });
-
-      return todoList.map(todo => this.toDomainTodo(todo));
     } catch (error) {
-      this.appContext.logger.error('Failed to find todos by user ID', {
+      this.appContext.logger.error('Failed to update todo recurrence', {
         error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
         userId,
-        operation: 'findByUserId',
+        operation: 'updateRecurrence',
         repository: 'DrizzleTodoRepository'
       });
       throw error;
     }
   }
 
-  async findByStatus(userId: string, completed: boolean): Promise<Todo[]> {
+  async updateProject(id: string, input: TodoProjectUpdate, userId: string, expectedVersion?: number): Promise<void> {
     try {
+      const validatedData = RepoTodoProjectUpdateSchema.parse(input);
+      
       const db = await this.ensureDatabase();
 
-      const todoList = await db
-        .select()
-        .from(todos)
-        .where(
-          and(
-            eq(todos.userId, userId),
-            eq(todos.completed, completed)
-          )
-        )
-        .orderBy(desc(todos.createdAt));
+      const updateFields = { projectId: validatedData.projectId };
 
-      this.appContext.logger.info('Found todos by status', {
-        userId,
-        completed,
-        count: todoList.length,
-        operation: 'findByStatus'
+      await db.transaction(async (tx) => {
+        await this.findOwnedForUpdate(tx, id, userId);
+        await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
       });
 
-      return todoList.map(todo => this.toDomainTodo(todo));
+      this.appContext.logger.info('Todo project updated successfully', {
+        todoId: id,
+        userId,
+        projectId: validatedData.projectId,
+        operation: 'updateProject'
+      });
     } catch (error) {
-      this.appContext.logger.error('Failed to find todos by status', {
+      this.appContext.logger.error('Failed to update todo project', {
         error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
         userId,
-        completed,
-        operation: 'findByStatus',
+        operation: 'updateProject',
         repository: 'DrizzleTodoRepository'
       });
       throw error;
     }
   }
 
-  async countByUserId(userId: string, filter?: { completed?: boolean }): Promise<number> {
+  async updateRanks(updates: TodoRankUpdate[], userId: string): Promise<void> {
     try {
+      const validatedUpdates = RepoTodoRankUpdatesSchema.parse(updates);
+
       const db = await this.ensureDatabase();
 
-      let whereCondition: SQL | undefined = eq(todos.userId, userId);
+      // Use transaction so a rebalance never leaves the list half renumbered
+      await db.transaction(async (tx) => {
+        for (const update of validatedUpdates) {
+          const updatedTodos = await tx
+            .update(todos)
+            .set({ rank: update.rank, version: sql`${todos.version} + 1` })
+            .where(
+              and(
+                eq(todos.id, update.id),
+                eq(todos.userId, userId),
+                isNull(todos.deletedAt)
+              )
+            )
+            .returning({ id: todos.id });
+
+          if (updatedTodos.length === 0) {
+            throw new Err.NotFoundError(`Todo not found or not owned by user: ${update.id}`);
+          }
+        }
+      });
 
-      if (filter?.completed !== undefined) {
-        whereCondition = and(
-          eq(todos.userId, userId),
-          eq(todos.completed, filter.completed)
-        );
+      this.appContext.logger.info('Todo ranks updated successfully', {
+        userId,
+        count: validatedUpdates.length,
+        operation: 'updateRanks'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to update todo ranks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        count: updates.length,
+        operation: 'updateRanks',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async bumpVersion(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await this.updateVersioned(db, id, userId, {});
+
+      this.appContext.logger.info('Todo version bumped successfully', {
+        todoId: id,
+        userId,
+        operation: 'bumpVersion'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to bump todo version', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
+        userId,
+        operation: 'bumpVersion',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async toggleCompletion(id: string, userId: string, expectedVersion?: number): Promise<Todo> {
+    try {
+      const db = await this.ensureDatabase();
+
+      // Read the current status under the row lock, so concurrent toggles cannot both flip it the same way
+      const { updatedTodo, newCompletedStatus } = await db.transaction(async (tx) => {
+        const previousTodo = await this.findOwnedForUpdate(tx, id, userId);
+        const updateFields = { completed: !previousTodo.completed };
+        const row = await this.updateVersioned(tx, id, userId, updateFields, expectedVersion);
+        await this.recordRevisions(tx, previousTodo, updateFields);
+        return { updatedTodo: row, newCompletedStatus: updateFields.completed };
+      });
+
+      this.appContext.logger.info('Todo completion toggled successfully', {
+        todoId: id,
+        userId,
+        newStatus: newCompletedStatus,
+        operation: 'toggleCompletion'
+      });
+
+      const [domainTodo] = await this.toDomainTodos([updatedTodo]);
+      if (!domainTodo) {
+        throw new Err.DatabaseError('Failed to retrieve updated todo');
+      }
+      return domainTodo;
+    } catch (error) {
+      this.appContext.logger.error('Failed to toggle todo completion', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
+        userId,
+        operation: 'toggleCompletion',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findRevisions(id: string, userId: string): Promise<TodoRevision[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const revisions = await db
+        .select()
+        .from(todoRevisions)
+        .where(
+          and(
+            eq(todoRevisions.todoId, id),
+            eq(todoRevisions.userId, userId)
+          )
+        )
+        .orderBy(desc(todoRevisions.createdAt), asc(todoRevisions.field));
+
+      return revisions.map(revision => ({
+        id: revision.id,
+        todoId: revision.todoId,
+        field: revision.field,
+        previousValue: revision.previousValue ?? null,
+        newValue: revision.newValue ?? null,
+        createdAt: revision.createdAt,
+      }));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todo revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId: id,
+        userId,
+        operation: 'findRevisions',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByUserId(
+    userId: string,
+    options?: {
+      includeCompleted?: boolean;
+      sort?: TodoSort;
+      tags?: TodoTagFilterQuery;
+      projectId?: string | null;
+    } & CursorPageQuery
+  ): Promise<CursorPage<Todo>> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const sortKeys = this.getSortKeys(options?.sort);
+      const limit = getPageLimit(options?.limit);
+
+      // Build where conditions
+      const conditions = [eq(todos.userId, userId), isNull(todos.deletedAt)];
+      
+      // Filter by completion status if specified
+      if (options?.includeCompleted === false) {
+        conditions.push(eq(todos.completed, false));
+      }
+
+      // Filter by project if specified (null = Inbox)
+      const projectCondition = this.getProjectCondition(options);
+      if (projectCondition) {
+        conditions.push(projectCondition);
+      }
+
+      // Filter by tags if specified
+      if (options?.tags?.tagIds.length) {
+        conditions.push(await this.getTagFilterWhere(options.tags));
       }
 
+      // Continue after the previous page
+      if (options?.cursor) {
+        conditions.push(getKeysetWhere(sortKeys, options.cursor));
+      }
+
+      // Fetch one extra row to know whether another page follows
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(and(...conditions))
+        .orderBy(...getKeysetOrderBy(sortKeys))
+        .limit(limit + 1);
+
+      const page = splitPage(todoList, limit, sortKeys, todo => sortKeys.map(key => todo[key.field]));
+
+      this.appContext.logger.info('Found todos for user', {
+        userId,
+        count: page.rows.length,
+        hasMore: page.nextCursor !== null,
+        includeCompleted: options?.includeCompleted,
+        operation: 'findByUserId'
+      });
+
+      return {
+        items: await this.toDomainTodos(page.rows),
+        nextCursor: page.nextCursor,
+      };
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todos by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findByUserId',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findRanks(userId: string): Promise<TodoRankEntry[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return await db
+        .select({ id: todos.id, rank: todos.rank })
+        .from(todos)
+        .where(and(eq(todos.userId, userId), isNull(todos.deletedAt)))
+        .orderBy(asc(todos.rank), asc(todos.createdAt))
+        .for('update');
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todo ranks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findRanks',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async search(userId: string, query: TodoSearchQuery): Promise<TodoSearchResult[]> {
+    try {
+      const validatedQuery = RepoTodoSearchQuerySchema.parse(query);
+
+      const tsQueryText = toTsQuery(validatedQuery.query);
+      if (!tsQueryText) {
+        return [];
+      }
+
+      const db = await this.ensureDatabase();
+
+      const tsQuery = sql`to_tsquery(${TODO_SEARCH_CONFIG}::regconfig, ${tsQueryText})`;
+      const score = sql<number>`ts_rank(${todos.searchVector}, ${tsQuery})`;
+
+      const rows = await db
+        .select({
+          todo: todos,
+          score,
+          titleHighlight: sql<string>`ts_headline(${TODO_SEARCH_CONFIG}::regconfig, ${todos.title}, ${tsQuery}, ${TITLE_HEADLINE_OPTIONS})`,
+          descriptionHighlight: sql<string | null>`ts_headline(${TODO_SEARCH_CONFIG}::regconfig, ${todos.description}, ${tsQuery}, ${DESCRIPTION_HEADLINE_OPTIONS})`,
+        })
+        .from(todos)
+        .where(
+          and(
+            eq(todos.userId, userId),
+            isNull(todos.deletedAt),
+            validatedQuery.includeCompleted === false ? eq(todos.completed, false) : undefined,
+            sql`${todos.searchVector} @@ ${tsQuery}`
+          )
+        )
+        .orderBy(desc(score), desc(todos.updatedAt))
+        .limit(validatedQuery.limit ?? DEFAULT_PAGE_LIMIT);
+
+      const domainTodos = await this.toDomainTodos(rows.map(row => row.todo));
+
+      this.appContext.logger.info('Searched todos', {
+        userId,
+        query: validatedQuery.query,
+        count: rows.length,
+        operation: 'search'
+      });
+
+      return rows.map((row, index) => ({
+        todo: domainTodos[index]!,
+        score: row.score,
+        titleHighlight: row.titleHighlight,
+        descriptionHighlight: row.descriptionHighlight,
+      }));
+    } catch (error) {
+      this.appContext.logger.error('Failed to search todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        query: query.query,
+        operation: 'search',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findByStatus(userId: string, completed: boolean): Promise<Todo[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(
+          and(
+            eq(todos.userId, userId),
+            eq(todos.completed, completed),
+            isNull(todos.deletedAt)
+          )
+        )
+        .orderBy(desc(todos.createdAt));
+
+      this.appContext.logger.info('Found todos by status', {
+        userId,
+        completed,
+        count: todoList.length,
+        operation: 'findByStatus'
+      });
+
+      return await this.toDomainTodos(todoList);
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todos by status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        completed,
+        operation: 'findByStatus',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async countByUserId(userId: string, filter?: { completed?: boolean } & TodoProjectScope): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const whereCondition = and(
+        eq(todos.userId, userId),
+        isNull(todos.deletedAt),
+        filter?.completed !== undefined ? eq(todos.completed, filter.completed) : undefined,
+        this.getProjectCondition(filter)
+      );
+
       const result = await db
         .select({ count: count() })
         .from(todos)
@@ -579,11 +1076,376 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
     }
   }
 
-  async findAll(filter: TodoFilterQuery): Promise<Todo[]> {
+  async findOverdue(userId: string, asOf: Date): Promise<Todo[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(this.getOverdueWhere(userId, asOf))
+        .orderBy(asc(todos.dueDate));
+
+      this.appContext.logger.info('Found overdue todos', {
+        userId,
+        asOf,
+        count: todoList.length,
+        operation: 'findOverdue'
+      });
+
+      return await this.toDomainTodos(todoList);
+    } catch (error) {
+      this.appContext.logger.error('Failed to find overdue todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findOverdue',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findDueInRange(userId: string, range: TodoDueDateRange): Promise<Todo[]> {
+    try {
+      const validatedRange = RepoTodoDueDateRangeSchema.parse(range);
+
+      const db = await this.ensureDatabase();
+
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(this.getDueInRangeWhere(userId, validatedRange))
+        .orderBy(asc(todos.dueDate));
+
+      this.appContext.logger.info('Found todos due in range', {
+        userId,
+        range: validatedRange,
+        count: todoList.length,
+        operation: 'findDueInRange'
+      });
+
+      return await this.toDomainTodos(todoList);
+    } catch (error) {
+      this.appContext.logger.error('Failed to find todos due in range', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        range,
+        operation: 'findDueInRange',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findUserIdsWithTodosDueBefore(before: Date): Promise<string[]> {
     try {
       const db = await this.ensureDatabase();
 
-      const whereConditions = [];
+      const rows = await db
+        .selectDistinct({ userId: todos.userId })
+        .from(todos)
+        .where(
+          and(
+            eq(todos.completed, false),
+            isNull(todos.deletedAt),
+            lt(todos.dueDate, before)
+          )
+        );
+
+      return rows.map(row => row.userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to find users with due todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        before,
+        operation: 'findUserIdsWithTodosDueBefore',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async countOverdue(userId: string, asOf: Date, scope?: TodoProjectScope): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select({ count: count() })
+        .from(todos)
+        .where(and(this.getOverdueWhere(userId, asOf), this.getProjectCondition(scope)));
+
+      return result[0]?.count ?? 0;
+    } catch (error) {
+      this.appContext.logger.error('Failed to count overdue todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'countOverdue',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  async countDueInRange(userId: string, range: TodoDueDateRange, scope?: TodoProjectScope): Promise<number> {
+    try {
+      const validatedRange = RepoTodoDueDateRangeSchema.parse(range);
+
+      const db = await this.ensureDatabase();
+
+      const result = await db
+        .select({ count: count() })
+        .from(todos)
+        .where(and(this.getDueInRangeWhere(userId, validatedRange), this.getProjectCondition(scope)));
+
+      return result[0]?.count ?? 0;
+    } catch (error) {
+      this.appContext.logger.error('Failed to count todos due in range', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        range,
+        operation: 'countDueInRange',
+        repository: 'DrizzleTodoRepository'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Keyset sort keys from a sort specification, applied in key order
+   * The todo ID is always the final key so every row has a unique position
+   */
+  private getSortKeys(sort?: TodoSort): TodoSortKey[] {
+    const validatedSort = RepoTodoSortSchema.parse(sort ?? {});
+    // Zod rebuilds objects in schema key order, so iterate the caller's keys to keep precedence
+    const fields = Object.keys(sort ?? {}) as TodoSortField[];
+    const sortKeys: TodoSortKey[] = fields.map(field => ({
+      field,
+      column: sortableColumns[field],
+      direction: validatedSort[field] ?? 1,
+    }));
+
+    if (sortKeys.length === 0) {
+      sortKeys.push({ field: 'createdAt', column: todos.createdAt, direction: -1 });
+    }
+    sortKeys.push({ field: 'id', column: todos.id, direction: 1 });
+
+    return sortKeys;
+  }
+
+  /**
+   * Where clause for incomplete todos whose due date has passed
+   */
+  private getOverdueWhere(userId: string, asOf: Date): SQL | undefined {
+    return and(
+      eq(todos.userId, userId),
+      eq(todos.completed, false),
+      isNull(todos.deletedAt),
+      isNotNull(todos.dueDate),
+      lt(todos.dueDate, asOf)
+    );
+  }
+
+  /**
+   * Where clause for incomplete todos due within [from, to)
+   */
+  private getDueInRangeWhere(userId: string, range: TodoDueDateRange): SQL | undefined {
+    return and(
+      eq(todos.userId, userId),
+      eq(todos.completed, false),
+      isNull(todos.deletedAt),
+      gte(todos.dueDate, range.from),
+      lt(todos.dueDate, range.to)
+    );
+  }
+
+  /**
+   * Read a user's todo outside the trash and lock its row until the transaction ends
+   * Writers read through this so what they check and record is what their update replaces
+   */
+  private async findOwnedForUpdate(tx: DbTransaction, id: string, userId: string): Promise<DbTodoEntity> {
+    const [todo] = await tx
+      .select()
+      .from(todos)
+      .where(
+        and(
+          eq(todos.id, id),
+          eq(todos.userId, userId),
+          isNull(todos.deletedAt)
+        )
+      )
+      .limit(1)
+      .for('update');
+
+    if (!todo) {
+      throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
+    }
+    return todo;
+  }
+
+  /**
+   * Apply an update to a user's todo outside the trash and bump its version
+   * With an expected version, a todo changed since it was read raises ConflictError instead
+   */
+  private async updateVersioned(
+    executor: Pick<DbTransaction, 'update'>,
+    id: string,
+    userId: string,
+    fields: Partial<DbTodoInsert>,
+    expectedVersion?: number
+  ): Promise<DbTodoEntity> {
+    const [updatedTodo] = await executor
+      .update(todos)
+      .set({ ...fields, version: sql`${todos.version} + 1` })
+      .where(
+        and(
+          eq(todos.id, id),
+          eq(todos.userId, userId),
+          isNull(todos.deletedAt),
+          expectedVersion !== undefined ? eq(todos.version, expectedVersion) : undefined
+        )
+      )
+      .returning();
+
+    if (!updatedTodo) {
+      if (expectedVersion !== undefined) {
+        throw new Err.ConflictError(`Todo was changed since it was loaded: ${id}`, {
+          todoId: id,
+          expectedVersion,
+        });
+      }
+      throw new Err.NotFoundError(`Todo not found or not owned by user: ${id}`);
+    }
+    return updatedTodo;
+  }
+
+  /**
+   * Record a revision for each tracked field the update actually changes
+   * Runs in the update's transaction so history never disagrees with the todo
+   */
+  private async recordRevisions(
+    tx: DbTransaction,
+    previousTodo: DbTodoEntity,
+    changes: Partial<Record<TodoRevisionField, TodoRevisionValue>>
+  ): Promise<void> {
+    const revisions = TODO_REVISION_FIELDS
+      .filter(field => changes[field] !== undefined && changes[field] !== previousTodo[field])
+      .map(field => ({
+        todoId: previousTodo.id,
+        userId: previousTodo.userId,
+        field,
+        previousValue: previousTodo[field],
+        newValue: changes[field] ?? null,
+      }));
+
+    if (revisions.length > 0) {
+      await tx.insert(todoRevisions).values(revisions);
+    }
+  }
+
+  /**
+   * Condition restricting todos to a project; null selects the Inbox, undefined applies no filter
+   */
+  private getProjectCondition(scope?: TodoProjectScope): SQL | undefined {
+    if (scope?.projectId === undefined) {
+      return undefined;
+    }
+    return scope.projectId === null ? isNull(todos.projectId) : eq(todos.projectId, scope.projectId);
+  }
+
+  /**
+   * Where clause matching todos tagged with ANY (default) or ALL of the given tags
+   */
+  private async getTagFilterWhere(filter: TodoTagFilterQuery): Promise<SQL> {
+    const validatedFilter = RepoTodoTagFilterSchema.parse(filter);
+    const tagIds = [...new Set(validatedFilter.tagIds)];
+    const db = await this.ensureDatabase();
+
+    const taggedTodoIds = validatedFilter.hasAllTags
+      ? db
+          .select({ todoId: todoTags.todoId })
+          .from(todoTags)
+          .where(inArray(todoTags.tagId, tagIds))
+          .groupBy(todoTags.todoId)
+          .having(sql`COUNT(DISTINCT ${todoTags.tagId}) = ${tagIds.length}`)
+      : db
+          .selectDistinct({ todoId: todoTags.todoId })
+          .from(todoTags)
+          .where(inArray(todoTags.tagId, tagIds));
+
+    return inArray(todos.id, taggedTodoIds);
+  }
+
+  /**
+   * Load tags for a batch of todos in a single query, keyed by todo ID
+   */
+  private async findTagsByTodoIds(todoIds: string[]): Promise<Map<string, TodoTag[]>> {
+    const tagsByTodoId = new Map<string, TodoTag[]>();
+    if (todoIds.length === 0) {
+      return tagsByTodoId;
+    }
+
+    const db = await this.ensureDatabase();
+
+    const rows = await db
+      .select({
+        todoId: todoTags.todoId,
+        id: tags.id,
+        name: tags.name,
+        color: tags.color,
+      })
+      .from(todoTags)
+      .innerJoin(tags, eq(todoTags.tagId, tags.id))
+      .where(inArray(todoTags.todoId, todoIds))
+      .orderBy(asc(tags.name));
+
+    for (const { todoId, ...tag } of rows) {
+      const todoTagList = tagsByTodoId.get(todoId) ?? [];
+      todoTagList.push(tag);
+      tagsByTodoId.set(todoId, todoTagList);
+    }
+
+    return tagsByTodoId;
+  }
+
+  /**
+   * Load checklist items for a batch of todos in a single query, keyed by todo ID
+   */
+  private async findChecklistByTodoIds(todoIds: string[]): Promise<Map<string, TodoChecklistItem[]>> {
+    const checklistByTodoId = new Map<string, TodoChecklistItem[]>();
+    if (todoIds.length === 0) {
+      return checklistByTodoId;
+    }
+
+    const db = await this.ensureDatabase();
+
+    const rows = await db
+      .select({
+        todoId: checklistItems.todoId,
+        id: checklistItems.id,
+        title: checklistItems.title,
+        completed: checklistItems.completed,
+        rank: checklistItems.rank,
+      })
+      .from(checklistItems)
+      .where(inArray(checklistItems.todoId, todoIds))
+      .orderBy(asc(checklistItems.rank), asc(checklistItems.createdAt));
+
+    for (const { todoId, ...item } of rows) {
+      const checklist = checklistByTodoId.get(todoId) ?? [];
+      checklist.push(item);
+      checklistByTodoId.set(todoId, checklist);
+    }
+
+    return checklistByTodoId;
+  }
+
+  async findAll(filter: TodoFilterQuery): Promise<CursorPage<Todo>> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const sortKeys = this.getSortKeys(filter.sort);
+      const limit = getPageLimit(filter.limit);
+
+      const whereConditions = [isNull(todos.deletedAt)];
 
       if (filter.userId) {
         whereConditions.push(eq(todos.userId, filter.userId));
@@ -591,35 +1453,42 @@ export class DrizzleTodoRepository extends BaseDrizzleRepository implements ITod
       if (filter.completed !== undefined) {
         whereConditions.push(eq(todos.completed, filter.completed));
       }
-
-      let query = db.select().from(todos);
-
-      // Apply where conditions
-      if (whereConditions.length > 0) {
-        query = query.where(and(...whereConditions)) as typeof query;
+      if (filter.title) {
+        // Title filter uses the full-text search vector; input with nothing searchable matches nothing
+        const tsQueryText = toTsQuery(filter.title);
+        whereConditions.push(
+          tsQueryText
+            ? sql`${todos.searchVector} @@ to_tsquery(${TODO_SEARCH_CONFIG}::regconfig, ${tsQueryText})`
+            : sql`false`
+        );
       }
 
-      // Apply sorting (default to newest first)
-      const sortDirection = filter.sort?.createdAt === 1 ? asc(todos.createdAt) : desc(todos.createdAt);
-      query = query.orderBy(sortDirection) as typeof query;
-
-      // Apply pagination  
-      if (filter.limit) {
-        query = query.limit(filter.limit) as typeof query;
-      }
-      if (filter.skip) {
-        query = query.offset(filter.skip) as typeof query;
+      // Continue after the previous page
+      if (filter.cursor) {
+        whereConditions.push(getKeysetWhere(sortKeys, filter.cursor));
       }
 
-      const todoList = await query;
+      // Fetch one extra row to know whether another page follows
+      const todoList = await db
+        .select()
+        .from(todos)
+        .where(and(...whereConditions))
+        .orderBy(...getKeysetOrderBy(sortKeys))
+        .limit(limit + 1);
+
+      const page = splitPage(todoList, limit, sortKeys, todo => sortKeys.map(key => todo[key.field]));
 
       this.appContext.logger.info('Found todos with filter', {
         filter,
-        count: todoList.length,
+        count: page.rows.length,
+        hasMore: page.nextCursor !== null,
         operation: 'findAll'
       });
 
-      return todoList.map(todo => this.toDomainTodo(todo));
+      return {
+        items: await this.toDomainTodos(page.rows),
+        nextCursor: page.nextCursor,
+      };
     } catch (error) {
       this.appContext.logger.error('Failed to find todos with filter', {
         error: error instanceof Error ? error.message : 'Unknown error',
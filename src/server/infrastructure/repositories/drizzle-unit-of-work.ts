@@ -0,0 +1,18 @@
+/**
+ * Drizzle Unit of Work
+ *
+ * Opens the transaction that Drizzle repositories join through `ensureDatabase()`.
+ */
+
+import type { IUnitOfWork } from '~/server/domain';
+import { onTransactionCommit, runInTransaction } from '~/server/lib/db';
+
+export class DrizzleUnitOfWork implements IUnitOfWork {
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return runInTransaction(work);
+  }
+
+  afterCommit(callback: () => void): void {
+    onTransactionCommit(callback);
+  }
+}
@@ -9,7 +9,7 @@
  */
 
 import type { AppContext } from '~/server/context/app-context';
-import { eq, and, ilike, inArray, type SQL, sql } from 'drizzle-orm';
+import { eq, and, or, ilike, inArray, type SQL, sql } from 'drizzle-orm';
 import type { User } from '~/server/domain/models';
 import type { IUserRepository } from '~/server/domain/repositories/user-repository';
 import type {
@@ -21,10 +21,21 @@ import type {
   UserBioUpdate,
   UserAvatarUpdate,
   UserWebsiteUpdate,
+  UserListFilter,
 } from '~/server/domain/repositories/types/user-repository-types';
+import type { CursorPage, CursorPageQuery } from '~/server/domain/repositories/types/pagination-types';
 import { BaseDrizzleRepository } from './base-drizzle-repository';
-import { users, roles, userRoles } from '../db/schema';
+import {
+  getKeysetOrderBy,
+  getKeysetWhere,
+  getPageLimit,
+  splitPage,
+  type KeysetSortKey,
+} from './keyset-pagination';
+import { users, roles, userRoles, type DbUserInsert } from '../db/schema';
 import type { DbUserEntity } from '../entities';
+import type { getDatabase } from '~/server/lib/db';
+import * as Err from '~/server/lib/errors/domain-errors';
 import {
   RepoUserBasicInfoUpdateSchema,
   RepoUserRolesUpdateSchema,
@@ -36,6 +47,22 @@ import {
   RepoUserWebsiteUpdateSchema,
 } from '~/server/domain/repositories/schemas/user-repository-schemas';
 
+/**
+ * User columns that listings can be sorted by
+ */
+const USER_SORT_COLUMNS = {
+  createdAt: users.createdAt,
+  email: users.email,
+  name: users.name,
+};
+
+type UserSortKey = KeysetSortKey & { field: keyof typeof USER_SORT_COLUMNS | 'id' };
+
+/**
+ * Transaction handle passed to `db.transaction` callbacks
+ */
+type DbTransaction = Parameters<Parameters<Awaited<ReturnType<typeof getDatabase>>['transaction']>[0]>[0];
+
 /**
  * Drizzle implementation of User Repository
  */
@@ -84,6 +111,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
           website: users.website,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
+          version: users.version,
           roles: sql<string[]>`array_agg(${roles.name}) filter (where ${roles.name} is not null)`,
         })
         .from(users)
@@ -164,7 +192,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
   // DEDICATED UPDATE METHODS
   // =============================================================================
 
-  async updateBasicInfo(id: string, input: UserBasicInfoPartialUpdate): Promise<void> {
+  async updateBasicInfo(id: string, input: UserBasicInfoPartialUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -180,7 +208,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User basic info updated successfully',
@@ -204,7 +232,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateRoles(id: string, input: UserRolesUpdate): Promise<void> {
+  async updateRoles(id: string, input: UserRolesUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -234,6 +262,9 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
 
       // Use transaction to ensure atomicity
       await db.transaction(async (tx) => {
+        // Role changes count as a change to the user
+        await this.updateVersioned(tx, id, {}, expectedVersion);
+
         // Remove all existing roles for this user
         await tx.delete(userRoles).where(eq(userRoles.userId, id));
 
@@ -270,7 +301,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateEmail(id: string, input: UserEmailUpdate): Promise<void> {
+  async updateEmail(id: string, input: UserEmailUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -286,7 +317,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User email updated successfully',
@@ -311,7 +342,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
   }
 
 
-  async updateProfile(id: string, input: UserProfilePartialUpdate): Promise<User | null> {
+  async updateProfile(id: string, input: UserProfilePartialUpdate, expectedVersion?: number): Promise<User | null> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -327,7 +358,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      const [updated] = await db.update(users).set(validatedData).where(eq(users.id, id)).returning();
+      const updated = await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       if (!updated) {
         this.getLogger().info(
@@ -365,7 +396,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateName(id: string, input: UserNameUpdate): Promise<void> {
+  async updateName(id: string, input: UserNameUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -381,7 +412,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User name updated successfully',
@@ -405,7 +436,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateBio(id: string, input: UserBioUpdate): Promise<void> {
+  async updateBio(id: string, input: UserBioUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -421,7 +452,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User bio updated successfully',
@@ -445,7 +476,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateAvatar(id: string, input: UserAvatarUpdate): Promise<void> {
+  async updateAvatar(id: string, input: UserAvatarUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -461,7 +492,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User avatar updated successfully',
@@ -485,7 +516,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async updateWebsite(id: string, input: UserWebsiteUpdate): Promise<void> {
+  async updateWebsite(id: string, input: UserWebsiteUpdate, expectedVersion?: number): Promise<void> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -501,7 +532,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      await db.update(users).set(validatedData).where(eq(users.id, id));
+      await this.updateVersioned(db, id, validatedData, expectedVersion);
 
       this.getLogger().info(
         'User website updated successfully',
@@ -554,6 +585,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
           website: users.website,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
+          version: users.version,
           roles: sql<string[]>`array_agg(${roles.name}) filter (where ${roles.name} is not null)`,
         })
         .from(users)
@@ -593,13 +625,11 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
   }
 
   async findAll(
-    filter?: Partial<User>,
+    filter?: UserListFilter,
     options?: {
-      limit?: number;
-      skip?: number;
       sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<User[]> {
+    } & CursorPageQuery
+  ): Promise<CursorPage<User>> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -625,17 +655,27 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
           website: users.website,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
+          version: users.version,
           roles: sql<string[]>`array_agg(${roles.name}) filter (where ${roles.name} is not null)`,
         })
         .from(users)
         .leftJoin(userRoles, eq(users.id, userRoles.userId))
         .leftJoin(roles, eq(userRoles.roleId, roles.id));
 
+      const sortKeys = this.getSortKeys(options?.sort);
+      const limit = getPageLimit(options?.limit);
+
       // Apply filters
       const conditions = [];
       if (filter?.email) {
         conditions.push(ilike(users.email, `%${filter.email}%`));
       }
+      if (filter?.search) {
+        conditions.push(this.getSearchCondition(filter.search));
+      }
+      if (options?.cursor) {
+        conditions.push(getKeysetWhere(sortKeys, options.cursor));
+      }
 
       if (conditions.length > 0) {
         query = query.where(and(...conditions)) as typeof query;
@@ -651,15 +691,15 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         ) as typeof query;
       }
 
-      // Apply pagination
-      if (options?.skip) {
-        query = query.offset(options.skip) as typeof query;
-      }
-      if (options?.limit) {
-        query = query.limit(options.limit) as typeof query;
-      }
+      // Keyset pagination: one extra row tells whether another page follows
+      query = query.orderBy(...getKeysetOrderBy(sortKeys)).limit(limit + 1) as typeof query;
 
-      const results = await query;
+      const { rows: results, nextCursor } = splitPage(
+        await query,
+        limit,
+        sortKeys,
+        user => sortKeys.map(key => user[key.field])
+      );
 
       this.getLogger().info(
         'Users found successfully',
@@ -670,7 +710,10 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         }
       );
 
-      return results.map(user => this.mapToUserWithRoles(user));
+      return {
+        items: results.map(user => this.mapToUserWithRoles(user)),
+        nextCursor,
+      };
     } catch (error) {
       this.getLogger().error(
         'Failed to find users',
@@ -686,7 +729,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     }
   }
 
-  async count(filter?: Partial<User>): Promise<number> {
+  async count(filter?: UserListFilter): Promise<number> {
     try {
       await this.initializeDatabase();
       const db = await this.ensureDatabase();
@@ -713,6 +756,9 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         if (filter?.email) {
           conditions.push(ilike(users.email, `%${filter.email}%`));
         }
+        if (filter?.search) {
+          conditions.push(this.getSearchCondition(filter.search));
+        }
 
         const query = db
           .select({ count: sql<number>`count(*)` })
@@ -740,6 +786,9 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
         if (filter?.email) {
           conditions.push(ilike(users.email, `%${filter.email}%`));
         }
+        if (filter?.search) {
+          conditions.push(this.getSearchCondition(filter.search));
+        }
 
         if (conditions.length > 0) {
           query = query.where(and(...conditions)) as typeof query;
@@ -777,6 +826,46 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
   // PRIVATE MAPPING METHODS
   // =============================================================================
 
+  /**
+   * Apply an update to a user and bump its version, returning the updated row (undefined if
+   * the user does not exist)
+   * With an expected version, a user changed since it was read raises ConflictError instead
+   */
+  private async updateVersioned(
+    executor: Pick<DbTransaction, 'select' | 'update'>,
+    id: string,
+    fields: Partial<DbUserInsert>,
+    expectedVersion?: number
+  ): Promise<DbUserEntity | undefined> {
+    const [updated] = await executor
+      .update(users)
+      .set({ ...fields, version: sql`${users.version} + 1` })
+      .where(
+        and(
+          eq(users.id, id),
+          expectedVersion !== undefined ? eq(users.version, expectedVersion) : undefined
+        )
+      )
+      .returning();
+
+    if (!updated && expectedVersion !== undefined) {
+      const [current] = await executor
+        .select({ version: users.version })
+        .from(users)
+        .where(eq(users.id, id))
+        .limit(1);
+
+      if (current) {
+        throw new Err.ConflictError(`User was changed since it was loaded: ${id}`, {
+          userId: id,
+          expectedVersion,
+          currentVersion: current.version,
+        });
+      }
+    }
+    return updated;
+  }
+
   /**
    * Map database entity to domain model
    * Converts Drizzle entity to service-layer User type
@@ -792,9 +881,38 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
       website: entity.website,
       createdAt: entity.createdAt,
       updatedAt: entity.updatedAt,
+      version: entity.version,
     };
   }
 
+  /**
+   * Case-insensitive substring match on name or email; LIKE wildcards in the input match literally
+   */
+  private getSearchCondition(search: string): SQL {
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+    return or(ilike(users.name, pattern), ilike(users.email, pattern))!;
+  }
+
+  /**
+   * Sort keys for keyset pagination; defaults to newest first, with the id as tiebreaker
+   */
+  private getSortKeys(sort?: Record<string, 1 | -1>): UserSortKey[] {
+    const keys: UserSortKey[] = [];
+
+    for (const [field, direction] of Object.entries(sort ?? {})) {
+      if (field in USER_SORT_COLUMNS) {
+        const sortField = field as keyof typeof USER_SORT_COLUMNS;
+        keys.push({ field: sortField, column: USER_SORT_COLUMNS[sortField], direction });
+      }
+    }
+
+    if (keys.length === 0) {
+      keys.push({ field: 'createdAt', column: users.createdAt, direction: -1 });
+    }
+    keys.push({ field: 'id', column: users.id, direction: 1 });
+    return keys;
+  }
+
   /**
    * Map joined query result with aggregated roles to domain model
    */
@@ -807,6 +925,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
     website: string | null;
     createdAt: Date;
     updatedAt: Date;
+    version: number;
     roles: string[] | null;
   }): User {
     return {
@@ -819,6 +938,7 @@ export class DrizzleUserRepository extends BaseDrizzleRepository implements IUse
       website: result.website,
       createdAt: result.createdAt,
       updatedAt: result.updatedAt,
+      version: result.version,
     };
   }
 }
\ No newline at end of file
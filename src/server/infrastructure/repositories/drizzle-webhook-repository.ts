@@ -0,0 +1,465 @@
+/**
+ * Drizzle Webhook Repository - Entity-Based Architecture
+ *
+ * Implements the webhook repository interface using Drizzle ORM with PostgreSQL.
+ * Endpoints are user-owned; deliveries and their attempts hang off an endpoint and
+ * are removed with it. A delivery is unique per endpoint and outbox event, so an
+ * event the outbox redelivers is not sent twice.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type {
+  IWebhookRepository,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEndpoint,
+  WebhookEventType,
+} from '~/server/domain';
+import { and, asc, desc, eq, lt, sql } from 'drizzle-orm';
+import { BaseDrizzleRepository } from './base-drizzle-repository';
+import {
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhookEndpoints,
+  type DbWebhookDeliveryAttemptEntity,
+  type DbWebhookDeliveryEntity,
+  type DbWebhookEndpointEntity,
+} from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type {
+  WebhookAttemptRecordRequest,
+  WebhookDeliveryCreateRequest,
+  WebhookEndpointCreateRequest,
+  WebhookEndpointOutcome,
+  WebhookEndpointPartialUpdate,
+} from '~/server/domain/repositories/types/webhook-repository-types';
+
+export class DrizzleWebhookRepository extends BaseDrizzleRepository implements IWebhookRepository {
+  constructor(private appContext: AppContext) {
+    super('webhookEndpoints');
+  }
+
+  protected getLogger() {
+    return this.appContext.logger;
+  }
+
+  // =============================================================================
+  // ENDPOINT OPERATIONS
+  // =============================================================================
+
+  async createEndpoint(input: WebhookEndpointCreateRequest): Promise<WebhookEndpoint> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [endpoint] = await db.insert(webhookEndpoints).values(input).returning();
+
+      if (!endpoint) {
+        throw new Err.DatabaseError('Failed to create webhook endpoint - no data returned');
+      }
+
+      this.appContext.logger.info('Webhook endpoint created successfully in repository', {
+        endpointId: endpoint.id,
+        userId: endpoint.userId,
+        operation: 'createEndpoint'
+      });
+
+      return this.toDomainEndpoint(endpoint);
+    } catch (error) {
+      this.appContext.logger.error('Failed to create webhook endpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: input.userId,
+        operation: 'createEndpoint',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findEndpointById(id: string, userId: string): Promise<WebhookEndpoint | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [endpoint] = await db
+        .select()
+        .from(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+        .limit(1);
+
+      return endpoint ? this.toDomainEndpoint(endpoint) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find webhook endpoint by ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId: id,
+        userId,
+        operation: 'findEndpointById',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const endpoints = await db
+        .select()
+        .from(webhookEndpoints)
+        .where(eq(webhookEndpoints.userId, userId))
+        .orderBy(asc(webhookEndpoints.createdAt));
+
+      return endpoints.map(endpoint => this.toDomainEndpoint(endpoint));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find webhook endpoints by user ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'findEndpointsByUserId',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findSubscribedEndpoints(userId: string, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const endpoints = await db
+        .select()
+        .from(webhookEndpoints)
+        .where(and(
+          eq(webhookEndpoints.userId, userId),
+          eq(webhookEndpoints.enabled, true),
+          sql`${webhookEndpoints.eventTypes} @> ${JSON.stringify([eventType])}::jsonb`
+        ));
+
+      return endpoints.map(endpoint => this.toDomainEndpoint(endpoint));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find subscribed webhook endpoints', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        eventType,
+        operation: 'findSubscribedEndpoints',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async updateEndpoint(id: string, input: WebhookEndpointPartialUpdate, userId: string): Promise<WebhookEndpoint> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [endpoint] = await db
+        .update(webhookEndpoints)
+        .set(input)
+        .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+        .returning();
+
+      if (!endpoint) {
+        throw new Err.NotFoundError(`Webhook endpoint not found or not owned by user: ${id}`);
+      }
+
+      return this.toDomainEndpoint(endpoint);
+    } catch (error) {
+      this.appContext.logger.error('Failed to update webhook endpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId: id,
+        userId,
+        operation: 'updateEndpoint',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async deleteEndpoint(id: string, userId: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const deleted = await db
+        .delete(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+        .returning({ id: webhookEndpoints.id });
+
+      if (deleted.length === 0) {
+        throw new Err.NotFoundError(`Webhook endpoint not found or not owned by user: ${id}`);
+      }
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete webhook endpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId: id,
+        userId,
+        operation: 'deleteEndpoint',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async recordEndpointOutcome(id: string, outcome: WebhookEndpointOutcome): Promise<WebhookEndpoint | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const failures = sql`${webhookEndpoints.consecutiveFailures} + 1`;
+      const reachedLimit = sql`${failures} >= ${outcome.disableAfterFailures}`;
+
+      const [endpoint] = await db
+        .update(webhookEndpoints)
+        .set(outcome.succeeded
+          ? { consecutiveFailures: 0 }
+          : {
+            consecutiveFailures: failures,
+            enabled: sql`case when ${reachedLimit} then false else ${webhookEndpoints.enabled} end`,
+            disabledAt: sql`case when ${reachedLimit} and ${webhookEndpoints.enabled} then now() else ${webhookEndpoints.disabledAt} end`,
+            disabledReason: sql`case when ${reachedLimit} and ${webhookEndpoints.enabled} then ${`Disabled after ${outcome.disableAfterFailures} failed deliveries in a row`} else ${webhookEndpoints.disabledReason} end`,
+          })
+        .where(eq(webhookEndpoints.id, id))
+        .returning();
+
+      return endpoint ? this.toDomainEndpoint(endpoint) : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to record webhook endpoint outcome', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId: id,
+        succeeded: outcome.succeeded,
+        operation: 'recordEndpointOutcome',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // DELIVERY OPERATIONS
+  // =============================================================================
+
+  async createDeliveries(deliveries: WebhookDeliveryCreateRequest[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = await this.ensureDatabase();
+
+      const created = await db
+        .insert(webhookDeliveries)
+        .values(deliveries)
+        .onConflictDoNothing({ target: [webhookDeliveries.endpointId, webhookDeliveries.eventId] })
+        .returning();
+
+      return created.map(delivery => this.toDomainDelivery(delivery));
+    } catch (error) {
+      this.appContext.logger.error('Failed to create webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        count: deliveries.length,
+        operation: 'createDeliveries',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findDeliveryWithEndpoint(id: string): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint } | null> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const [row] = await db
+        .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+        .from(webhookDeliveries)
+        .innerJoin(webhookEndpoints, eq(webhookEndpoints.id, webhookDeliveries.endpointId))
+        .where(eq(webhookDeliveries.id, id))
+        .limit(1);
+
+      return row
+        ? { delivery: this.toDomainDelivery(row.delivery), endpoint: this.toDomainEndpoint(row.endpoint) }
+        : null;
+    } catch (error) {
+      this.appContext.logger.error('Failed to find webhook delivery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveryId: id,
+        operation: 'findDeliveryWithEndpoint',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findDeliveriesByEndpointId(endpointId: string, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const deliveries = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.endpointId, endpointId))
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(limit);
+
+      return deliveries.map(delivery => this.toDomainDelivery(delivery));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId,
+        operation: 'findDeliveriesByEndpointId',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async findAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      const attempts = await db
+        .select()
+        .from(webhookDeliveryAttempts)
+        .where(eq(webhookDeliveryAttempts.deliveryId, deliveryId))
+        .orderBy(asc(webhookDeliveryAttempts.createdAt));
+
+      return attempts.map(attempt => this.toDomainAttempt(attempt));
+    } catch (error) {
+      this.appContext.logger.error('Failed to find webhook delivery attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveryId,
+        operation: 'findAttempts',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async recordAttempt(input: WebhookAttemptRecordRequest): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db.transaction(async (tx) => {
+        await tx.insert(webhookDeliveryAttempts).values({
+          deliveryId: input.deliveryId,
+          statusCode: input.statusCode,
+          error: input.error,
+          durationMs: input.durationMs,
+        });
+
+        await tx
+          .update(webhookDeliveries)
+          .set({
+            status: input.status,
+            attempts: sql`${webhookDeliveries.attempts} + 1`,
+            lastStatusCode: input.statusCode,
+            lastError: input.error,
+            ...(input.status === 'succeeded' ? { deliveredAt: new Date() } : {}),
+          })
+          .where(eq(webhookDeliveries.id, input.deliveryId));
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to record webhook delivery attempt', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveryId: input.deliveryId,
+        operation: 'recordAttempt',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async cancelDelivery(id: string, reason: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', lastError: reason })
+        .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.status, 'pending')));
+    } catch (error) {
+      this.appContext.logger.error('Failed to cancel webhook delivery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        deliveryId: id,
+        operation: 'cancelDelivery',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  async purgeDeliveriesBefore(cutoff: Date): Promise<number> {
+    try {
+      const db = await this.ensureDatabase();
+
+      // Attempts go with their delivery through ON DELETE CASCADE
+      const purgedDeliveries = await db
+        .delete(webhookDeliveries)
+        .where(lt(webhookDeliveries.createdAt, cutoff))
+        .returning({ id: webhookDeliveries.id });
+
+      this.appContext.logger.info('Old webhook deliveries purged successfully', {
+        cutoff,
+        count: purgedDeliveries.length,
+        operation: 'purgeDeliveriesBefore'
+      });
+
+      return purgedDeliveries.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge old webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeDeliveriesBefore',
+        repository: 'DrizzleWebhookRepository'
+      });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Convert database entity to domain model
+   */
+  private toDomainEndpoint(dbEndpoint: DbWebhookEndpointEntity): WebhookEndpoint {
+    return {
+      id: dbEndpoint.id,
+      userId: dbEndpoint.userId,
+      url: dbEndpoint.url,
+      description: dbEndpoint.description,
+      secret: dbEndpoint.secret,
+      eventTypes: dbEndpoint.eventTypes,
+      enabled: dbEndpoint.enabled,
+      consecutiveFailures: dbEndpoint.consecutiveFailures,
+      disabledAt: dbEndpoint.disabledAt,
+      disabledReason: dbEndpoint.disabledReason,
+      createdAt: dbEndpoint.createdAt,
+      updatedAt: dbEndpoint.updatedAt,
+    };
+  }
+
+  private toDomainDelivery(dbDelivery: DbWebhookDeliveryEntity): WebhookDelivery {
+    return {
+      id: dbDelivery.id,
+      endpointId: dbDelivery.endpointId,
+      eventId: dbDelivery.eventId,
+      eventType: dbDelivery.eventType,
+      payload: dbDelivery.payload,
+      status: dbDelivery.status,
+      attempts: dbDelivery.attempts,
+      lastStatusCode: dbDelivery.lastStatusCode,
+      lastError: dbDelivery.lastError,
+      deliveredAt: dbDelivery.deliveredAt,
+      createdAt: dbDelivery.createdAt,
+      updatedAt: dbDelivery.updatedAt,
+    };
+  }
+
+  private toDomainAttempt(dbAttempt: DbWebhookDeliveryAttemptEntity): WebhookDeliveryAttempt {
+    return {
+      id: dbAttempt.id,
+      deliveryId: dbAttempt.deliveryId,
+      statusCode: dbAttempt.statusCode,
+      error: dbAttempt.error,
+      durationMs: dbAttempt.durationMs,
+      createdAt: dbAttempt.createdAt,
+    };
+  }
+}
@@ -1,4 +1,18 @@
 // Infrastructure - Drizzle Repository Implementations
 export * from './drizzle-user-repository';
+export * from './drizzle-role-repository';
 export * from './drizzle-todo-repository';
+export * from './drizzle-tag-repository';
+export * from './drizzle-project-repository';
+export * from './drizzle-checklist-repository';
+export * from './drizzle-audit-log-repository';
+export * from './drizzle-todo-change-repository';
+export * from './drizzle-outbox-repository';
+export * from './drizzle-unit-of-work';
+export * from './drizzle-job-repository';
+export * from './drizzle-scheduled-task-repository';
+export * from './drizzle-maintenance-repository';
+export * from './drizzle-webhook-repository';
+export * from './drizzle-calendar-feed-repository';
+export * from './drizzle-personal-access-token-repository';
 export * from './base-drizzle-repository';
@@ -0,0 +1,67 @@
+import { doublePrecision, pgEnum, pgTable, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+
+import * as Err from '~/server/lib/errors/domain-errors';
+import { getKeysetWhere, splitPage, type KeysetSortKey } from './keyset-pagination';
+
+const priorityEnum = pgEnum('priority', ['low', 'high']);
+
+const items = pgTable('item', {
+  id: uuid('id').primaryKey(),
+  rank: doublePrecision('rank').notNull(),
+  priority: priorityEnum('priority').notNull(),
+  dueDate: timestamp('due_date', { withTimezone: true }),
+});
+
+const ID = '3f2c1a9e-8b7d-4c6e-9a5f-1e2d3c4b5a69';
+
+const byDueDate: KeysetSortKey[] = [
+  { column: items.dueDate, direction: 1 },
+  { column: items.id, direction: 1 },
+];
+
+function cursorFor(keys: KeysetSortKey[], values: unknown[]): string {
+  const { nextCursor } = splitPage([values, values], 1, keys, row => row);
+  return nextCursor!;
+}
+
+function encode(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+describe('keyset cursors', () => {
+  it('continue the sort they were issued for', () => {
+    const cursor = cursorFor(byDueDate, [new Date('2025-03-15T00:00:00.000Z'), ID]);
+    expect(() => getKeysetWhere(byDueDate, cursor)).not.toThrow();
+  });
+
+  it('are rejected for another sort column or direction', () => {
+    const cursor = cursorFor(byDueDate, [new Date('2025-03-15T00:00:00.000Z'), ID]);
+    const byRank: KeysetSortKey[] = [{ column: items.rank, direction: 1 }, { column: items.id, direction: 1 }];
+    const byDueDateDescending: KeysetSortKey[] = [{ column: items.dueDate, direction: -1 }, { column: items.id, direction: 1 }];
+
+    expect(() => getKeysetWhere(byRank, cursor)).toThrow(Err.ValidationError);
+    expect(() => getKeysetWhere(byDueDateDescending, cursor)).toThrow(Err.ValidationError);
+  });
+
+  it.each([
+    ['not base64 JSON', '!!!'],
+    ['a bare array', encode(['2025-03-15T00:00:00.000Z', ID])],
+    ['a bad date', encode({ sort: 'item.due_date:1,item.id:1', values: ['someday', ID] })],
+    ['a bad UUID', encode({ sort: 'item.due_date:1,item.id:1', values: [null, 'abc'] })],
+    ['too few values', encode({ sort: 'item.due_date:1,item.id:1', values: [ID] })],
+  ])('are rejected with %s', (_, cursor) => {
+    expect(() => getKeysetWhere(byDueDate, cursor)).toThrow(Err.ValidationError);
+  });
+
+  it('check values against the column type', () => {
+    const byPriority: KeysetSortKey[] = [{ column: items.priority, direction: -1 }, { column: items.id, direction: 1 }];
+    const byRank: KeysetSortKey[] = [{ column: items.rank, direction: 1 }, { column: items.id, direction: 1 }];
+
+    expect(() => getKeysetWhere(byPriority, cursorFor(byPriority, ['high', ID]))).not.toThrow();
+    expect(() => getKeysetWhere(byPriority, encode({ sort: 'item.priority:-1,item.id:1', values: ['urgent', ID] })))
+      .toThrow(Err.ValidationError);
+    expect(() => getKeysetWhere(byRank, encode({ sort: 'item.rank:1,item.id:1', values: ['1.5', ID] })))
+      .toThrow(Err.ValidationError);
+  });
+});
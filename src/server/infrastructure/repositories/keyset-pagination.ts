@@ -0,0 +1,198 @@
+/**
+ * Keyset Pagination Helpers
+ *
+ * Builds ORDER BY and "rows after the cursor" conditions for a list of sort keys.
+ * The last key must be unique (usually the primary key) so every row has a
+ * distinct position. NULLs sort last in both directions, matching the ordering
+ * used by the todo list.
+ *
+ * Timestamps are compared at millisecond precision: PostgreSQL stores
+ * microseconds but a cursor only round-trips what a JS Date can hold.
+ *
+ * A cursor records the sort it was issued for; using it with another sort, or
+ * with values of the wrong type for the columns, is a ValidationError.
+ */
+
+import { and, eq, getTableName, gt, isNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '~/server/lib/constants';
+
+export interface KeysetSortKey {
+  column: PgColumn;
+  /** 1 = ascending, -1 = descending */
+  direction: 1 | -1;
+}
+
+type CursorValue = string | number | boolean | null;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CursorPayload {
+  /** The sort the cursor was issued for, see getSortSignature */
+  sort: string;
+  values: CursorValue[];
+}
+
+/**
+ * Page size with DEFAULT_PAGE_LIMIT / MAX_PAGE_LIMIT applied
+ */
+export function getPageLimit(limit?: number): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_PAGE_LIMIT;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_LIMIT);
+}
+
+/**
+ * ORDER BY clauses for the sort keys, applied in order
+ */
+export function getKeysetOrderBy(keys: KeysetSortKey[]): SQL[] {
+  return keys.map(key => {
+    const expression = getSortExpression(key.column);
+    return key.direction === 1 ? sql`${expression} asc nulls last` : sql`${expression} desc nulls last`;
+  });
+}
+
+/**
+ * Condition matching rows that sort strictly after the cursor position
+ */
+export function getKeysetWhere(keys: KeysetSortKey[], cursor: string): SQL {
+  const values = decodeCursor(cursor, keys);
+
+  const branches = keys.map((key, index) => {
+    const after = getAfterCondition(key, values[index]);
+    if (!after) {
+      return undefined;
+    }
+    const equalPrefix = keys.slice(0, index).map((previous, i) => getEqualCondition(previous, values[i]));
+    return and(...equalPrefix, after);
+  });
+
+  return or(...branches) ?? sql`false`;
+}
+
+/**
+ * Trim the extra row fetched to detect another page and build the cursor that continues after the page
+ * Callers query `limit + 1` rows
+ */
+export function splitPage<TRow>(
+  rows: TRow[],
+  limit: number,
+  keys: KeysetSortKey[],
+  getValues: (row: TRow) => unknown[]
+): { rows: TRow[]; nextCursor: string | null } {
+  const pageRows = rows.slice(0, limit);
+  const lastRow = pageRows[pageRows.length - 1];
+  return {
+    rows: pageRows,
+    nextCursor: rows.length > limit && lastRow ? encodeCursor(keys, getValues(lastRow)) : null,
+  };
+}
+
+function isDateColumn(column: PgColumn): boolean {
+  return column.dataType === 'date';
+}
+
+function getSortExpression(column: PgColumn): PgColumn | SQL {
+  return isDateColumn(column) ? sql`date_trunc('milliseconds', ${column})` : column;
+}
+
+/**
+ * Columns and directions of the sort, e.g. `todo.due_date:1,todo.id:1`
+ */
+function getSortSignature(keys: KeysetSortKey[]): string {
+  return keys.map(({ column, direction }) => `${getTableName(column.table)}.${column.name}:${direction}`).join(',');
+}
+
+/**
+ * Whether a cursor value can be compared with the column without a database error;
+ * timestamps travel as ISO strings
+ */
+function isValueForColumn(column: PgColumn, value: unknown): boolean {
+  switch (column.dataType) {
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+    case 'string':
+      if (typeof value !== 'string') {
+        return false;
+      }
+      if (column.enumValues?.length) {
+        return column.enumValues.includes(value);
+      }
+      return column.columnType !== 'PgUUID' || UUID.test(value);
+    case 'number':
+    case 'boolean':
+      return typeof value === column.dataType;
+    default:
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+  }
+}
+
+function encodeCursor(keys: KeysetSortKey[], values: unknown[]): string {
+  const payload: CursorPayload = {
+    sort: getSortSignature(keys),
+    values: keys.map((key, index) => {
+      const value = values[index];
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return (value ?? null) as CursorValue;
+    }),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, keys: KeysetSortKey[]): unknown[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Err.ValidationError('Invalid pagination cursor');
+  }
+
+  const { sort, values } = (payload ?? {}) as Partial<Record<keyof CursorPayload, unknown>>;
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    throw new Err.ValidationError('Invalid pagination cursor');
+  }
+  if (sort !== getSortSignature(keys)) {
+    throw new Err.ValidationError('Pagination cursor belongs to a different sort order; start again from the first page');
+  }
+
+  return keys.map((key, index) => {
+    const value: unknown = values[index];
+    if (value === null) {
+      return null;
+    }
+    if (!isValueForColumn(key.column, value)) {
+      throw new Err.ValidationError('Invalid pagination cursor');
+    }
+    return isDateColumn(key.column) ? new Date(value as string) : value;
+  });
+}
+
+function getEqualCondition({ column }: KeysetSortKey, value: unknown): SQL {
+  if (value === null) {
+    return isNull(column);
+  }
+  return value instanceof Date
+    ? sql`${getSortExpression(column)} = ${value.toISOString()}::timestamptz`
+    : eq(column, value);
+}
+
+/**
+ * Rows whose key sorts after the value; with NULLS LAST nothing follows a NULL but other NULLs
+ */
+function getAfterCondition({ column, direction }: KeysetSortKey, value: unknown): SQL | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  let after: SQL;
+  if (value instanceof Date) {
+    const operator = sql.raw(direction === 1 ? '>' : '<');
+    after = sql`${getSortExpression(column)} ${operator} ${value.toISOString()}::timestamptz`;
+  } else {
+    after = direction === 1 ? gt(column, value) : lt(column, value);
+  }
+  return column.notNull ? after : or(after, isNull(column))!;
+}
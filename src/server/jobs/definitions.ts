@@ -0,0 +1,63 @@
+import type { ServiceContainer } from '~/server/context/app-context';
+import type { Job, JobName, JobPayloads } from '~/server/domain';
+import { WEBHOOK_RETRY_DELAY_MS } from '~/server/lib/constants';
+
+export interface JobContext {
+  job: Job;
+  /** A fresh container per job, as for an API request without a user */
+  container: ServiceContainer;
+}
+
+export interface JobDefinition<N extends JobName = JobName> {
+  /** Most jobs of this kind running at once across all workers (best effort); unlimited when omitted */
+  concurrency?: number;
+  /** Delay before the first retry, doubling with each further attempt; defaults to JOB_RETRY_DELAY_MS */
+  retryDelayMs?: number;
+  /** Do the work; throwing fails the attempt */
+  handle(payload: JobPayloads[N], context: JobContext): Promise<void>;
+}
+
+/**
+ * What each kind of job does
+ */
+export const jobDefinitions: { [N in JobName]: JobDefinition<N> } = {
+  'trash.purge': {
+    concurrency: 1,
+    async handle(_payload, { container }) {
+      const count = await container.todoService.purgeExpiredTrash();
+      container.appContext.logger.info('Purged expired trash', { count });
+    },
+  },
+  'sync.purge': {
+    concurrency: 1,
+    async handle(_payload, { container }) {
+      const count = await container.todoService.purgeExpiredChanges();
+      container.appContext.logger.info('Purged expired sync changes', { count });
+    },
+  },
+  'events.dispatch': {
+    concurrency: 1,
+    retryDelayMs: 1000,
+    async handle(_payload, { container }) {
+      const result = await container.domainEventService.dispatchDue();
+      container.appContext.logger.info('Dispatched due domain events', { ...result });
+    },
+  },
+  'events.purge': {
+    concurrency: 1,
+    async handle(_payload, { container }) {
+      const count = await container.domainEventService.purgeProcessedEvents();
+      container.appContext.logger.info('Purged processed domain events', { count });
+    },
+  },
+  'webhook.deliver': {
+    retryDelayMs: WEBHOOK_RETRY_DELAY_MS,
+    async handle({ deliveryId }, { job, container }) {
+      await container.webhookService.deliver(deliveryId, job.attempts >= job.maxAttempts);
+    },
+  },
+};
+
+export function getJobDefinition(name: JobName): JobDefinition {
+  return jobDefinitions[name];
+}
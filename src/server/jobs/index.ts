@@ -0,0 +1,5 @@
+// Background jobs - Job definitions, scheduled tasks and the processes that run them
+export * from './definitions';
+export * from './job-worker';
+export * from './schedules';
+export * from './scheduler';
@@ -0,0 +1,192 @@
+import type { ILogger } from '@thaitype/core-utils';
+import { createContainer } from '~/server/context/app-context';
+import { JOB_NAMES, type Job, type JobName } from '~/server/domain';
+import { JOB_HEARTBEAT_INTERVAL_MS, JOB_LOCK_TIMEOUT_MS } from '~/server/lib/constants';
+import type { JobService } from '~/server/services';
+import { getJobDefinition } from './definitions';
+
+export interface JobWorkerOptions {
+  /** Identifies this worker in `job.locked_by` */
+  workerId: string;
+  /** Jobs this worker runs at once */
+  concurrency: number;
+  /** How often to look for due jobs when no enqueue notification arrives */
+  pollIntervalMs: number;
+}
+
+/**
+ * Runs queued jobs until stopped
+ * Any number of workers can share the queue: each claims due jobs with SKIP LOCKED,
+ * runs them with a fresh service container, and records the outcome. While a job runs
+ * its lock is refreshed every JOB_HEARTBEAT_INTERVAL_MS, so only jobs left running by a
+ * worker that died are requeued once their lock times out.
+ */
+export class JobWorker {
+  private readonly activeJobs = new Set<Promise<void>>();
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+  private wakeRequested = false;
+  private wakeUp: (() => void) | null = null;
+  private lastStaleCheck = 0;
+
+  constructor(
+    private options: JobWorkerOptions,
+    private jobService: JobService,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Run jobs; resolves once the worker has been stopped and its running jobs finished
+   */
+  async start(): Promise<void> {
+    if (this.loop) {
+      return this.loop;
+    }
+
+    const unlisten = await this.jobService.onJobEnqueued(() => this.wake());
+    this.logger.info('Job worker started', { ...this.options });
+
+    this.loop = this.run(unlisten);
+    return this.loop;
+  }
+
+  /**
+   * Stop claiming jobs and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wake();
+    await this.loop;
+    this.logger.info('Job worker stopped', { workerId: this.options.workerId });
+  }
+
+  private async run(unlisten: () => Promise<void>): Promise<void> {
+    while (!this.stopping) {
+      try {
+        await this.releaseStaleJobs();
+        await this.fillSlots();
+      } catch (error) {
+        this.logger.error('Job worker failed to claim jobs', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          workerId: this.options.workerId,
+        });
+      }
+      await this.sleep(this.options.pollIntervalMs);
+    }
+
+    await unlisten();
+    await Promise.allSettled(this.activeJobs);
+  }
+
+  /**
+   * Claim due jobs until every slot is busy, skipping kinds that are at their concurrency limit
+   */
+  private async fillSlots(): Promise<void> {
+    const running = await this.jobService.countRunning();
+
+    while (!this.stopping && this.activeJobs.size < this.options.concurrency) {
+      const names = JOB_NAMES.filter((name: JobName) => {
+        const limit = getJobDefinition(name).concurrency ?? Infinity;
+        return (running[name] ?? 0) < limit;
+      });
+
+      const job = await this.jobService.claimNext(this.options.workerId, names);
+      if (!job) {
+        return;
+      }
+
+      running[job.name] = (running[job.name] ?? 0) + 1;
+      const execution = this.execute(job).finally(() => {
+        this.activeJobs.delete(execution);
+        this.wake();
+      });
+      this.activeJobs.add(execution);
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const definition = getJobDefinition(job.name);
+    const startedAt = Date.now();
+    const heartbeat = setInterval(() => void this.refreshLock(job), JOB_HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const container = await createContainer();
+      await definition.handle(job.payload, { job, container });
+      await this.jobService.completeJob(job);
+
+      this.logger.info('Job completed', {
+        jobId: job.id,
+        name: job.name,
+        attempts: job.attempts,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      try {
+        await this.jobService.failJob(job, error, definition.retryDelayMs);
+      } catch (failError) {
+        // The job stays running and is requeued once its lock times out
+        this.logger.error('Failed to record job failure', {
+          error: failError instanceof Error ? failError.message : 'Unknown error',
+          jobId: job.id,
+          name: job.name,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async refreshLock(job: Job): Promise<void> {
+    try {
+      const locked = await this.jobService.refreshLock(job, this.options.workerId);
+      if (!locked) {
+        this.logger.warn('Lost the lock of a running job', { jobId: job.id, name: job.name });
+      }
+    } catch (error) {
+      this.logger.error('Failed to refresh job lock', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jobId: job.id,
+        name: job.name,
+      });
+    }
+  }
+
+  /**
+   * Requeue orphaned jobs, checking a few times per lock timeout
+   */
+  private async releaseStaleJobs(): Promise<void> {
+    if (Date.now() - this.lastStaleCheck < JOB_LOCK_TIMEOUT_MS / 3) {
+      return;
+    }
+    this.lastStaleCheck = Date.now();
+    await this.jobService.releaseStaleJobs(JOB_LOCK_TIMEOUT_MS);
+  }
+
+  /**
+   * Wait for the poll interval, or less when woken by an enqueue, a finished job or stop()
+   */
+  private async sleep(ms: number): Promise<void> {
+    if (this.wakeRequested || this.stopping) {
+      this.wakeRequested = false;
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.wakeUp = null;
+    this.wakeRequested = false;
+  }
+
+  private wake(): void {
+    if (this.wakeUp) {
+      this.wakeUp();
+    } else {
+      this.wakeRequested = true;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { ILogger } from '@thaitype/core-utils';
+import { createContainer } from '~/server/context/app-context';
+import type { ScheduledTask, ScheduledTaskName } from '~/server/domain';
+import { SCHEDULER_MAX_SLEEP_MS } from '~/server/lib/constants';
+import type { SchedulerService } from '~/server/services';
+import { scheduledTaskDefinitions } from './schedules';
+
+/**
+ * Runs the registered scheduled tasks when they are due, until stopped
+ * Every replica can run a scheduler: each due run is claimed by exactly one of them
+ * (see SchedulerService.claimRun), and a task still running here is not started again.
+ */
+export class Scheduler {
+  private readonly runningTasks = new Map<ScheduledTaskName, Promise<void>>();
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(
+    private schedulerId: string,
+    private schedulerService: SchedulerService,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Run tasks; resolves once the scheduler has been stopped and its running tasks finished
+   */
+  async start(): Promise<void> {
+    if (this.loop) {
+      return this.loop;
+    }
+
+    const schedules = Object.fromEntries(
+      Object.entries(scheduledTaskDefinitions).map(([name, definition]) => [name, definition.cron])
+    ) as Record<ScheduledTaskName, string>;
+    await this.schedulerService.syncSchedules(schedules);
+    this.logger.info('Scheduler started', { schedulerId: this.schedulerId });
+
+    this.loop = this.run();
+    return this.loop;
+  }
+
+  /**
+   * Stop starting tasks and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wakeUp?.();
+    await this.loop;
+    this.logger.info('Scheduler stopped', { schedulerId: this.schedulerId });
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopping) {
+      let sleepMs = SCHEDULER_MAX_SLEEP_MS;
+
+      try {
+        const now = new Date();
+        const tasks = await this.schedulerService.getScheduledTasks();
+
+        for (const task of tasks) {
+          if (this.runningTasks.has(task.name)) {
+            continue;
+          }
+          if (task.nextRunAt <= now) {
+            await this.startRun(task, now);
+          } else {
+            sleepMs = Math.min(sleepMs, task.nextRunAt.getTime() - now.getTime());
+          }
+        }
+      } catch (error) {
+        this.logger.error('Scheduler failed to check tasks', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          schedulerId: this.schedulerId,
+        });
+      }
+
+      await this.sleep(sleepMs);
+    }
+
+    await Promise.allSettled(this.runningTasks.values());
+  }
+
+  private async startRun(task: ScheduledTask, now: Date): Promise<void> {
+    if (!(await this.schedulerService.claimRun(task, this.schedulerId, now))) {
+      return;
+    }
+
+    const execution = this.execute(task.name, now).finally(() => {
+      this.runningTasks.delete(task.name);
+    });
+    this.runningTasks.set(task.name, execution);
+  }
+
+  private async execute(name: ScheduledTaskName, startedAt: Date): Promise<void> {
+    let failure: unknown = null;
+
+    try {
+      const container = await createContainer();
+      await scheduledTaskDefinitions[name].run(container);
+    } catch (error) {
+      failure = error;
+    }
+
+    try {
+      await this.schedulerService.recordRun(name, startedAt, failure);
+    } catch (error) {
+      this.logger.error('Failed to record scheduled task run', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name,
+      });
+    }
+  }
+
+  /**
+   * Wait until the next task is due (at most SCHEDULER_MAX_SLEEP_MS), or until stop()
+   */
+  private async sleep(ms: number): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, Math.max(ms, 1000));
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.wakeUp = null;
+  }
+}
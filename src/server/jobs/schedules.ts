@@ -0,0 +1,81 @@
+import type { ServiceContainer } from '~/server/context/app-context';
+import type { ScheduledTaskName } from '~/server/domain';
+
+export interface ScheduledTaskDefinition {
+  /** Five-field cron expression, evaluated in UTC */
+  cron: string;
+  /** What the task does, as shown to admins */
+  description: string;
+  /** Do the work with a fresh container; throwing records the run as failed */
+  run(container: ServiceContainer): Promise<void>;
+}
+
+/**
+ * Recurring maintenance tasks and when they run
+ * Changing a cron here reschedules the task the next time a scheduler starts
+ */
+export const scheduledTaskDefinitions: Record<ScheduledTaskName, ScheduledTaskDefinition> = {
+  'auth.purge-sessions': {
+    cron: '15 * * * *',
+    description: 'Delete expired login sessions',
+    async run(container) {
+      await container.maintenanceService.purgeExpiredSessions();
+    },
+  },
+  'auth.purge-verifications': {
+    cron: '20 * * * *',
+    description: 'Delete expired email verification and password reset tokens',
+    async run(container) {
+      await container.maintenanceService.purgeExpiredVerifications();
+    },
+  },
+  'db.analyze': {
+    cron: '30 4 * * *',
+    description: 'Recompute database table statistics',
+    async run(container) {
+      await container.maintenanceService.refreshDatabaseStatistics();
+    },
+  },
+  'trash.purge': {
+    cron: '0 3 * * *',
+    description: 'Permanently delete todos trashed longer than the retention period',
+    async run(container) {
+      await container.todoService.purgeExpiredTrash();
+    },
+  },
+  'sync.purge': {
+    cron: '10 3 * * *',
+    description: 'Delete real-time sync changes older than the replay window',
+    async run(container) {
+      await container.todoService.purgeExpiredChanges();
+    },
+  },
+  'events.dispatch': {
+    cron: '* * * * *',
+    description: 'Retry delivery of domain events that are due',
+    async run(container) {
+      await container.domainEventService.dispatchDue();
+    },
+  },
+  'events.purge': {
+    cron: '20 3 * * *',
+    description: 'Delete delivered domain events older than the retention period',
+    async run(container) {
+      await container.domainEventService.purgeProcessedEvents();
+    },
+  },
+  'webhooks.purge': {
+    cron: '30 3 * * *',
+    description: 'Delete webhook deliveries older than the retention period',
+    async run(container) {
+      await container.webhookService.purgeOldDeliveries();
+    },
+  },
+  'todos.digest': {
+    cron: '0 6 * * *',
+    description: 'Send users a digest of their overdue todos and those due within a day',
+    async run(container) {
+      await container.todoService.sendDigests();
+    },
+  },
+};
@@ -106,6 +106,7 @@ export class AuthUserAPI {
         website: betterAuthUser.website ?? null,
         createdAt: betterAuthUser.createdAt,
         updatedAt: betterAuthUser.updatedAt,
+        version: 1, // New rows start at the column default
       };
 
       console.log(`[AuthUserAPI] User created successfully: ${user.email}`);
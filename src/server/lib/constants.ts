@@ -12,3 +12,144 @@ export const DEFAULT_PAGE_LIMIT = 20;
  */
 export const MAX_PAGE_LIMIT = 100;
 
+
+/**
+ * Spacing between todo (and checklist item) ranks when appending or rebalancing manual order
+ */
+export const TODO_RANK_GAP = 1024;
+
+/**
+ * Smallest gap allowed between neighbouring ranks before the list is rebalanced
+ */
+export const TODO_RANK_MIN_GAP = 1e-6;
+
+/**
+ * Most missed todo changes replayed to a reconnecting client before it is told to refetch instead
+ */
+export const TODO_CHANGE_REPLAY_LIMIT = 100;
+
+/**
+ * Days todo changes are kept for clients to catch up on after reconnecting
+ */
+export const TODO_CHANGE_RETENTION_DAYS = 7;
+
+/**
+ * Largest import file accepted, in characters
+ */
+export const TODO_IMPORT_MAX_LENGTH = 5_000_000;
+
+/**
+ * Most todos a single import may create
+ */
+export const TODO_IMPORT_MAX_ROWS = 2000;
+
+/**
+ * Most todos listed in each section of a user's daily digest
+ */
+export const TODO_DIGEST_MAX_TODOS = 50;
+
+/**
+ * Domain events delivered per outbox query while dispatching
+ */
+export const OUTBOX_DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Failed deliveries after which a domain event is left undelivered for inspection
+ */
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+/**
+ * Wait before the first redelivery of a failed domain event; doubles with every further failure
+ */
+export const OUTBOX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Claimed domain events not delivered within this time are assumed abandoned by a dead dispatcher
+ */
+export const OUTBOX_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Days delivered domain events are kept in the outbox
+ */
+export const OUTBOX_RETENTION_DAYS = 7;
+
+/**
+ * Attempts a background job gets before it is moved to the dead letters
+ */
+export const JOB_DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Wait before the first retry of a failed job; doubles with every further attempt
+ */
+export const JOB_RETRY_DELAY_MS = 10_000;
+
+/**
+ * Running jobs whose lock was not refreshed for this long are assumed orphaned by a dead worker and run again
+ */
+export const JOB_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * How often a worker refreshes the locks of the jobs it is running, well within JOB_LOCK_TIMEOUT_MS
+ */
+export const JOB_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * First key of the advisory locks that claim scheduled task runs; the second is the task name's hash
+ */
+export const SCHEDULER_LOCK_NAMESPACE = 7_320_019;
+
+/**
+ * Longest the scheduler sleeps between checks, so it notices schedules changed by other instances
+ */
+export const SCHEDULER_MAX_SLEEP_MS = 60_000;
+
+/**
+ * Webhook endpoints a user may configure
+ */
+export const WEBHOOK_MAX_ENDPOINTS_PER_USER = 10;
+
+/**
+ * Attempts a webhook delivery gets before it counts as failed
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * Wait before the first retry of a webhook delivery; doubles with every further attempt
+ * (8 attempts span a little over an hour)
+ */
+export const WEBHOOK_RETRY_DELAY_MS = 30_000;
+
+/**
+ * How long an endpoint has to respond before the attempt fails
+ */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Failed deliveries in a row after which an endpoint is disabled
+ */
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 5;
+
+/**
+ * Maximum age of a webhook timestamp header the receiver should accept (see the listener script)
+ */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Days webhook deliveries and their attempts are kept
+ */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+/**
+ * Calendar feed URLs a user may have at once
+ */
+export const CALENDAR_FEED_MAX_PER_USER = 10;
+
+/**
+ * Personal access tokens a user may have at once
+ */
+export const PERSONAL_ACCESS_TOKEN_MAX_PER_USER = 20;
+
+/**
+ * How often a personal access token's last-used time is updated while it is in use
+ */
+export const PERSONAL_ACCESS_TOKEN_LAST_USED_INTERVAL_MS = 60_000;
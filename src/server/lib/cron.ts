@@ -0,0 +1,130 @@
+/**
+ * Minimal cron expression support for the task scheduler
+ *
+ * Standard five fields (minute, hour, day of month, month, day of week), each a `*`,
+ * a number, a range `a-b` or a list of those, optionally with a step (`*\/15`, `1-5/2`).
+ * Day of week 0 and 7 are both Sunday. As in classic cron, when both day fields are
+ * restricted a day matches if either does. Times are evaluated in UTC.
+ */
+
+export interface CronSchedule {
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  readonly daysOfMonthRestricted: boolean;
+  readonly daysOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// A valid expression always matches within a few years (Feb 29 is the rarest day)
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+function parseField(field: string, range: (typeof FIELD_RANGES)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${range.name} field: "${field}"`);
+    }
+
+    const [, , start, end, step] = match;
+    const from = start === undefined ? range.min : Number(start);
+    const to = start === undefined ? range.max : end !== undefined ? Number(end) : step ? range.max : from;
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < range.min || to > range.max || from > to || increment < 1) {
+      throw new Error(`Cron ${range.name} field out of range: "${field}"`);
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing on anything it does not understand
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== FIELD_RANGES.length) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELD_RANGES.map((range, index) =>
+    parseField(fields[index] ?? '', range)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the expression matches, to the minute
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const next = new Date(after);
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  for (let checked = 0; checked < MAX_SEARCH_MINUTES; checked++) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  throw new Error('Cron expression never matches');
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { createLogger } from '~/server/infrastructure/logging/logger-factory';
@@ -6,6 +7,20 @@ import { schema } from '~/server/infrastructure/db/schema';
 
 type DrizzleDB = ReturnType<typeof drizzle<typeof schema>>;
 
+export type DbTransaction = Parameters<Parameters<DrizzleDB['transaction']>[0]>[0];
+
+/**
+ * The database, or the transaction repository calls should join
+ */
+export type DbExecutor = DrizzleDB | DbTransaction;
+
+interface TransactionScope {
+  tx: DbTransaction;
+  afterCommit: (() => void)[];
+}
+
+const transactionScope = new AsyncLocalStorage<TransactionScope>();
+
 let dbConfig: DatabaseConfig;
 let logger: ReturnType<typeof createLogger>;
 
@@ -68,6 +83,65 @@ export async function getDatabase(): Promise<DrizzleDB> {
   return db;
 }
 
+/**
+ * Run work in one database transaction that every repository call made inside it joins
+ * Nested calls join the outer transaction, which commits when the outermost work resolves
+ */
+export async function runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return work();
+  }
+
+  const database = await getDatabase();
+  const afterCommit: (() => void)[] = [];
+  const result = await database.transaction((tx) => transactionScope.run({ tx, afterCommit }, work));
+
+  afterCommit.forEach(callback => callback());
+  return result;
+}
+
+/**
+ * The transaction opened by `runInTransaction` for the current call, if any
+ */
+export function getCurrentTransaction(): DbTransaction | undefined {
+  return transactionScope.getStore()?.tx;
+}
+
+/**
+ * Call back once the current transaction commits (never if it rolls back),
+ * or straight away outside a transaction
+ */
+export function onTransactionCommit(callback: () => void): void {
+  const scope = transactionScope.getStore();
+  if (scope) {
+    scope.afterCommit.push(callback);
+  } else {
+    callback();
+  }
+}
+
+const shutdownHooks: (() => Promise<void>)[] = [];
+
+/**
+ * Run a hook when the process is asked to stop, before the database connection closes
+ * (e.g. to let running work finish)
+ */
+export function beforeDatabaseShutdown(hook: () => Promise<void>): void {
+  shutdownHooks.push(hook);
+}
+
+async function shutdown(): Promise<void> {
+  const results = await Promise.allSettled(shutdownHooks.map(hook => hook()));
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      logger.error('Shutdown hook failed', {
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  }
+  await closeDatabaseConnection();
+}
+
 export async function closeDatabaseConnection(): Promise<void> {
   if (client) {
     await client.end();
@@ -78,14 +152,14 @@ export async function closeDatabaseConnection(): Promise<void> {
 // Graceful shutdown
 process.on('SIGINT', () => {
   void (async () => {
-    await closeDatabaseConnection();
+    await shutdown();
     process.exit(0);
   })();
 });
 
 process.on('SIGTERM', () => {
   void (async () => {
-    await closeDatabaseConnection();
+    await shutdown();
     process.exit(0);
   })();
 });
@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { env } from '~/env';
+import type { RequestContext } from '~/server/context/app-context';
+
+const MAX_REQUEST_ID_LENGTH = 100;
+const MAX_IP_LENGTH = 45;
+
+/**
+ * Client IP as reported by our reverse proxies
+ * Clients can send any `x-forwarded-for` they like and each proxy appends the address it saw,
+ * so only the entry added by the outermost of `TRUSTED_PROXY_COUNT` proxies is trusted.
+ * Without the header, `x-real-ip` (set by the proxy) is used
+ */
+function getClientIp(headers: Headers): string | null {
+  if (env.TRUSTED_PROXY_COUNT === 0) {
+    return null;
+  }
+
+  const hops = headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) ?? [];
+  const ip = hops.length > 0
+    ? hops[Math.max(hops.length - env.TRUSTED_PROXY_COUNT, 0)]
+    : headers.get('x-real-ip')?.trim();
+  return ip ? ip.slice(0, MAX_IP_LENGTH) : null;
+}
+
+/**
+ * Token of an `Authorization: Bearer <token>` header, or null without one
+ */
+export function getBearerToken(headers: Headers): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(headers.get('authorization') ?? '');
+  return match?.[1] ?? null;
+}
+
+/**
+ * Request context for the audit log, built from the incoming request headers
+ * An `x-request-id` set by the proxy is kept so entries can be matched with its logs
+ */
+export function createRequestContext(headers: Headers, actorId: string | null): RequestContext {
+  return {
+    requestId: headers.get('x-request-id')?.slice(0, MAX_REQUEST_ID_LENGTH) ?? randomUUID(),
+    actorId,
+    ipAddress: getClientIp(headers),
+    userAgent: headers.get('user-agent'),
+  };
+}
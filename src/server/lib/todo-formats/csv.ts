@@ -0,0 +1,243 @@
+/**
+ * CSV export for spreadsheets and other todo tools (RFC 4180, header row, UTF-8)
+ *
+ * Columns: title, description, completed, priority, start_date, due_date, project, tags,
+ * checklist, recurrence, created_at. Tags are separated by semicolons, checklist items are
+ * lines of "[x] title" / "[ ] title", recurrence is the rule as JSON and dates are ISO 8601.
+ * On import only title is required; columns are matched by name (a few common aliases
+ * such as "due" or "done" work too) and unknown columns are ignored. A created_at value
+ * is kept as the todo's creation time.
+ */
+import * as Err from '~/server/lib/errors/domain-errors';
+import {
+  readDate,
+  readOptionalDate,
+  type ImportedTodoRow,
+  type ParsedTodoImport,
+  type TodoExport,
+  type TodoFormat,
+  type TransferChecklistItem,
+  type TransferTodo,
+} from './types';
+
+const CSV_COLUMNS = [
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'start_date',
+  'due_date',
+  'project',
+  'tags',
+  'checklist',
+  'recurrence',
+  'created_at',
+] as const;
+
+type CsvField = 'title' | 'description' | 'completed' | 'priority' | 'startDate' | 'dueDate'
+  | 'project' | 'tags' | 'checklist' | 'recurrence' | 'createdAt';
+
+/**
+ * Header names accepted on import, compared without case, spaces or underscores
+ */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ['title', 'name', 'task'],
+  description: ['description', 'notes'],
+  completed: ['completed', 'done'],
+  priority: ['priority'],
+  startDate: ['startdate', 'start'],
+  dueDate: ['duedate', 'due'],
+  project: ['project', 'list'],
+  tags: ['tags', 'labels'],
+  checklist: ['checklist', 'subtasks'],
+  recurrence: ['recurrence'],
+  createdAt: ['createdat', 'created'],
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+const TAG_SEPARATOR = ';';
+
+// Spreadsheets run cells starting with these as formulas, so exported text is prefixed with '
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replaceAll('"', '""')}"` : safe;
+}
+
+function unescapeCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+function toCsvLine(cells: string[]): string {
+  return cells.map(escapeCell).join(',') + '\r\n';
+}
+
+function toCsvRow(todo: TransferTodo): string[] {
+  return [
+    todo.title,
+    todo.description ?? '',
+    String(todo.completed),
+    todo.priority,
+    todo.startDate?.toISOString() ?? '',
+    todo.dueDate?.toISOString() ?? '',
+    todo.project ?? '',
+    todo.tags.join(`${TAG_SEPARATOR} `),
+    todo.checklist.map(item => `[${item.completed ? 'x' : ' '}] ${item.title}`).join('\n'),
+    todo.recurrence ? JSON.stringify(todo.recurrence) : '',
+    todo.createdAt.toISOString(),
+  ];
+}
+
+/**
+ * Split CSV text into records, each with the line it starts on
+ * Quoted cells may contain commas, quotes ("") and line breaks
+ */
+function parseRecords(content: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Err.ValidationError(`Unterminated quoted value starting on line ${recordLine}`);
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+
+  return records.filter(record => record.cells.some(value => value.trim() !== ''));
+}
+
+function readBoolean(value: string | undefined): unknown {
+  const normalized = value?.trim().toLowerCase() ?? '';
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return value;
+}
+
+function readChecklist(value: string): TransferChecklistItem[] {
+  return value
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const match = /^\[([ xX]?)\]\s*(.*)$/.exec(line);
+      return match
+        ? { title: match[2] ?? '', completed: match[1]?.toLowerCase() === 'x' }
+        : { title: line, completed: false };
+    });
+}
+
+function readRecurrence(value: string): unknown {
+  if (value.trim() === '') {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+async function* serialize(data: TodoExport): AsyncGenerator<string> {
+  yield toCsvLine([...CSV_COLUMNS]);
+  for await (const todo of data.todos) {
+    yield toCsvLine(toCsvRow(todo));
+  }
+}
+
+function parse(content: string): ParsedTodoImport {
+  const [header, ...records] = parseRecords(content);
+  if (!header) {
+    throw new Err.ValidationError('CSV file is empty');
+  }
+
+  const normalizedHeader = header.cells.map(name => name.trim().toLowerCase().replace(/[\s_]/g, ''));
+  const columns = Object.fromEntries(
+    Object.entries(HEADER_ALIASES).map(([field, aliases]) => [
+      field,
+      normalizedHeader.findIndex(name => aliases.includes(name)),
+    ])
+  ) as Record<CsvField, number>;
+
+  if (columns.title === -1) {
+    throw new Err.ValidationError('CSV file needs a "title" column', {
+      columns: header.cells
+    });
+  }
+
+  const rows = records.map(({ line, cells }): ImportedTodoRow => {
+    const cell = (field: CsvField) => {
+      const value = columns[field] === -1 ? undefined : cells[columns[field]];
+      return value === undefined ? undefined : unescapeCell(value);
+    };
+    const optional = (field: CsvField) => {
+      const value = cell(field)?.trim();
+      return value === '' ? undefined : value;
+    };
+
+    return {
+      row: line,
+      fields: {
+        title: cell('title'),
+        description: optional('description'),
+        completed: readBoolean(cell('completed')),
+        priority: optional('priority')?.toLowerCase(),
+        startDate: readDate(optional('startDate')),
+        dueDate: readDate(optional('dueDate')),
+        recurrence: readRecurrence(cell('recurrence') ?? ''),
+        createdAt: readOptionalDate(optional('createdAt')),
+      },
+      project: optional('project') ?? null,
+      tags: (cell('tags') ?? '').split(TAG_SEPARATOR).map(tag => tag.trim()).filter(tag => tag !== ''),
+      checklist: readChecklist(cell('checklist') ?? ''),
+    };
+  });
+
+  return { projects: [], tags: [], rows };
+}
+
+export const csvTodoFormat: TodoFormat = {
+  contentType: 'text/csv',
+  fileExtension: 'csv',
+  serialize,
+  parse,
+};
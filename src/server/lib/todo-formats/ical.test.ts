@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RecurrenceRule } from '~/lib/recurrence';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+import { icalTodoFormat } from './ical';
+import type { ImportedTodoRow, TransferTodo } from './types';
+
+function todo(overrides: Partial<TransferTodo> = {}): TransferTodo {
+  return {
+    id: 'todo-1',
+    title: 'Write report',
+    description: null,
+    completed: false,
+    priority: 'none',
+    startDate: null,
+    dueDate: null,
+    recurrence: null,
+    project: null,
+    tags: [],
+    checklist: [],
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-03-14T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+async function serialize(todos: TransferTodo[]): Promise<string> {
+  async function* read() {
+    yield* todos;
+  }
+
+  let content = '';
+  const exportedAt = new Date('2025-03-20T12:00:00.000Z');
+  for await (const chunk of icalTodoFormat.serialize({ exportedAt, projects: [], tags: [], todos: read() })) {
+    content += chunk;
+  }
+  return content;
+}
+
+async function roundTrip(value: TransferTodo): Promise<ImportedTodoRow> {
+  const { rows } = icalTodoFormat.parse(await serialize([value]));
+  expect(rows).toHaveLength(1);
+  return rows[0]!;
+}
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VTODO', ...lines, 'END:VTODO', 'END:VCALENDAR', ''].join('\r\n');
+}
+
+describe('icalTodoFormat', () => {
+  it('writes one VTODO per todo', async () => {
+    expect(await serialize([
+      todo({ priority: 'high', tags: ['office'], dueDate: new Date('2025-03-15T09:00:00.000Z') }),
+    ])).toBe([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//todo-app//Todos//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Todos',
+      'BEGIN:VTODO',
+      'UID:todo-1',
+      'DTSTAMP:20250320T120000Z',
+      'CREATED:20250301T000000Z',
+      'LAST-MODIFIED:20250314T000000Z',
+      'SUMMARY:Write report',
+      'STATUS:NEEDS-ACTION',
+      'PRIORITY:3',
+      'DUE:20250315T090000Z',
+      'CATEGORIES:office',
+      'END:VTODO',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('keeps the title, completion and creation date', async () => {
+    const row = await roundTrip(todo({ completed: true }));
+    expect(row.fields).toEqual({
+      title: 'Write report',
+      completed: true,
+      createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    });
+  });
+
+  it.each([
+    ['urgent', 1],
+    ['high', 3],
+    ['medium', 5],
+    ['low', 9],
+  ] as const)('keeps the %s priority as PRIORITY:%s', async (priority, level) => {
+    expect(await serialize([todo({ priority })])).toContain(`\r\nPRIORITY:${level}\r\n`);
+    expect((await roundTrip(todo({ priority }))).fields.priority).toBe(priority);
+  });
+
+  it.each([
+    ['0', 'none'],
+    ['2', 'high'],
+    ['4', 'high'],
+    ['6', 'low'],
+    ['10', undefined],
+  ])('imports PRIORITY:%s as %s', (level, priority) => {
+    expect(icalTodoFormat.parse(calendar('SUMMARY:A', `PRIORITY:${level}`)).rows[0]?.fields.priority).toBe(priority);
+  });
+
+  it('keeps start and due dates', async () => {
+    const row = await roundTrip(todo({
+      startDate: new Date('2025-03-10T08:00:00.000Z'),
+      dueDate: new Date('2025-03-15T17:30:00.000Z'),
+    }));
+    expect(row.fields.startDate).toEqual(new Date('2025-03-10T08:00:00.000Z'));
+    expect(row.fields.dueDate).toEqual(new Date('2025-03-15T17:30:00.000Z'));
+  });
+
+  it('reads all-day and zoned dates, and passes other values on for validation', () => {
+    const [row] = icalTodoFormat.parse(calendar(
+      'SUMMARY:A',
+      'DTSTART;TZID=Europe/Berlin:20250310T090000',
+      'DUE;VALUE=DATE:20250315',
+      'CREATED:yesterday',
+    )).rows;
+    expect(row?.fields).toMatchObject({
+      startDate: new Date('2025-03-10T08:00:00.000Z'),
+      dueDate: new Date('2025-03-15T00:00:00.000Z'),
+      createdAt: 'yesterday',
+    });
+  });
+
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'daily', interval: 3 }, 'RRULE:FREQ=DAILY;INTERVAL=3'],
+    [{ frequency: 'weekly', interval: 2, weekdays: [1, 3, 5] }, 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR'],
+    [{ frequency: 'monthly', interval: 1, dayOfMonth: 31, count: 12 }, 'RRULE:FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;COUNT=12'],
+    [{ frequency: 'daily', interval: 1, until: '2026-12-31T23:59:59.000Z' }, 'RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20261231T235959Z'],
+  ])('keeps the repeat rule %j', async (recurrence, line) => {
+    expect(await serialize([todo({ recurrence })])).toContain(`\r\n${line}\r\n`);
+    expect((await roundTrip(todo({ recurrence }))).fields.recurrence).toEqual(recurrence);
+  });
+
+  it.each([
+    ['FREQ=YEARLY;INTERVAL=2', { frequency: 'monthly', interval: 24 }],
+    ['FREQ=WEEKLY', { frequency: 'weekly', interval: 1 }],
+    ['FREQ=HOURLY;INTERVAL=1', null],
+    ['FREQ=MONTHLY;BYDAY=1MO', null],
+    ['FREQ=WEEKLY;BYDAY=XX', null],
+  ])('imports RRULE:%s', (rule, recurrence) => {
+    expect(icalTodoFormat.parse(calendar('SUMMARY:A', `RRULE:${rule}`)).rows[0]?.fields.recurrence).toEqual(recurrence);
+  });
+
+  it('keeps text with commas, semicolons, backslashes and line breaks', async () => {
+    const row = await roundTrip(todo({
+      title: 'Call Bob; ask about A, B and C:\\drive',
+      description: 'First line\n\nSecond, with; punctuation',
+    }));
+    expect(row.fields.title).toBe('Call Bob; ask about A, B and C:\\drive');
+    expect(row.fields.description).toBe('First line\n\nSecond, with; punctuation');
+  });
+
+  it('folds long lines without splitting characters and reads them back', async () => {
+    // The 2-octet "é" would end on octet 76 of the SUMMARY line
+    const title = `${'a'.repeat(66)}é ${'Ünïcödé 😀 '.repeat(12)}`.trim();
+    const content = await serialize([todo({ title })]);
+
+    expect(content.split('\r\n').every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(content).toContain(`SUMMARY:${'a'.repeat(66)}\r\n é`);
+    expect((await roundTrip(todo({ title }))).fields.title).toBe(title);
+  });
+
+  it('keeps project, tags and checklist', async () => {
+    const row = await roundTrip(todo({
+      project: 'Home, Office',
+      tags: ['50% off', 'a,b', 'next; week'],
+      checklist: [
+        { title: 'Draft, outline', completed: true },
+        { title: 'Proofread', completed: false },
+      ],
+    }));
+    expect(row.project).toBe('Home, Office');
+    expect(row.tags).toEqual(['50% off', 'a,b', 'next; week']);
+    expect(row.checklist).toEqual([
+      { title: 'Draft, outline', completed: true },
+      { title: 'Proofread', completed: false },
+    ]);
+  });
+
+  it('reads tags from every CATEGORIES line and completion from other apps', () => {
+    const [row] = icalTodoFormat.parse(calendar('SUMMARY:A', 'CATEGORIES:work, home', 'CATEGORIES:errands', 'PERCENT-COMPLETE:100')).rows;
+    expect(row?.tags).toEqual(['work', 'home', 'errands']);
+    expect(row?.fields.completed).toBe(true);
+  });
+
+  it('keeps every field of a full todo', async () => {
+    const row = await roundTrip(todo({
+      title: 'Ship v2 release',
+      description: 'Notes\nmore notes',
+      completed: true,
+      priority: 'urgent',
+      startDate: new Date('2025-03-10T00:00:00.000Z'),
+      dueDate: new Date('2025-03-15T00:00:00.000Z'),
+      recurrence: { frequency: 'monthly', interval: 3, dayOfMonth: 15 },
+      project: 'Release Train',
+      tags: ['team a', 'ops'],
+      checklist: [{ title: 'Tag build', completed: true }, { title: 'Announce', completed: false }],
+    }));
+    expect(row).toEqual({
+      row: 6,
+      fields: {
+        title: 'Ship v2 release',
+        description: 'Notes\nmore notes',
+        completed: true,
+        priority: 'urgent',
+        createdAt: new Date('2025-03-01T00:00:00.000Z'),
+        startDate: new Date('2025-03-10T00:00:00.000Z'),
+        dueDate: new Date('2025-03-15T00:00:00.000Z'),
+        recurrence: { frequency: 'monthly', interval: 3, dayOfMonth: 15 },
+      },
+      project: 'Release Train',
+      tags: ['team a', 'ops'],
+      checklist: [{ title: 'Tag build', completed: true }, { title: 'Announce', completed: false }],
+    });
+  });
+
+  it.each([
+    ['BEGIN:VTODO\r\nSUMMARY:A\r\nEND:VTODO\r\n', 'Not an iCalendar file: expected BEGIN:VCALENDAR'],
+    ['BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n', 'iCalendar file has no VTODO entries'],
+    ['BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nnot a line\r\n', 'Not a valid iCalendar file. Line 3: not an iCalendar content line'],
+  ])('rejects %j', (content, message) => {
+    expect(() => icalTodoFormat.parse(content)).toThrow(Err.ValidationError);
+    expect(() => icalTodoFormat.parse(content)).toThrow(message);
+  });
+});
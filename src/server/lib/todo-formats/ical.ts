@@ -0,0 +1,266 @@
+/**
+ * iCalendar export, one VTODO per todo, using the syntax in ~/lib/ical
+ *
+ * - SUMMARY, DESCRIPTION: title and description
+ * - STATUS:COMPLETED and COMPLETED: completed; todos export their last update as the completion time
+ * - PRIORITY: 1 urgent, 3 high, 5 medium, 9 low; read back as 1 urgent, 2-4 high, 5 medium, 6-9 low
+ * - DTSTART, DUE: start and due dates, written as UTC times
+ * - RRULE: the repeat rule; COUNT wins over UNTIL when a rule has both. Yearly rules import as
+ *   every 12 months; other frequencies, and BYDAY on anything but weekly repeats, are not imported
+ * - CATEGORIES: tags
+ * - X-TODO-PROJECT, X-TODO-CHECKLIST-ITEM: the project and checklist, which calendar apps ignore
+ * - UID is the todo's ID so calendar feeds update entries in place; imports create new todos
+ */
+import {
+  escapeIcsText,
+  formatIcsComponent,
+  formatIcsDateTime,
+  formatIcsList,
+  formatIcsProperty,
+  getIcsProperty,
+  IcsParseError,
+  parseIcs,
+  parseIcsDate,
+  splitIcsList,
+  unescapeIcsText,
+  type IcsComponent,
+  type IcsProperty,
+} from '~/lib/ical';
+import type { RecurrenceRule, TodoPriority } from '~/server/domain/models';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type {
+  ImportedTodoRow,
+  ParsedTodoImport,
+  TodoExport,
+  TodoFormat,
+  TransferTodo,
+} from './types';
+
+const PRODUCT_ID = '-//todo-app//Todos//EN';
+const CALENDAR_NAME = 'Todos';
+const PROJECT_PROPERTY = 'X-TODO-PROJECT';
+const CHECKLIST_PROPERTY = 'X-TODO-CHECKLIST-ITEM';
+const CHECKLIST_COMPLETED_PARAM = 'X-COMPLETED';
+
+const PRIORITY_LEVELS: Partial<Record<TodoPriority, number>> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+const RRULE_FREQUENCIES = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+} as const;
+
+// Indexed like Date.prototype.getDay()
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const property = (name: string, value: string, params: Record<string, string> = {}): IcsProperty => ({
+  name,
+  params,
+  value,
+});
+
+function toPriority(level: string): TodoPriority | undefined {
+  const value = Number(level);
+  if (!Number.isInteger(value) || value < 0 || value > 9) return undefined;
+  if (value === 0) return 'none';
+  if (value === 1) return 'urgent';
+  if (value <= 4) return 'high';
+  if (value === 5) return 'medium';
+  return 'low';
+}
+
+function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${rule.weekdays.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.dayOfMonth) {
+    parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatIcsDateTime(new Date(rule.until))}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Read an RRULE value; null when it repeats in a way todos cannot
+ */
+function readRecurrence(value: string): RecurrenceRule | null {
+  const parts = new Map(value.split(';').map(part => {
+    const [key = '', partValue = ''] = part.split('=');
+    return [key.trim().toUpperCase(), partValue.trim()];
+  }));
+
+  const frequency = parts.get('FREQ')?.toUpperCase() ?? '';
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  let rule: RecurrenceRule;
+  if (frequency === 'YEARLY') {
+    rule = { frequency: 'monthly', interval: interval * 12 };
+  } else if (Object.hasOwn(RRULE_FREQUENCIES, frequency)) {
+    rule = { frequency: RRULE_FREQUENCIES[frequency as keyof typeof RRULE_FREQUENCIES], interval };
+  } else {
+    return null;
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (rule.frequency === 'weekly' && byDay) {
+    const weekdays = byDay.toUpperCase().split(',').map(day => RRULE_WEEKDAYS.indexOf(day));
+    if (weekdays.some(day => day === -1)) return null;
+    rule.weekdays = weekdays;
+  } else if (byDay) {
+    return null;
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (rule.frequency === 'monthly' && byMonthDay) {
+    rule.dayOfMonth = Number(byMonthDay.split(',')[0]);
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if (count) {
+    rule.count = Number(count);
+  } else if (until) {
+    rule.until = parseIcsDate({ params: {}, value: until })?.toISOString() ?? until;
+  }
+
+  return rule;
+}
+
+function toVTodo(todo: TransferTodo, stamp: string): Omit<IcsComponent, 'line'> {
+  const properties = [
+    property('UID', todo.id),
+    property('DTSTAMP', stamp),
+    property('CREATED', formatIcsDateTime(todo.createdAt)),
+    property('LAST-MODIFIED', formatIcsDateTime(todo.updatedAt)),
+    property('SUMMARY', escapeIcsText(todo.title)),
+  ];
+
+  if (todo.description) properties.push(property('DESCRIPTION', escapeIcsText(todo.description)));
+  if (todo.completed) {
+    properties.push(property('STATUS', 'COMPLETED'), property('COMPLETED', formatIcsDateTime(todo.updatedAt)));
+  } else {
+    properties.push(property('STATUS', 'NEEDS-ACTION'));
+  }
+  const priority = PRIORITY_LEVELS[todo.priority];
+  if (priority) properties.push(property('PRIORITY', String(priority)));
+  if (todo.startDate) properties.push(property('DTSTART', formatIcsDateTime(todo.startDate)));
+  if (todo.dueDate) properties.push(property('DUE', formatIcsDateTime(todo.dueDate)));
+  if (todo.recurrence) properties.push(property('RRULE', formatRecurrence(todo.recurrence)));
+  if (todo.tags.length > 0) properties.push(property('CATEGORIES', formatIcsList(todo.tags)));
+  if (todo.project) properties.push(property(PROJECT_PROPERTY, escapeIcsText(todo.project)));
+  properties.push(...todo.checklist.map(item => property(
+    CHECKLIST_PROPERTY,
+    escapeIcsText(item.title),
+    item.completed ? { [CHECKLIST_COMPLETED_PARAM]: 'TRUE' } : {}
+  )));
+
+  return { name: 'VTODO', properties, components: [] };
+}
+
+async function* serialize(data: TodoExport): AsyncGenerator<string> {
+  const stamp = formatIcsDateTime(data.exportedAt);
+
+  yield [
+    formatIcsProperty(property('BEGIN', 'VCALENDAR')),
+    formatIcsProperty(property('VERSION', '2.0')),
+    formatIcsProperty(property('PRODID', PRODUCT_ID)),
+    formatIcsProperty(property('CALSCALE', 'GREGORIAN')),
+    formatIcsProperty(property('X-WR-CALNAME', CALENDAR_NAME)),
+  ].join('');
+
+  for await (const todo of data.todos) {
+    yield formatIcsComponent(toVTodo(todo, stamp));
+  }
+
+  yield formatIcsProperty(property('END', 'VCALENDAR'));
+}
+
+/**
+ * A date property as a Date; values that are not dates are passed on for validation to reject
+ */
+function readIcsDate(dateProperty: IcsProperty | undefined): unknown {
+  return dateProperty ? (parseIcsDate(dateProperty) ?? dateProperty.value) : undefined;
+}
+
+function toImportedRow(vtodo: IcsComponent): ImportedTodoRow {
+  const text = (name: string) => {
+    const found = getIcsProperty(vtodo, name);
+    return found ? unescapeIcsText(found.value) : undefined;
+  };
+  const status = text('STATUS')?.trim().toUpperCase();
+  const priority = text('PRIORITY');
+  const recurrence = text('RRULE');
+  const project = text(PROJECT_PROPERTY)?.trim() ?? '';
+
+  return {
+    row: vtodo.line,
+    fields: {
+      title: text('SUMMARY') ?? '',
+      description: text('DESCRIPTION'),
+      completed: status === 'COMPLETED'
+        || getIcsProperty(vtodo, 'COMPLETED') !== undefined
+        || text('PERCENT-COMPLETE')?.trim() === '100',
+      priority: priority === undefined ? undefined : toPriority(priority),
+      startDate: readIcsDate(getIcsProperty(vtodo, 'DTSTART')),
+      dueDate: readIcsDate(getIcsProperty(vtodo, 'DUE')),
+      recurrence: recurrence === undefined ? undefined : readRecurrence(recurrence),
+      createdAt: readIcsDate(getIcsProperty(vtodo, 'CREATED')),
+    },
+    project: project === '' ? null : project,
+    tags: vtodo.properties
+      .filter(found => found.name === 'CATEGORIES')
+      .flatMap(found => splitIcsList(found.value))
+      .map(tag => tag.trim())
+      .filter(tag => tag !== ''),
+    checklist: vtodo.properties
+      .filter(found => found.name === CHECKLIST_PROPERTY)
+      .map(found => ({
+        title: unescapeIcsText(found.value),
+        completed: found.params[CHECKLIST_COMPLETED_PARAM]?.toUpperCase() === 'TRUE',
+      })),
+  };
+}
+
+function parse(content: string): ParsedTodoImport {
+  let components: IcsComponent[];
+  try {
+    components = parseIcs(content);
+  } catch (error) {
+    if (error instanceof IcsParseError) {
+      throw new Err.ValidationError(`Not a valid iCalendar file. ${error.message}`, { line: error.line });
+    }
+    throw error;
+  }
+
+  const calendars = components.filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Err.ValidationError('Not an iCalendar file: expected BEGIN:VCALENDAR');
+  }
+
+  const rows = calendars
+    .flatMap(calendar => calendar.components)
+    .filter(component => component.name === 'VTODO')
+    .map(toImportedRow);
+
+  if (rows.length === 0) {
+    throw new Err.ValidationError('iCalendar file has no VTODO entries');
+  }
+
+  return { projects: [], tags: [], rows };
+}
+
+export const icalTodoFormat: TodoFormat = {
+  contentType: 'text/calendar',
+  fileExtension: 'ics',
+  serialize,
+  parse,
+};
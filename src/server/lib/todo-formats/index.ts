@@ -0,0 +1,20 @@
+import { csvTodoFormat } from './csv';
+import { icalTodoFormat } from './ical';
+import { jsonTodoFormat } from './json';
+import { markdownTodoFormat } from './markdown';
+import { todoTxtFormat } from './todotxt';
+import type { TodoFormat, TodoTransferFormat } from './types';
+
+export * from './types';
+export { TODO_JSON_FORMAT_ID, TODO_JSON_FORMAT_VERSION } from './json';
+
+/**
+ * Every file format todos can be exported to and imported from
+ */
+export const todoFormats: Record<TodoTransferFormat, TodoFormat> = {
+  json: jsonTodoFormat,
+  csv: csvTodoFormat,
+  markdown: markdownTodoFormat,
+  todotxt: todoTxtFormat,
+  ical: icalTodoFormat,
+};
@@ -0,0 +1,127 @@
+/**
+ * Lossless JSON export
+ *
+ * {
+ *   "format": "todo-app/todos", "version": 1, "exportedAt": "...",
+ *   "projects": [{ "name", "color" }], "tags": [{ "name", "color" }],
+ *   "todos": [{ "title", "description", "completed", "priority", "startDate", "dueDate",
+ *               "recurrence", "project", "tags", "checklist": [{ "title", "completed" }],
+ *               "createdAt", "updatedAt" }]
+ * }
+ *
+ * Projects and tags are referenced by name. Bump the version whenever a field changes meaning,
+ * and keep reading the older versions.
+ */
+import { z } from 'zod';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { readDate, readOptionalDate, type ParsedTodoImport, type TodoExport, type TodoFormat } from './types';
+
+export const TODO_JSON_FORMAT_ID = 'todo-app/todos';
+export const TODO_JSON_FORMAT_VERSION = 1;
+
+const labelSchema = z.object({
+  name: z.string(),
+  color: z.string(),
+});
+
+const envelopeSchema = z.object({
+  format: z.literal(TODO_JSON_FORMAT_ID),
+  version: z.number().int(),
+  projects: z.array(labelSchema).default([]),
+  tags: z.array(labelSchema).default([]),
+  todos: z.array(z.unknown()),
+});
+
+/**
+ * Shape of one todo; the field values themselves are validated by the importer
+ */
+const todoSchema = z.object({
+  title: z.unknown(),
+  description: z.unknown(),
+  completed: z.unknown(),
+  priority: z.unknown(),
+  startDate: z.unknown(),
+  dueDate: z.unknown(),
+  recurrence: z.unknown(),
+  createdAt: z.unknown(),
+  project: z.string().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  checklist: z.array(z.object({
+    title: z.string(),
+    completed: z.boolean().default(false),
+  })).default([]),
+});
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.join('.') || 'file'}: ${issue.message}` : error.message;
+}
+
+async function* serialize(data: TodoExport): AsyncGenerator<string> {
+  const header = JSON.stringify({
+    format: TODO_JSON_FORMAT_ID,
+    version: TODO_JSON_FORMAT_VERSION,
+    exportedAt: data.exportedAt,
+    projects: data.projects,
+    tags: data.tags,
+  });
+
+  // One todo per line, inside the envelope's todos array
+  yield `${header.slice(0, -1)},"todos":[`;
+  let separator = '\n';
+  for await (const todo of data.todos) {
+    yield separator + JSON.stringify(todo);
+    separator = ',\n';
+  }
+  yield '\n]}\n';
+}
+
+function parse(content: string): ParsedTodoImport {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    throw new Err.ValidationError(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const envelope = envelopeSchema.safeParse(document);
+  if (!envelope.success) {
+    throw new Err.ValidationError(`Not a todo export file (${describeIssue(envelope.error)})`);
+  }
+  if (envelope.data.version !== TODO_JSON_FORMAT_VERSION) {
+    throw new Err.ValidationError(`Unsupported todo export version: ${envelope.data.version}`, {
+      supportedVersions: [TODO_JSON_FORMAT_VERSION]
+    });
+  }
+
+  const rows = envelope.data.todos.map((value, index) => {
+    const todo = todoSchema.safeParse(value);
+    if (!todo.success) {
+      throw new Err.ValidationError(`Todo ${index + 1} is malformed (${describeIssue(todo.error)})`);
+    }
+
+    const { project, tags, checklist, ...fields } = todo.data;
+    return {
+      row: index + 1,
+      fields: {
+        ...fields,
+        title: fields.title,
+        startDate: readDate(fields.startDate),
+        dueDate: readDate(fields.dueDate),
+        createdAt: readOptionalDate(fields.createdAt),
+      },
+      project,
+      tags,
+      checklist,
+    };
+  });
+
+  return { projects: envelope.data.projects, tags: envelope.data.tags, rows };
+}
+
+export const jsonTodoFormat: TodoFormat = {
+  contentType: 'application/json',
+  fileExtension: 'json',
+  serialize,
+  parse,
+};
@@ -0,0 +1,169 @@
+/**
+ * GitHub-style Markdown checklist
+ *
+ *   # Todos
+ *
+ *   - [ ] Write report 🔼 🛫 2025-03-01 📅 2025-03-14 #work
+ *     Description lines are indented under the todo
+ *     - [x] Checklist items are nested tasks
+ *
+ *   ## Project name
+ *
+ *   - [x] Todos in a project follow its heading
+ *
+ * Priority and dates use the Obsidian Tasks markers (🔺 urgent, ⏫ high, 🔼 medium, 🔽 low,
+ * 🛫 start date, 📅 due date) and dates are whole days in UTC. The format is meant for
+ * reading and for moving lists between tools: repeat rules are not written, and tag names
+ * lose their spaces.
+ */
+import * as Err from '~/server/lib/errors/domain-errors';
+import type { TodoPriority } from '~/server/domain/models';
+import {
+  formatDay,
+  readDate,
+  type ImportedTodoRow,
+  type ParsedTodoImport,
+  type TodoExport,
+  type TodoFormat,
+  type TransferTodo,
+} from './types';
+
+const PRIORITY_MARKERS: Partial<Record<TodoPriority, string>> = {
+  urgent: '🔺',
+  high: '⏫',
+  medium: '🔼',
+  low: '🔽',
+};
+
+const START_DATE_MARKER = '🛫';
+const DUE_DATE_MARKER = '📅';
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[([ xX])\]\s*(.*)$/;
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+function formatTodo(todo: TransferTodo): string {
+  const parts = [todo.title.replace(/\s*\r?\n\s*/g, ' ')];
+
+  const priorityMarker = PRIORITY_MARKERS[todo.priority];
+  if (priorityMarker) parts.push(priorityMarker);
+  if (todo.startDate) parts.push(`${START_DATE_MARKER} ${formatDay(todo.startDate)}`);
+  if (todo.dueDate) parts.push(`${DUE_DATE_MARKER} ${formatDay(todo.dueDate)}`);
+  parts.push(...todo.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`));
+
+  const lines = [`- [${todo.completed ? 'x' : ' '}] ${parts.join(' ')}`];
+  if (todo.description) {
+    lines.push(...todo.description.split(/\r?\n/).map(line => `  ${line}`.trimEnd()));
+  }
+  lines.push(...todo.checklist.map(item => `  - [${item.completed ? 'x' : ' '}] ${item.title}`));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Split the metadata markers off the end of a task line
+ */
+function readTaskText(text: string): Pick<ImportedTodoRow, 'fields' | 'tags'> {
+  const tokens = text.trim().split(/\s+/);
+  const fields: ImportedTodoRow['fields'] = { title: '' };
+  const tags: string[] = [];
+
+  for (;;) {
+    const last = tokens.at(-1);
+    const beforeLast = tokens.at(-2);
+    const priority = Object.entries(PRIORITY_MARKERS).find(([, marker]) => marker === last)?.[0];
+
+    if (last?.startsWith('#') && last.length > 1) {
+      tags.unshift(last.slice(1));
+      tokens.pop();
+    } else if (priority) {
+      fields.priority = priority;
+      tokens.pop();
+    } else if (beforeLast === DUE_DATE_MARKER || beforeLast === START_DATE_MARKER) {
+      fields[beforeLast === DUE_DATE_MARKER ? 'dueDate' : 'startDate'] = readDate(last);
+      tokens.splice(-2);
+    } else {
+      break;
+    }
+  }
+
+  fields.title = tokens.join(' ');
+  return { fields, tags };
+}
+
+async function* serialize(data: TodoExport): AsyncGenerator<string> {
+  // Todos are grouped under their project's heading, so the whole list is read first
+  const byProject = new Map<string | null, TransferTodo[]>([[null, []]]);
+  for await (const todo of data.todos) {
+    const group = byProject.get(todo.project) ?? [];
+    group.push(todo);
+    byProject.set(todo.project, group);
+  }
+
+  yield '# Todos\n';
+  for (const [project, todos] of byProject) {
+    if (project !== null) {
+      yield `\n## ${project}\n`;
+    }
+    if (todos.length > 0) {
+      yield '\n' + todos.map(formatTodo).join('');
+    }
+  }
+}
+
+function parse(content: string): ParsedTodoImport {
+  const rows: ImportedTodoRow[] = [];
+  let project: string | null = null;
+  let current: ImportedTodoRow | null = null;
+  let descriptionLines: string[] = [];
+
+  const finishTodo = () => {
+    if (current) {
+      const description = descriptionLines.join('\n').trim();
+      current.fields.description = description === '' ? undefined : description;
+    }
+    current = null;
+    descriptionLines = [];
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const heading = HEADING_LINE.exec(line);
+    const task = TASK_LINE.exec(line);
+
+    if (heading) {
+      finishTodo();
+      // The level-one heading is the document title; the others name projects
+      project = heading[1] === '#' ? null : (heading[2] ?? null);
+    } else if (task && (task[1] ?? '').length >= 2 && current) {
+      current.checklist.push({ title: (task[3] ?? '').trim(), completed: task[2] !== ' ' });
+    } else if (task) {
+      finishTodo();
+      const { fields, tags } = readTaskText(task[3] ?? '');
+      current = {
+        row: index + 1,
+        fields: { ...fields, completed: task[2] !== ' ' },
+        project,
+        tags,
+        checklist: [],
+      };
+      rows.push(current);
+    } else if (current && (/^\s{2}/.test(line) || line.trim() === '')) {
+      descriptionLines.push(line.replace(/^\s{2}/, ''));
+    } else if (line.trim() !== '') {
+      finishTodo();
+    }
+  });
+  finishTodo();
+
+  if (rows.length === 0) {
+    throw new Err.ValidationError('No checklist items found; todos are lines like "- [ ] Buy milk"');
+  }
+
+  return { projects: [], tags: [], rows };
+}
+
+export const markdownTodoFormat: TodoFormat = {
+  contentType: 'text/markdown',
+  fileExtension: 'md',
+  serialize,
+  parse,
+};
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RecurrenceRule } from '~/lib/recurrence';
+
+import type { ImportedTodoRow, TransferTodo } from './types';
+import { todoTxtFormat } from './todotxt';
+
+function todo(overrides: Partial<TransferTodo> = {}): TransferTodo {
+  return {
+    id: 'todo-1',
+    title: 'Write report',
+    description: null,
+    completed: false,
+    priority: 'none',
+    startDate: null,
+    dueDate: null,
+    recurrence: null,
+    project: null,
+    tags: [],
+    checklist: [],
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-03-14T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+async function serialize(todos: TransferTodo[]): Promise<string> {
+  async function* read() {
+    yield* todos;
+  }
+
+  let content = '';
+  for await (const chunk of todoTxtFormat.serialize({ exportedAt: new Date(), projects: [], tags: [], todos: read() })) {
+    content += chunk;
+  }
+  return content;
+}
+
+async function roundTrip(value: TransferTodo): Promise<ImportedTodoRow> {
+  const { rows } = todoTxtFormat.parse(await serialize([value]));
+  expect(rows).toHaveLength(1);
+  return rows[0]!;
+}
+
+describe('todoTxtFormat', () => {
+  it('writes one line per todo', async () => {
+    expect(await serialize([
+      todo({ priority: 'high', project: 'Work', tags: ['office'], dueDate: new Date('2025-03-15T00:00:00.000Z') }),
+      todo({ title: 'Done', completed: true }),
+    ])).toBe(
+      '(B) 2025-03-01 Write report +Work @office due:2025-03-15\n'
+      + 'x 2025-03-14 2025-03-01 Done\n'
+    );
+  });
+
+  it('keeps the title, completion and creation date', async () => {
+    const row = await roundTrip(todo({ completed: true }));
+    expect(row.fields).toEqual({
+      title: 'Write report',
+      completed: true,
+      priority: undefined,
+      createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    });
+  });
+
+  it.each([
+    ['urgent', 'A'],
+    ['high', 'B'],
+    ['medium', 'C'],
+    ['low', 'D'],
+  ] as const)('keeps the %s priority as (%s)', async (priority, letter) => {
+    expect(await serialize([todo({ priority })])).toMatch(new RegExp(`^\\(${letter}\\) `));
+    expect((await roundTrip(todo({ priority }))).fields.priority).toBe(priority);
+    expect((await roundTrip(todo({ priority, completed: true }))).fields.priority).toBe(priority);
+  });
+
+  it('imports priorities after (D) as low', () => {
+    expect(todoTxtFormat.parse('(E) Later').rows[0]?.fields.priority).toBe('low');
+  });
+
+  it('reads pri: on completed tasks only', () => {
+    const [completed, open] = todoTxtFormat.parse('x 2025-03-14 2025-03-01 Done pri:B\nOpen pri:B\n').rows;
+    expect(completed?.fields).toMatchObject({ title: 'Done', priority: 'high' });
+    expect(open?.fields).toMatchObject({ title: 'Open pri:B', priority: undefined });
+  });
+
+  it('keeps due and start dates', async () => {
+    const row = await roundTrip(todo({
+      dueDate: new Date('2025-03-15T00:00:00.000Z'),
+      startDate: new Date('2025-03-10T00:00:00.000Z'),
+    }));
+    expect(row.fields.dueDate).toEqual(new Date('2025-03-15T00:00:00.000Z'));
+    expect(row.fields.startDate).toEqual(new Date('2025-03-10T00:00:00.000Z'));
+  });
+
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'daily', interval: 3 }, 'rec:3d'],
+    [{ frequency: 'weekly', interval: 2, weekdays: [1, 3, 5] }, 'rec:2w rec-days:1,3,5'],
+    [{ frequency: 'monthly', interval: 1, dayOfMonth: 31, count: 12 }, 'rec:1m rec-day:31 rec-count:12'],
+    [{ frequency: 'monthly', interval: 24 }, 'rec:2y'],
+    [{ frequency: 'daily', interval: 1, until: '2026-12-31T23:59:59.999Z' }, 'rec:1d rec-until:2026-12-31T23%3A59%3A59.999Z'],
+  ])('keeps the repeat rule %j', async (recurrence, extras) => {
+    expect(await serialize([todo({ recurrence })])).toContain(extras);
+    expect((await roundTrip(todo({ recurrence }))).fields.recurrence).toEqual(recurrence);
+  });
+
+  it('reads rec-* extras written before rec:', () => {
+    expect(todoTxtFormat.parse('Water plants rec-days:2,4 rec:1w').rows[0]?.fields).toMatchObject({
+      title: 'Water plants',
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: [2, 4] },
+    });
+  });
+
+  it('keeps rec-* extras without a rule, and rules it cannot read, in the title', () => {
+    expect(todoTxtFormat.parse('Pay rent rec-day:1').rows[0]?.fields).toMatchObject({ title: 'Pay rent rec-day:1' });
+    expect(todoTxtFormat.parse('Standup rec:1b').rows[0]?.fields).toMatchObject({ title: 'Standup rec:1b' });
+  });
+
+  it('keeps a multi-line description', async () => {
+    const description = 'First line: details\n\n  - 100% of it\n/path/to/file';
+    const row = await roundTrip(todo({ description }));
+    expect(row.fields.description).toBe(description);
+    expect(row.fields.title).toBe('Write report');
+  });
+
+  it('keeps open and ticked checklist items in order', async () => {
+    const checklist = [
+      { title: 'Draft outline', completed: true },
+      { title: 'Ask Bob: numbers?', completed: false },
+      { title: 'Proofread', completed: true },
+      { title: 'Send 50% version', completed: false },
+    ];
+    expect((await roundTrip(todo({ checklist }))).checklist).toEqual(checklist);
+  });
+
+  it('keeps project and tag names with spaces and percent signs', async () => {
+    const row = await roundTrip(todo({ project: 'Home Office', tags: ['50% off', 'next week', 'a:b'] }));
+    expect(row.project).toBe('Home Office');
+    expect(row.tags).toEqual(['50% off', 'next week', 'a:b']);
+  });
+
+  it('keeps title words that would read as tokens', async () => {
+    const title = 'Email @bob about +launch due:today at 10:30 \\n see https://example.com';
+    const row = await roundTrip(todo({ title, project: 'Work', tags: ['email'] }));
+    expect(row.fields.title).toBe(title);
+    expect(row.project).toBe('Work');
+    expect(row.tags).toEqual(['email']);
+  });
+
+  it('keeps other +projects and unknown extras in the title', () => {
+    expect(todoTxtFormat.parse('Plan +Work +Trip id:42').rows[0]).toMatchObject({
+      fields: { title: 'Plan +Trip id:42' },
+      project: 'Work',
+    });
+  });
+
+  it('writes a title as its words, collapsing whitespace', async () => {
+    const row = await roundTrip(todo({ title: '  Call\tMom \n about   dinner ' }));
+    expect(row.fields.title).toBe('Call Mom about dinner');
+  });
+
+  it('keeps every field of a full todo', async () => {
+    const row = await roundTrip(todo({
+      title: 'Ship +v2 release',
+      description: 'Notes\nmore notes',
+      completed: true,
+      priority: 'urgent',
+      startDate: new Date('2025-03-10T00:00:00.000Z'),
+      dueDate: new Date('2025-03-15T00:00:00.000Z'),
+      recurrence: { frequency: 'monthly', interval: 3, dayOfMonth: 15 },
+      project: 'Release Train',
+      tags: ['team a', 'ops'],
+      checklist: [{ title: 'Tag build', completed: true }, { title: 'Announce', completed: false }],
+    }));
+    expect(row).toEqual({
+      row: 1,
+      fields: {
+        title: 'Ship +v2 release',
+        description: 'Notes\nmore notes',
+        completed: true,
+        priority: 'urgent',
+        createdAt: new Date('2025-03-01T00:00:00.000Z'),
+        startDate: new Date('2025-03-10T00:00:00.000Z'),
+        dueDate: new Date('2025-03-15T00:00:00.000Z'),
+        recurrence: { frequency: 'monthly', interval: 3, dayOfMonth: 15 },
+      },
+      project: 'Release Train',
+      tags: ['team a', 'ops'],
+      checklist: [{ title: 'Tag build', completed: true }, { title: 'Announce', completed: false }],
+    });
+  });
+
+  it('rejects a file without tasks', () => {
+    expect(() => todoTxtFormat.parse('\n  \n')).toThrow('todo.txt file has no tasks');
+  });
+});
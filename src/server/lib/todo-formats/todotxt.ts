@@ -0,0 +1,234 @@
+/**
+ * todo.txt export, mapping the line format in ~/lib/todotxt onto todos
+ *
+ * - x and the completion date: completed; todos export their last update as the completion date
+ * - (A) (B) (C) (D): urgent, high, medium, low; (E) to (Z) import as low. On completed tasks
+ *   a `pri:X` extra (where many tools move the priority) is read too
+ * - creation date: the todo's creation time
+ * - first +project: the project; @contexts: tags (names percent-encode spaces, e.g. +Home%20Office)
+ * - due:YYYY-MM-DD, t:YYYY-MM-DD (threshold): due and start dates
+ * - rec:Nd / Nw / Nm / Ny: repeat every N days, weeks, months or years, with rec-days:1,3
+ *   (weekdays, 0 = Sunday), rec-day:31 (day of month), rec-until:<ISO time> and rec-count:N
+ * - desc:<text>: the description; check:<text> and checked:<text>: open and ticked checklist
+ *   items, in order. Values are percent-encoded (see ~/lib/todotxt)
+ *
+ * Title words that would read as tokens are escaped with a backslash, and everything else -
+ * other +projects, unknown key:value extras - stays in the title, so it survives a round trip.
+ * A title is written as its words: runs of whitespace (line breaks too) become single spaces
+ * and leading and trailing whitespace is dropped.
+ */
+import {
+  decodeTodoTxtValue,
+  encodeTodoTxtValue,
+  escapeTodoTxtWord,
+  formatTodoTxtTask,
+  parseTodoTxt,
+  toTodoTxtName,
+  tokenizeTodoTxtText,
+  type TodoTxtTask,
+  type TodoTxtToken,
+} from '~/lib/todotxt';
+import type { RecurrenceRule, TodoPriority } from '~/server/domain/models';
+import * as Err from '~/server/lib/errors/domain-errors';
+import {
+  formatDay,
+  readDate,
+  readOptionalDate,
+  type ImportedTodoRow,
+  type ParsedTodoImport,
+  type TodoExport,
+  type TodoFormat,
+  type TransferTodo,
+} from './types';
+
+const PRIORITY_LETTERS: Partial<Record<TodoPriority, string>> = {
+  urgent: 'A',
+  high: 'B',
+  medium: 'C',
+  low: 'D',
+};
+
+const PRIORITIES_BY_LETTER: Record<string, TodoPriority> = {
+  A: 'urgent',
+  B: 'high',
+  C: 'medium',
+  D: 'low',
+};
+
+const RECURRENCE = /^\+?(\d+)([dwmy])$/;
+const WEEKDAYS = /^[0-6](?:,[0-6])*$/;
+const WHOLE_NUMBER = /^\d+$/;
+
+const RECURRENCE_UNITS = {
+  d: 'daily',
+  w: 'weekly',
+  m: 'monthly',
+} as const;
+
+function toPriority(letter: string | null): TodoPriority | undefined {
+  if (!letter) {
+    return undefined;
+  }
+  return PRIORITIES_BY_LETTER[letter] ?? 'low';
+}
+
+/**
+ * The rec: extra and the extras for the parts of the rule it cannot express
+ */
+function formatRecurrence(rule: RecurrenceRule): string[] {
+  const every = rule.frequency === 'monthly' && rule.interval % 12 === 0
+    ? `${rule.interval / 12}y`
+    : `${rule.interval}${rule.frequency.charAt(0)}`;
+
+  return [
+    `rec:${every}`,
+    ...(rule.weekdays?.length ? [`rec-days:${rule.weekdays.join(',')}`] : []),
+    ...(rule.dayOfMonth !== undefined ? [`rec-day:${rule.dayOfMonth}`] : []),
+    ...(rule.until ? [`rec-until:${encodeTodoTxtValue(rule.until)}`] : []),
+    ...(rule.count != null ? [`rec-count:${rule.count}`] : []),
+  ];
+}
+
+/**
+ * Read a rec: value; null when it uses a unit todos cannot repeat by (such as business days)
+ */
+function readRecurrence(value: string): RecurrenceRule | null {
+  const match = RECURRENCE.exec(value);
+  if (!match) {
+    return null;
+  }
+  const interval = Number(match[1]);
+  return match[2] === 'y'
+    ? { frequency: 'monthly', interval: interval * 12 }
+    : { frequency: RECURRENCE_UNITS[match[2] as keyof typeof RECURRENCE_UNITS], interval };
+}
+
+/**
+ * Apply one of the rec-* extras to the rule read from rec:; false when the value is not valid for it
+ */
+function readRecurrencePart(rule: RecurrenceRule, key: string, value: string): boolean {
+  if (key === 'rec-days' && WEEKDAYS.test(value)) {
+    rule.weekdays = value.split(',').map(Number);
+  } else if (key === 'rec-day' && WHOLE_NUMBER.test(value)) {
+    rule.dayOfMonth = Number(value);
+  } else if (key === 'rec-until') {
+    rule.until = decodeTodoTxtValue(value);
+  } else if (key === 'rec-count' && WHOLE_NUMBER.test(value)) {
+    rule.count = Number(value);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+function toTodoTxtLine(todo: TransferTodo): string {
+  const text = [
+    ...todo.title.split(/\s+/).filter(word => word !== '').map(escapeTodoTxtWord),
+    ...(todo.project ? [`+${toTodoTxtName(todo.project)}`] : []),
+    ...todo.tags.map(tag => `@${toTodoTxtName(tag)}`),
+    ...(todo.dueDate ? [`due:${formatDay(todo.dueDate)}`] : []),
+    ...(todo.startDate ? [`t:${formatDay(todo.startDate)}`] : []),
+    ...(todo.recurrence ? formatRecurrence(todo.recurrence) : []),
+    ...(todo.description ? [`desc:${encodeTodoTxtValue(todo.description)}`] : []),
+    ...todo.checklist.map(item => `${item.completed ? 'checked' : 'check'}:${encodeTodoTxtValue(item.title)}`),
+  ].join(' ');
+
+  return formatTodoTxtTask({
+    completed: todo.completed,
+    priority: PRIORITY_LETTERS[todo.priority] ?? null,
+    completionDate: todo.completed ? formatDay(todo.updatedAt) : null,
+    creationDate: formatDay(todo.createdAt),
+    text,
+  });
+}
+
+async function* serialize(data: TodoExport): AsyncGenerator<string> {
+  for await (const todo of data.todos) {
+    yield toTodoTxtLine(todo) + '\n';
+  }
+}
+
+/**
+ * Apply a token to the row; false when it is part of the title
+ */
+function readToken(row: ImportedTodoRow, task: TodoTxtTask, token: TodoTxtToken, recurrence: RecurrenceRule | null): boolean {
+  if (token.type === 'project' && row.project === null) {
+    row.project = token.name;
+    return true;
+  }
+  if (token.type === 'context') {
+    row.tags.push(token.name);
+    return true;
+  }
+  if (token.type !== 'extra') {
+    return false;
+  }
+
+  const { key, extraValue } = token;
+  switch (key) {
+    case 'due':
+      row.fields.dueDate = readDate(extraValue);
+      return true;
+    case 't':
+      row.fields.startDate = readDate(extraValue);
+      return true;
+    case 'pri':
+      if (/^[A-Z]$/.test(extraValue) && task.completed && !task.priority) {
+        row.fields.priority = toPriority(extraValue);
+        return true;
+      }
+      return false;
+    case 'desc':
+      row.fields.description = decodeTodoTxtValue(extraValue);
+      return true;
+    case 'check':
+    case 'checked':
+      row.checklist.push({ title: decodeTodoTxtValue(extraValue), completed: key === 'checked' });
+      return true;
+    default:
+      return recurrence !== null && readRecurrencePart(recurrence, key, extraValue);
+  }
+}
+
+function parse(content: string): ParsedTodoImport {
+  const rows = parseTodoTxt(content).map(({ line, task }): ImportedTodoRow => {
+    const row: ImportedTodoRow = {
+      row: line,
+      fields: {
+        title: '',
+        completed: task.completed,
+        priority: toPriority(task.priority),
+        createdAt: readOptionalDate(task.creationDate),
+      },
+      project: null,
+      tags: [],
+      checklist: [],
+    };
+    const tokens = tokenizeTodoTxtText(task.text);
+    // Read first, as the rec-* extras refine the rule wherever they appear on the line
+    const rules = tokens.map(token => token.type === 'extra' && token.key === 'rec' ? readRecurrence(token.extraValue) : null);
+    const recurrence = rules.find(rule => rule !== null) ?? null;
+    if (recurrence) {
+      row.fields.recurrence = recurrence;
+    }
+
+    const words = tokens
+      .filter((token, index) => rules[index] === null && !readToken(row, task, token, recurrence))
+      .map(token => token.value);
+    row.fields.title = words.join(' ');
+    return row;
+  });
+
+  if (rows.length === 0) {
+    throw new Err.ValidationError('todo.txt file has no tasks');
+  }
+
+  return { projects: [], tags: [], rows };
+}
+
+export const todoTxtFormat: TodoFormat = {
+  contentType: 'text/plain',
+  fileExtension: 'txt',
+  serialize,
+  parse,
+};
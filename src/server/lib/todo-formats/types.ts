@@ -0,0 +1,110 @@
+import type { RecurrenceRule, TodoPriority } from '~/server/domain/models';
+
+export const TODO_TRANSFER_FORMATS = ['json', 'csv', 'markdown', 'todotxt', 'ical'] as const;
+
+export type TodoTransferFormat = (typeof TODO_TRANSFER_FORMATS)[number];
+
+/**
+ * A project or tag, referenced from todos by name
+ */
+export interface TransferLabel {
+  name: string;
+  color: string;
+}
+
+export interface TransferChecklistItem {
+  title: string;
+  completed: boolean;
+}
+
+/**
+ * A todo as written to an export file
+ * Only formats that need a stable identity (iCalendar UIDs) write the ID; imports never reuse it,
+ * so a file can be imported anywhere
+ */
+export interface TransferTodo {
+  id: string;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  priority: TodoPriority;
+  startDate: Date | null;
+  dueDate: Date | null;
+  recurrence: RecurrenceRule | null;
+  project: string | null;
+  tags: string[];
+  checklist: TransferChecklistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TodoExport {
+  exportedAt: Date;
+  projects: TransferLabel[];
+  tags: TransferLabel[];
+  /** Read lazily so large exports can be streamed */
+  todos: AsyncIterable<TransferTodo>;
+}
+
+/**
+ * A todo read from an import file, before validation
+ * Fields keep whatever the file contained so the importer can report every problem per row
+ */
+export interface ImportedTodoRow {
+  /** 1-based line (CSV, Markdown) or array position (JSON) */
+  row: number;
+  fields: {
+    title: unknown;
+    description?: unknown;
+    completed?: unknown;
+    priority?: unknown;
+    startDate?: unknown;
+    dueDate?: unknown;
+    recurrence?: unknown;
+    /** Kept as the todo's creation time when given */
+    createdAt?: unknown;
+  };
+  project: string | null;
+  tags: string[];
+  checklist: TransferChecklistItem[];
+}
+
+export interface ParsedTodoImport {
+  /** Colors for projects and tags the file describes; names without an entry get the default color */
+  projects: TransferLabel[];
+  tags: TransferLabel[];
+  rows: ImportedTodoRow[];
+}
+
+export interface TodoFormat {
+  contentType: string;
+  fileExtension: string;
+  /** Write the export as a sequence of text chunks */
+  serialize(data: TodoExport): AsyncGenerator<string>;
+  /** Read an import file, throwing a ValidationError when it is not in this format at all */
+  parse(content: string): ParsedTodoImport;
+}
+
+/**
+ * Read an optional date written as text; anything unreadable is passed on for validation to reject
+ */
+export function readDate(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * Like readDate, for fields that are left out rather than null when empty
+ */
+export function readOptionalDate(value: unknown): unknown {
+  return readDate(value) ?? undefined;
+}
+
+/**
+ * Calendar day of a date in UTC, e.g. 2025-03-14
+ */
+export function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
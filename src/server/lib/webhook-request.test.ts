@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { assertPublicUrl, isPublicAddress, postWebhook, WebhookAddressError } from './webhook-request';
+
+describe('isPublicAddress', () => {
+  it.each([
+    ['loopback', '127.0.0.1'],
+    ['loopback range', '127.255.0.1'],
+    ['this network', '0.0.0.0'],
+    ['RFC 1918 10/8', '10.1.2.3'],
+    ['RFC 1918 172.16/12', '172.31.255.255'],
+    ['RFC 1918 192.168/16', '192.168.0.1'],
+    ['carrier-grade NAT', '100.64.0.1'],
+    ['link-local', '169.254.169.254'],
+    ['multicast', '224.0.0.1'],
+    ['IPv6 loopback', '::1'],
+    ['IPv6 unspecified', '::'],
+    ['IPv4-mapped loopback', '::ffff:127.0.0.1'],
+    ['IPv4-mapped RFC 1918', '::ffff:10.0.0.1'],
+    ['IPv4-mapped link-local, hex', '::ffff:a9fe:a9fe'],
+    ['NAT64 of loopback', '64:ff9b::7f00:1'],
+    ['unique local', 'fd00:ec2::254'],
+    ['IPv6 link-local', 'fe80::1'],
+    ['not an address', 'localhost'],
+  ])('rejects %s (%s)', (_, address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each([
+    '93.184.216.34',
+    '172.32.0.1',
+    '100.128.0.1',
+    '2606:2800:220:1:248:1893:25c8:1946',
+  ])('accepts %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://10.0.0.5:8080/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:192.168.1.1]/hook',
+    'http://[fe80::1]/hook',
+    'http://localhost:4000/',
+  ])('rejects %s', async (url) => {
+    await expect(assertPublicUrl(new URL(url))).rejects.toThrow(WebhookAddressError);
+  });
+
+  it('names the address a host resolves to', async () => {
+    await expect(assertPublicUrl(new URL('http://localhost/'))).rejects
+      .toThrow(/^Webhook host localhost resolves to (127\.0\.0\.1|::1), which is not a public address$/);
+  });
+
+  it('accepts a public IP literal', async () => {
+    await expect(assertPublicUrl(new URL('https://93.184.216.34/hook'))).resolves.toBeUndefined();
+  });
+});
+
+describe('postWebhook', () => {
+  const options = { headers: {}, body: '{}', timeoutMs: 1000, allowPrivate: false };
+
+  it('refuses private IP literals before connecting', async () => {
+    await expect(postWebhook(new URL('http://192.168.0.1/hook'), options)).rejects
+      .toThrow('Webhook host 192.168.0.1 is not a public address');
+  });
+
+  it('refuses hosts that resolve to private addresses when connecting', async () => {
+    await expect(postWebhook(new URL('http://localhost:1/hook'), options)).rejects.toThrow(WebhookAddressError);
+  });
+});
@@ -0,0 +1,153 @@
+import { lookup, type LookupAddress } from 'node:dns';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+/**
+ * Outgoing webhook requests that cannot reach the server's own network
+ *
+ * Endpoint URLs are user input, so a URL naming (or resolving to) a loopback, private,
+ * link-local, carrier-grade NAT or unique local address would let users probe internal
+ * services and cloud metadata endpoints (169.254.169.254, fd00:ec2::254). Hosts are checked
+ * when an endpoint is saved and again by the lookup the request connects with, so a DNS
+ * record changed in between cannot point a delivery inside.
+ */
+
+// One list per family: a BlockList also matches IPv4 addresses against IPv4-mapped IPv6 rules
+const blockedIPv4 = new BlockList();
+const blockedIPv6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Thrown when a webhook host is, or resolves to, an address that is not public
+ */
+export class WebhookAddressError extends Error {
+  constructor(host: string, address: string) {
+    super(host === address
+      ? `Webhook host ${host} is not a public address`
+      : `Webhook host ${host} resolves to ${address}, which is not a public address`);
+    this.name = 'WebhookAddressError';
+  }
+}
+
+/**
+ * Whether an IP address can be reached from the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return !blockedIPv4.check(address, 'ipv4');
+    case 6:
+      return !blockedIPv6.check(address, 'ipv6');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Host of a URL as DNS or an IP literal, without IPv6 brackets
+ */
+function getHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+function lookupAll(host: string): Promise<LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    lookup(host, { all: true }, (error, addresses) => (error ? reject(error) : resolve(addresses)));
+  });
+}
+
+/**
+ * Reject a URL whose host is, or resolves to, an address that is not public
+ * Throws the DNS error when the host does not resolve
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  const host = getHost(url);
+  const addresses = isIP(host) ? [{ address: host }] : await lookupAll(host);
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new WebhookAddressError(host, blocked.address);
+  }
+}
+
+/**
+ * DNS lookup for sockets that fails instead of returning an address that is not public
+ */
+const lookupPublic: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    const [first] = addresses;
+    if (blocked) {
+      callback(new WebhookAddressError(hostname, blocked.address), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else if (first) {
+      callback(null, first.address, first.family);
+    } else {
+      callback(new Error(`${hostname} did not resolve to any address`), '');
+    }
+  });
+};
+
+export interface WebhookRequestOptions {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  /** Skip the public address checks, for trying webhooks against local listeners */
+  allowPrivate: boolean;
+}
+
+/**
+ * POST a body and resolve with the response status code
+ * Redirects are not followed and the response body is discarded unread
+ */
+export async function postWebhook(url: URL, options: WebhookRequestOptions): Promise<number> {
+  const host = getHost(url);
+  if (!options.allowPrivate && isIP(host) && !isPublicAddress(host)) {
+    throw new WebhookAddressError(host, host);
+  }
+
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  const response = await new Promise<IncomingMessage>((resolve, reject) => {
+    const request = send(url, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': String(Buffer.byteLength(options.body)) },
+      lookup: options.allowPrivate ? undefined : lookupPublic,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, resolve);
+    request.on('error', reject);
+    request.end(options.body);
+  });
+
+  response.destroy();
+  return response.statusCode ?? 0;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { signWebhookPayload, verifyWebhookSignature } from './webhook-signature';
+
+const SECRET = 'whsec_test_secret_0123456789';
+const TIMESTAMP = 1700000000;
+const BODY = '{"type":"TodoCreated","data":{"todoId":"t1"}}';
+// HMAC-SHA256 of "1700000000.<BODY>", computed with `openssl dgst -sha256 -hmac`
+const SIGNATURE = 'sha256=5cf2e1fc0423c64ae41989ccbb34361be69ec58797c5730628e3561c4a821d05';
+
+describe('signWebhookPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    expect(signWebhookPayload(SECRET, TIMESTAMP, BODY)).toBe(SIGNATURE);
+  });
+
+  it('depends on the secret, the timestamp and every byte of the body', () => {
+    expect(signWebhookPayload('another secret', TIMESTAMP, BODY)).not.toBe(SIGNATURE);
+    expect(signWebhookPayload(SECRET, TIMESTAMP + 1, BODY)).not.toBe(SIGNATURE);
+    expect(signWebhookPayload(SECRET, TIMESTAMP, `${BODY} `)).not.toBe(SIGNATURE);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const now = TIMESTAMP * 1000;
+
+  it('accepts a matching signature within the tolerance', () => {
+    expect(verifyWebhookSignature(SECRET, TIMESTAMP, BODY, SIGNATURE, 300, now + 299_000)).toBe(true);
+  });
+
+  it.each([
+    ['another body', SECRET, TIMESTAMP, '{}', SIGNATURE],
+    ['another secret', 'another secret', TIMESTAMP, BODY, SIGNATURE],
+    ['a truncated signature', SECRET, TIMESTAMP, BODY, SIGNATURE.slice(0, -1)],
+    ['a signature without its prefix', SECRET, TIMESTAMP, BODY, SIGNATURE.slice('sha256='.length)],
+    ['a timestamp that is not a number', SECRET, Number.NaN, BODY, SIGNATURE],
+  ])('rejects %s', (_, secret, timestamp, body, signature) => {
+    expect(verifyWebhookSignature(secret, timestamp, body, signature, 300, now)).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance either way', () => {
+    expect(verifyWebhookSignature(SECRET, TIMESTAMP, BODY, SIGNATURE, 300, now + 301_000)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, TIMESTAMP, BODY, SIGNATURE, 300, now - 301_000)).toBe(false);
+  });
+});
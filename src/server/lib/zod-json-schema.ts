@@ -0,0 +1,190 @@
+/**
+ * JSON Schema for Zod input schemas, for the OpenAPI document of the REST API
+ *
+ * Covers the Zod types our procedure inputs use; anything else becomes an empty schema,
+ * which accepts any value. Dates are ISO 8601 strings on the wire.
+ */
+import { z } from 'zod';
+
+type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+const STRING_FORMATS: Partial<Record<z.ZodStringCheck['kind'], string>> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+};
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') result.minLength = check.value;
+    else if (check.kind === 'max') result.maxLength = check.value;
+    else if (check.kind === 'length') result.minLength = result.maxLength = check.value;
+    else if (check.kind === 'regex') result.pattern = check.regex.source;
+    else if (STRING_FORMATS[check.kind]) result.format = STRING_FORMATS[check.kind];
+  }
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') {
+      if (check.inclusive) result.minimum = check.value;
+      else result.exclusiveMinimum = check.value;
+    } else if (check.kind === 'max') {
+      if (check.inclusive) result.maximum = check.value;
+      else result.exclusiveMaximum = check.value;
+    } else if (check.kind === 'multipleOf') {
+      result.multipleOf = check.value;
+    }
+  }
+  return result;
+}
+
+function arraySchema(schema: z.ZodArray<z.ZodTypeAny>): JsonSchema {
+  const { minLength, maxLength, exactLength } = schema._def;
+  const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+  const min = exactLength?.value ?? minLength?.value;
+  const max = exactLength?.value ?? maxLength?.value;
+  if (min !== undefined) result.minItems = min;
+  if (max !== undefined) result.maxItems = max;
+  return result;
+}
+
+function objectSchema(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = zodToJsonSchema(value);
+    if (!value.isOptional()) required.push(key);
+  }
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties };
+}
+
+function nullableSchema(inner: JsonSchema): JsonSchema {
+  if (typeof inner.type === 'string' && !inner.enum && !inner.const) {
+    return { ...inner, type: [inner.type, 'null'] };
+  }
+  return { anyOf: [inner, { type: 'null' }] };
+}
+
+function baseSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap() as z.ZodTypeAny);
+  if (schema instanceof z.ZodNullable) return nullableSchema(zodToJsonSchema(schema.unwrap() as z.ZodTypeAny));
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault() as z.ZodTypeAny), default: schema._def.defaultValue() as unknown };
+  }
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType() as z.ZodTypeAny);
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value as unknown };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options as string[]] };
+  if (schema instanceof z.ZodArray) return arraySchema(schema as z.ZodArray<z.ZodTypeAny>);
+  if (schema instanceof z.ZodObject) return objectSchema(schema as z.AnyZodObject);
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    const { left, right } = schema._def as z.ZodIntersectionDef<z.ZodTypeAny, z.ZodTypeAny>;
+    return { allOf: [zodToJsonSchema(left), zodToJsonSchema(right)] };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema as z.ZodTypeAny) };
+  }
+  return {};
+}
+
+/**
+ * JSON Schema (draft 2020-12, as used by OpenAPI 3.1) accepting what the Zod schema accepts
+ * Refinements and transforms are not expressed; the schema shows their input type
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = baseSchema(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+/**
+ * The fields of an object schema, looking through optional, default and refinement wrappers
+ * Null when the schema is not an object
+ */
+export function getZodObjectShape(schema: z.ZodTypeAny): z.ZodRawShape | null {
+  if (schema instanceof z.ZodObject) return schema.shape as z.ZodRawShape;
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return getZodObjectShape(schema.unwrap() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodDefault) return getZodObjectShape(schema.removeDefault() as z.ZodTypeAny);
+  if (schema instanceof z.ZodEffects) return getZodObjectShape(schema.innerType() as z.ZodTypeAny);
+  return null;
+}
+
+/**
+ * Convert values from query strings and JSON bodies to the types the schema expects:
+ * date strings to Dates, numeric strings to numbers, "true"/"false" to booleans, "null" to null
+ * where null is allowed and single values to one-element arrays. Anything that does not convert is left for validation to reject
+ */
+export function coerceZodInput(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (value === undefined || value === null) return value;
+  if (schema instanceof z.ZodNullable && value === 'null') return null;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return coerceZodInput(schema.unwrap() as z.ZodTypeAny, value);
+  }
+  if (schema instanceof z.ZodDefault) return coerceZodInput(schema.removeDefault() as z.ZodTypeAny, value);
+  if (schema instanceof z.ZodEffects) return coerceZodInput(schema.innerType() as z.ZodTypeAny, value);
+
+  if (schema instanceof z.ZodDate && typeof value === 'string') {
+    return new Date(value);
+  }
+  if (schema instanceof z.ZodNumber && typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  if (schema instanceof z.ZodBoolean && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (schema instanceof z.ZodArray) {
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    return items.map(item => coerceZodInput(schema.element as z.ZodTypeAny, item));
+  }
+  if (schema instanceof z.ZodObject && typeof value === 'object' && !Array.isArray(value)) {
+    const shape = schema.shape as z.ZodRawShape;
+    return Object.fromEntries(Object.entries(value).map(([key, field]: [string, unknown]) => {
+      const fieldSchema = shape[key];
+      return [key, fieldSchema ? coerceZodInput(fieldSchema, field) : field];
+    }));
+  }
+  return value;
+}
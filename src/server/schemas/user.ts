@@ -23,6 +23,8 @@ export const UpdateProfileSchema = z.object({
   bio: z.string().optional(),
   avatar: z.string().url().optional(),
   website: z.string().url().optional(),
+  // Version of the profile the form was loaded with; a newer stored version fails with CONFLICT
+  expectedVersion: z.number().int().min(1).optional(),
 });
 
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
@@ -0,0 +1,37 @@
+/**
+ * Domain Event Dispatch Script
+ *
+ * Delivers outbox events that are still due: those whose delivery failed and are
+ * ready for a retry, and any left behind when a server stopped before dispatching.
+ * Run it periodically (e.g. every minute from cron).
+ */
+import 'dotenv/config';
+import { createContainer } from '../context/app-context';
+import { closeDatabaseConnection } from '../lib/db';
+
+async function dispatchEvents() {
+  console.log('📨 Dispatching due domain events...');
+
+  try {
+    const container = await createContainer();
+
+    const { delivered, failed } = await container.domainEventService.dispatchDue();
+
+    console.log(`✅ Delivered ${delivered} events, ${failed} failed and will be retried`);
+  } catch (error) {
+    console.error('❌ Event dispatch failed:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  dispatchEvents().catch((error) => {
+    console.error('Fatal event dispatch error:', error);
+    process.exit(1);
+  });
+}
+
+export { dispatchEvents };
@@ -0,0 +1,48 @@
+/**
+ * Trash Purge Script
+ *
+ * Permanently deletes todos that have been in the trash longer than
+ * TRASH_RETENTION_DAYS, along with real-time sync changes older than
+ * TODO_CHANGE_RETENTION_DAYS and delivered domain events older than
+ * OUTBOX_RETENTION_DAYS. Run it periodically (e.g. from a daily cron job).
+ */
+import 'dotenv/config';
+import { createContainer } from '../context/app-context';
+import { closeDatabaseConnection } from '../lib/db';
+import { OUTBOX_RETENTION_DAYS, TODO_CHANGE_RETENTION_DAYS } from '../lib/constants';
+
+async function purgeTrash() {
+  console.log('🗑️ Purging expired trash...');
+
+  try {
+    const container = await createContainer();
+    const { retentionDays } = container.appContext.config.trash;
+
+    const purgedCount = await container.todoService.purgeExpiredTrash();
+
+    console.log(`✅ Permanently deleted ${purgedCount} todos trashed more than ${retentionDays} days ago`);
+
+    const purgedChangeCount = await container.todoService.purgeExpiredChanges();
+
+    console.log(`✅ Deleted ${purgedChangeCount} sync changes older than ${TODO_CHANGE_RETENTION_DAYS} days`);
+
+    const purgedEventCount = await container.domainEventService.purgeProcessedEvents();
+
+    console.log(`✅ Deleted ${purgedEventCount} domain events delivered more than ${OUTBOX_RETENTION_DAYS} days ago`);
+  } catch (error) {
+    console.error('❌ Trash purge failed:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  purgeTrash().catch((error) => {
+    console.error('Fatal trash purge error:', error);
+    process.exit(1);
+  });
+}
+
+export { purgeTrash };
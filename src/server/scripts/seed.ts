@@ -8,7 +8,50 @@ import 'dotenv/config';
 import { getDatabase } from '../lib/db';
 import { initializeDatabaseConfig } from '../lib/db';
 import { createAppConfig } from '../config/types';
-import { users, roles } from '../infrastructure/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  users,
+  roles,
+  permissions,
+  rolePermissions,
+  PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+} from '../infrastructure/db/schema';
+
+type Database = Awaited<ReturnType<typeof getDatabase>>;
+
+/**
+ * Create missing permissions and grant the defaults to the built-in roles
+ * Safe to re-run: existing permissions and grants are left untouched
+ */
+async function seedPermissions(db: Database) {
+  console.log('🔐 Syncing permissions...');
+
+  await db
+    .insert(permissions)
+    .values(PERMISSIONS.map(name => ({ name })))
+    .onConflictDoNothing();
+
+  const permissionRows = await db
+    .select()
+    .from(permissions)
+    .where(inArray(permissions.name, [...PERMISSIONS]));
+  const permissionIds = new Map(permissionRows.map(p => [p.name, p.id]));
+
+  for (const [roleName, grantedPermissions] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+    const [role] = await db.select().from(roles).where(eq(roles.name, roleName)).limit(1);
+    if (!role || grantedPermissions.length === 0) {
+      continue;
+    }
+
+    await db
+      .insert(rolePermissions)
+      .values(grantedPermissions.map(name => ({ roleId: role.id, permissionId: permissionIds.get(name)! })))
+      .onConflictDoNothing();
+  }
+
+  console.log(`✅ Synced ${PERMISSIONS.length} permissions`);
+}
 
 async function seedDatabase() {
   console.log('🌱 Starting database seeding...');
@@ -23,6 +66,7 @@ async function seedDatabase() {
     // Check if data already exists
     const existingUsers = await db.select().from(users).limit(1);
     if (existingUsers.length > 0) {
+      await seedPermissions(db);
       console.log('🔍 Database already contains data. Skipping seed.');
       return;
     }
@@ -51,6 +95,8 @@ async function seedDatabase() {
       throw new Error('Failed to create required seed roles');
     }
 
+    await seedPermissions(db);
+
 
     console.log('🎉 Database seeding completed successfully!');
     console.log('\n📊 Seed data summary:');
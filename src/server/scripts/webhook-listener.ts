@@ -0,0 +1,70 @@
+/**
+ * Local Webhook Listener
+ *
+ * A tiny HTTP server for trying out webhooks: point an endpoint at
+ * http://localhost:4000/ and every delivery is printed with its signature check.
+ *
+ *   pnpm webhooks:listen --port 4000 --secret whsec_...
+ *
+ * Without --secret signatures are shown but not verified. Responds 200 to valid
+ * (or unverified) deliveries and 401 to bad signatures; --fail makes it answer 500,
+ * to watch retries and automatic disabling.
+ */
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { WEBHOOK_SIGNATURE_TOLERANCE_SECONDS } from '../lib/constants';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../lib/webhook-signature';
+
+function listenForWebhooks() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4000' },
+      secret: { type: 'string' },
+      fail: { type: 'boolean', default: false },
+    },
+  });
+  const port = Number(values.port);
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const header = (name: string) => request.headers[name.toLowerCase()]?.toString() ?? '';
+
+      const signature = header(WEBHOOK_SIGNATURE_HEADER);
+      const timestamp = Number(header(WEBHOOK_TIMESTAMP_HEADER));
+      const verified = values.secret === undefined
+        ? null
+        : verifyWebhookSignature(values.secret, timestamp, body, signature, WEBHOOK_SIGNATURE_TOLERANCE_SECONDS);
+
+      console.log(`\n📬 ${request.method} ${request.url} · ${header(WEBHOOK_EVENT_HEADER)} · delivery ${header(WEBHOOK_ID_HEADER)}`);
+      console.log(verified === null ? `🔏 ${signature} (not verified, no --secret)` : verified ? '✅ Signature valid' : '❌ Signature invalid');
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+
+      const status = verified === false ? 401 : values.fail ? 500 : 200;
+      response.writeHead(status, { 'Content-Type': 'text/plain' }).end(status === 200 ? 'ok' : 'rejected');
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`👂 Listening for webhooks on http://localhost:${port}/ (Ctrl+C to stop)`);
+  });
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  listenForWebhooks();
+}
+
+export { listenForWebhooks };
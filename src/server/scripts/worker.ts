@@ -0,0 +1,52 @@
+/**
+ * Background Job Worker
+ *
+ * Runs queued jobs and the scheduled maintenance tasks until the process receives
+ * SIGINT or SIGTERM, then finishes the work it is running before exiting. Start as
+ * many workers as needed; they share the queue and the schedules safely.
+ * Concurrency and polling come from WORKER_CONCURRENCY and WORKER_POLL_INTERVAL_MS.
+ */
+import 'dotenv/config';
+import { hostname } from 'node:os';
+import { createContainer } from '../context/app-context';
+import { JobWorker, Scheduler } from '../jobs';
+import { beforeDatabaseShutdown, closeDatabaseConnection } from '../lib/db';
+
+async function runWorker() {
+  console.log('👷 Starting job worker...');
+
+  try {
+    const container = await createContainer();
+    const { concurrency, pollIntervalMs } = container.appContext.config.worker;
+
+    const workerId = `${hostname()}:${process.pid}`;
+
+    const worker = new JobWorker(
+      { workerId, concurrency, pollIntervalMs },
+      container.jobService,
+      container.appContext.logger
+    );
+    const scheduler = new Scheduler(workerId, container.schedulerService, container.appContext.logger);
+    beforeDatabaseShutdown(() => worker.stop());
+    beforeDatabaseShutdown(() => scheduler.stop());
+
+    await Promise.all([worker.start(), scheduler.start()]);
+
+    console.log('✅ Job worker stopped');
+  } catch (error) {
+    console.error('❌ Job worker failed:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runWorker().catch((error) => {
+    console.error('Fatal job worker error:', error);
+    process.exit(1);
+  });
+}
+
+export { runWorker };
@@ -0,0 +1,54 @@
+/**
+ * Audit Service - Business Logic Layer
+ *
+ * Records who changed what, and when, and lets administrators query the log.
+ * The actor, IP address, user agent and request id come from the request the
+ * container was created for.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { AuditLogEntry, IAuditLogRepository } from '~/server/domain';
+import type {
+  AuditLogFilterQuery,
+  AuditLogRecordRequest,
+} from '~/server/domain/repositories/types/audit-log-repository-types';
+import type { CursorPage } from '~/server/domain/repositories/types/pagination-types';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+export class AuditService {
+  constructor(
+    private appContext: AppContext,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  /**
+   * Record a completed change
+   * The change has already happened, so a failure to record it is logged rather than thrown
+   */
+  async record(change: AuditLogRecordRequest): Promise<void> {
+    try {
+      await this.auditLogRepository.record(change);
+    } catch (error) {
+      this.appContext.logger.error('Failed to record audit entry in service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        action: change.action,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        requestId: this.appContext.request?.requestId,
+        operation: 'record',
+        service: 'AuditService'
+      });
+    }
+  }
+
+  /**
+   * Audit entries matching the filters, newest first
+   */
+  async getAuditLogs(filter: AuditLogFilterQuery): Promise<CursorPage<AuditLogEntry>> {
+    if (filter.from && filter.to && filter.from >= filter.to) {
+      throw new Err.ValidationError('The start of the time range must be before its end');
+    }
+
+    return this.auditLogRepository.findMany(filter);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Calendar Feed Service - Business Logic Layer
+ *
+ * Gives users private iCalendar URLs that calendar apps subscribe to. Each feed lists the
+ * user's todos with a start or due date as VTODOs. The token in the URL is the only
+ * credential: it is shown once, stored as a SHA-256 hash, and deleting the feed revokes it.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { AppContext } from '~/server/context/app-context';
+import type { CalendarFeed, ICalendarFeedRepository } from '~/server/domain';
+import { CALENDAR_FEED_MAX_PER_USER } from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type { TodoTransferService } from './todo-transfer-service';
+
+export interface CreatedCalendarFeed {
+  feed: CalendarFeed;
+  /** The URL token; only available here */
+  token: string;
+}
+
+const TOKEN_PREFIX = 'cal_';
+const TOKEN_PATTERN = /^cal_[A-Za-z0-9_-]{32}$/;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Path of a feed's URL, relative to the app's origin
+ * The .ics suffix is for calendar apps that go by the extension; the route accepts both
+ */
+export const calendarFeedPath = (token: string) => `/api/calendar/${token}.ics`;
+
+export class CalendarFeedService {
+  constructor(
+    private appContext: AppContext,
+    private calendarFeedRepository: ICalendarFeedRepository,
+    private todoTransferService: TodoTransferService
+  ) {}
+
+  async getFeeds(userId: string): Promise<CalendarFeed[]> {
+    return this.calendarFeedRepository.findByUserId(userId);
+  }
+
+  async createFeed(userId: string, name: string): Promise<CreatedCalendarFeed> {
+    try {
+      const existing = await this.calendarFeedRepository.findByUserId(userId);
+      if (existing.length >= CALENDAR_FEED_MAX_PER_USER) {
+        throw new Err.BusinessRuleError(`You can have at most ${CALENDAR_FEED_MAX_PER_USER} calendar feeds`, {
+          limit: CALENDAR_FEED_MAX_PER_USER,
+        });
+      }
+
+      const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+      const feed = await this.calendarFeedRepository.create({
+        userId,
+        name: name.trim(),
+        tokenHash: hashToken(token),
+      });
+
+      this.appContext.logger.info('Calendar feed created', {
+        feedId: feed.id,
+        userId,
+        operation: 'createFeed',
+        service: 'CalendarFeedService'
+      });
+
+      return { feed, token };
+    } catch (error) {
+      this.appContext.logger.error('Failed to create calendar feed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'createFeed',
+        service: 'CalendarFeedService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a feed; calendar apps get a 404 from its URL from now on
+   */
+  async deleteFeed(feedId: string, userId: string): Promise<void> {
+    await this.calendarFeedRepository.delete(feedId, userId);
+
+    this.appContext.logger.info('Calendar feed revoked', {
+      feedId,
+      userId,
+      operation: 'deleteFeed',
+      service: 'CalendarFeedService'
+    });
+  }
+
+  /**
+   * The feed a URL token belongs to, or null for malformed, unknown and revoked tokens
+   */
+  async findFeedByToken(token: string): Promise<CalendarFeed | null> {
+    if (!TOKEN_PATTERN.test(token)) {
+      return null;
+    }
+    return this.calendarFeedRepository.findByTokenHash(hashToken(token));
+  }
+
+  /**
+   * Stream the feed's calendar, recording the access first
+   */
+  async *renderFeed(feed: CalendarFeed): AsyncGenerator<string> {
+    await this.calendarFeedRepository.markAccessed(feed.id, new Date());
+
+    this.appContext.logger.info('Calendar feed fetched', {
+      feedId: feed.id,
+      userId: feed.userId,
+      operation: 'renderFeed',
+      service: 'CalendarFeedService'
+    });
+
+    yield* this.todoTransferService.exportTodos(feed.userId, 'ical', { scheduledOnly: true });
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Domain Event Service - Business Logic Layer
+ *
+ * Services emit domain events through this service inside a transaction: events are
+ * stored in the outbox together with the change they describe, and delivered to the
+ * in-process subscribers once that transaction commits. Deliveries that fail are
+ * retried with backoff on later dispatch runs (`pnpm events:dispatch`).
+ */
+
+import { hostname } from 'node:os';
+import type { AppContext } from '~/server/context/app-context';
+import type { IOutboxRepository, IUnitOfWork, NewDomainEvent } from '~/server/domain';
+import type { DomainEventBus } from '~/server/events';
+import {
+  OUTBOX_DISPATCH_BATCH_SIZE,
+  OUTBOX_LOCK_TIMEOUT_MS,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_RETENTION_DAYS,
+  OUTBOX_RETRY_DELAY_MS,
+} from '~/server/lib/constants';
+import { getBackoffDelay } from '~/server/utils';
+
+export interface DispatchResult {
+  delivered: number;
+  failed: number;
+}
+
+// Dispatch runs are shared by every container in the process, so that bursts of
+// commits lead to one run at a time plus at most one follow-up
+let activeDispatch: Promise<void> | null = null;
+let dispatchRequested = false;
+
+// Identifies this process in `outbox_event.locked_by`
+const DISPATCHER_ID = `${hostname()}:${process.pid}`;
+
+export class DomainEventService {
+  constructor(
+    private appContext: AppContext,
+    private outboxRepository: IOutboxRepository,
+    private unitOfWork: IUnitOfWork,
+    private eventBus: DomainEventBus
+  ) {}
+
+  /**
+   * Run work in one transaction; events emitted inside commit or roll back with it
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.unitOfWork.run(work);
+  }
+
+  /**
+   * Store events in the outbox, as part of the current transaction when there is one,
+   * and deliver them once it commits
+   */
+  async emit(...events: NewDomainEvent[]): Promise<void> {
+    await this.outboxRepository.append(events);
+    this.unitOfWork.afterCommit(() => this.scheduleDispatch());
+  }
+
+  /**
+   * Deliver due events in the background; failures are logged and retried later
+   */
+  scheduleDispatch(): void {
+    if (activeDispatch) {
+      dispatchRequested = true;
+      return;
+    }
+
+    activeDispatch = (async () => {
+      do {
+        dispatchRequested = false;
+        try {
+          await this.dispatchDue();
+        } catch (error) {
+          this.appContext.logger.error('Background event dispatch failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            operation: 'scheduleDispatch',
+            service: 'DomainEventService'
+          });
+        }
+      } while (dispatchRequested);
+    })().finally(() => {
+      activeDispatch = null;
+    });
+  }
+
+  /**
+   * Deliver every due event to its subscribers, oldest first
+   * Events are claimed before delivery, so dispatchers running at once split the work;
+   * a claim left by a dispatcher that died is taken over after OUTBOX_LOCK_TIMEOUT_MS.
+   * An event is marked processed only after all subscribers handled it (at-least-once);
+   * a failed event waits exponentially longer before each retry, up to OUTBOX_MAX_ATTEMPTS
+   */
+  async dispatchDue(now = new Date()): Promise<DispatchResult> {
+    const result: DispatchResult = { delivered: 0, failed: 0 };
+
+    for (;;) {
+      const events = await this.outboxRepository.claimDue({
+        dispatcherId: DISPATCHER_ID,
+        now,
+        lockedBefore: new Date(Date.now() - OUTBOX_LOCK_TIMEOUT_MS),
+        maxAttempts: OUTBOX_MAX_ATTEMPTS,
+        limit: OUTBOX_DISPATCH_BATCH_SIZE,
+      });
+      if (events.length === 0) {
+        return result;
+      }
+
+      for (const event of events) {
+        try {
+          await this.eventBus.deliver(event);
+          await this.outboxRepository.markProcessed(event.id);
+          result.delivered++;
+        } catch (error) {
+          const attempts = event.attempts + 1;
+          const message = error instanceof Error ? error.message : String(error);
+
+          this.appContext.logger.error('Failed to deliver domain event', {
+            error: message,
+            eventId: event.id,
+            type: event.type,
+            attempts,
+            givingUp: attempts >= OUTBOX_MAX_ATTEMPTS,
+            operation: 'dispatchDue',
+            service: 'DomainEventService'
+          });
+
+          // Counted from `now`, so the event is not due again within this run
+          await this.outboxRepository.markFailed(event.id, {
+            error: message,
+            nextAttemptAt: new Date(now.getTime() + getBackoffDelay(OUTBOX_RETRY_DELAY_MS, event.attempts)),
+          });
+          result.failed++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Permanently delete delivered events older than OUTBOX_RETENTION_DAYS
+   */
+  async purgeProcessedEvents(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      return await this.outboxRepository.purgeProcessedBefore(cutoff);
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge processed domain events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cutoff,
+        operation: 'purgeProcessedEvents',
+        service: 'DomainEventService'
+      });
+      throw error;
+    }
+  }
+}
@@ -1,3 +1,15 @@
 // Services - Business logic layer
 export * from './user-service';
+export * from './role-service';
 export * from './todo-service';
+export * from './todo-transfer-service';
+export * from './tag-service';
+export * from './project-service';
+export * from './audit-service';
+export * from './domain-event-service';
+export * from './job-service';
+export * from './scheduler-service';
+export * from './maintenance-service';
+export * from './webhook-service';
+export * from './calendar-feed-service';
+export * from './personal-access-token-service';
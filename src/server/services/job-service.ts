@@ -0,0 +1,127 @@
+/**
+ * Job Service - Business Logic Layer
+ *
+ * Enqueues deferred work and gives workers the queue operations they need.
+ * Jobs enqueued inside a transaction are only visible to workers once it commits.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IJobRepository, Job, JobName, JobPayloads } from '~/server/domain';
+import { JOB_DEFAULT_MAX_ATTEMPTS, JOB_RETRY_DELAY_MS } from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { getBackoffDelay } from '~/server/utils';
+
+export interface EnqueueJobOptions {
+  /** Run no earlier than this; defaults to now */
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export class JobService {
+  constructor(
+    private appContext: AppContext,
+    private jobRepository: IJobRepository
+  ) {}
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue<N extends JobName>(name: N, payload: JobPayloads[N], options: EnqueueJobOptions = {}): Promise<Job> {
+    const maxAttempts = options.maxAttempts ?? JOB_DEFAULT_MAX_ATTEMPTS;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Err.ValidationError('A job needs at least one attempt', { field: 'maxAttempts', value: maxAttempts });
+    }
+
+    const job = await this.jobRepository.enqueue({
+      name,
+      payload,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts,
+    });
+
+    this.appContext.logger.info('Job enqueued', {
+      jobId: job.id,
+      name,
+      runAt: job.runAt,
+      operation: 'enqueue',
+      service: 'JobService'
+    });
+
+    return job;
+  }
+
+  /**
+   * Take the next due job of one of the given kinds for a worker, if any
+   */
+  async claimNext(workerId: string, names: JobName[]): Promise<Job | null> {
+    return this.jobRepository.claimNext({ workerId, names, now: new Date() });
+  }
+
+  /**
+   * Number of running jobs of each kind, across all workers
+   */
+  async countRunning(): Promise<Partial<Record<JobName, number>>> {
+    return this.jobRepository.countRunning();
+  }
+
+  /**
+   * Tell the queue the worker is still running the job; false when its lock was lost
+   * (the job was released as stale and may be running elsewhere)
+   */
+  async refreshLock(job: Job, workerId: string): Promise<boolean> {
+    return this.jobRepository.refreshLock(job.id, workerId);
+  }
+
+  async completeJob(job: Job): Promise<void> {
+    await this.jobRepository.complete(job.id);
+  }
+
+  /**
+   * Record a failed attempt; the job is retried after an exponentially growing delay
+   * until its attempts are used up, then moved to the dead letters
+   */
+  async failJob(job: Job, error: unknown, retryDelayMs = JOB_RETRY_DELAY_MS): Promise<'retry' | 'dead'> {
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = job.attempts < job.maxAttempts;
+
+    await this.jobRepository.fail(job.id, {
+      error: message,
+      runAt: willRetry ? new Date(Date.now() + getBackoffDelay(retryDelayMs, job.attempts - 1)) : null,
+    });
+
+    this.appContext.logger.error(willRetry ? 'Job failed, will retry' : 'Job failed permanently', {
+      error: message,
+      jobId: job.id,
+      name: job.name,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      operation: 'failJob',
+      service: 'JobService'
+    });
+
+    return willRetry ? 'retry' : 'dead';
+  }
+
+  /**
+   * Requeue jobs whose worker stopped while running them; those out of attempts are marked dead
+   */
+  async releaseStaleJobs(lockTimeoutMs: number): Promise<number> {
+    const released = await this.jobRepository.releaseStale(new Date(Date.now() - lockTimeoutMs));
+    if (released > 0) {
+      this.appContext.logger.warn('Released stale jobs', {
+        count: released,
+        lockTimeoutMs,
+        operation: 'releaseStaleJobs',
+        service: 'JobService'
+      });
+    }
+    return released;
+  }
+
+  /**
+   * Call back whenever any process enqueues a job; resolves with a function that stops listening
+   */
+  async onJobEnqueued(callback: () => void): Promise<() => Promise<void>> {
+    return this.jobRepository.listenForEnqueued(callback);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Maintenance Service - Business Logic Layer
+ *
+ * Housekeeping run by the scheduler: pruning expired auth data and keeping
+ * the database's planner statistics current.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IMaintenanceRepository } from '~/server/domain';
+
+export class MaintenanceService {
+  constructor(
+    private appContext: AppContext,
+    private maintenanceRepository: IMaintenanceRepository
+  ) {}
+
+  /**
+   * Permanently delete sessions that have expired; returns how many were deleted
+   */
+  async purgeExpiredSessions(now = new Date()): Promise<number> {
+    return this.maintenanceRepository.purgeExpiredSessions(now);
+  }
+
+  /**
+   * Permanently delete verification tokens that have expired; returns how many were deleted
+   */
+  async purgeExpiredVerifications(now = new Date()): Promise<number> {
+    return this.maintenanceRepository.purgeExpiredVerifications(now);
+  }
+
+  /**
+   * Recompute table statistics so the query planner keeps choosing good plans
+   */
+  async refreshDatabaseStatistics(): Promise<void> {
+    const startedAt = Date.now();
+    await this.maintenanceRepository.analyzeTables();
+
+    this.appContext.logger.info('Database statistics refreshed', {
+      durationMs: Date.now() - startedAt,
+      operation: 'refreshDatabaseStatistics',
+      service: 'MaintenanceService'
+    });
+  }
+}
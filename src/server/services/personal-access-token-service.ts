@@ -0,0 +1,162 @@
+/**
+ * Personal Access Token Service - Business Logic Layer
+ *
+ * Lets users create tokens for scripts to call the API with an `Authorization: Bearer`
+ * header instead of a session cookie. A token acts as its owner, limited to the scopes it
+ * was given (enforced by `protectedProcedure`). Tokens are shown once, stored as SHA-256
+ * hashes, may expire, and are revoked by deleting them.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { AppContext } from '~/server/context/app-context';
+import {
+  ACCESS_TOKEN_SCOPES,
+  type AccessTokenScope,
+  type IPersonalAccessTokenRepository,
+  type IUserRepository,
+  type PersonalAccessToken,
+  type User,
+} from '~/server/domain';
+import {
+  PERSONAL_ACCESS_TOKEN_LAST_USED_INTERVAL_MS,
+  PERSONAL_ACCESS_TOKEN_MAX_PER_USER,
+} from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scopes: AccessTokenScope[];
+  /** Null for a token that never expires */
+  expiresAt: Date | null;
+}
+
+export interface CreatedPersonalAccessToken {
+  accessToken: PersonalAccessToken;
+  /** The token itself; only available here */
+  token: string;
+}
+
+/**
+ * A valid token and the user it acts as
+ */
+export interface AuthenticatedAccessToken {
+  accessToken: PersonalAccessToken;
+  user: User;
+}
+
+const TOKEN_PREFIX = 'pat_';
+const TOKEN_PATTERN = /^pat_[A-Za-z0-9_-]{43}$/;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export class PersonalAccessTokenService {
+  constructor(
+    private appContext: AppContext,
+    private personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private userRepository: IUserRepository
+  ) {}
+
+  /**
+   * The user's tokens, newest first, including expired ones
+   */
+  async getTokens(userId: string): Promise<PersonalAccessToken[]> {
+    return this.personalAccessTokenRepository.findByUserId(userId);
+  }
+
+  async createToken(userId: string, request: CreatePersonalAccessTokenRequest): Promise<CreatedPersonalAccessToken> {
+    try {
+      const scopes = ACCESS_TOKEN_SCOPES.filter(scope => request.scopes.includes(scope));
+      if (scopes.length === 0) {
+        throw new Err.ValidationError('Select at least one scope');
+      }
+      if (request.expiresAt && request.expiresAt.getTime() <= Date.now()) {
+        throw new Err.ValidationError('Expiry date must be in the future');
+      }
+
+      const existing = await this.personalAccessTokenRepository.findByUserId(userId);
+      if (existing.length >= PERSONAL_ACCESS_TOKEN_MAX_PER_USER) {
+        throw new Err.BusinessRuleError(`You can have at most ${PERSONAL_ACCESS_TOKEN_MAX_PER_USER} access tokens`, {
+          limit: PERSONAL_ACCESS_TOKEN_MAX_PER_USER,
+        });
+      }
+
+      const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+      const accessToken = await this.personalAccessTokenRepository.create({
+        userId,
+        name: request.name.trim(),
+        tokenHash: hashToken(token),
+        scopes,
+        expiresAt: request.expiresAt,
+      });
+
+      this.appContext.logger.info('Personal access token created', {
+        tokenId: accessToken.id,
+        userId,
+        scopes,
+        operation: 'createToken',
+        service: 'PersonalAccessTokenService'
+      });
+
+      return { accessToken, token };
+    } catch (error) {
+      this.appContext.logger.error('Failed to create personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'createToken',
+        service: 'PersonalAccessTokenService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a token; requests using it are rejected from now on
+   */
+  async deleteToken(tokenId: string, userId: string): Promise<void> {
+    await this.personalAccessTokenRepository.delete(tokenId, userId);
+
+    this.appContext.logger.info('Personal access token revoked', {
+      tokenId,
+      userId,
+      operation: 'deleteToken',
+      service: 'PersonalAccessTokenService'
+    });
+  }
+
+  /**
+   * Resolve a bearer token to its owner, or null when it is malformed, unknown, revoked or expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedAccessToken | null> {
+    if (!TOKEN_PATTERN.test(token)) {
+      return null;
+    }
+
+    const accessToken = await this.personalAccessTokenRepository.findByTokenHash(hashToken(token));
+    if (!accessToken) {
+      return null;
+    }
+
+    const now = new Date();
+    if (accessToken.expiresAt && accessToken.expiresAt <= now) {
+      this.appContext.logger.info('Expired personal access token rejected', {
+        tokenId: accessToken.id,
+        userId: accessToken.userId,
+        operation: 'authenticate',
+        service: 'PersonalAccessTokenService'
+      });
+      return null;
+    }
+
+    const user = await this.userRepository.findById(accessToken.userId);
+    if (!user) {
+      return null;
+    }
+
+    // Scripts can make many requests a second; the last-used time only needs to be roughly right
+    if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() >= PERSONAL_ACCESS_TOKEN_LAST_USED_INTERVAL_MS) {
+      await this.personalAccessTokenRepository.markUsed(accessToken.id, now);
+    }
+
+    return { accessToken, user };
+  }
+}
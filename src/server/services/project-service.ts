@@ -0,0 +1,198 @@
+/**
+ * Project Service - Business Logic Layer
+ *
+ * This service provides business logic for managing a user's projects (todo lists).
+ * Todos without a project live in the Inbox; moving todos is handled by TodoService.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IProjectRepository, Project } from '~/server/domain';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+export interface CreateProjectRequest {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  color?: string;
+}
+
+const PROJECT_NAME_MAX_LENGTH = 100;
+const PROJECT_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export class ProjectService {
+  constructor(
+    private appContext: AppContext,
+    private projectRepository: IProjectRepository
+  ) {}
+
+  /**
+   * Create a new project for a user
+   */
+  async createProject(userId: string, request: CreateProjectRequest): Promise<Project> {
+    try {
+      this.appContext.logger.info('Creating project', {
+        userId,
+        name: request.name,
+        operation: 'createProject',
+        service: 'ProjectService'
+      });
+
+      this.validateName(request.name);
+      if (request.color !== undefined) {
+        this.validateColor(request.color);
+      }
+
+      const project = await this.projectRepository.create({
+        name: request.name.trim(),
+        color: request.color,
+        userId
+      });
+
+      this.appContext.logger.info('Project created successfully', {
+        projectId: project.id,
+        userId,
+        operation: 'createProject'
+      });
+
+      return project;
+    } catch (error) {
+      this.appContext.logger.error('Failed to create project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        name: request.name,
+        operation: 'createProject',
+        service: 'ProjectService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all projects for a user
+   */
+  async getProjects(userId: string): Promise<Project[]> {
+    try {
+      this.appContext.logger.info('Fetching projects for user', {
+        userId,
+        operation: 'getProjects',
+        service: 'ProjectService'
+      });
+
+      return await this.projectRepository.findByUserId(userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch projects', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'getProjects',
+        service: 'ProjectService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename and/or recolor a project (user-scoped for security)
+   */
+  async updateProject(projectId: string, userId: string, request: UpdateProjectRequest): Promise<Project> {
+    try {
+      this.appContext.logger.info('Updating project', {
+        projectId,
+        userId,
+        updates: request,
+        operation: 'updateProject',
+        service: 'ProjectService'
+      });
+
+      if (request.name === undefined && request.color === undefined) {
+        throw new Err.ValidationError('At least one field must be provided for update');
+      }
+      if (request.name !== undefined) {
+        this.validateName(request.name);
+      }
+      if (request.color !== undefined) {
+        this.validateColor(request.color);
+      }
+
+      const project = await this.projectRepository.updateBasicInfo(projectId, {
+        name: request.name?.trim(),
+        color: request.color
+      }, userId);
+
+      this.appContext.logger.info('Project updated successfully', {
+        projectId,
+        userId,
+        operation: 'updateProject'
+      });
+
+      return project;
+    } catch (error) {
+      this.appContext.logger.error('Failed to update project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        projectId,
+        userId,
+        operation: 'updateProject',
+        service: 'ProjectService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a project and move its todos to the Inbox (user-scoped for security)
+   */
+  async deleteProject(projectId: string, userId: string): Promise<void> {
+    try {
+      this.appContext.logger.info('Deleting project', {
+        projectId,
+        userId,
+        operation: 'deleteProject',
+        service: 'ProjectService'
+      });
+
+      await this.projectRepository.delete(projectId, userId);
+
+      this.appContext.logger.info('Project deleted successfully', {
+        projectId,
+        userId,
+        operation: 'deleteProject'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete project', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        projectId,
+        userId,
+        operation: 'deleteProject',
+        service: 'ProjectService'
+      });
+      throw error;
+    }
+  }
+
+  private validateName(name: string): void {
+    if (!name.trim()) {
+      throw new Err.ValidationError('Project name is required', {
+        field: 'name',
+        value: name
+      });
+    }
+    if (name.trim().length > PROJECT_NAME_MAX_LENGTH) {
+      throw new Err.ValidationError('Project name too long', {
+        field: 'name',
+        maxLength: PROJECT_NAME_MAX_LENGTH,
+        currentLength: name.trim().length
+      });
+    }
+  }
+
+  private validateColor(color: string): void {
+    if (!PROJECT_COLOR_PATTERN.test(color)) {
+      throw new Err.ValidationError('Color must be a hex value like #228be6', {
+        field: 'color',
+        value: color
+      });
+    }
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Role Service - Business Logic Layer
+ *
+ * This service resolves what a user is allowed to do. Permissions are granted to
+ * roles and users receive them through their roles; procedures check permissions,
+ * never role names.
+ *
+ * A container (and so a RoleService) is created per request, so a user's effective
+ * permissions are loaded once per request and role changes apply to the next one.
+ *
+ * Nobody can hand out more than they hold: creating, editing or deleting a role, and giving
+ * a role to or taking it from a user, require the acting user to hold all of its permissions.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IRoleRepository } from '~/server/domain';
+import {
+  ADMIN_ROLE,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  type PermissionName,
+  type Role,
+} from '~/server/infrastructure/db/schema';
+import * as Err from '~/server/lib/errors/domain-errors';
+import type { DomainEventService } from './domain-event-service';
+
+export interface RoleWithPermissions extends Role {
+  permissions: string[];
+  /** Built-in roles cannot be renamed or deleted */
+  builtIn: boolean;
+}
+
+export interface CreateRoleRequest {
+  name: string;
+  description?: string | null;
+  permissions?: PermissionName[];
+}
+
+export interface UpdateRoleRequest {
+  name?: string;
+  description?: string | null;
+  permissions?: PermissionName[];
+}
+
+const ROLE_NAME_MAX_LENGTH = 50;
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+export class RoleService {
+  private permissionCache = new Map<string, Promise<ReadonlySet<string>>>();
+
+  constructor(
+    private appContext: AppContext,
+    private roleRepository: IRoleRepository,
+    private domainEvents: DomainEventService
+  ) {}
+
+  /**
+   * Effective permissions of a user, cached for the lifetime of this service
+   */
+  async getUserPermissions(userId: string): Promise<ReadonlySet<string>> {
+    let permissions = this.permissionCache.get(userId);
+    if (!permissions) {
+      permissions = this.loadUserPermissions(userId);
+      this.permissionCache.set(userId, permissions);
+      // Do not keep a failed lookup around
+      permissions.catch(() => this.permissionCache.delete(userId));
+    }
+    return permissions;
+  }
+
+  /**
+   * Whether the user holds every one of the given permissions
+   */
+  async hasPermissions(userId: string, required: readonly PermissionName[]): Promise<boolean> {
+    const permissions = await this.getUserPermissions(userId);
+    return required.every(permission => permissions.has(permission));
+  }
+
+  /**
+   * Throw ForbiddenError unless the user holds every one of the given permissions
+   */
+  async requirePermissions(userId: string, required: readonly PermissionName[]): Promise<void> {
+    const permissions = await this.getUserPermissions(userId);
+    const missing = required.filter(permission => !permissions.has(permission));
+
+    if (missing.length > 0) {
+      this.appContext.logger.warn('Permission denied', {
+        userId,
+        missing,
+        operation: 'requirePermissions',
+        service: 'RoleService'
+      });
+      throw new Err.ForbiddenError('You do not have permission to perform this action', { missing });
+    }
+  }
+
+  /**
+   * Role names of a user
+   */
+  async getUserRoleNames(userId: string): Promise<string[]> {
+    return this.roleRepository.getUserRoleNames(userId);
+  }
+
+  // =============================================================================
+  // ROLE MANAGEMENT
+  // =============================================================================
+
+  /**
+   * Every permission that can be granted to a role
+   */
+  getAvailablePermissions(): readonly PermissionName[] {
+    return PERMISSIONS;
+  }
+
+  /**
+   * All roles with the permissions they grant
+   */
+  async getRoles(): Promise<RoleWithPermissions[]> {
+    const roles = await this.roleRepository.findAll();
+    const withPermissions = await Promise.all(roles.map(role => this.withPermissions(role)));
+    return withPermissions.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a role, optionally granting permissions the acting user holds
+   * The role and its permissions are written in one transaction
+   */
+  async createRole(actorId: string, request: CreateRoleRequest): Promise<RoleWithPermissions> {
+    this.appContext.logger.info('Creating role', {
+      name: request.name,
+      actorId,
+      operation: 'createRole',
+      service: 'RoleService'
+    });
+
+    const name = this.validateName(request.name);
+    await this.ensureHolds(actorId, request.permissions ?? []);
+    await this.ensureNameAvailable(name);
+
+    return this.domainEvents.transaction(async () => {
+      const role = await this.roleRepository.create({
+        name,
+        description: request.description ?? null,
+      });
+      if (request.permissions?.length) {
+        await this.roleRepository.setRolePermissions({ roleId: role.id, permissionNames: request.permissions });
+      }
+
+      return this.withPermissions(role);
+    });
+  }
+
+  /**
+   * Update a role's name, description and/or permissions
+   * Built-in roles keep their name, and the admin role keeps every permission
+   * The acting user must hold the role's current permissions and any it is given.
+   * Its details and permissions are written in one transaction
+   */
+  async updateRole(actorId: string, id: string, request: UpdateRoleRequest): Promise<RoleWithPermissions> {
+    this.appContext.logger.info('Updating role', {
+      roleId: id,
+      actorId,
+      operation: 'updateRole',
+      service: 'RoleService'
+    });
+
+    const existing = await this.getRoleOrThrow(id);
+    await this.requireRolePermissions(actorId, [existing.id]);
+    await this.ensureHolds(actorId, request.permissions ?? []);
+
+    let name: string | undefined;
+    if (request.name !== undefined) {
+      name = this.validateName(request.name);
+      if (name !== existing.name) {
+        if (this.isBuiltIn(existing)) {
+          throw new Err.BusinessRuleError(`The built-in "${existing.name}" role cannot be renamed`);
+        }
+        await this.ensureNameAvailable(name);
+      }
+    }
+
+    if (request.permissions !== undefined && existing.name === ADMIN_ROLE) {
+      throw new Err.BusinessRuleError('The admin role always has every permission');
+    }
+
+    return this.domainEvents.transaction(async () => {
+      const role = name !== undefined || request.description !== undefined
+        ? await this.roleRepository.updateBasicInfoPartial(id, { name, description: request.description })
+        : existing;
+      if (request.permissions !== undefined) {
+        await this.roleRepository.setRolePermissions({ roleId: id, permissionNames: request.permissions });
+      }
+
+      return this.withPermissions(role);
+    });
+  }
+
+  /**
+   * Delete a custom role; its members lose the role
+   */
+  async deleteRole(actorId: string, id: string): Promise<void> {
+    this.appContext.logger.info('Deleting role', {
+      roleId: id,
+      actorId,
+      operation: 'deleteRole',
+      service: 'RoleService'
+    });
+
+    const role = await this.getRoleOrThrow(id);
+    if (this.isBuiltIn(role)) {
+      throw new Err.BusinessRuleError(`The built-in "${role.name}" role cannot be deleted`);
+    }
+    await this.requireRolePermissions(actorId, [role.id]);
+
+    await this.roleRepository.deleteById(id);
+  }
+
+  // =============================================================================
+  // ROLE ASSIGNMENT
+  // =============================================================================
+
+  /**
+   * Replace a user's roles; the acting user must hold the permissions of every role added or removed
+   */
+  async setUserRoles(actorId: string, userId: string, roleNames: string[]): Promise<string[]> {
+    this.appContext.logger.info('Setting user roles', {
+      userId,
+      roleNames,
+      actorId,
+      operation: 'setUserRoles',
+      service: 'RoleService'
+    });
+
+    const uniqueNames = [...new Set(roleNames)];
+
+    return this.domainEvents.transaction(async () => {
+      if (!uniqueNames.includes(ADMIN_ROLE)) {
+        await this.ensureAdminRemains(userId);
+      }
+
+      const previousNames = await this.roleRepository.getUserRoleNames(userId);
+      const changedNames = [
+        ...uniqueNames.filter(name => !previousNames.includes(name)),
+        ...previousNames.filter(name => !uniqueNames.includes(name)),
+      ];
+      if (changedNames.length > 0) {
+        const changedRoles = await this.roleRepository.findByNames(changedNames);
+        await this.requireRolePermissions(actorId, changedRoles.map(role => role.id));
+      }
+
+      if (uniqueNames.length > 0) {
+        await this.roleRepository.setUserRoles({ userId, roleNames: uniqueNames });
+      } else {
+        await this.roleRepository.updateUserRolesBulk({ userId, roleIds: [] });
+      }
+
+      const roleNamesNow = await this.roleRepository.getUserRoleNames(userId);
+      await this.emitRoleChanges(userId, previousNames, roleNamesNow);
+      return roleNamesNow;
+    });
+  }
+
+  /**
+   * Give a user one more role; the acting user must hold all of its permissions
+   */
+  async assignRole(actorId: string, userId: string, roleId: string): Promise<string[]> {
+    await this.getRoleOrThrow(roleId);
+    await this.requireRolePermissions(actorId, [roleId]);
+
+    return this.domainEvents.transaction(async () => {
+      const previousNames = await this.roleRepository.getUserRoleNames(userId);
+      await this.roleRepository.assignRoleToUser({ userId, roleId });
+
+      const roleNamesNow = await this.roleRepository.getUserRoleNames(userId);
+      await this.emitRoleChanges(userId, previousNames, roleNamesNow);
+      return roleNamesNow;
+    });
+  }
+
+  /**
+   * Take a role away from a user; the last admin cannot lose the admin role
+   * The acting user must hold all of the role's permissions
+   */
+  async removeRole(actorId: string, userId: string, roleId: string): Promise<string[]> {
+    const role = await this.getRoleOrThrow(roleId);
+    await this.requireRolePermissions(actorId, [roleId]);
+
+    return this.domainEvents.transaction(async () => {
+      if (role.name === ADMIN_ROLE) {
+        await this.ensureAdminRemains(userId);
+      }
+
+      const previousNames = await this.roleRepository.getUserRoleNames(userId);
+      await this.roleRepository.removeRoleFromUser({ userId, roleId });
+
+      const roleNamesNow = await this.roleRepository.getUserRoleNames(userId);
+      await this.emitRoleChanges(userId, previousNames, roleNamesNow);
+      return roleNamesNow;
+    });
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Emit RoleAssigned / RoleRemoved for the difference between a user's old and new roles
+   */
+  private async emitRoleChanges(userId: string, previousNames: string[], currentNames: string[]): Promise<void> {
+    const assigned = currentNames.filter(name => !previousNames.includes(name));
+    const removed = previousNames.filter(name => !currentNames.includes(name));
+
+    if (assigned.length > 0) {
+      await this.domainEvents.emit({ type: 'RoleAssigned', payload: { userId, roleNames: assigned } });
+    }
+    if (removed.length > 0) {
+      await this.domainEvents.emit({ type: 'RoleRemoved', payload: { userId, roleNames: removed } });
+    }
+  }
+
+  /**
+   * Throw unless someone other than this user still holds the admin role
+   * Must run inside the transaction that changes the user's roles: the admin assignments stay
+   * locked until it ends, so two admins removing each other cannot both pass the check
+   */
+  private async ensureAdminRemains(userId: string): Promise<void> {
+    const adminIds = await this.roleRepository.lockUsersWithRole(ADMIN_ROLE);
+    if (adminIds.includes(userId) && adminIds.length <= 1) {
+      throw new Err.BusinessRuleError('Cannot remove the last admin');
+    }
+  }
+
+  /**
+   * Throw ForbiddenError unless the acting user holds every one of the permissions they grant or revoke
+   */
+  private async ensureHolds(actorId: string, permissionNames: readonly string[]): Promise<void> {
+    const held = await this.getUserPermissions(actorId);
+    const missing = [...new Set(permissionNames)].filter(permission => !held.has(permission));
+
+    if (missing.length > 0) {
+      this.appContext.logger.warn('Permission escalation denied', {
+        actorId,
+        missing,
+        operation: 'ensureHolds',
+        service: 'RoleService'
+      });
+      throw new Err.ForbiddenError('You can only grant or revoke permissions you hold yourself', { missing });
+    }
+  }
+
+  /**
+   * Throw ForbiddenError unless the acting user holds every permission the roles grant
+   */
+  private async requireRolePermissions(actorId: string, roleIds: string[]): Promise<void> {
+    const granted = await Promise.all(roleIds.map(id => this.roleRepository.getRolePermissionNames(id)));
+    await this.ensureHolds(actorId, granted.flat());
+  }
+
+  private async getRoleOrThrow(id: string): Promise<Role> {
+    const role = await this.roleRepository.findById(id);
+    if (!role) {
+      throw new Err.NotFoundError('Role not found', { roleId: id });
+    }
+    return role;
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    if (await this.roleRepository.findByName(name)) {
+      throw new Err.ConflictError(`A role named "${name}" already exists`);
+    }
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim().toLowerCase();
+    if (!trimmed || trimmed.length > ROLE_NAME_MAX_LENGTH || !ROLE_NAME_PATTERN.test(trimmed)) {
+      throw new Err.ValidationError(
+        'Role name must start with a letter and contain only letters, digits, "-" or "_"'
+      );
+    }
+    return trimmed;
+  }
+
+  private isBuiltIn(role: Role): boolean {
+    return Object.hasOwn(DEFAULT_ROLE_PERMISSIONS, role.name);
+  }
+
+  private async withPermissions(role: Role): Promise<RoleWithPermissions> {
+    const permissions = await this.roleRepository.getRolePermissionNames(role.id);
+    return { ...role, permissions, builtIn: this.isBuiltIn(role) };
+  }
+
+  private async loadUserPermissions(userId: string): Promise<ReadonlySet<string>> {
+    const names = await this.roleRepository.getUserPermissionNames(userId);
+
+    this.appContext.logger.debug('Resolved user permissions', {
+      userId,
+      permissions: names,
+      operation: 'getUserPermissions',
+      service: 'RoleService'
+    });
+
+    return new Set(names);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Scheduler Service - Business Logic Layer
+ *
+ * Keeps the stored schedules in line with the task registry, hands out due runs
+ * to scheduler instances (one instance per run, however many replicas are up)
+ * and records their outcome for admins to see.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IScheduledTaskRepository, ScheduledTask, ScheduledTaskName } from '~/server/domain';
+import { getNextCronRun, parseCronExpression } from '~/server/lib/cron';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+export class SchedulerService {
+  constructor(
+    private appContext: AppContext,
+    private scheduledTaskRepository: IScheduledTaskRepository
+  ) {}
+
+  /**
+   * All scheduled tasks with the state of their last and next runs
+   */
+  async getScheduledTasks(): Promise<ScheduledTask[]> {
+    return this.scheduledTaskRepository.findAll();
+  }
+
+  /**
+   * Store the registry's schedules; a task whose cron changed is rescheduled from now
+   */
+  async syncSchedules(schedules: Record<ScheduledTaskName, string>, now = new Date()): Promise<void> {
+    const tasks = Object.entries(schedules).map(([name, cron]) => {
+      try {
+        return {
+          name: name as ScheduledTaskName,
+          cron,
+          nextRunAt: getNextCronRun(parseCronExpression(cron), now),
+        };
+      } catch (error) {
+        throw new Err.ValidationError(
+          `Invalid schedule for ${name}: ${error instanceof Error ? error.message : String(error)}`,
+          { field: 'cron', value: cron }
+        );
+      }
+    });
+
+    await this.scheduledTaskRepository.sync(tasks);
+
+    this.appContext.logger.info('Scheduled tasks synced', {
+      count: tasks.length,
+      operation: 'syncSchedules',
+      service: 'SchedulerService'
+    });
+  }
+
+  /**
+   * Claim the due run of a task for this scheduler instance
+   * False when the task is not due or another instance got the run
+   */
+  async claimRun(task: ScheduledTask, schedulerId: string, now = new Date()): Promise<boolean> {
+    return this.scheduledTaskRepository.claimRun({
+      name: task.name,
+      schedulerId,
+      now,
+      nextRunAt: getNextCronRun(task.cron, now),
+    });
+  }
+
+  /**
+   * Record the outcome of a claimed run; error is null when it succeeded
+   */
+  async recordRun(name: ScheduledTaskName, startedAt: Date, error: unknown): Promise<void> {
+    const finishedAt = new Date();
+    const message = error == null ? null : error instanceof Error ? error.message : 'Unknown error';
+
+    await this.scheduledTaskRepository.recordResult(name, {
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      error: message,
+    });
+
+    if (message) {
+      this.appContext.logger.error('Scheduled task failed', {
+        error: message,
+        name,
+        operation: 'recordRun',
+        service: 'SchedulerService'
+      });
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Tag Service - Business Logic Layer
+ *
+ * This service provides business logic for managing a user's tags.
+ * Assigning tags to todos is handled by TodoService.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { ITagRepository, Tag } from '~/server/domain';
+import * as Err from '~/server/lib/errors/domain-errors';
+
+export interface CreateTagRequest {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagRequest {
+  name?: string;
+  color?: string;
+}
+
+const TAG_NAME_MAX_LENGTH = 50;
+const TAG_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export class TagService {
+  constructor(
+    private appContext: AppContext,
+    private tagRepository: ITagRepository
+  ) {}
+
+  /**
+   * Create a new tag for a user
+   */
+  async createTag(userId: string, request: CreateTagRequest): Promise<Tag> {
+    try {
+      this.appContext.logger.info('Creating tag', {
+        userId,
+        name: request.name,
+        operation: 'createTag',
+        service: 'TagService'
+      });
+
+      this.validateName(request.name);
+      if (request.color !== undefined) {
+        this.validateColor(request.color);
+      }
+
+      const tag = await this.tagRepository.create({
+        name: request.name.trim(),
+        color: request.color,
+        userId
+      });
+
+      this.appContext.logger.info('Tag created successfully', {
+        tagId: tag.id,
+        userId,
+        operation: 'createTag'
+      });
+
+      return tag;
+    } catch (error) {
+      this.appContext.logger.error('Failed to create tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        name: request.name,
+        operation: 'createTag',
+        service: 'TagService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all tags for a user
+   */
+  async getTags(userId: string): Promise<Tag[]> {
+    try {
+      this.appContext.logger.info('Fetching tags for user', {
+        userId,
+        operation: 'getTags',
+        service: 'TagService'
+      });
+
+      return await this.tagRepository.findByUserId(userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch tags', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'getTags',
+        service: 'TagService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename and/or recolor a tag (user-scoped for security)
+   */
+  async updateTag(tagId: string, userId: string, request: UpdateTagRequest): Promise<Tag> {
+    try {
+      this.appContext.logger.info('Updating tag', {
+        tagId,
+        userId,
+        updates: request,
+        operation: 'updateTag',
+        service: 'TagService'
+      });
+
+      if (request.name === undefined && request.color === undefined) {
+        throw new Err.ValidationError('At least one field must be provided for update');
+      }
+      if (request.name !== undefined) {
+        this.validateName(request.name);
+      }
+      if (request.color !== undefined) {
+        this.validateColor(request.color);
+      }
+
+      const tag = await this.tagRepository.updateBasicInfo(tagId, {
+        name: request.name?.trim(),
+        color: request.color
+      }, userId);
+
+      this.appContext.logger.info('Tag updated successfully', {
+        tagId,
+        userId,
+        operation: 'updateTag'
+      });
+
+      return tag;
+    } catch (error) {
+      this.appContext.logger.error('Failed to update tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagId,
+        userId,
+        operation: 'updateTag',
+        service: 'TagService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and detach it from all todos (user-scoped for security)
+   */
+  async deleteTag(tagId: string, userId: string): Promise<void> {
+    try {
+      this.appContext.logger.info('Deleting tag', {
+        tagId,
+        userId,
+        operation: 'deleteTag',
+        service: 'TagService'
+      });
+
+      await this.tagRepository.delete(tagId, userId);
+
+      this.appContext.logger.info('Tag deleted successfully', {
+        tagId,
+        userId,
+        operation: 'deleteTag'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete tag', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tagId,
+        userId,
+        operation: 'deleteTag',
+        service: 'TagService'
+      });
+      throw error;
+    }
+  }
+
+  private validateName(name: string): void {
+    if (!name.trim()) {
+      throw new Err.ValidationError('Tag name is required', {
+        field: 'name',
+        value: name
+      });
+    }
+    if (name.trim().length > TAG_NAME_MAX_LENGTH) {
+      throw new Err.ValidationError('Tag name too long', {
+        field: 'name',
+        maxLength: TAG_NAME_MAX_LENGTH,
+        currentLength: name.trim().length
+      });
+    }
+  }
+
+  private validateColor(color: string): void {
+    if (!TAG_COLOR_PATTERN.test(color)) {
+      throw new Err.ValidationError('Color must be a hex value like #228be6', {
+        field: 'color',
+        value: color
+      });
+    }
+  }
+}
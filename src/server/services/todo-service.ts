@@ -12,31 +12,121 @@
  * 5. Data transformation for the API layer
  */
 
+import { EventEmitter, on } from 'node:events';
 import type { AppContext } from '~/server/context/app-context';
-import type { ITodoRepository, Todo } from '~/server/domain';
+import type { ChecklistItem, IChecklistRepository, IProjectRepository, ITagRepository, ITodoChangeRepository, ITodoRepository, RecurrenceRule, Tag, Todo, TodoChange, TodoChangeType, TodoDigestEntry, TodoPriority, TodoRevision, TodoSearchResult } from '~/server/domain';
+import type { TodoSort } from '~/server/domain/repositories/types/todo-repository-types';
+import type { CursorPage } from '~/server/domain/repositories/types/pagination-types';
+import { reorderItems } from '@thaitype/reorder';
+import { advanceRecurrence, anchorRecurrence, getNextOccurrence, getRecurrenceError } from '~/lib/recurrence';
 import * as Err from '~/server/lib/errors/domain-errors';
+import { TODO_CHANGE_REPLAY_LIMIT, TODO_CHANGE_RETENTION_DAYS, TODO_DIGEST_MAX_TODOS, TODO_RANK_GAP, TODO_RANK_MIN_GAP } from '~/server/lib/constants';
+import { getDayRange } from '~/server/utils';
+import type { DomainEventService } from './domain-event-service';
 
 export interface CreateTodoRequest {
   title: string;
   description?: string;
+  priority?: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  tagIds?: string[];
+  projectId?: string | null;
 }
 
 export interface UpdateTodoRequest {
   title?: string;
   description?: string;
   completed?: boolean;
+  priority?: TodoPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  tagIds?: string[];
+  projectId?: string | null;
+  completeChecklist?: boolean; // with completed: true, also tick every checklist item
+  expectedVersion?: number; // version the client edited; a newer stored version is a conflict
 }
 
+export interface ToggleTodoOptions {
+  completeChecklist?: boolean; // when the todo becomes completed, also tick every checklist item
+  timezoneOffset?: number; // client offset used to place the next occurrence of a recurring todo
+  expectedVersion?: number; // version the client toggled; a newer stored version is a conflict
+}
+
+export interface ToggleTodoResult {
+  todo: Todo;
+  /** Spawned when a recurring todo is completed and its series has not ended */
+  nextOccurrence: Todo | null;
+}
+
+/**
+ * Where to drop a todo (or checklist item) in its manual order, relative to its new neighbours
+ * afterId takes precedence when both are given
+ */
+export interface ReorderRequest {
+  afterId?: string | null;
+  beforeId?: string | null;
+}
+
+/**
+ * A change streamed to the user's clients, with the todo as it is now
+ * (null once it is deleted or trashed). 'resync' replaces a replay that would be
+ * too long: the client should refetch its todos instead
+ */
+export type TodoChangeEvent =
+  | { id: number; type: TodoChangeType; todoId: string; todo: Todo | null }
+  | { id: number; type: 'resync' };
+
+export interface TodoStats {
+  total: number;
+  completed: number;
+  pending: number;
+  overdue: number;
+  dueToday: number;
+}
+
+/**
+ * List orderings exposed to clients
+ * - newest: most recently created first
+ * - priority: highest priority first, then earliest due date, then newest
+ * - manual: the user's drag-and-drop order
+ */
+export type TodoSortOrder = 'newest' | 'priority' | 'manual';
+
+const CHECKLIST_ITEM_TITLE_MAX_LENGTH = 200;
+
+const TODO_SORT_ORDERS: Record<TodoSortOrder, TodoSort> = {
+  newest: { createdAt: -1 },
+  priority: { priority: -1, dueDate: 1, createdAt: -1 },
+  manual: { rank: 1, createdAt: 1 },
+};
+
 export interface TodoListOptions {
   includeCompleted?: boolean;
   limit?: number;
-  skip?: number;
+  cursor?: string | null; // nextCursor of the previous page
+  sortBy?: TodoSortOrder;
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all';
+  projectId?: string | null; // null = Inbox, undefined = all projects
+}
+
+export interface TodoSearchOptions {
+  includeCompleted?: boolean;
+  limit?: number;
 }
 
 export class TodoService {
   constructor(
     private appContext: AppContext,
-    private todoRepository: ITodoRepository
+    private todoRepository: ITodoRepository,
+    private tagRepository: ITagRepository,
+    private projectRepository: IProjectRepository,
+    private checklistRepository: IChecklistRepository,
+    private todoChangeRepository: ITodoChangeRepository,
+    private domainEvents: DomainEventService
   ) {}
 
   /**
@@ -75,10 +165,45 @@ export class TodoService {
         });
       }
 
-      const todo = await this.todoRepository.create({
-        title: request.title.trim(),
-        description: request.description?.trim(),
-        userId
+      this.validateSchedule(request.startDate, request.dueDate);
+
+      if (request.recurrence) {
+        this.validateRecurrence(request.recurrence);
+      }
+
+      if (request.projectId) {
+        await this.ensureProjectOwned(request.projectId, userId);
+      }
+
+      const todoTags = request.tagIds?.length
+        ? await this.getOwnedTags(request.tagIds, userId)
+        : [];
+
+      const todo = await this.domainEvents.transaction(async () => {
+        const createdTodo = await this.todoRepository.create({
+          title: request.title.trim(),
+          description: request.description?.trim(),
+          priority: request.priority,
+          startDate: request.startDate ?? null,
+          dueDate: request.dueDate ?? null,
+          recurrence: request.recurrence ?? null,
+          projectId: request.projectId ?? null,
+          userId
+        });
+
+        if (todoTags.length > 0) {
+          await this.tagRepository.setTodoTags({
+            todoId: createdTodo.id,
+            tagIds: todoTags.map(tag => tag.id)
+          });
+        }
+
+        await this.domainEvents.emit({
+          type: 'TodoCreated',
+          payload: { todoId: createdTodo.id, userId, title: createdTodo.title }
+        });
+
+        return createdTodo;
       });
 
       this.appContext.logger.info('Todo created successfully', {
@@ -87,7 +212,12 @@ export class TodoService {
         operation: 'createTodo'
       });
 
-      return todo;
+      await this.publishChange(userId, todo.id, 'created');
+
+      return {
+        ...todo,
+        tags: todoTags.map(({ id, name, color }) => ({ id, name, color }))
+      };
     } catch (error) {
       this.appContext.logger.error('Failed to create todo', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -101,9 +231,9 @@ export class TodoService {
   }
 
   /**
-   * Get todos for a user with filtering options
+   * Get a page of todos for a user with filtering options
    */
-  async getTodos(userId: string, options: TodoListOptions = {}): Promise<Todo[]> {
+  async getTodos(userId: string, options: TodoListOptions = {}): Promise<CursorPage<Todo>> {
     try {
       this.appContext.logger.info('Fetching todos for user', {
         userId,
@@ -112,20 +242,25 @@ export class TodoService {
         service: 'TodoService'
       });
 
-      const todos = await this.todoRepository.findByUserId(userId, {
+      const page = await this.todoRepository.findByUserId(userId, {
         includeCompleted: options.includeCompleted,
         limit: options.limit,
-        skip: options.skip,
-        sort: { createdAt: -1 } // Newest first
+        cursor: options.cursor,
+        sort: TODO_SORT_ORDERS[options.sortBy ?? 'newest'],
+        tags: options.tagIds?.length
+          ? { tagIds: options.tagIds, hasAllTags: options.tagMatch === 'all' }
+          : undefined,
+        projectId: options.projectId
       });
 
       this.appContext.logger.info('Todos fetched successfully', {
         userId,
-        count: todos.length,
+        count: page.items.length,
+        hasMore: page.nextCursor !== null,
         operation: 'getTodos'
       });
 
-      return todos;
+      return page;
     } catch (error) {
       this.appContext.logger.error('Failed to fetch todos', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -137,6 +272,37 @@ export class TodoService {
     }
   }
 
+  /**
+   * Full-text search over a user's todos, best matches first
+   * Bare words match as prefixes and quoted phrases match in order
+   */
+  async searchTodos(userId: string, query: string, options: TodoSearchOptions = {}): Promise<TodoSearchResult[]> {
+    try {
+      this.appContext.logger.info('Searching todos', {
+        userId,
+        query,
+        options,
+        operation: 'searchTodos',
+        service: 'TodoService'
+      });
+
+      return await this.todoRepository.search(userId, {
+        query,
+        includeCompleted: options.includeCompleted,
+        limit: options.limit,
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to search todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        query,
+        operation: 'searchTodos',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get a single todo by ID (user-scoped for security)
    */
@@ -175,8 +341,9 @@ export class TodoService {
 
   /**
    * Update a todo (user-scoped for security)
+   * Completing a recurring todo spawns its next occurrence
    */
-  async updateTodo(todoId: string, userId: string, request: UpdateTodoRequest): Promise<void> {
+  async updateTodo(todoId: string, userId: string, request: UpdateTodoRequest, timezoneOffset = 0): Promise<void> {
     try {
       this.appContext.logger.info('Updating todo', {
         todoId,
@@ -192,6 +359,24 @@ export class TodoService {
         throw new Err.NotFoundError(`Todo not found or not owned by user: ${todoId}`);
       }
 
+      if (request.expectedVersion !== undefined && request.expectedVersion !== existingTodo.version) {
+        throw new Err.ConflictError(`Todo was changed since it was loaded: ${todoId}`, {
+          todoId,
+          expectedVersion: request.expectedVersion,
+          currentVersion: existingTodo.version,
+        });
+      }
+
+      // Each repository update bumps the version, so the expected version advances with them
+      let expectedVersion = request.expectedVersion;
+      const nextExpectedVersion = () => {
+        const version = expectedVersion;
+        if (version !== undefined) {
+          expectedVersion = version + 1;
+        }
+        return version;
+      };
+
       // Validate input if provided
       if (request.title !== undefined) {
         if (!request.title.trim()) {
@@ -217,19 +402,113 @@ export class TodoService {
         });
       }
 
-      // Update content if title or description changed
-      if (request.title !== undefined || request.description !== undefined) {
-        await this.todoRepository.updateContent(todoId, {
-          title: request.title?.trim(),
-          description: request.description?.trim()
-        }, userId);
+      if (request.startDate !== undefined || request.dueDate !== undefined) {
+        this.validateSchedule(
+          request.startDate !== undefined ? request.startDate : existingTodo.startDate,
+          request.dueDate !== undefined ? request.dueDate : existingTodo.dueDate
+        );
+      }
+
+      if (request.recurrence) {
+        this.validateRecurrence(request.recurrence);
+      }
+
+      if (request.projectId) {
+        await this.ensureProjectOwned(request.projectId, userId);
       }
 
-      // Update status if changed
-      if (request.completed !== undefined) {
-        await this.todoRepository.updateStatus(todoId, {
-          completed: request.completed
-        }, userId);
+      // Resolve tags up front so unknown tags reject the whole update
+      const ownedTags = request.tagIds !== undefined
+        ? await this.getOwnedTags(request.tagIds, userId)
+        : undefined;
+
+      const updatedFields = Object.entries(request)
+        .filter(([field, value]) => value !== undefined && field !== 'expectedVersion' && field !== 'completeChecklist')
+        .map(([field]) => field);
+
+      const nextOccurrence = await this.domainEvents.transaction(async () => {
+        // Update content if title or description changed
+        if (request.title !== undefined || request.description !== undefined) {
+          await this.todoRepository.updateContent(todoId, {
+            title: request.title?.trim(),
+            description: request.description?.trim()
+          }, userId, nextExpectedVersion());
+        }
+
+        // Update status if changed; whether it was already completed comes from the locked row,
+        // so concurrent completions emit TodoCompleted and spawn the next occurrence only once
+        let wasCompleted = existingTodo.completed;
+        if (request.completed !== undefined) {
+          wasCompleted = await this.todoRepository.updateStatus(todoId, {
+            completed: request.completed
+          }, userId, nextExpectedVersion());
+        }
+
+        // Completing the parent can optionally complete its checklist too
+        if (request.completed === true && request.completeChecklist) {
+          await this.checklistRepository.updateStatusForTodo(todoId, { completed: true }, userId);
+        }
+
+        // Update priority if changed
+        if (request.priority !== undefined) {
+          await this.todoRepository.updatePriority(todoId, {
+            priority: request.priority
+          }, userId, nextExpectedVersion());
+        }
+
+        // Update schedule if either date changed
+        if (request.startDate !== undefined || request.dueDate !== undefined) {
+          await this.todoRepository.updateSchedule(todoId, {
+            startDate: request.startDate,
+            dueDate: request.dueDate
+          }, userId, nextExpectedVersion());
+        }
+
+        // Update repeat schedule if changed (null = does not repeat)
+        if (request.recurrence !== undefined) {
+          await this.todoRepository.updateRecurrence(todoId, {
+            recurrence: request.recurrence
+          }, userId, nextExpectedVersion());
+        }
+
+        // Move to another project if changed (null = Inbox)
+        if (request.projectId !== undefined) {
+          await this.todoRepository.updateProject(todoId, {
+            projectId: request.projectId
+          }, userId, nextExpectedVersion());
+        }
+
+        // Replace tags if provided
+        if (ownedTags) {
+          await this.tagRepository.setTodoTags({
+            todoId,
+            tagIds: ownedTags.map(tag => tag.id)
+          });
+        }
+
+        // Completing a recurring todo schedules the next occurrence from the updated todo
+        let spawnedTodo: Todo | null = null;
+        if (request.completed === true && !wasCompleted) {
+          const updatedTodo = await this.todoRepository.findById(todoId, userId);
+          if (updatedTodo?.recurrence) {
+            spawnedTodo = await this.spawnNextOccurrence(updatedTodo, userId, timezoneOffset);
+          }
+        }
+
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId, userId, fields: updatedFields } });
+        if (request.completed !== undefined && request.completed !== wasCompleted) {
+          await this.domainEvents.emit({
+            type: request.completed ? 'TodoCompleted' : 'TodoReopened',
+            payload: { todoId, userId }
+          });
+        }
+
+        return spawnedTodo;
+      });
+
+      await this.publishChange(userId, todoId, 'updated');
+      if (nextOccurrence) {
+        await this.publishChange(userId, nextOccurrence.id, 'created');
       }
 
       this.appContext.logger.info('Todo updated successfully', {
@@ -251,26 +530,58 @@ export class TodoService {
 
   /**
    * Toggle completion status of a todo
+   * Optionally completes the whole checklist when the todo becomes completed;
+   * completing a recurring todo spawns its next occurrence
    */
-  async toggleTodo(todoId: string, userId: string): Promise<Todo> {
+  async toggleTodo(todoId: string, userId: string, options: ToggleTodoOptions = {}): Promise<ToggleTodoResult> {
     try {
       this.appContext.logger.info('Toggling todo completion', {
         todoId,
         userId,
+        options,
         operation: 'toggleTodo',
         service: 'TodoService'
       });
 
-      const updatedTodo = await this.todoRepository.toggleCompletion(todoId, userId);
+      const result = await this.domainEvents.transaction(async (): Promise<ToggleTodoResult> => {
+        let updatedTodo = await this.todoRepository.toggleCompletion(todoId, userId, options.expectedVersion);
+
+        if (updatedTodo.completed && options.completeChecklist && updatedTodo.checklist.some(item => !item.completed)) {
+          await this.checklistRepository.updateStatusForTodo(todoId, { completed: true }, userId);
+          updatedTodo = {
+            ...updatedTodo,
+            checklist: updatedTodo.checklist.map(item => ({ ...item, completed: true }))
+          };
+        }
+
+        let nextOccurrence: Todo | null = null;
+        if (updatedTodo.completed && updatedTodo.recurrence) {
+          nextOccurrence = await this.spawnNextOccurrence(updatedTodo, userId, options.timezoneOffset);
+          updatedTodo = { ...updatedTodo, recurrence: null };
+        }
+
+        await this.domainEvents.emit({
+          type: updatedTodo.completed ? 'TodoCompleted' : 'TodoReopened',
+          payload: { todoId, userId }
+        });
+
+        return { todo: updatedTodo, nextOccurrence };
+      });
+
+      await this.publishChange(userId, todoId, 'updated');
+      if (result.nextOccurrence) {
+        await this.publishChange(userId, result.nextOccurrence.id, 'created');
+      }
 
       this.appContext.logger.info('Todo toggled successfully', {
         todoId,
         userId,
-        newStatus: updatedTodo.completed,
+        newStatus: result.todo.completed,
+        nextOccurrenceId: result.nextOccurrence?.id,
         operation: 'toggleTodo'
       });
 
-      return updatedTodo;
+      return result;
     } catch (error) {
       this.appContext.logger.error('Failed to toggle todo', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -283,6 +594,125 @@ export class TodoService {
     }
   }
 
+  /**
+   * Field revisions of a todo, newest first
+   */
+  async getTodoHistory(todoId: string, userId: string): Promise<TodoRevision[]> {
+    try {
+      await this.ensureTodoOwned(todoId, userId);
+
+      return await this.todoRepository.findRevisions(todoId, userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch todo history', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'getTodoHistory',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a todo's title, description and completion to how they were right after a revision
+   * Fields changed later go back to their value before that later change; the revert itself
+   * is recorded as new revisions, so it can be undone the same way. A todo changed after
+   * `expectedVersion` (or while the revert runs) raises ConflictError
+   */
+  async revertTodo(todoId: string, revisionId: string, userId: string, expectedVersion?: number): Promise<Todo> {
+    try {
+      this.appContext.logger.info('Reverting todo to revision', {
+        todoId,
+        revisionId,
+        userId,
+        operation: 'revertTodo',
+        service: 'TodoService'
+      });
+
+      const existingTodo = await this.todoRepository.findById(todoId, userId);
+      if (!existingTodo) {
+        throw new Err.NotFoundError(`Todo not found or not owned by user: ${todoId}`);
+      }
+      if (expectedVersion !== undefined && expectedVersion !== existingTodo.version) {
+        throw new Err.ConflictError(`Todo was changed since it was loaded: ${todoId}`, {
+          todoId,
+          expectedVersion,
+          currentVersion: existingTodo.version,
+        });
+      }
+
+      const revisions = await this.todoRepository.findRevisions(todoId, userId);
+      const target = revisions.find(revision => revision.id === revisionId);
+      if (!target) {
+        throw new Err.NotFoundError(`Revision not found for todo: ${revisionId}`);
+      }
+
+      // Revisions come newest first, so the last later change of a field is its earliest one
+      const restored = new Map<TodoRevision['field'], TodoRevision['previousValue']>();
+      for (const revision of revisions) {
+        if (revision.createdAt.getTime() > target.createdAt.getTime()) {
+          restored.set(revision.field, revision.previousValue);
+        }
+      }
+
+      if (restored.size === 0) {
+        throw new Err.BusinessRuleError('The todo already matches this revision');
+      }
+
+      // The revert applies to the version the revisions were read at; each update bumps it
+      let version = existingTodo.version;
+
+      await this.domainEvents.transaction(async () => {
+        if (restored.has('title') || restored.has('description')) {
+          const title = restored.get('title');
+          const description = restored.get('description');
+          await this.todoRepository.updateContent(todoId, {
+            title: typeof title === 'string' ? title : undefined,
+            description: restored.has('description') && typeof description !== 'boolean' ? description : undefined,
+          }, userId, version++);
+        }
+
+        const completed = restored.get('completed');
+        if (typeof completed === 'boolean') {
+          await this.todoRepository.updateStatus(todoId, { completed }, userId, version++);
+        }
+
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId, userId, fields: [...restored.keys()] } });
+        if (typeof completed === 'boolean') {
+          await this.domainEvents.emit({ type: completed ? 'TodoCompleted' : 'TodoReopened', payload: { todoId, userId } });
+        }
+      });
+
+      const todo = await this.todoRepository.findById(todoId, userId);
+      if (!todo) {
+        throw new Err.NotFoundError(`Todo not found or not owned by user: ${todoId}`);
+      }
+
+      await this.publishChange(userId, todoId, 'updated');
+
+      this.appContext.logger.info('Todo reverted successfully', {
+        todoId,
+        revisionId,
+        userId,
+        fields: [...restored.keys()],
+        operation: 'revertTodo'
+      });
+
+      return todo;
+    } catch (error) {
+      this.appContext.logger.error('Failed to revert todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        revisionId,
+        userId,
+        operation: 'revertTodo',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
   /**
    * Delete a todo (user-scoped for security)
    */
@@ -295,7 +725,11 @@ export class TodoService {
         service: 'TodoService'
       });
 
-      await this.todoRepository.delete(todoId, userId);
+      await this.domainEvents.transaction(async () => {
+        await this.todoRepository.delete(todoId, userId);
+        await this.domainEvents.emit({ type: 'TodoDeleted', payload: { todoId, userId } });
+      });
+      await this.publishChange(userId, todoId, 'deleted');
 
       this.appContext.logger.info('Todo deleted successfully', {
         todoId,
@@ -315,42 +749,912 @@ export class TodoService {
   }
 
   /**
-   * Get todo statistics for a user
+   * Bring a todo back from the trash
    */
-  async getTodoStats(userId: string): Promise<{ total: number; completed: number; pending: number }> {
+  async restoreTodo(todoId: string, userId: string): Promise<Todo> {
     try {
-      this.appContext.logger.info('Fetching todo statistics', {
+      this.appContext.logger.info('Restoring todo', {
+        todoId,
         userId,
-        operation: 'getTodoStats',
+        operation: 'restoreTodo',
         service: 'TodoService'
       });
 
-      const [total, completed] = await Promise.all([
-        this.todoRepository.countByUserId(userId),
-        this.todoRepository.countByUserId(userId, { completed: true })
-      ]);
+      const todo = await this.domainEvents.transaction(async () => {
+        const restoredTodo = await this.todoRepository.restore(todoId, userId);
+        await this.domainEvents.emit({ type: 'TodoRestored', payload: { todoId, userId } });
+        return restoredTodo;
+      });
+      await this.publishChange(userId, todoId, 'restored');
 
-      const stats = {
-        total,
-        completed,
-        pending: total - completed
-      };
+      return todo;
+    } catch (error) {
+      this.appContext.logger.error('Failed to restore todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'restoreTodo',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
 
-      this.appContext.logger.info('Todo statistics fetched successfully', {
+  /**
+   * Trashed todos for a user, most recently deleted first
+   */
+  async getTrash(userId: string): Promise<Todo[]> {
+    try {
+      return await this.todoRepository.findTrashed(userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to get trash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
         userId,
-        stats,
-        operation: 'getTodoStats'
+        operation: 'getTrash',
+        service: 'TodoService'
       });
+      throw error;
+    }
+  }
 
-      return stats;
+  /**
+   * Permanently delete everything in a user's trash
+   * Other open clients hear about each purged todo once the purge commits
+   */
+  async emptyTrash(userId: string): Promise<number> {
+    try {
+      this.appContext.logger.info('Emptying trash', {
+        userId,
+        operation: 'emptyTrash',
+        service: 'TodoService'
+      });
+
+      const purgedIds = await this.domainEvents.transaction(async () => {
+        const todoIds = await this.todoRepository.purgeTrashed(userId);
+        if (todoIds.length > 0) {
+          await this.domainEvents.emit({ type: 'TrashEmptied', payload: { userId, todoIds } });
+        }
+        return todoIds;
+      });
+
+      for (const todoId of purgedIds) {
+        await this.publishChange(userId, todoId, 'deleted');
+      }
+
+      return purgedIds.length;
     } catch (error) {
-      this.appContext.logger.error('Failed to fetch todo statistics', {
+      this.appContext.logger.error('Failed to empty trash', {
         error: error instanceof Error ? error.message : 'Unknown error',
         userId,
-        operation: 'getTodoStats',
+        operation: 'emptyTrash',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete todos that have been in the trash longer than the configured retention period
+   */
+  async purgeExpiredTrash(now = new Date()): Promise<number> {
+    const { retentionDays } = this.appContext.config.trash;
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+    try {
+      this.appContext.logger.info('Purging expired trash', {
+        retentionDays,
+        cutoff,
+        operation: 'purgeExpiredTrash',
+        service: 'TodoService'
+      });
+
+      return await this.todoRepository.purgeTrashedBefore(cutoff);
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired trash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retentionDays,
+        operation: 'purgeExpiredTrash',
         service: 'TodoService'
       });
       throw error;
     }
   }
+
+  /**
+   * Move a todo between two neighbours in the user's manual order
+   * Normally only the moved todo is rewritten; when the ranks around the drop
+   * point are too close together every todo is renumbered. Ranks are read and
+   * written in one transaction with the rows locked, so concurrent moves cannot interleave
+   */
+  async reorderTodo(todoId: string, userId: string, request: ReorderRequest): Promise<void> {
+    try {
+      this.appContext.logger.info('Reordering todo', {
+        todoId,
+        userId,
+        ...request,
+        operation: 'reorderTodo',
+        service: 'TodoService'
+      });
+
+      const changes = await this.domainEvents.transaction(async () => {
+        const entries = await this.todoRepository.findRanks(userId);
+        const rankChanges = this.getRankChanges(entries, todoId, request, 'Todo');
+
+        await this.todoRepository.updateRanks(rankChanges, userId);
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId, userId, fields: ['rank'] } });
+        return rankChanges;
+      });
+
+      // A rebalance moves the other todos too, so clients hear about each of them
+      for (const change of changes) {
+        await this.publishChange(userId, change.id, 'updated');
+      }
+
+      this.appContext.logger.info('Todo reordered successfully', {
+        todoId,
+        userId,
+        rebalanced: changes.length > 1,
+        operation: 'reorderTodo'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to reorder todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'reorderTodo',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a checklist item to the end of a todo's checklist (user-scoped for security)
+   */
+  async addChecklistItem(todoId: string, userId: string, title: string): Promise<ChecklistItem> {
+    try {
+      this.appContext.logger.info('Adding checklist item', {
+        todoId,
+        userId,
+        operation: 'addChecklistItem',
+        service: 'TodoService'
+      });
+
+      if (!title.trim()) {
+        throw new Err.ValidationError('Checklist item title is required', {
+          field: 'title',
+          value: title
+        });
+      }
+      if (title.trim().length > CHECKLIST_ITEM_TITLE_MAX_LENGTH) {
+        throw new Err.ValidationError('Checklist item title too long', {
+          field: 'title',
+          maxLength: CHECKLIST_ITEM_TITLE_MAX_LENGTH,
+          currentLength: title.trim().length
+        });
+      }
+
+      const item = await this.domainEvents.transaction(async () => {
+        await this.todoRepository.bumpVersion(todoId, userId);
+        const createdItem = await this.checklistRepository.create({
+          title: title.trim(),
+          todoId,
+          userId
+        });
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId, userId, fields: ['checklist'] } });
+        return createdItem;
+      });
+      await this.publishChange(userId, todoId, 'updated');
+
+      this.appContext.logger.info('Checklist item added successfully', {
+        checklistItemId: item.id,
+        todoId,
+        userId,
+        operation: 'addChecklistItem'
+      });
+
+      return item;
+    } catch (error) {
+      this.appContext.logger.error('Failed to add checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'addChecklistItem',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Toggle completion status of a checklist item (user-scoped for security)
+   */
+  async toggleChecklistItem(itemId: string, userId: string): Promise<ChecklistItem> {
+    try {
+      this.appContext.logger.info('Toggling checklist item', {
+        checklistItemId: itemId,
+        userId,
+        operation: 'toggleChecklistItem',
+        service: 'TodoService'
+      });
+
+      const updatedItem = await this.domainEvents.transaction(async () => {
+        const item = await this.lockChecklistItem(itemId, userId);
+        const toggledItem = await this.checklistRepository.updateStatus(itemId, { completed: !item.completed }, userId);
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId: item.todoId, userId, fields: ['checklist'] } });
+        return toggledItem;
+      });
+      await this.publishChange(userId, updatedItem.todoId, 'updated');
+
+      return updatedItem;
+    } catch (error) {
+      this.appContext.logger.error('Failed to toggle checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: itemId,
+        userId,
+        operation: 'toggleChecklistItem',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a checklist item (user-scoped for security)
+   */
+  async deleteChecklistItem(itemId: string, userId: string): Promise<void> {
+    try {
+      this.appContext.logger.info('Deleting checklist item', {
+        checklistItemId: itemId,
+        userId,
+        operation: 'deleteChecklistItem',
+        service: 'TodoService'
+      });
+
+      const item = await this.domainEvents.transaction(async () => {
+        const lockedItem = await this.lockChecklistItem(itemId, userId);
+        await this.checklistRepository.delete(itemId, userId);
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId: lockedItem.todoId, userId, fields: ['checklist'] } });
+        return lockedItem;
+      });
+      await this.publishChange(userId, item.todoId, 'updated');
+    } catch (error) {
+      this.appContext.logger.error('Failed to delete checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: itemId,
+        userId,
+        operation: 'deleteChecklistItem',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a checklist item between two neighbours in its todo's checklist
+   * The parent todo stays locked while the ranks are read and written, so concurrent moves cannot interleave
+   */
+  async reorderChecklistItem(itemId: string, userId: string, request: ReorderRequest): Promise<void> {
+    try {
+      this.appContext.logger.info('Reordering checklist item', {
+        checklistItemId: itemId,
+        userId,
+        ...request,
+        operation: 'reorderChecklistItem',
+        service: 'TodoService'
+      });
+
+      const { item, changes } = await this.domainEvents.transaction(async () => {
+        const lockedItem = await this.lockChecklistItem(itemId, userId);
+        const siblings = await this.checklistRepository.findByTodoId(lockedItem.todoId, userId);
+        const rankChanges = this.getRankChanges(siblings, itemId, request, 'Checklist item');
+
+        await this.checklistRepository.updateRanks(rankChanges, userId);
+        await this.domainEvents.emit({ type: 'TodoUpdated', payload: { todoId: lockedItem.todoId, userId, fields: ['checklist'] } });
+        return { item: lockedItem, changes: rankChanges };
+      });
+      await this.publishChange(userId, item.todoId, 'updated');
+
+      this.appContext.logger.info('Checklist item reordered successfully', {
+        checklistItemId: itemId,
+        userId,
+        rebalanced: changes.length > 1,
+        operation: 'reorderChecklistItem'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to reorder checklist item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checklistItemId: itemId,
+        userId,
+        operation: 'reorderChecklistItem',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace all tags on a todo (user-scoped for security)
+   */
+  async setTodoTags(todoId: string, userId: string, tagIds: string[]): Promise<void> {
+    try {
+      this.appContext.logger.info('Setting todo tags', {
+        todoId,
+        userId,
+        tagIds,
+        operation: 'setTodoTags',
+        service: 'TodoService'
+      });
+
+      await this.ensureTodoOwned(todoId, userId);
+      const ownedTags = await this.getOwnedTags(tagIds, userId);
+
+      await this.tagRepository.setTodoTags({
+        todoId,
+        tagIds: ownedTags.map(tag => tag.id)
+      });
+      await this.publishChange(userId, todoId, 'updated');
+
+      this.appContext.logger.info('Todo tags set successfully', {
+        todoId,
+        userId,
+        operation: 'setTodoTags'
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to set todo tags', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        operation: 'setTodoTags',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a single tag to a todo (user-scoped for security)
+   */
+  async assignTag(todoId: string, tagId: string, userId: string): Promise<void> {
+    try {
+      this.appContext.logger.info('Assigning tag to todo', {
+        todoId,
+        tagId,
+        userId,
+        operation: 'assignTag',
+        service: 'TodoService'
+      });
+
+      await this.ensureTodoOwned(todoId, userId);
+      await this.getOwnedTags([tagId], userId);
+
+      await this.tagRepository.assignTagToTodo({ todoId, tagId });
+      await this.publishChange(userId, todoId, 'updated');
+    } catch (error) {
+      this.appContext.logger.error('Failed to assign tag to todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        tagId,
+        userId,
+        operation: 'assignTag',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Detach a single tag from a todo (user-scoped for security)
+   */
+  async unassignTag(todoId: string, tagId: string, userId: string): Promise<void> {
+    try {
+      this.appContext.logger.info('Removing tag from todo', {
+        todoId,
+        tagId,
+        userId,
+        operation: 'unassignTag',
+        service: 'TodoService'
+      });
+
+      await this.ensureTodoOwned(todoId, userId);
+
+      await this.tagRepository.removeTagFromTodo({ todoId, tagId });
+      await this.publishChange(userId, todoId, 'updated');
+    } catch (error) {
+      this.appContext.logger.error('Failed to remove tag from todo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        tagId,
+        userId,
+        operation: 'unassignTag',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the user's todo changes as they are committed
+   * With afterId (the last change the client saw) missed changes are replayed first;
+   * when more were missed than is worth replaying a single 'resync' event is sent instead.
+   * The stream ends when the signal aborts
+   */
+  async *watchChanges(userId: string, afterId: number | null, signal?: AbortSignal): AsyncGenerator<TodoChangeEvent> {
+    const emitter = new EventEmitter();
+    const liveChanges = on(emitter, 'change', { signal }) as AsyncIterableIterator<[TodoChange]>;
+
+    // Listen before replaying so changes committed in between are not lost
+    const stopListening = await this.todoChangeRepository.listen(userId, change => emitter.emit('change', change));
+
+    try {
+      let replayedUpTo = 0;
+
+      if (afterId !== null) {
+        const missed = await this.todoChangeRepository.findAfter(userId, afterId, TODO_CHANGE_REPLAY_LIMIT + 1);
+
+        if (missed.length > TODO_CHANGE_REPLAY_LIMIT) {
+          replayedUpTo = (await this.todoChangeRepository.findLatestId(userId)) ?? afterId;
+          yield { id: replayedUpTo, type: 'resync' };
+        } else {
+          for (const change of missed) {
+            yield await this.toChangeEvent(change);
+            replayedUpTo = change.id;
+          }
+        }
+
+        this.appContext.logger.info('Replayed missed todo changes', {
+          userId,
+          afterId,
+          count: missed.length,
+          resync: missed.length > TODO_CHANGE_REPLAY_LIMIT,
+          operation: 'watchChanges'
+        });
+      }
+
+      for await (const [change] of liveChanges) {
+        // Already sent while replaying
+        if (change.id <= replayedUpTo) {
+          continue;
+        }
+        yield await this.toChangeEvent(change);
+      }
+    } catch (error) {
+      // The client went away
+      if (signal?.aborted) {
+        return;
+      }
+
+      this.appContext.logger.error('Failed to stream todo changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        afterId,
+        operation: 'watchChanges',
+        service: 'TodoService'
+      });
+      throw error;
+    } finally {
+      await stopListening();
+    }
+  }
+
+  /**
+   * Permanently delete sync changes older than the replay window
+   */
+  async purgeExpiredChanges(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - TODO_CHANGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      this.appContext.logger.info('Purging expired todo changes', {
+        retentionDays: TODO_CHANGE_RETENTION_DAYS,
+        cutoff,
+        operation: 'purgeExpiredChanges',
+        service: 'TodoService'
+      });
+
+      return await this.todoChangeRepository.purgeBefore(cutoff);
+    } catch (error) {
+      this.appContext.logger.error('Failed to purge expired todo changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'purgeExpiredChanges',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Emit a TodoDigest event for every user with incomplete todos that are overdue or due
+   * within the next day; users receive it through webhook endpoints subscribed to it
+   */
+  async sendDigests(now = new Date()): Promise<number> {
+    const dueBefore = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const toEntries = (todoList: Todo[]): TodoDigestEntry[] => todoList
+      .slice(0, TODO_DIGEST_MAX_TODOS)
+      .flatMap(todo => todo.dueDate ? [{ todoId: todo.id, title: todo.title, dueDate: todo.dueDate.toISOString() }] : []);
+
+    try {
+      this.appContext.logger.info('Sending todo digests', {
+        dueBefore,
+        operation: 'sendDigests',
+        service: 'TodoService'
+      });
+
+      const userIds = await this.todoRepository.findUserIdsWithTodosDueBefore(dueBefore);
+      for (const userId of userIds) {
+        const overdue = await this.todoRepository.findOverdue(userId, now);
+        const dueSoon = await this.todoRepository.findDueInRange(userId, { from: now, to: dueBefore });
+
+        await this.domainEvents.emit({
+          type: 'TodoDigest',
+          payload: {
+            userId,
+            overdue: toEntries(overdue),
+            dueSoon: toEntries(dueSoon),
+          },
+        });
+      }
+
+      return userIds.length;
+    } catch (error) {
+      this.appContext.logger.error('Failed to send todo digests', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'sendDigests',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get incomplete todos whose due date has already passed
+   */
+  async getOverdueTodos(userId: string): Promise<Todo[]> {
+    try {
+      this.appContext.logger.info('Fetching overdue todos', {
+        userId,
+        operation: 'getOverdueTodos',
+        service: 'TodoService'
+      });
+
+      return await this.todoRepository.findOverdue(userId, new Date());
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch overdue todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'getOverdueTodos',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get incomplete todos due today in the client's timezone
+   */
+  async getTodosDueToday(userId: string, timezoneOffset = 0): Promise<Todo[]> {
+    try {
+      this.appContext.logger.info('Fetching todos due today', {
+        userId,
+        timezoneOffset,
+        operation: 'getTodosDueToday',
+        service: 'TodoService'
+      });
+
+      return await this.todoRepository.findDueInRange(userId, getDayRange(new Date(), timezoneOffset));
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch todos due today', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'getTodosDueToday',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get incomplete todos due in the next N days (starting tomorrow)
+   */
+  async getUpcomingTodos(userId: string, days: number, timezoneOffset = 0): Promise<Todo[]> {
+    try {
+      this.appContext.logger.info('Fetching upcoming todos', {
+        userId,
+        days,
+        timezoneOffset,
+        operation: 'getUpcomingTodos',
+        service: 'TodoService'
+      });
+
+      if (!Number.isInteger(days) || days < 1) {
+        throw new Err.ValidationError('Days must be a positive integer', {
+          field: 'days',
+          value: days
+        });
+      }
+
+      return await this.todoRepository.findDueInRange(userId, getDayRange(new Date(), timezoneOffset, days, 1));
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch upcoming todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        days,
+        operation: 'getUpcomingTodos',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get todo statistics for a user, optionally scoped to one project (null = Inbox)
+   */
+  async getTodoStats(userId: string, timezoneOffset = 0, projectId?: string | null): Promise<TodoStats> {
+    try {
+      this.appContext.logger.info('Fetching todo statistics', {
+        userId,
+        projectId,
+        operation: 'getTodoStats',
+        service: 'TodoService'
+      });
+
+      if (projectId) {
+        await this.ensureProjectOwned(projectId, userId);
+      }
+
+      const scope = { projectId };
+      const now = new Date();
+      const [total, completed, overdue, dueToday] = await Promise.all([
+        this.todoRepository.countByUserId(userId, scope),
+        this.todoRepository.countByUserId(userId, { ...scope, completed: true }),
+        this.todoRepository.countOverdue(userId, now, scope),
+        this.todoRepository.countDueInRange(userId, getDayRange(now, timezoneOffset), scope)
+      ]);
+
+      const stats = {
+        total,
+        completed,
+        pending: total - completed,
+        overdue,
+        dueToday
+      };
+
+      this.appContext.logger.info('Todo statistics fetched successfully', {
+        userId,
+        stats,
+        operation: 'getTodoStats'
+      });
+
+      return stats;
+    } catch (error) {
+      this.appContext.logger.error('Failed to fetch todo statistics', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'getTodoStats',
+        service: 'TodoService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Announce a change to the user's other open clients
+   * The change has already happened, so a failure to publish it is logged rather than thrown;
+   * clients catch up on their next refetch
+   */
+  private async publishChange(userId: string, todoId: string, type: TodoChangeType): Promise<void> {
+    try {
+      await this.todoChangeRepository.record({ userId, todoId, type });
+    } catch (error) {
+      this.appContext.logger.error('Failed to publish todo change', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        todoId,
+        userId,
+        type,
+        operation: 'publishChange',
+        service: 'TodoService'
+      });
+    }
+  }
+
+  /**
+   * Attach the todo's current state to a recorded change
+   */
+  private async toChangeEvent(change: TodoChange): Promise<TodoChangeEvent> {
+    const todo = change.type === 'deleted'
+      ? null
+      : await this.todoRepository.findById(change.todoId, change.userId);
+
+    return { id: change.id, type: change.type, todoId: change.todoId, todo };
+  }
+
+  /**
+   * Ensure the todo exists and belongs to the user
+   */
+  private async ensureTodoOwned(todoId: string, userId: string): Promise<void> {
+    const todo = await this.todoRepository.findById(todoId, userId);
+    if (!todo) {
+      throw new Err.NotFoundError(`Todo not found or not owned by user: ${todoId}`);
+    }
+  }
+
+  /**
+   * Read a checklist item after locking its todo and bumping the todo's version
+   * Every checklist write goes through this, so edits to one checklist run one after another;
+   * items of a trashed todo raise NotFoundError like the todo itself
+   */
+  private async lockChecklistItem(itemId: string, userId: string): Promise<ChecklistItem> {
+    const item = await this.checklistRepository.findById(itemId, userId);
+    if (!item) {
+      throw new Err.NotFoundError(`Checklist item not found or not owned by user: ${itemId}`);
+    }
+
+    await this.todoRepository.bumpVersion(item.todoId, userId);
+
+    // Read again under the lock, in case the item changed or went away while waiting for it
+    const lockedItem = await this.checklistRepository.findById(itemId, userId);
+    if (!lockedItem) {
+      throw new Err.NotFoundError(`Checklist item not found or not owned by user: ${itemId}`);
+    }
+    return lockedItem;
+  }
+
+  /**
+   * Ensure the project exists and belongs to the user
+   */
+  private async ensureProjectOwned(projectId: string, userId: string): Promise<void> {
+    const project = await this.projectRepository.findById(projectId, userId);
+    if (!project) {
+      throw new Err.NotFoundError(`Project not found or not owned by user: ${projectId}`);
+    }
+  }
+
+  /**
+   * Resolve tag IDs, rejecting any the user does not own
+   */
+  private async getOwnedTags(tagIds: string[], userId: string): Promise<Tag[]> {
+    const uniqueTagIds = [...new Set(tagIds)];
+    const ownedTags = await this.tagRepository.findByIds(uniqueTagIds, userId);
+    if (ownedTags.length !== uniqueTagIds.length) {
+      throw new Err.NotFoundError('Some tags not found or not owned by user', {
+        tagIds: uniqueTagIds.filter(id => !ownedTags.some(tag => tag.id === id))
+      });
+    }
+    return ownedTags;
+  }
+
+  /**
+   * Create the next occurrence of a completed recurring todo
+   * The series moves to the new todo, so the completed one stops repeating.
+   * Dates shift by the same amount, keeping the gap between start and due date.
+   * Returns null when the series has ended (until date passed or count used up).
+   * Runs inside the caller's transaction, so the caller publishes the 'created' change after commit
+   */
+  private async spawnNextOccurrence(todo: Todo, userId: string, timezoneOffset = 0): Promise<Todo | null> {
+    if (!todo.recurrence) {
+      return null;
+    }
+
+    await this.todoRepository.updateRecurrence(todo.id, { recurrence: null }, userId);
+
+    const anchor = todo.dueDate ?? todo.startDate ?? new Date();
+    // Monthly series keep the day they started on; later occurrences carry it as dayOfMonth
+    const rule = anchorRecurrence(todo.recurrence, anchor, timezoneOffset);
+    const nextDate = getNextOccurrence(rule, anchor, timezoneOffset);
+    if (!nextDate) {
+      this.appContext.logger.info('Recurring todo series ended', {
+        todoId: todo.id,
+        userId,
+        operation: 'spawnNextOccurrence'
+      });
+      return null;
+    }
+
+    const shiftMs = nextDate.getTime() - anchor.getTime();
+    const shift = (date?: Date | null) => (date ? new Date(date.getTime() + shiftMs) : null);
+
+    const nextTodo = await this.todoRepository.create({
+      title: todo.title,
+      description: todo.description ?? undefined,
+      priority: todo.priority,
+      startDate: shift(todo.startDate),
+      // Undated todos get the occurrence as their due date
+      dueDate: (todo.dueDate ?? todo.startDate) ? shift(todo.dueDate) : nextDate,
+      recurrence: advanceRecurrence(rule),
+      projectId: todo.projectId ?? null,
+      userId
+    });
+
+    if (todo.tags.length > 0) {
+      await this.tagRepository.setTodoTags({
+        todoId: nextTodo.id,
+        tagIds: todo.tags.map(tag => tag.id)
+      });
+    }
+
+    // The checklist starts over on every occurrence
+    for (const item of todo.checklist) {
+      await this.checklistRepository.create({ title: item.title, todoId: nextTodo.id, userId });
+    }
+
+    await this.domainEvents.emit({
+      type: 'TodoCreated',
+      payload: { todoId: nextTodo.id, userId, title: nextTodo.title }
+    });
+
+    this.appContext.logger.info('Spawned next occurrence of recurring todo', {
+      todoId: todo.id,
+      nextTodoId: nextTodo.id,
+      userId,
+      dueDate: nextTodo.dueDate,
+      operation: 'spawnNextOccurrence'
+    });
+
+    return (await this.todoRepository.findById(nextTodo.id, userId)) ?? nextTodo;
+  }
+
+  /**
+   * Ensure the repeat schedule is well formed
+   */
+  private validateRecurrence(rule: RecurrenceRule): void {
+    const message = getRecurrenceError(rule);
+    if (message) {
+      throw new Err.ValidationError(message, {
+        field: 'recurrence',
+        value: rule
+      });
+    }
+  }
+
+  /**
+   * Rank writes needed to move an item next to its new neighbour
+   * Entries must be sorted by rank. Only the moved item changes unless the ranks
+   * around the drop point are too close together, in which case all are renumbered
+   */
+  private getRankChanges(
+    entries: { id: string; rank: number }[],
+    movedId: string,
+    target: ReorderRequest,
+    itemLabel: string
+  ): { id: string; rank: number }[] {
+    if (!target.afterId && !target.beforeId) {
+      throw new Err.ValidationError('Either afterId or beforeId must be provided');
+    }
+    if (target.afterId === movedId || target.beforeId === movedId) {
+      throw new Err.ValidationError('An item cannot be moved next to itself', { id: movedId });
+    }
+
+    const items = entries.map(entry => ({ id: entry.id, order: entry.rank }));
+    if (!items.some(item => item.id === movedId)) {
+      throw new Err.NotFoundError(`${itemLabel} not found or not owned by user: ${movedId}`);
+    }
+
+    // Entries are already sorted, so positions in this list match the library's sorted view
+    const others = items.filter(item => item.id !== movedId);
+    const anchorId = target.afterId ?? target.beforeId!;
+    const anchorIndex = others.findIndex(item => item.id === anchorId);
+    if (anchorIndex === -1) {
+      throw new Err.NotFoundError(`${itemLabel} not found or not owned by user: ${anchorId}`);
+    }
+    const targetIndex = target.afterId ? anchorIndex + 1 : anchorIndex;
+
+    const { changes } = reorderItems(items, movedId, targetIndex, {
+      minOrderGap: TODO_RANK_MIN_GAP,
+      renumberGap: TODO_RANK_GAP,
+    });
+
+    return changes.map(change => ({ id: change.id, rank: change.order }));
+  }
+
+  /**
+   * Ensure the start date does not fall after the due date
+   */
+  private validateSchedule(startDate?: Date | null, dueDate?: Date | null): void {
+    if (startDate && dueDate && startDate.getTime() > dueDate.getTime()) {
+      throw new Err.ValidationError('Start date must be before or equal to due date', {
+        field: 'startDate',
+        startDate,
+        dueDate
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,425 @@
+/**
+ * Todo Transfer Service - moving todos in and out of the app as files
+ *
+ * Exports stream the user's todos (manual order, trash excluded) through one of the
+ * formats in ~/server/lib/todo-formats. Imports read the same formats, validate every row
+ * with the repository schemas, flag rows that duplicate an existing todo, and create
+ * everything - todos, missing projects and tags, checklists - in one transaction.
+ */
+
+import type { AppContext } from '~/server/context/app-context';
+import type { IChecklistRepository, IProjectRepository, ITagRepository, ITodoChangeRepository, ITodoRepository, Todo } from '~/server/domain';
+import { RepoTodoCreateSchema } from '~/server/domain/repositories/schemas/todo-repository-schemas';
+import { RepoChecklistItemCreateSchema } from '~/server/domain/repositories/schemas/checklist-repository-schemas';
+import { RepoProjectCreateSchema } from '~/server/domain/repositories/schemas/project-repository-schemas';
+import { RepoTagColorSchema, RepoTagCreateSchema } from '~/server/domain/repositories/schemas/tag-repository-schemas';
+import * as Err from '~/server/lib/errors/domain-errors';
+import { MAX_PAGE_LIMIT, TODO_IMPORT_MAX_ROWS } from '~/server/lib/constants';
+import {
+  formatDay,
+  todoFormats,
+  type ImportedTodoRow,
+  type TodoTransferFormat,
+  type TransferLabel,
+  type TransferTodo,
+} from '~/server/lib/todo-formats';
+import type { z } from 'zod';
+import type { DomainEventService } from './domain-event-service';
+
+export interface TodoExportOptions {
+  /** Leave out todos with neither a start nor a due date, as calendar feeds do */
+  scheduledOnly?: boolean;
+}
+
+export interface TodoImportRequest {
+  format: TodoTransferFormat;
+  content: string;
+  dryRun?: boolean; // validate and preview without creating anything
+  skipDuplicates?: boolean; // defaults to true
+}
+
+/**
+ * - new: will be (or was) created
+ * - duplicate: same title and due day as an existing todo or an earlier row
+ * - invalid: see errors; an import with invalid rows creates nothing
+ */
+export type TodoImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface TodoImportRowResult {
+  row: number;
+  title: string;
+  status: TodoImportRowStatus;
+  errors: string[];
+}
+
+export interface TodoImportResult {
+  dryRun: boolean;
+  /** Todos created; always 0 for a dry run */
+  created: number;
+  /** Duplicate rows left out */
+  skipped: number;
+  /** Projects and tags the import creates because the user has none by that name */
+  newProjects: string[];
+  newTags: string[];
+  rows: TodoImportRowResult[];
+}
+
+type ValidatedTodo = z.output<typeof RepoTodoCreateSchema>;
+
+interface ImportRow extends TodoImportRowResult {
+  source: ImportedTodoRow;
+  todo: ValidatedTodo | null;
+}
+
+const byName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Todos count as duplicates when their titles match (ignoring case) and they are due the same day
+ */
+const duplicateKey = (title: string, dueDate?: Date | null) =>
+  `${byName(title)}\u0000${dueDate ? formatDay(dueDate) : ''}`;
+
+const formatIssues = (error: z.ZodError, prefix?: string) =>
+  error.issues.map(issue => {
+    const path = [prefix, ...issue.path].filter(part => part !== undefined).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+export class TodoTransferService {
+  constructor(
+    private appContext: AppContext,
+    private todoRepository: ITodoRepository,
+    private tagRepository: ITagRepository,
+    private projectRepository: IProjectRepository,
+    private checklistRepository: IChecklistRepository,
+    private todoChangeRepository: ITodoChangeRepository,
+    private domainEvents: DomainEventService
+  ) {}
+
+  /**
+   * Stream the user's todos in the given format, chunk by chunk
+   */
+  async *exportTodos(userId: string, format: TodoTransferFormat, options: TodoExportOptions = {}): AsyncGenerator<string> {
+    try {
+      this.appContext.logger.info('Exporting todos', {
+        userId,
+        format,
+        operation: 'exportTodos',
+        service: 'TodoTransferService'
+      });
+
+      const [projects, tags] = await Promise.all([
+        this.projectRepository.findByUserId(userId),
+        this.tagRepository.findByUserId(userId),
+      ]);
+      const projectNames = new Map(projects.map(project => [project.id, project.name]));
+
+      yield* todoFormats[format].serialize({
+        exportedAt: new Date(),
+        projects: projects.map(({ name, color }) => ({ name, color })),
+        tags: tags.map(({ name, color }) => ({ name, color })),
+        todos: this.readTransferTodos(userId, projectNames, options.scheduledOnly ?? false),
+      });
+    } catch (error) {
+      this.appContext.logger.error('Failed to export todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        format,
+        operation: 'exportTodos',
+        service: 'TodoTransferService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import todos from a file, or preview the import with dryRun
+   * Throws a ValidationError when the file cannot be read or, unless dry-running, when any row is invalid
+   */
+  async importTodos(userId: string, request: TodoImportRequest): Promise<TodoImportResult> {
+    try {
+      this.appContext.logger.info('Importing todos', {
+        userId,
+        format: request.format,
+        dryRun: request.dryRun ?? false,
+        operation: 'importTodos',
+        service: 'TodoTransferService'
+      });
+
+      const parsed = todoFormats[request.format].parse(request.content);
+      if (parsed.rows.length > TODO_IMPORT_MAX_ROWS) {
+        throw new Err.ValidationError(`Too many todos to import at once (${parsed.rows.length})`, {
+          maxRows: TODO_IMPORT_MAX_ROWS
+        });
+      }
+
+      const [existingKeys, projects, tags] = await Promise.all([
+        this.findDuplicateKeys(userId),
+        this.projectRepository.findByUserId(userId),
+        this.tagRepository.findByUserId(userId),
+      ]);
+
+      const rows = parsed.rows.map(row => this.validateRow(row, userId));
+      for (const row of rows) {
+        if (row.todo) {
+          const key = duplicateKey(row.todo.title, row.todo.dueDate);
+          row.status = existingKeys.has(key) ? 'duplicate' : 'new';
+          existingKeys.add(key);
+        }
+      }
+
+      const skipDuplicates = request.skipDuplicates ?? true;
+      const toCreate = rows.filter(row => row.status === 'new' || (row.status === 'duplicate' && !skipDuplicates));
+      const newProjects = this.findNewNames(toCreate.flatMap(row => row.source.project ?? []), projects);
+      const newTags = this.findNewNames(toCreate.flatMap(row => row.source.tags), tags);
+
+      const result: TodoImportResult = {
+        dryRun: request.dryRun ?? false,
+        created: 0,
+        skipped: rows.length - toCreate.length - rows.filter(row => row.status === 'invalid').length,
+        newProjects,
+        newTags,
+        rows: rows.map(({ row, title, status, errors }) => ({ row, title, status, errors })),
+      };
+
+      if (result.dryRun) {
+        return result;
+      }
+
+      const invalidRows = rows.filter(row => row.status === 'invalid').map(row => row.row);
+      if (invalidRows.length > 0) {
+        throw new Err.ValidationError(
+          `${invalidRows.length} of ${rows.length} rows are invalid; nothing was imported`,
+          { rows: invalidRows }
+        );
+      }
+
+      const created = await this.domainEvents.transaction(async () => {
+        const projectIds = await this.ensureProjects(userId, newProjects, projects, parsed.projects);
+        const tagIds = await this.ensureTags(userId, newTags, tags, parsed.tags);
+        const createdTodos: Todo[] = [];
+
+        for (const { todo, source } of toCreate) {
+          if (!todo) continue;
+
+          const createdTodo = await this.todoRepository.create({
+            ...todo,
+            description: todo.description ?? undefined,
+            projectId: source.project === null ? null : (projectIds.get(byName(source.project)) ?? null),
+          });
+
+          const todoTagIds = [...new Set(source.tags.flatMap(tag => tagIds.get(byName(tag)) ?? []))];
+          if (todoTagIds.length > 0) {
+            await this.tagRepository.setTodoTags({ todoId: createdTodo.id, tagIds: todoTagIds });
+          }
+
+          for (const item of source.checklist) {
+            const createdItem = await this.checklistRepository.create({
+              title: item.title.trim(),
+              todoId: createdTodo.id,
+              userId
+            });
+            if (item.completed) {
+              await this.checklistRepository.updateStatus(createdItem.id, { completed: true }, userId);
+            }
+          }
+
+          createdTodos.push(createdTodo);
+        }
+
+        await this.domainEvents.emit(...createdTodos.map(todo => ({
+          type: 'TodoCreated' as const,
+          payload: { todoId: todo.id, userId, title: todo.title }
+        })));
+
+        return createdTodos;
+      });
+
+      this.appContext.logger.info('Todos imported successfully', {
+        userId,
+        format: request.format,
+        created: created.length,
+        skipped: result.skipped,
+        operation: 'importTodos'
+      });
+
+      await this.publishCreated(userId, created);
+
+      return { ...result, created: created.length };
+    } catch (error) {
+      this.appContext.logger.error('Failed to import todos', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        format: request.format,
+        operation: 'importTodos',
+        service: 'TodoTransferService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Every todo of the user in manual order, a page at a time
+   */
+  private async *findAllTodos(userId: string): AsyncGenerator<Todo> {
+    let cursor: string | null = null;
+    do {
+      const page = await this.todoRepository.findByUserId(userId, {
+        includeCompleted: true,
+        sort: { rank: 1, createdAt: 1 },
+        limit: MAX_PAGE_LIMIT,
+        cursor,
+      });
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+  }
+
+  private async *readTransferTodos(
+    userId: string,
+    projectNames: Map<string, string>,
+    scheduledOnly: boolean
+  ): AsyncGenerator<TransferTodo> {
+    for await (const todo of this.findAllTodos(userId)) {
+      if (scheduledOnly && !todo.startDate && !todo.dueDate) {
+        continue;
+      }
+      yield {
+        id: todo.id,
+        title: todo.title,
+        description: todo.description ?? null,
+        completed: todo.completed,
+        priority: todo.priority,
+        startDate: todo.startDate ?? null,
+        dueDate: todo.dueDate ?? null,
+        recurrence: todo.recurrence ?? null,
+        project: todo.projectId ? (projectNames.get(todo.projectId) ?? null) : null,
+        tags: todo.tags.map(tag => tag.name),
+        checklist: [...todo.checklist]
+          .sort((a, b) => a.rank - b.rank)
+          .map(({ title, completed }) => ({ title, completed })),
+        createdAt: todo.createdAt,
+        updatedAt: todo.updatedAt,
+      };
+    }
+  }
+
+  private async findDuplicateKeys(userId: string): Promise<Set<string>> {
+    const keys = new Set<string>();
+    for await (const todo of this.findAllTodos(userId)) {
+      keys.add(duplicateKey(todo.title, todo.dueDate));
+    }
+    return keys;
+  }
+
+  /**
+   * Check a row against the same schemas the repositories apply when creating it
+   */
+  private validateRow(source: ImportedTodoRow, userId: string): ImportRow {
+    const trim = (value: unknown) => (typeof value === 'string' ? value.trim() : value);
+    const parsed = RepoTodoCreateSchema.safeParse({
+      ...source.fields,
+      title: trim(source.fields.title) ?? '',
+      description: trim(source.fields.description),
+      userId,
+    });
+
+    const errors = parsed.success ? [] : formatIssues(parsed.error);
+    source.checklist.forEach((item, index) => {
+      const title = RepoChecklistItemCreateSchema.shape.title.safeParse(item.title.trim());
+      if (!title.success) errors.push(...formatIssues(title.error, `checklist.${index + 1}`));
+    });
+    if (source.project !== null) {
+      const name = RepoProjectCreateSchema.shape.name.safeParse(source.project.trim());
+      if (!name.success) errors.push(...formatIssues(name.error, 'project'));
+    }
+    source.tags.forEach(tag => {
+      const name = RepoTagCreateSchema.shape.name.safeParse(tag.trim());
+      if (!name.success) errors.push(...formatIssues(name.error, `tags.${tag}`));
+    });
+
+    return {
+      row: source.row,
+      title: typeof source.fields.title === 'string' ? source.fields.title.trim() : '',
+      status: errors.length > 0 ? 'invalid' : 'new',
+      errors,
+      source,
+      todo: parsed.success && errors.length === 0 ? parsed.data : null,
+    };
+  }
+
+  /**
+   * Names not matching (ignoring case) any of the existing labels, first spelling kept
+   */
+  private findNewNames(names: string[], existing: { name: string }[]): string[] {
+    const known = new Set(existing.map(label => byName(label.name)));
+    const found = new Map<string, string>();
+    for (const name of names) {
+      if (!known.has(byName(name)) && !found.has(byName(name))) {
+        found.set(byName(name), name.trim());
+      }
+    }
+    return [...found.values()];
+  }
+
+  /**
+   * Color a file gives a label, if it is a valid one
+   */
+  private findColor(labels: TransferLabel[], name: string): string | undefined {
+    const color = labels.find(label => byName(label.name) === byName(name))?.color;
+    return RepoTagColorSchema.safeParse(color).success ? color : undefined;
+  }
+
+  /**
+   * Create the missing projects; returns project IDs by lowercased name
+   */
+  private async ensureProjects(
+    userId: string,
+    newNames: string[],
+    existing: { id: string; name: string }[],
+    described: TransferLabel[]
+  ): Promise<Map<string, string>> {
+    const ids = new Map(existing.map(project => [byName(project.name), project.id]));
+    for (const name of newNames) {
+      const project = await this.projectRepository.create({ name, color: this.findColor(described, name), userId });
+      ids.set(byName(name), project.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Create the missing tags; returns tag IDs by lowercased name
+   */
+  private async ensureTags(
+    userId: string,
+    newNames: string[],
+    existing: { id: string; name: string }[],
+    described: TransferLabel[]
+  ): Promise<Map<string, string>> {
+    const ids = new Map(existing.map(tag => [byName(tag.name), tag.id]));
+    for (const name of newNames) {
+      const tag = await this.tagRepository.create({ name, color: this.findColor(described, name), userId });
+      ids.set(byName(name), tag.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Announce the new todos to the user's other open clients; failures are logged, clients catch up on refetch
+   */
+  private async publishCreated(userId: string, todos: Todo[]): Promise<void> {
+    for (const todo of todos) {
+      try {
+        await this.todoChangeRepository.record({ userId, todoId: todo.id, type: 'created' });
+      } catch (error) {
+        this.appContext.logger.error('Failed to publish todo change', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          todoId: todo.id,
+          userId,
+          operation: 'publishCreated',
+          service: 'TodoTransferService'
+        });
+      }
+    }
+  }
+}
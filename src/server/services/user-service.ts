@@ -1,7 +1,10 @@
 import type { CreateUserRequest, UpdateProfileRequest, UpdateUserRequest, User } from '~/server/domain/models';
 import type { IUserRepository } from '~/server/domain/repositories';
+import type { CursorPage, CursorPageQuery } from '~/server/domain/repositories/types/pagination-types';
+import type { UserListFilter } from '~/server/domain/repositories/types/user-repository-types';
 import type { AppContext } from '~/server/context/app-context';
 import * as Err from '~/server/lib/errors/domain-errors';
+import type { DomainEventService } from './domain-event-service';
 
 export interface IUserService {
   createUser(data: CreateUserRequest): Promise<User>;
@@ -11,20 +14,19 @@ export interface IUserService {
   updateUserProfile(id: string, data: UpdateProfileRequest): Promise<User | null>;
   deleteUser(id: string): Promise<void>;
   getAllUsers(
-    filter?: Partial<User>,
+    filter?: UserListFilter,
     options?: {
-      limit?: number;
-      skip?: number;
       sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<User[]>;
-  getUserCount(filter?: Partial<User>): Promise<number>;
+    } & CursorPageQuery
+  ): Promise<CursorPage<User>>;
+  getUserCount(filter?: UserListFilter): Promise<number>;
 }
 
 export class UserService implements IUserService {
   constructor(
     private appContext: AppContext,
-    private userRepository: IUserRepository
+    private userRepository: IUserRepository,
+    private domainEvents: DomainEventService
   ) {}
 
   async createUser(data: CreateUserRequest): Promise<User> {
@@ -131,12 +133,23 @@ export class UserService implements IUserService {
       throw new Err.NotFoundError('User not found', { userId: id });
     }
 
-    // Service responsibility: Use dedicated profile update method
-    const updatedUser = await this.userRepository.updateProfile(id, {
-      name: data.name,
-      bio: data.bio,
-      avatar: data.avatar,
-      website: data.website,
+    const profileFields = { name: data.name, bio: data.bio, avatar: data.avatar, website: data.website };
+
+    const updatedUser = await this.domainEvents.transaction(async () => {
+      // Service responsibility: Use dedicated profile update method
+      const user = await this.userRepository.updateProfile(id, profileFields, data.expectedVersion);
+
+      await this.domainEvents.emit({
+        type: 'UserProfileUpdated',
+        payload: {
+          userId: id,
+          fields: Object.entries(profileFields)
+            .filter(([, value]) => value !== undefined)
+            .map(([field]) => field),
+        },
+      });
+
+      return user;
     });
 
     this.appContext.logger.info('User profile updated successfully in service', {
@@ -161,17 +174,15 @@ export class UserService implements IUserService {
   }
 
   async getAllUsers(
-    filter?: Partial<User>,
+    filter?: UserListFilter,
     options?: {
-      limit?: number;
-      skip?: number;
       sort?: Record<string, 1 | -1>;
-    }
-  ): Promise<User[]> {
+    } & CursorPageQuery
+  ): Promise<CursorPage<User>> {
     return await this.userRepository.findAll(filter, options);
   }
 
-  async getUserCount(filter?: Partial<User>): Promise<number> {
+  async getUserCount(filter?: UserListFilter): Promise<number> {
     return await this.userRepository.count(filter);
   }
 }
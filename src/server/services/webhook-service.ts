@@ -0,0 +1,461 @@
+/**
+ * Webhook Service - Business Logic Layer
+ *
+ * Lets users register endpoints that receive their todo and profile events. Domain
+ * events become one delivery per subscribed endpoint, sent by the background worker
+ * as signed JSON POSTs; failed attempts are retried by the job queue with backoff,
+ * and an endpoint whose deliveries keep failing is disabled until its owner re-enables it.
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { AppContext } from '~/server/context/app-context';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TEST_EVENT,
+  type DomainEvent,
+  type IUnitOfWork,
+  type IWebhookRepository,
+  type WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '~/server/domain';
+import {
+  WEBHOOK_DELIVERY_RETENTION_DAYS,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_MAX_ENDPOINTS_PER_USER,
+  WEBHOOK_TIMEOUT_MS,
+} from '~/server/lib/constants';
+import * as Err from '~/server/lib/errors/domain-errors';
+import {
+  signWebhookPayload,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '~/server/lib/webhook-signature';
+import { assertPublicUrl, postWebhook, WebhookAddressError } from '~/server/lib/webhook-request';
+import type { JobService } from './job-service';
+
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  description?: string | null;
+  eventTypes: WebhookEventType[];
+  /** Generated when omitted */
+  secret?: string;
+}
+
+export interface UpdateWebhookEndpointRequest {
+  url?: string;
+  description?: string | null;
+  eventTypes?: WebhookEventType[];
+  /** Re-enabling also clears the failure count */
+  enabled?: boolean;
+}
+
+/**
+ * What happened to one HTTP request to an endpoint
+ */
+export interface WebhookAttemptResult {
+  succeeded: boolean;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+const WEBHOOK_SECRET_MIN_LENGTH = 16;
+const WEBHOOK_SECRET_MAX_LENGTH = 100;
+
+function isWebhookEvent(event: DomainEvent): event is DomainEvent<WebhookEventType> {
+  return WEBHOOK_EVENT_TYPES.some(type => type === event.type);
+}
+
+export class WebhookService {
+  constructor(
+    private appContext: AppContext,
+    private webhookRepository: IWebhookRepository,
+    private jobService: JobService,
+    private unitOfWork: IUnitOfWork
+  ) {}
+
+  // =============================================================================
+  // ENDPOINT MANAGEMENT
+  // =============================================================================
+
+  async getEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return this.webhookRepository.findEndpointsByUserId(userId);
+  }
+
+  async createEndpoint(userId: string, request: CreateWebhookEndpointRequest): Promise<WebhookEndpoint> {
+    try {
+      await this.validateUrl(request.url);
+      this.validateEventTypes(request.eventTypes);
+      if (request.secret !== undefined) {
+        this.validateSecret(request.secret);
+      }
+
+      const existing = await this.webhookRepository.findEndpointsByUserId(userId);
+      if (existing.length >= WEBHOOK_MAX_ENDPOINTS_PER_USER) {
+        throw new Err.BusinessRuleError(`You can have at most ${WEBHOOK_MAX_ENDPOINTS_PER_USER} webhook endpoints`, {
+          limit: WEBHOOK_MAX_ENDPOINTS_PER_USER,
+        });
+      }
+
+      const endpoint = await this.webhookRepository.createEndpoint({
+        userId,
+        url: request.url,
+        description: this.normalizeDescription(request.description),
+        secret: request.secret ?? this.generateSecret(),
+        eventTypes: [...new Set(request.eventTypes)],
+      });
+
+      this.appContext.logger.info('Webhook endpoint created', {
+        endpointId: endpoint.id,
+        userId,
+        eventTypes: endpoint.eventTypes,
+        operation: 'createEndpoint',
+        service: 'WebhookService'
+      });
+
+      return endpoint;
+    } catch (error) {
+      this.appContext.logger.error('Failed to create webhook endpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'createEndpoint',
+        service: 'WebhookService'
+      });
+      throw error;
+    }
+  }
+
+  async updateEndpoint(endpointId: string, userId: string, request: UpdateWebhookEndpointRequest): Promise<WebhookEndpoint> {
+    try {
+      if (request.url !== undefined) {
+        await this.validateUrl(request.url);
+      }
+      if (request.eventTypes !== undefined) {
+        this.validateEventTypes(request.eventTypes);
+      }
+
+      return await this.webhookRepository.updateEndpoint(endpointId, {
+        url: request.url,
+        description: request.description === undefined ? undefined : this.normalizeDescription(request.description),
+        eventTypes: request.eventTypes && [...new Set(request.eventTypes)],
+        enabled: request.enabled,
+        ...(request.enabled === true
+          ? { consecutiveFailures: 0, disabledAt: null, disabledReason: null }
+          : request.enabled === false
+            ? { disabledAt: new Date(), disabledReason: null }
+            : {}),
+      }, userId);
+    } catch (error) {
+      this.appContext.logger.error('Failed to update webhook endpoint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpointId,
+        userId,
+        operation: 'updateEndpoint',
+        service: 'WebhookService'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the endpoint's signing secret; the old one stops working immediately
+   */
+  async rotateSecret(endpointId: string, userId: string): Promise<WebhookEndpoint> {
+    return this.webhookRepository.updateEndpoint(endpointId, { secret: this.generateSecret() }, userId);
+  }
+
+  async deleteEndpoint(endpointId: string, userId: string): Promise<void> {
+    await this.webhookRepository.deleteEndpoint(endpointId, userId);
+
+    this.appContext.logger.info('Webhook endpoint deleted', {
+      endpointId,
+      userId,
+      operation: 'deleteEndpoint',
+      service: 'WebhookService'
+    });
+  }
+
+  /**
+   * Recent deliveries to one of the user's endpoints, newest first
+   */
+  async getDeliveries(endpointId: string, userId: string, limit: number): Promise<WebhookDelivery[]> {
+    await this.getOwnedEndpoint(endpointId, userId);
+    return this.webhookRepository.findDeliveriesByEndpointId(endpointId, limit);
+  }
+
+  /**
+   * Every attempt made for one of the user's deliveries
+   */
+  async getDeliveryAttempts(deliveryId: string, userId: string): Promise<WebhookDeliveryAttempt[]> {
+    const found = await this.webhookRepository.findDeliveryWithEndpoint(deliveryId);
+    if (found?.endpoint.userId !== userId) {
+      throw new Err.NotFoundError('Webhook delivery not found', { deliveryId });
+    }
+    return this.webhookRepository.findAttempts(deliveryId);
+  }
+
+  /**
+   * Send a test event to an endpoint right away, once, whether or not it is enabled
+   * Test deliveries are logged like any other but never count towards disabling the endpoint
+   */
+  async sendTestEvent(endpointId: string, userId: string): Promise<WebhookAttemptResult> {
+    const endpoint = await this.getOwnedEndpoint(endpointId, userId);
+
+    const [delivery] = await this.webhookRepository.createDeliveries([{
+      endpointId,
+      eventId: null,
+      eventType: WEBHOOK_TEST_EVENT,
+      payload: {
+        id: randomUUID(),
+        type: WEBHOOK_TEST_EVENT,
+        occurredAt: new Date().toISOString(),
+        data: { endpointId, message: 'This is a test event' },
+      },
+    }]);
+    if (!delivery) {
+      throw new Err.DatabaseError('Failed to create test delivery');
+    }
+
+    const result = await this.attempt(endpoint, delivery, true);
+
+    this.appContext.logger.info('Webhook test event sent', {
+      endpointId,
+      userId,
+      statusCode: result.statusCode,
+      succeeded: result.succeeded,
+      operation: 'sendTestEvent',
+      service: 'WebhookService'
+    });
+
+    return result;
+  }
+
+  // =============================================================================
+  // DELIVERY
+  // =============================================================================
+
+  /**
+   * Create a delivery for every endpoint of the event's user subscribed to its type, and
+   * queue them; an event delivered again (the outbox is at-least-once) is not queued twice
+   */
+  async handleDomainEvent(event: DomainEvent): Promise<void> {
+    if (!isWebhookEvent(event)) {
+      return;
+    }
+
+    const endpoints = await this.webhookRepository.findSubscribedEndpoints(event.payload.userId, event.type);
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = {
+      id: event.id,
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      data: event.payload,
+    };
+
+    const deliveries = await this.unitOfWork.run(async () => {
+      const created = await this.webhookRepository.createDeliveries(endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType: event.type,
+        payload,
+      })));
+
+      for (const delivery of created) {
+        await this.jobService.enqueue('webhook.deliver', { deliveryId: delivery.id }, { maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+      }
+      return created;
+    });
+
+    this.appContext.logger.info('Webhook deliveries queued', {
+      eventId: event.id,
+      type: event.type,
+      count: deliveries.length,
+      operation: 'handleDomainEvent',
+      service: 'WebhookService'
+    });
+  }
+
+  /**
+   * Make one attempt at a queued delivery (run by the `webhook.deliver` job)
+   * Throws when the attempt fails so the job is retried; after the final attempt the
+   * delivery is marked failed and counted against the endpoint
+   */
+  async deliver(deliveryId: string, finalAttempt: boolean): Promise<void> {
+    const found = await this.webhookRepository.findDeliveryWithEndpoint(deliveryId);
+    // Gone with its endpoint, or already settled by an earlier run of the job
+    if (found?.delivery.status !== 'pending') {
+      return;
+    }
+
+    const { delivery, endpoint } = found;
+    if (!endpoint.enabled) {
+      await this.webhookRepository.cancelDelivery(deliveryId, 'Endpoint is disabled');
+      return;
+    }
+
+    const result = await this.attempt(endpoint, delivery, finalAttempt);
+
+    if (result.succeeded || finalAttempt) {
+      const updated = await this.webhookRepository.recordEndpointOutcome(endpoint.id, {
+        succeeded: result.succeeded,
+        disableAfterFailures: WEBHOOK_DISABLE_AFTER_FAILURES,
+      });
+
+      if (endpoint.enabled && updated && !updated.enabled) {
+        this.appContext.logger.warn('Webhook endpoint disabled after repeated failures', {
+          endpointId: endpoint.id,
+          userId: endpoint.userId,
+          consecutiveFailures: updated.consecutiveFailures,
+          operation: 'deliver',
+          service: 'WebhookService'
+        });
+      }
+    }
+
+    if (!result.succeeded) {
+      throw new Err.ExternalServiceError(result.error ?? 'Webhook delivery failed', {
+        deliveryId,
+        endpointId: endpoint.id,
+        statusCode: result.statusCode,
+      });
+    }
+  }
+
+  /**
+   * Permanently delete deliveries older than WEBHOOK_DELIVERY_RETENTION_DAYS
+   */
+  async purgeOldDeliveries(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    return this.webhookRepository.purgeDeliveriesBefore(cutoff);
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * POST the delivery's payload to the endpoint and log the attempt
+   * A 2xx response is success; redirects are not followed, and endpoints that resolve to
+   * addresses that are not public are refused (unless WEBHOOK_ALLOW_PRIVATE_URLS is set)
+   */
+  private async attempt(endpoint: WebhookEndpoint, delivery: WebhookDelivery, finalAttempt: boolean): Promise<WebhookAttemptResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      statusCode = await postWebhook(new URL(endpoint.url), {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'todo-app-webhooks',
+          [WEBHOOK_ID_HEADER]: delivery.id,
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        timeoutMs: WEBHOOK_TIMEOUT_MS,
+        allowPrivate: this.appContext.config.webhooks.allowPrivateUrls,
+      });
+
+      if (statusCode < 200 || statusCode > 299) {
+        error = `Endpoint responded with HTTP ${statusCode}`;
+      }
+    } catch (requestError) {
+      // The request's only abort signal is its timeout
+      error = requestError instanceof Error && requestError.name === 'AbortError'
+        ? `No response within ${WEBHOOK_TIMEOUT_MS} ms`
+        : requestError instanceof Error ? requestError.message : 'Request failed';
+    }
+
+    const result: WebhookAttemptResult = {
+      succeeded: error === null,
+      statusCode,
+      error,
+      durationMs: Date.now() - startedAt,
+    };
+
+    await this.webhookRepository.recordAttempt({
+      deliveryId: delivery.id,
+      statusCode,
+      error,
+      durationMs: result.durationMs,
+      status: result.succeeded ? 'succeeded' : finalAttempt ? 'failed' : 'pending',
+    });
+
+    return result;
+  }
+
+  private async getOwnedEndpoint(endpointId: string, userId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.webhookRepository.findEndpointById(endpointId, userId);
+    if (!endpoint) {
+      throw new Err.NotFoundError('Webhook endpoint not found', { endpointId });
+    }
+    return endpoint;
+  }
+
+  private normalizeDescription(description: string | null | undefined): string | null {
+    const trimmed = description?.trim();
+    return trimmed === undefined || trimmed === '' ? null : trimmed;
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+  }
+
+  private async validateUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Err.ValidationError('Webhook URL is not a valid URL', { field: 'url', value: url });
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Err.ValidationError('Webhook URL must use http or https', { field: 'url', value: url });
+    }
+    if (this.appContext.config.webhooks.allowPrivateUrls) {
+      return;
+    }
+
+    try {
+      await assertPublicUrl(parsed);
+    } catch (error) {
+      throw new Err.ValidationError(
+        error instanceof WebhookAddressError
+          ? 'Webhook URL must point to a public address'
+          : 'Webhook URL host could not be resolved',
+        { field: 'url', value: url }
+      );
+    }
+  }
+
+  private validateEventTypes(eventTypes: string[]): void {
+    if (eventTypes.length === 0) {
+      throw new Err.ValidationError('Subscribe to at least one event type', { field: 'eventTypes' });
+    }
+    const unknown = eventTypes.filter(type => !WEBHOOK_EVENT_TYPES.some(known => known === type));
+    if (unknown.length > 0) {
+      throw new Err.ValidationError('Unknown event types', { field: 'eventTypes', value: unknown });
+    }
+  }
+
+  private validateSecret(secret: string): void {
+    if (secret.length < WEBHOOK_SECRET_MIN_LENGTH || secret.length > WEBHOOK_SECRET_MAX_LENGTH) {
+      throw new Err.ValidationError(
+        `Webhook secret must be ${WEBHOOK_SECRET_MIN_LENGTH} to ${WEBHOOK_SECRET_MAX_LENGTH} characters`,
+        { field: 'secret' }
+      );
+    }
+  }
+}
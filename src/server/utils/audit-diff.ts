@@ -0,0 +1,62 @@
+/**
+ * Audit diff helpers
+ * Audit entries store only what changed: the changed fields' values before and after.
+ */
+
+export type AuditDiffSnapshot = Record<string, unknown>;
+
+export interface AuditDiff {
+  before: AuditDiffSnapshot | null;
+  after: AuditDiffSnapshot | null;
+}
+
+// Bumped on every write, so it says nothing about what changed
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+/**
+ * JSON-safe copy of a value as a field map; dates become ISO strings
+ * Values that are not objects are stored under `value`
+ */
+function toSnapshot(value: unknown): AuditDiffSnapshot | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const json: unknown = JSON.parse(JSON.stringify(value));
+  if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+    return json as AuditDiffSnapshot;
+  }
+  return { value: json };
+}
+
+/**
+ * Changed fields between two states of an entity
+ * A missing state (creation or deletion) keeps the whole other state
+ *
+ * @example
+ * ```typescript
+ * diffSnapshots({ title: 'a', completed: false }, { title: 'a', completed: true });
+ * // { before: { completed: false }, after: { completed: true } }
+ * ```
+ */
+export function diffSnapshots(before: unknown, after: unknown): AuditDiff {
+  const beforeSnapshot = toSnapshot(before);
+  const afterSnapshot = toSnapshot(after);
+
+  if (!beforeSnapshot || !afterSnapshot) {
+    return { before: beforeSnapshot, after: afterSnapshot };
+  }
+
+  const changedBefore: AuditDiffSnapshot = {};
+  const changedAfter: AuditDiffSnapshot = {};
+  for (const field of new Set([...Object.keys(beforeSnapshot), ...Object.keys(afterSnapshot)])) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    if (JSON.stringify(beforeSnapshot[field]) !== JSON.stringify(afterSnapshot[field])) {
+      changedBefore[field] = beforeSnapshot[field] ?? null;
+      changedAfter[field] = afterSnapshot[field] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
@@ -0,0 +1,48 @@
+/**
+ * Date range helpers for calendar-day based queries
+ * The server has no notion of the user's timezone, so callers pass the client's
+ * `Date.prototype.getTimezoneOffset()` value (minutes, UTC minus local time).
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface DateRange {
+  /** Inclusive start of the range */
+  from: Date;
+  /** Exclusive end of the range */
+  to: Date;
+}
+
+/**
+ * Returns the start of the calendar day containing `now` in the client's timezone
+ *
+ * @example
+ * ```typescript
+ * // 2025-01-15T03:00:00Z seen from UTC+7 (offset -420) is 10:00 local time
+ * startOfDay(new Date('2025-01-15T03:00:00Z'), -420); // 2025-01-14T17:00:00Z
+ * ```
+ */
+export function startOfDay(now: Date, timezoneOffset = 0): Date {
+  const localMs = now.getTime() - timezoneOffset * MINUTE_MS;
+  const localStartMs = Math.floor(localMs / DAY_MS) * DAY_MS;
+  return new Date(localStartMs + timezoneOffset * MINUTE_MS);
+}
+
+/**
+ * Returns the range covering `days` whole calendar days, starting `startInDays`
+ * days after the day containing `now`
+ *
+ * @example
+ * ```typescript
+ * getDayRange(now, offset);        // today
+ * getDayRange(now, offset, 7, 1);  // the next 7 days, excluding today
+ * ```
+ */
+export function getDayRange(now: Date, timezoneOffset = 0, days = 1, startInDays = 0): DateRange {
+  const from = new Date(startOfDay(now, timezoneOffset).getTime() + startInDays * DAY_MS);
+  return {
+    from,
+    to: new Date(from.getTime() + days * DAY_MS),
+  };
+}
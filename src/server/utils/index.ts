@@ -2,4 +2,7 @@
  * Utility functions and helpers
  */
 
-export * from './retry';
\ No newline at end of file
+export * from './retry';
+export * from './date-range';
+export * from './search-query';
+export * from './audit-diff';
@@ -18,6 +18,20 @@ export interface RetryResult<T> {
   totalDuration: number;
 }
 
+/**
+ * Delay before retry number `attempt` (0 for the first retry): the initial delay, doubled per retry
+ * Shared by in-process retries and the ones the outbox and job queue schedule for later
+ *
+ * @example
+ * ```typescript
+ * getBackoffDelay(100, 0); // 100
+ * getBackoffDelay(100, 3); // 800
+ * ```
+ */
+export function getBackoffDelay(initialDelay: number, attempt: number): number {
+  return initialDelay * Math.pow(2, attempt);
+}
+
 /**
  * Executes an operation with exponential backoff retry logic
  * 
@@ -65,7 +79,7 @@ export async function retryWithBackoff<T>(
       }
       
       // Calculate delay with exponential backoff
-      const delay = options.initialDelay * Math.pow(2, attempt);
+      const delay = getBackoffDelay(options.initialDelay, attempt);
       
       console.warn(`Retry operation failed on attempt ${attempts}/${options.maxRetries + 1}. Retrying in ${delay}ms. Error:`, lastError.message);
       
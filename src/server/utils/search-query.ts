@@ -0,0 +1,47 @@
+/**
+ * Search query helpers for PostgreSQL full-text search
+ * User input is never passed to `to_tsquery` as-is: it is reduced to plain
+ * lexemes so that operators and punctuation cannot produce a syntax error.
+ */
+
+/**
+ * Lower-cased words of a piece of text; anything but letters and digits separates words
+ */
+function toLexemes(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Converts free-form search input into a `to_tsquery` expression, or null when nothing is searchable
+ * - Bare words match as prefixes (`plan` finds "planning")
+ * - Quoted phrases match the words next to each other, in order
+ * - All terms must match
+ *
+ * @example
+ * ```typescript
+ * toTsQuery('groc list');            // 'groc:* & list:*'
+ * toTsQuery('"weekly report" draft'); // '(weekly <-> report) & draft:*'
+ * toTsQuery('!!');                    // null
+ * ```
+ */
+export function toTsQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const [, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      const lexemes = toLexemes(phrase);
+      if (lexemes.length === 1) {
+        terms.push(lexemes[0]!);
+      } else if (lexemes.length > 1) {
+        terms.push(`(${lexemes.join(' <-> ')})`);
+      }
+    } else if (word !== undefined) {
+      // An unmatched quote or punctuation ("e-mail") can split a word into several prefixes
+      terms.push(...toLexemes(word).map(lexeme => `${lexeme}:*`));
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' & ') : null;
+}